@@ -0,0 +1,45 @@
+import esbuild from 'esbuild';
+import { spawnSync } from 'node:child_process';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { builtinModules } from 'node:module';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+
+// Bundles tests/**/*.test.ts with esbuild and runs them with the Node test runner.
+// "obsidian" has no runtime code outside the app, so it is aliased to a stub.
+
+const rootDir = process.cwd();
+const testsDir = path.join(rootDir, 'tests');
+const entryPoints = (await readdir(testsDir, { recursive: true }))
+	.filter((file) => file.endsWith('.test.ts'))
+	.map((file) => path.join(testsDir, file));
+
+if (entryPoints.length === 0) {
+	console.error(`No tests found in ${testsDir}`);
+	process.exit(1);
+}
+
+const outDir = await mkdtemp(path.join(os.tmpdir(), 'task-todoist-tests-'));
+try {
+	const result = await esbuild.build({
+		entryPoints,
+		outdir: outDir,
+		outbase: testsDir,
+		outExtension: { '.js': '.cjs' },
+		bundle: true,
+		platform: 'node',
+		format: 'cjs',
+		target: 'node18',
+		sourcemap: 'inline',
+		alias: { obsidian: path.join(testsDir, 'support', 'obsidian.ts') },
+		external: [...builtinModules, ...builtinModules.map((name) => `node:${name}`)],
+		metafile: true,
+		logLevel: 'warning',
+	});
+	const outputs = Object.keys(result.metafile.outputs).map((file) => path.resolve(rootDir, file));
+	const run = spawnSync(process.execPath, ['--enable-source-maps', '--test', ...process.argv.slice(2), ...outputs], { stdio: 'inherit' });
+	process.exitCode = run.status ?? 1;
+} finally {
+	await rm(outDir, { recursive: true, force: true });
+}
@@ -0,0 +1,114 @@
+import { App, Modal, Setting } from 'obsidian';
+import type TaskTodoistPlugin from './main';
+import { formatCreatedDate } from './task-frontmatter';
+import { notify } from './notify';
+
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+export class CompletedBackfillModal extends Modal {
+	private readonly plugin: TaskTodoistPlugin;
+	private fromDate: string;
+	private toDate: string;
+	private projectNames = '';
+	private running = false;
+
+	constructor(app: App, plugin: TaskTodoistPlugin) {
+		super(app);
+		this.plugin = plugin;
+		const today = new Date();
+		const monthAgo = new Date(today.getFullYear(), today.getMonth() - 1, today.getDate());
+		this.fromDate = formatCreatedDate(monthAgo);
+		this.toDate = formatCreatedDate(today);
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.setTitle('Import completed tasks');
+
+		contentEl.createDiv({
+			cls: 'task-todoist-parse-hint',
+			text: 'Creates done task notes for tasks completed in todoist within the date range. Tasks that already have a note are skipped.',
+		});
+
+		new Setting(contentEl)
+			.setName('From')
+			.setDesc('First completion date to include.')
+			.addText((text) => {
+				text.setValue(this.fromDate).onChange((value) => {
+					this.fromDate = value.trim();
+				});
+				text.inputEl.type = 'date';
+			});
+
+		new Setting(contentEl)
+			.setName('To')
+			.setDesc('Last completion date to include.')
+			.addText((text) => {
+				text.setValue(this.toDate).onChange((value) => {
+					this.toDate = value.trim();
+				});
+				text.inputEl.type = 'date';
+			});
+
+		new Setting(contentEl)
+			.setName('Projects')
+			.setDesc('Optional comma-separated project names. Leave empty to include all projects.')
+			.addText((text) => {
+				text
+					.setPlaceholder('Work, personal')
+					.setValue(this.projectNames)
+					.onChange((value) => {
+						this.projectNames = value;
+					});
+				text.inputEl.size = 28;
+			});
+
+		new Setting(contentEl)
+			.addButton((button) => {
+				button
+					.setButtonText('Import')
+					.setCta()
+					.onClick(async () => {
+						if (this.running) return;
+						this.running = true;
+						button.setDisabled(true);
+						try {
+							await this.handleImport();
+						} finally {
+							this.running = false;
+							button.setDisabled(false);
+						}
+					});
+			})
+			.addButton((button) => {
+				button.setButtonText('Cancel').onClick(() => this.close());
+			});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private async handleImport(): Promise<void> {
+		if (!ISO_DATE_REGEX.test(this.fromDate) || !ISO_DATE_REGEX.test(this.toDate)) {
+			notify(this.plugin.settings, 'Enter both dates as YYYY-MM-DD.', 5000);
+			return;
+		}
+		// Whole local days: from the start of the first to the end of the last
+		const since = new Date(`${this.fromDate}T00:00:00`);
+		const until = new Date(`${this.toDate}T23:59:59`);
+		if (since > until) {
+			notify(this.plugin.settings, 'The start date must not be after the end date.', 5000);
+			return;
+		}
+		const projectNames = this.projectNames.split(',').map((name) => name.trim()).filter(Boolean);
+		notify(this.plugin.settings, 'Importing completed tasks…', 3000);
+		const result = await this.plugin.backfillCompletedTasks(since, until, projectNames);
+		const prefix = result.ok ? 'Success:' : 'Failed:';
+		notify(this.plugin.settings, `${prefix} ${result.message}`, 8000);
+		if (result.ok) {
+			this.close();
+		}
+	}
+}
@@ -1,7 +1,7 @@
-import { AbstractInputSuggest, App, Modal, Setting, TFile, TextComponent, normalizePath } from 'obsidian';
+import { AbstractInputSuggest, App, Modal, Setting, TFile, TextComponent, getLanguage, normalizePath } from 'obsidian';
 import type TaskTodoistPlugin from './main';
-import { formatDueForDisplay, parseInlineTaskDirectives } from './task-directives';
-import type { TodoistProject, TodoistSection } from './todoist-client';
+import { formatDueForDisplay, parseInlineTaskDirectives, type ParsedTaskDirectives } from './task-directives';
+import type { TodoistCollaborator, TodoistProject, TodoistSection } from './todoist-client';
 import { getTaskTitle, getPropNames } from './task-frontmatter';
 import { notify } from './notify';
 
@@ -18,6 +18,7 @@ export class CreateTaskModal extends Modal {
 	private todoistDueDate = '';
 	private todoistRecurrence = '';
 	private todoistPriority = 1;
+	private todoistAssignee = '';
 	private todoistSync = true;
 	private parsedHintEl: HTMLDivElement | null = null;
 	private dueDateInput: TextComponent | null = null;
@@ -31,12 +32,15 @@ export class CreateTaskModal extends Modal {
 	private projectSuggest: ModalInputSuggest | null = null;
 	private sectionSuggest: ModalInputSuggest | null = null;
 	private parentTaskSuggest: ModalInputSuggest | null = null;
+	private assigneeInput: TextComponent | null = null;
+	private assigneeSuggest: ModalInputSuggest | null = null;
 	private projectInputContainerEl: HTMLElement | null = null;
 	private projectLockIndicatorEl: HTMLSpanElement | null = null;
 	private projectLookupNoticeEl: HTMLDivElement | null = null;
 	private parentConstraintNoticeEl: HTMLDivElement | null = null;
 	private todoistProjects: TodoistProject[] = [];
 	private todoistSections: TodoistSection[] = [];
+	private todoistCollaborators: TodoistCollaborator[] = [];
 	private parentTaskLookup = new Map<string, ParentTaskLookupEntry>();
 	private parentTaskLookupByLink = new Map<string, ParentTaskLookupEntry>();
 
@@ -203,6 +207,21 @@ export class CreateTaskModal extends Modal {
 					});
 			});
 
+		new Setting(contentEl)
+			.setName('Assignee')
+			.setDesc('Optional collaborator to assign the task to in a shared project.')
+			.addText((text) => {
+				this.assigneeInput = text;
+				text.inputEl.addClass('task-todoist-lookup-input');
+				text
+					.setPlaceholder('Collaborator name')
+					.setValue(this.todoistAssignee)
+					.onChange((value) => {
+						this.todoistAssignee = value;
+					});
+				text.inputEl.size = 28;
+			});
+
 		new Setting(contentEl)
 			.setName('Sync with todoist')
 			.setDesc('Marks this task note as eligible for todoist sync.')
@@ -243,6 +262,8 @@ export class CreateTaskModal extends Modal {
 		this.projectSuggest = null;
 		this.sectionSuggest = null;
 		this.parentTaskSuggest = null;
+		this.assigneeInput = null;
+		this.assigneeSuggest = null;
 		this.projectLookupNoticeEl = null;
 		this.parentConstraintNoticeEl = null;
 		this.parentTaskLookup.clear();
@@ -253,25 +274,40 @@ export class CreateTaskModal extends Modal {
 	private async handleCreate(): Promise<void> {
 		const dueOverride = this.todoistDueDate.trim();
 		const recurrenceOverride = this.todoistRecurrence.trim();
-		const parsed = parseInlineTaskDirectives(this.title);
+		const parsed = this.parseTitle();
 		const finalTitle = parsed.title.trim();
 		const finalDueDate = dueOverride || (parsed.dueRaw?.trim() ?? '');
 		const finalRecurrence = recurrenceOverride || parsed.recurrenceRaw?.trim() || '';
-		const parentEntry = this.findParentTaskEntry(this.parentTaskLink);
-		const enforcedProjectId = parentEntry?.projectId ?? this.todoistProjectId;
-		const enforcedProjectName = parentEntry?.projectName ?? this.todoistProjectName;
-		const enforcedSectionId = this.todoistSectionId;
-		const enforcedSectionName = this.todoistSectionName;
+		const finalDeadline = parsed.deadlineRaw?.trim() ?? '';
+		// Fields filled in by hand win over quick-add tokens in the title
+		const projectName = this.todoistProjectName.trim() || parsed.projectName || '';
+		const sectionName = this.todoistSectionName.trim() || parsed.sectionName || '';
+		const parentTaskLink = this.parentTaskLink.trim() || (parsed.parentTask ? this.resolveParsedParentTask(parsed.parentTask) : '');
+		const parentEntry = this.findParentTaskEntry(parentTaskLink ?? '');
+		const enforcedProjectId = parentEntry?.projectId ?? (this.todoistProjectId || this.resolveProjectId(projectName));
+		const enforcedProjectName = parentEntry?.projectName ?? projectName;
+		const enforcedSectionId = this.todoistSectionName.trim() ? this.todoistSectionId : '';
+		const enforcedSectionName = sectionName;
+		const priority = this.todoistPriority !== 1 ? this.todoistPriority : (parsed.priority ?? 1);
+		const assignee = this.todoistAssignee.trim() || parsed.assignee || '';
 
 		if (!finalTitle) {
 			notify(this.plugin.settings, 'Task title is required.', 4000);
 			return;
 		}
+		if (parsed.errors) {
+			notify(this.plugin.settings, parsed.errors.join(' '), 6000);
+			return;
+		}
+		if (parentTaskLink === null) {
+			notify(this.plugin.settings, `Parent task "${parsed.parentTask}" not found.`, 6000);
+			return;
+		}
 
 		const createdFile = await this.plugin.createTaskNote({
 			title: finalTitle,
 			description: this.description,
-			parentTaskLink: this.parentTaskLink,
+			parentTaskLink,
 			todoistSync: this.todoistSync,
 			todoistProjectId: enforcedProjectId,
 			todoistProjectName: enforcedProjectName,
@@ -279,7 +315,13 @@ export class CreateTaskModal extends Modal {
 			todoistSectionName: enforcedSectionName,
 			todoistDueDate: finalDueDate,
 			todoistDueString: finalRecurrence,
-			todoistPriority: this.todoistPriority,
+			todoistDeadlineDate: finalDeadline,
+			todoistDuration: parsed.duration,
+			todoistPriority: priority,
+			todoistLabels: parsed.labels,
+			todoistAssignee: assignee,
+			// Left empty when the name is not a known collaborator; sync resolves it then
+			todoistAssigneeId: this.resolveAssigneeId(assignee),
 		});
 		const parsedSummary = finalRecurrence
 			? ` • Parsed recurrence: ${finalRecurrence}`
@@ -305,22 +347,41 @@ export class CreateTaskModal extends Modal {
 			return;
 		}
 
-		const parsed = parseInlineTaskDirectives(this.title);
+		const parsed = this.parseTitle();
+		const detected: string[] = [];
 		if (parsed.recurrenceRaw?.trim()) {
-			const dueBit = parsed.dueRaw?.trim() ? `, first due -> ${formatDueForDisplay(parsed.dueRaw.trim())}` : '';
-			this.parsedHintEl.setText(`Detected from title: recurrence -> ${parsed.recurrenceRaw.trim()}${dueBit}`);
-			return;
+			detected.push(`recurrence -> ${parsed.recurrenceRaw.trim()}`);
 		}
 		if (parsed.dueRaw?.trim()) {
-			this.parsedHintEl.setText(`Detected from title: due -> ${formatDueForDisplay(parsed.dueRaw.trim())}`);
-			return;
+			detected.push(`${parsed.recurrenceRaw?.trim() ? 'first due' : 'due'} -> ${formatDueForDisplay(parsed.dueRaw.trim())}`);
+		}
+		detected.push(...describeQuickAddTokens(parsed));
+		const problems = [...(parsed.errors ?? [])];
+		if (parsed.parentTask && !this.parentTaskLink.trim() && this.resolveParsedParentTask(parsed.parentTask) === null) {
+			problems.push(`Parent task "${parsed.parentTask}" not found.`);
 		}
+		const summary = detected.length > 0
+			? `Detected from title: ${detected.join(', ')}`
+			: 'No natural date detected from title.';
+		this.parsedHintEl.setText(problems.length > 0 ? `${problems.join(' ')} ${summary}` : summary);
+		this.parsedHintEl.toggleClass('task-todoist-parse-error', problems.length > 0);
+	}
+
+	/** Link to the parent named by a `parent::` directive, or null when no task note has that name. */
+	private resolveParsedParentTask(name: string): string | null {
+		return this.parentTaskLookup.get(name.trim().toLowerCase())?.link
+			?? this.plugin.resolveParentTaskLink(name, this.app.workspace.getActiveFile()?.path ?? '');
+	}
 
-		this.parsedHintEl.setText('No natural date detected from title.');
+	private parseTitle(): ParsedTaskDirectives {
+		return parseInlineTaskDirectives(this.title, {
+			locale: getLanguage(),
+			projectNames: this.todoistProjects.map((project) => project.name),
+		});
 	}
 
 	private applyParsedFieldSuggestions(): void {
-		const parsed = parseInlineTaskDirectives(this.title);
+		const parsed = this.parseTitle();
 		const parsedRecurrence = parsed.recurrenceRaw?.trim() ?? '';
 		const parsedDueDate = parsed.dueRaw?.trim() ?? '';
 
@@ -364,6 +425,7 @@ export class CreateTaskModal extends Modal {
 			const lookup = await this.plugin.getTodoistProjectSectionLookup();
 			this.todoistProjects = lookup.projects;
 			this.todoistSections = lookup.sections;
+			this.todoistCollaborators = lookup.collaborators;
 			this.todoistProjectId = this.resolveProjectId(this.todoistProjectName);
 			this.todoistSectionId = this.resolveSectionId(this.todoistSectionName);
 			if (this.projectLookupNoticeEl) {
@@ -374,6 +436,8 @@ export class CreateTaskModal extends Modal {
 				}
 			}
 			this.refreshSuggesters();
+			// #Project tokens in the title can only be recognised now
+			this.renderParsedHint();
 		} catch (error) {
 				if (this.projectLookupNoticeEl) {
 					this.projectLookupNoticeEl.setText('Could not load todoist projects. Manual entry is still available.');
@@ -404,6 +468,18 @@ export class CreateTaskModal extends Modal {
 		return section?.id ?? '';
 	}
 
+	private resolveAssigneeId(assignee: string): string {
+		const normalized = assignee.trim().toLowerCase();
+		if (!normalized) {
+			return '';
+		}
+		const collaborator = this.todoistCollaborators.find((candidate) =>
+			candidate.full_name.trim().toLowerCase() === normalized
+			|| candidate.email?.trim().toLowerCase() === normalized
+		);
+		return collaborator?.id ?? '';
+	}
+
 	private initializeInputSuggesters(): void {
 		if (this.projectInput && !this.projectSuggest) {
 			this.projectSuggest = new ModalInputSuggest(
@@ -437,12 +513,21 @@ export class CreateTaskModal extends Modal {
 				100,
 			);
 		}
+		if (this.assigneeInput && !this.assigneeSuggest) {
+			this.assigneeSuggest = new ModalInputSuggest(
+				this.app,
+				this.assigneeInput.inputEl,
+				() => this.todoistCollaborators.map((collaborator) => collaborator.full_name),
+				30,
+			);
+		}
 	}
 
 	private refreshSuggesters(): void {
 		this.projectSuggest?.rebuild();
 		this.sectionSuggest?.rebuild();
 		this.parentTaskSuggest?.rebuild();
+		this.assigneeSuggest?.rebuild();
 	}
 
 	private async loadParentTaskLookup(): Promise<void> {
@@ -607,3 +692,17 @@ class ModalInputSuggest extends AbstractInputSuggest<string> {
 		this.close();
 	}
 }
+
+/** Summary of the quick-add tokens found in a title, for the parsed hint. */
+function describeQuickAddTokens(parsed: ParsedTaskDirectives): string[] {
+	const parts: string[] = [];
+	if (parsed.deadlineRaw) parts.push(`deadline -> ${formatDueForDisplay(parsed.deadlineRaw)}`);
+	if (parsed.projectName) parts.push(`project -> ${parsed.projectName}`);
+	if (parsed.sectionName) parts.push(`section -> ${parsed.sectionName}`);
+	if (parsed.labels?.length) parts.push(`labels -> ${parsed.labels.join(', ')}`);
+	if (parsed.priority !== undefined) parts.push(`priority -> p${5 - parsed.priority}`);
+	if (parsed.assignee) parts.push(`assignee -> ${parsed.assignee}`);
+	if (parsed.duration !== undefined) parts.push(`duration -> ${parsed.duration} min`);
+	if (parsed.parentTask) parts.push(`parent -> ${parsed.parentTask}`);
+	return parts;
+}
@@ -0,0 +1,743 @@
+/** A point in time named by a date phrase. */
+export interface DatePoint {
+	/** Calendar date, YYYY-MM-DD. */
+	date: string;
+	/**
+	 * Date and time when the phrase names a time: floating local time
+	 * (YYYY-MM-DDTHH:MM:SS), or UTC with a trailing Z when it names a time zone.
+	 */
+	datetime?: string;
+}
+
+export interface DateExpression extends DatePoint {
+	/** Time zone named by the phrase: an IANA name or "UTC±HH:MM". */
+	timezone?: string;
+	/** Last day of a range such as "mon to fri" or "5-8 march". */
+	end?: DatePoint;
+}
+
+export interface DateParseOptions {
+	/** Reference time for relative phrases; defaults to now. */
+	now?: Date;
+	/** App language code ("en", "pt-BR", …). English phrases are always understood. */
+	locale?: string;
+}
+
+interface Vocabulary {
+	/** Multi-word phrases, accent-free, replaced before single words. */
+	phrases: Array<[string, string]>;
+	/** Single words; an empty translation drops a filler word. */
+	words: Record<string, string>;
+	/** Words that may introduce a trailing date ("on friday") and are dropped with it. */
+	connectors: string[];
+}
+
+const ENGLISH: Vocabulary = {
+	phrases: [],
+	words: { tmr: 'tomorrow', tmrw: 'tomorrow', tod: 'today', eow: 'end of week', eom: 'end of month', eoy: 'end of year' },
+	connectors: ['on', 'by', 'due', 'from'],
+};
+
+const VOCABULARIES: Record<string, Vocabulary> = {
+	pt: {
+		phrases: [
+			['depois de amanha', 'day after tomorrow'],
+			['hoje a noite', 'tonight'],
+			['esta noite', 'tonight'],
+			['semana que vem', 'next week'],
+			['proxima semana', 'next week'],
+			['mes que vem', 'next month'],
+			['proximo mes', 'next month'],
+			['ano que vem', 'next year'],
+			['proximo ano', 'next year'],
+			['fim de semana', 'weekend'],
+			['fim da semana', 'end of week'],
+			['fim do mes', 'end of month'],
+			['final do mes', 'end of month'],
+			['fim do ano', 'end of year'],
+			['de manha', 'morning'],
+			['a tarde', 'afternoon'],
+			['de tarde', 'afternoon'],
+			['a noite', 'evening'],
+			['de noite', 'evening'],
+			['meio-dia', 'noon'],
+			['meia-noite', 'midnight'],
+		],
+		words: {
+			hoje: 'today', amanha: 'tomorrow', ontem: 'yesterday',
+			proxima: 'next', proximo: 'next', esta: 'this', este: 'this', nesta: 'this', neste: 'this',
+			em: 'in', daqui: 'in', dia: 'days', dias: 'days', semana: 'weeks', semanas: 'weeks',
+			mes: 'months', meses: 'months', ano: 'years', anos: 'years', hora: 'hours', horas: 'hours', minutos: 'minutes',
+			as: 'at', ate: 'to', de: '', do: '', da: '', o: '',
+			'segunda-feira': 'monday', segunda: 'monday', 'terca-feira': 'tuesday', terca: 'tuesday',
+			'quarta-feira': 'wednesday', quarta: 'wednesday', 'quinta-feira': 'thursday', quinta: 'thursday',
+			'sexta-feira': 'friday', sexta: 'friday', sabado: 'saturday', domingo: 'sunday',
+			janeiro: 'january', fevereiro: 'february', marco: 'march', abril: 'april', maio: 'may', junho: 'june',
+			julho: 'july', agosto: 'august', setembro: 'september', outubro: 'october', novembro: 'november', dezembro: 'december',
+		},
+		connectors: ['para', 'ate', 'no', 'na'],
+	},
+	es: {
+		phrases: [
+			['pasado manana', 'day after tomorrow'],
+			['esta noche', 'tonight'],
+			['semana que viene', 'next week'],
+			['proxima semana', 'next week'],
+			['mes que viene', 'next month'],
+			['proximo mes', 'next month'],
+			['ano que viene', 'next year'],
+			['fin de semana', 'weekend'],
+			['fin de mes', 'end of month'],
+			['fin del mes', 'end of month'],
+			['final de mes', 'end of month'],
+			['fin de ano', 'end of year'],
+			['por la manana', 'morning'],
+			['por la tarde', 'afternoon'],
+			['por la noche', 'evening'],
+			['a las', 'at'],
+			['a la', 'at'],
+		],
+		words: {
+			hoy: 'today', manana: 'tomorrow', ayer: 'yesterday',
+			proximo: 'next', proxima: 'next', siguiente: 'next', este: 'this', esta: 'this',
+			en: 'in', dia: 'days', dias: 'days', semana: 'weeks', semanas: 'weeks',
+			mes: 'months', meses: 'months', ano: 'years', anos: 'years', hora: 'hours', horas: 'hours', minutos: 'minutes',
+			mediodia: 'noon', medianoche: 'midnight', hasta: 'to', de: '', del: '', el: '', la: '',
+			lunes: 'monday', martes: 'tuesday', miercoles: 'wednesday', jueves: 'thursday',
+			viernes: 'friday', sabado: 'saturday', domingo: 'sunday',
+			enero: 'january', febrero: 'february', marzo: 'march', abril: 'april', mayo: 'may', junio: 'june', julio: 'july',
+			agosto: 'august', septiembre: 'september', setiembre: 'september', octubre: 'october', noviembre: 'november', diciembre: 'december',
+		},
+		connectors: ['el', 'para', 'hasta'],
+	},
+	fr: {
+		phrases: [
+			['apres-demain', 'day after tomorrow'],
+			['ce soir', 'tonight'],
+			['la semaine prochaine', 'next week'],
+			['semaine prochaine', 'next week'],
+			['le mois prochain', 'next month'],
+			['mois prochain', 'next month'],
+			["l'annee prochaine", 'next year'],
+			['fin de semaine', 'weekend'],
+			['le week-end', 'weekend'],
+			['fin du mois', 'end of month'],
+			['fin de mois', 'end of month'],
+			["fin de l'annee", 'end of year'],
+			['du matin', 'am'],
+			["de l'apres-midi", 'pm'],
+			['du soir', 'pm'],
+			["jusqu'au", 'to'],
+		],
+		words: {
+			"aujourd'hui": 'today', demain: 'tomorrow', hier: 'yesterday',
+			prochain: 'next', prochaine: 'next', ce: 'this', cette: 'this',
+			dans: 'in', jour: 'days', jours: 'days', semaine: 'weeks', semaines: 'weeks', mois: 'months',
+			an: 'years', ans: 'years', heure: 'hours', heures: 'hours', minutes: 'minutes',
+			a: 'at', midi: 'noon', minuit: 'midnight', matin: 'morning', soir: 'evening',
+			'week-end': 'weekend', le: '', la: '', du: '', de: '',
+			lundi: 'monday', mardi: 'tuesday', mercredi: 'wednesday', jeudi: 'thursday',
+			vendredi: 'friday', samedi: 'saturday', dimanche: 'sunday',
+			janvier: 'january', fevrier: 'february', mars: 'march', avril: 'april', mai: 'may', juin: 'june', juillet: 'july',
+			aout: 'august', septembre: 'september', octobre: 'october', novembre: 'november', decembre: 'december',
+		},
+		connectors: ['le', 'pour', 'avant'],
+	},
+	de: {
+		phrases: [
+			['heute abend', 'tonight'],
+			['nachste woche', 'next week'],
+			['kommende woche', 'next week'],
+			['nachsten monat', 'next month'],
+			['nachstes jahr', 'next year'],
+			['ende der woche', 'end of week'],
+			['ende des monats', 'end of month'],
+			['ende des jahres', 'end of year'],
+		],
+		words: {
+			heute: 'today', morgen: 'tomorrow', ubermorgen: 'day after tomorrow', gestern: 'yesterday',
+			nachste: 'next', nachsten: 'next', nachster: 'next', kommenden: 'next', kommende: 'next', diese: 'this', diesen: 'this',
+			in: 'in', tag: 'days', tage: 'days', tagen: 'days', woche: 'weeks', wochen: 'weeks',
+			monat: 'months', monaten: 'months', jahr: 'years', jahren: 'years', stunde: 'hours', stunden: 'hours', minuten: 'minutes',
+			um: 'at', uhr: '', bis: 'to', mittag: 'noon', mitternacht: 'midnight', morgens: 'morning', nachmittags: 'afternoon',
+			abends: 'evening', wochenende: 'weekend', monatsende: 'end of month', jahresende: 'end of year', den: '',
+			montag: 'monday', dienstag: 'tuesday', mittwoch: 'wednesday', donnerstag: 'thursday',
+			freitag: 'friday', samstag: 'saturday', sonnabend: 'saturday', sonntag: 'sunday',
+			januar: 'january', februar: 'february', marz: 'march', april: 'april', mai: 'may', juni: 'june', juli: 'july',
+			august: 'august', september: 'september', oktober: 'october', november: 'november', dezember: 'december',
+		},
+		connectors: ['am', 'bis', 'zum'],
+	},
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+// Hours Todoist gives to the parts of the day, for dates and recurrences alike
+export const TIMES_OF_DAY: Record<string, number> = { morning: 9, afternoon: 12, evening: 19, night: 22 };
+const RANGE_WORDS = new Set(['to', 'until', 'through', 'till', '-', '–']);
+
+/**
+ * Parses a date phrase in Todoist's style — "tomorrow at 3pm", "next week",
+ * "end of month", "in 2 hours", "12 march", "2026-10-20T15:00Z", "mon to fri" —
+ * into a date, plus a datetime when the phrase names a time and a time zone when
+ * it names one. Phrases in the app language (Portuguese, Spanish, French and
+ * German so far) are understood too, and decide whether "3/4" is March 4 or
+ * April 3. Returns null when the whole text is not a date phrase.
+ */
+export function parseDateExpression(text: string, options: DateParseOptions = {}): DateExpression | null {
+	const vocabulary = vocabularyFor(options.locale);
+	const words = text.trim().split(/\s+/);
+	// "on friday" reads as "friday"
+	const skip = words.length > 1 && isConnector(normalizeWord(words[0] ?? ''), vocabulary) ? 1 : 0;
+	const tokens = translate(words.slice(skip).join(' '), vocabulary);
+	if (tokens.length === 0) {
+		return null;
+	}
+	return parseTokens(tokens, options.now ?? new Date(), dayFirstFor(options.locale));
+}
+
+/**
+ * Finds the longest date phrase at the end of a task title, e.g. "Pay rent on
+ * friday at 9am" → "Pay rent" due friday 09:00. A connector before the phrase
+ * ("on", "by") is dropped with it. Returns null when the title has no trailing
+ * date or nothing would be left of it.
+ */
+export function findTrailingDateExpression(
+	title: string,
+	options: DateParseOptions = {},
+): { title: string; expression: DateExpression } | null {
+	const words = title.replace(/\s+/g, ' ').trim().split(' ');
+	const vocabulary = vocabularyFor(options.locale);
+	const now = options.now ?? new Date();
+	const dayFirst = dayFirstFor(options.locale);
+	for (let start = 1; start < words.length; start += 1) {
+		const first = normalizeWord(words[start] ?? '');
+		const skip = isConnector(first, vocabulary) && start + 1 < words.length ? 1 : 0;
+		// A filler word ("de") cannot start a phrase; the next position will
+		if (skip === 0 && isFiller(first, vocabulary)) {
+			continue;
+		}
+		const tokens = translate(words.slice(start + skip).join(' '), vocabulary);
+		const expression = tokens.length > 0 ? parseTokens(tokens, now, dayFirst) : null;
+		if (expression) {
+			return { title: words.slice(0, start).join(' '), expression };
+		}
+	}
+	return null;
+}
+
+/** The value written to the due date property: the datetime when there is one, else the date. */
+export function formatDateExpressionDue(point: DatePoint): string {
+	return point.datetime ?? point.date;
+}
+
+// --- Tokens -------------------------------------------------------------------
+
+function vocabularyFor(locale: string | undefined): Vocabulary | null {
+	const language = (locale ?? 'en').toLowerCase().split(/[-_]/)[0] ?? 'en';
+	return VOCABULARIES[language] ?? null;
+}
+
+// Numeric dates read day first everywhere but in US English
+function dayFirstFor(locale: string | undefined): boolean {
+	const normalized = (locale ?? 'en').toLowerCase().replace('_', '-');
+	return normalized !== 'en' && normalized !== 'en-us';
+}
+
+function normalizeWord(word: string): string {
+	return word.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/’/g, "'");
+}
+
+function isFiller(word: string, vocabulary: Vocabulary | null): boolean {
+	return vocabulary?.words[word] === '';
+}
+
+function isConnector(word: string, vocabulary: Vocabulary | null): boolean {
+	return ENGLISH.connectors.includes(word) || Boolean(vocabulary?.connectors.includes(word));
+}
+
+/** Lowercases, strips accents and punctuation, and turns the app language's words into English ones. */
+function translate(text: string, vocabulary: Vocabulary | null): string[] {
+	let normalized = ` ${normalizeWord(text).replace(/[,;]/g, ' ').replace(/\s+/g, ' ').trim()} `;
+	for (const [phrase, english] of vocabulary?.phrases ?? []) {
+		normalized = normalized.split(` ${phrase} `).join(` ${english} `);
+	}
+	const tokens: string[] = [];
+	for (const raw of normalized.trim().split(' ')) {
+		// "5." (German ordinal) and "friday." lose the dot; "15.03." keeps its inner one
+		const word = raw.replace(/\.$/, '');
+		if (!word) continue;
+		const translated = vocabulary?.words[word] ?? ENGLISH.words[word] ?? word;
+		tokens.push(...translated.split(' ').filter(Boolean));
+	}
+	return tokens;
+}
+
+// --- Grammar ------------------------------------------------------------------
+
+interface PhraseParts {
+	date?: Date;
+	hour?: number;
+	minute?: number;
+	/** Set by relative times ("in 2 hours") that already name an exact instant. */
+	instant?: Date;
+	timezone?: string;
+}
+
+type Matcher = (tokens: string[], at: number, now: Date, dayFirst: boolean, parts: PhraseParts) => number;
+
+function parseTokens(tokens: string[], now: Date, dayFirst: boolean): DateExpression | null {
+	const compact = parseCompactRange(tokens, now);
+	if (compact) {
+		return compact;
+	}
+	const rangeAt = tokens.findIndex((token, index) => index > 0 && RANGE_WORDS.has(token));
+	if (rangeAt > 0) {
+		const startParts = parseParts(tokens.slice(0, rangeAt), now, dayFirst);
+		if (!startParts) {
+			return null;
+		}
+		const start = toExpression(startParts, now);
+		// The end is read from the start on, so "fri to mon" runs into the next week
+		const endNow = start.date > isoDate(now) ? parseLocalDate(start.date) : now;
+		const endParts = parseParts(tokens.slice(rangeAt + 1), endNow, dayFirst);
+		if (!endParts) {
+			return null;
+		}
+		const end = toExpression(endParts, endNow);
+		return { ...start, end: { date: end.date, ...(end.datetime ? { datetime: end.datetime } : {}) } };
+	}
+	const parts = parseParts(tokens, now, dayFirst);
+	return parts ? toExpression(parts, now) : null;
+}
+
+/** "5-8 march" and "march 5-8": a run of days in one month. */
+function parseCompactRange(tokens: string[], now: Date): DateExpression | null {
+	if (tokens.length < 2 || tokens.length > 3) {
+		return null;
+	}
+	const dayFirst = tokens[0]?.match(/^(\d{1,2})[-–](\d{1,2})$/);
+	const dayLast = tokens[1]?.match(/^(\d{1,2})[-–](\d{1,2})$/);
+	const days = dayFirst ?? dayLast;
+	const month = monthIndex((dayFirst ? tokens[1] : tokens[0]) ?? '');
+	const year = tokens[2] && /^\d{4}$/.test(tokens[2]) ? Number(tokens[2]) : null;
+	if (!days || month === null || (tokens.length === 3 && year === null)) {
+		return null;
+	}
+	const start = year === null ? nextMonthDay(now, month, Number(days[1])) : exactDate(year, month, Number(days[1]));
+	if (!start) {
+		return null;
+	}
+	const end = exactDate(start.getFullYear(), month, Number(days[2]));
+	if (!end || end < start) {
+		return null;
+	}
+	return { date: isoDate(start), end: { date: isoDate(end) } };
+}
+
+function parseParts(tokens: string[], now: Date, dayFirst: boolean): PhraseParts | null {
+	const parts: PhraseParts = {};
+	let at = tokens[0] === 'from' ? 1 : 0;
+	if (at >= tokens.length) {
+		return null;
+	}
+	while (at < tokens.length) {
+		let consumed = 0;
+		for (const matcher of MATCHERS) {
+			consumed = matcher(tokens, at, now, dayFirst, parts);
+			if (consumed > 0) break;
+		}
+		if (consumed === 0) {
+			return null;
+		}
+		at += consumed;
+	}
+	if (!parts.date && parts.hour === undefined && !parts.instant) {
+		return null;
+	}
+	return parts;
+}
+
+function toExpression(parts: PhraseParts, now: Date): DateExpression {
+	if (parts.instant) {
+		return { date: isoDate(parts.instant), datetime: isoDateTime(parts.instant) };
+	}
+	const date = parts.date ?? startOfDay(now);
+	if (parts.hour === undefined) {
+		return { date: isoDate(date), ...(parts.timezone ? { timezone: parts.timezone } : {}) };
+	}
+	const local = new Date(date.getFullYear(), date.getMonth(), date.getDate(), parts.hour, parts.minute ?? 0);
+	if (!parts.timezone) {
+		return { date: isoDate(local), datetime: isoDateTime(local) };
+	}
+	// The wall-clock time is in the named zone; Todoist takes it as UTC
+	const wallClockUtc = Date.UTC(local.getFullYear(), local.getMonth(), local.getDate(), parts.hour, parts.minute ?? 0);
+	const utc = new Date(wallClockUtc - zoneOffsetMinutes(parts.timezone, new Date(wallClockUtc)) * 60000);
+	return { date: isoDate(local), datetime: `${utc.toISOString().slice(0, 19)}Z`, timezone: parts.timezone };
+}
+
+const MATCHERS: Matcher[] = [
+	matchIsoDate,
+	matchNumericDate,
+	matchRelativeDay,
+	matchOffset,
+	matchCalendarRelative,
+	matchWeekday,
+	matchMonthDay,
+	matchOrdinalDay,
+	matchTime,
+	matchTimezone,
+];
+
+function setDate(parts: PhraseParts, date: Date | null): boolean {
+	if (!date || parts.date || parts.instant) {
+		return false;
+	}
+	parts.date = date;
+	return true;
+}
+
+function setTime(parts: PhraseParts, hour: number, minute: number): boolean {
+	if (hour < 0 || hour > 23 || minute < 0 || minute > 59 || parts.hour !== undefined || parts.instant) {
+		return false;
+	}
+	parts.hour = hour;
+	parts.minute = minute;
+	return true;
+}
+
+/** 2026-10-20, 2026-10-20t15:00, 2026-10-20t15:00:00z, 2026-10-20t15:00+01:00 */
+function matchIsoDate(tokens: string[], at: number, _now: Date, _dayFirst: boolean, parts: PhraseParts): number {
+	const match = tokens[at]?.match(/^(\d{4})-(\d{2})-(\d{2})(?:t(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(z|[+-]\d{2}:?\d{2})?)?$/);
+	if (!match || !setDate(parts, exactDate(Number(match[1]), Number(match[2]) - 1, Number(match[3])))) {
+		return 0;
+	}
+	if (match[4] !== undefined && !setTime(parts, Number(match[4]), Number(match[5]))) {
+		return 0;
+	}
+	if (match[6]) {
+		parts.timezone = zoneName(match[6]) ?? undefined;
+	}
+	return 1;
+}
+
+/** 3/4, 3/4/2027, 15.03., 15.03.2027 — day or month first by locale */
+function matchNumericDate(tokens: string[], at: number, now: Date, dayFirst: boolean, parts: PhraseParts): number {
+	const match = tokens[at]?.match(/^(\d{1,2})[./](\d{1,2})(?:[./](\d{2}|\d{4}))?\.?$/);
+	if (!match) {
+		return 0;
+	}
+	const day = Number(dayFirst ? match[1] : match[2]);
+	const month = Number(dayFirst ? match[2] : match[1]) - 1;
+	const rawYear = match[3];
+	const date = rawYear === undefined
+		? nextMonthDay(now, month, day)
+		: exactDate(rawYear.length === 2 ? 2000 + Number(rawYear) : Number(rawYear), month, day);
+	return setDate(parts, date) ? 1 : 0;
+}
+
+/** today, tomorrow, yesterday, day after tomorrow, tonight */
+function matchRelativeDay(tokens: string[], at: number, now: Date, _dayFirst: boolean, parts: PhraseParts): number {
+	const token = tokens[at];
+	if (token === 'day' && tokens[at + 1] === 'after' && tokens[at + 2] === 'tomorrow') {
+		return setDate(parts, addDays(now, 2)) ? 3 : 0;
+	}
+	if (token === 'tonight') {
+		if (!setDate(parts, startOfDay(now))) return 0;
+		if (parts.hour === undefined) {
+			parts.hour = TIMES_OF_DAY.evening;
+			parts.minute = 0;
+		}
+		return 1;
+	}
+	const offset = token === 'today' ? 0 : token === 'tomorrow' ? 1 : token === 'yesterday' ? -1 : null;
+	return offset !== null && setDate(parts, addDays(now, offset)) ? 1 : 0;
+}
+
+/** in 3 days, in a week, in 2 hours, 3 days from now, 2 weeks later */
+function matchOffset(tokens: string[], at: number, now: Date, _dayFirst: boolean, parts: PhraseParts): number {
+	const leading = tokens[at] === 'in';
+	const countAt = leading ? at + 1 : at;
+	const rawCount = tokens[countAt];
+	const count = rawCount === 'a' || rawCount === 'an' || rawCount === 'one' ? 1 : Number(rawCount);
+	const unit = unitOf(tokens[countAt + 1] ?? '');
+	if (!rawCount || !Number.isInteger(count) || count < 0 || !unit) {
+		return 0;
+	}
+	let consumed = countAt + 2 - at;
+	if (!leading) {
+		const trailing = tokens[at + 2] === 'from' && tokens[at + 3] === 'now' ? 2 : tokens[at + 2] === 'later' ? 1 : 0;
+		if (trailing === 0) return 0;
+		consumed += trailing;
+	}
+	if (unit === 'hour' || unit === 'minute') {
+		if (parts.date || parts.hour !== undefined || parts.instant) return 0;
+		parts.instant = new Date(now.getTime() + count * (unit === 'hour' ? 3600000 : 60000));
+		return consumed;
+	}
+	const date = unit === 'day' ? addDays(now, count)
+		: unit === 'week' ? addDays(now, count * 7)
+			: unit === 'month' ? addMonths(now, count)
+				: addMonths(now, count * 12);
+	return setDate(parts, date) ? consumed : 0;
+}
+
+/** next week, next month, next year, this/next weekend, end of week/month/year */
+function matchCalendarRelative(tokens: string[], at: number, now: Date, _dayFirst: boolean, parts: PhraseParts): number {
+	const first = tokens[at];
+	const second = tokens[at + 1];
+	const today = startOfDay(now);
+	if (first === 'next' || first === 'this') {
+		const next = first === 'next';
+		if (second === 'week' && next) return setDate(parts, addDays(startOfWeek(today), 7)) ? 2 : 0;
+		if (second === 'month' && next) return setDate(parts, new Date(today.getFullYear(), today.getMonth() + 1, 1)) ? 2 : 0;
+		if (second === 'year' && next) return setDate(parts, new Date(today.getFullYear() + 1, 0, 1)) ? 2 : 0;
+		if (second === 'weekend') {
+			const saturday = addDays(startOfWeek(today), 5);
+			return setDate(parts, next ? addDays(saturday, 7) : (today > saturday ? today : saturday)) ? 2 : 0;
+		}
+		return 0;
+	}
+	if (first === 'end' && tokens[at + 1] === 'of') {
+		const skip = tokens[at + 2] === 'the' ? 1 : 0;
+		const period = tokens[at + 2 + skip];
+		const date = period === 'week' ? addDays(startOfWeek(today), 6)
+			: period === 'month' ? new Date(today.getFullYear(), today.getMonth() + 1, 0)
+				: period === 'year' ? new Date(today.getFullYear(), 11, 31)
+					: null;
+		return setDate(parts, date) ? 3 + skip : 0;
+	}
+	return 0;
+}
+
+/** friday, this friday, next friday, friday next */
+function matchWeekday(tokens: string[], at: number, now: Date, _dayFirst: boolean, parts: PhraseParts): number {
+	const qualifier = tokens[at] === 'this' || tokens[at] === 'next' ? tokens[at] : null;
+	const weekday = weekdayIndex(tokens[qualifier ? at + 1 : at] ?? '');
+	if (weekday === null) {
+		return 0;
+	}
+	const nextAfter = !qualifier && tokens[at + 1] === 'next';
+	const kind = qualifier === 'next' || nextAfter ? 'next' : 'this';
+	const today = startOfDay(now);
+	const diff = (weekday - today.getDay() + 7) % 7;
+	return setDate(parts, addDays(today, kind === 'next' ? diff + 7 : diff)) ? (qualifier || nextAfter ? 2 : 1) : 0;
+}
+
+/** 12 march, 12th of march 2027, march 12, march 12th 2027 */
+function matchMonthDay(tokens: string[], at: number, now: Date, _dayFirst: boolean, parts: PhraseParts): number {
+	const dayBefore = dayOfMonth(tokens[at] ?? '');
+	const ofSkip = dayBefore !== null && tokens[at + 1] === 'of' ? 1 : 0;
+	let month: number | null;
+	let day: number | null;
+	let consumed: number;
+	if (dayBefore !== null && (month = monthIndex(tokens[at + 1 + ofSkip] ?? '')) !== null) {
+		day = dayBefore;
+		consumed = 2 + ofSkip;
+	} else if ((month = monthIndex(tokens[at] ?? '')) !== null && (day = dayOfMonth(tokens[at + 1] ?? '')) !== null) {
+		consumed = 2;
+	} else {
+		return 0;
+	}
+	const rawYear = tokens[at + consumed];
+	const year = rawYear && /^\d{4}$/.test(rawYear) ? Number(rawYear) : null;
+	const date = year === null ? nextMonthDay(now, month, day) : exactDate(year, month, day);
+	return setDate(parts, date) ? consumed + (year === null ? 0 : 1) : 0;
+}
+
+/** the 15th — the next 15th of a month */
+function matchOrdinalDay(tokens: string[], at: number, now: Date, _dayFirst: boolean, parts: PhraseParts): number {
+	const skip = tokens[at] === 'the' ? 1 : 0;
+	const match = tokens[at + skip]?.match(/^(\d{1,2})(?:st|nd|rd|th)$/);
+	if (!match) {
+		return 0;
+	}
+	const day = Number(match[1]);
+	const today = startOfDay(now);
+	for (let offset = 0; offset < 12; offset += 1) {
+		const month = new Date(today.getFullYear(), today.getMonth() + offset, 1);
+		const candidate = exactDate(month.getFullYear(), month.getMonth(), day);
+		if (candidate && candidate >= today) {
+			return setDate(parts, candidate) ? 1 + skip : 0;
+		}
+	}
+	return 0;
+}
+
+/** at 3pm, 3 pm, 15:00, 15h30, at 15, noon, midnight, tomorrow morning, in the evening */
+function matchTime(tokens: string[], at: number, _now: Date, _dayFirst: boolean, parts: PhraseParts): number {
+	const hasAt = tokens[at] === 'at';
+	const start = hasAt ? at + 1 : at;
+	const token = tokens[start] ?? '';
+	if (token === 'noon' || token === 'midday') return setTime(parts, 12, 0) ? start + 1 - at : 0;
+	if (token === 'midnight') return setTime(parts, 0, 0) ? start + 1 - at : 0;
+
+	// A bare time of day needs a date, "this" or "in the" beside it; on its own it is too often part of a title
+	const inThe = tokens[at] === 'in' && tokens[at + 1] === 'the';
+	const thisPart = tokens[at] === 'this';
+	const partAt = inThe ? at + 2 : thisPart ? at + 1 : at;
+	const part = TIMES_OF_DAY[tokens[partAt] ?? ''];
+	if (part !== undefined && (inThe || thisPart || parts.date)) {
+		return setTime(parts, part, 0) ? partAt + 1 - at : 0;
+	}
+
+	const clock = token.match(/^(\d{1,2})(?:[:h](\d{2})?)?(am|pm|a|p)?$/);
+	if (!clock) {
+		return 0;
+	}
+	let hour = Number(clock[1]);
+	const minute = Number(clock[2] ?? 0);
+	let meridiem = clock[3];
+	let consumed = start + 1 - at;
+	const nextToken = tokens[start + 1];
+	if (!meridiem && (nextToken === 'am' || nextToken === 'pm')) {
+		meridiem = nextToken;
+		consumed += 1;
+	}
+	// A bare number is only a time after "at" ("at 15"); "15" alone could be anything
+	if (!meridiem && !hasAt && !token.includes(':') && !token.includes('h')) {
+		return 0;
+	}
+	if (meridiem) {
+		if (hour < 1 || hour > 12) return 0;
+		hour = (hour % 12) + (meridiem.startsWith('p') ? 12 : 0);
+	}
+	return setTime(parts, hour, minute) ? consumed : 0;
+}
+
+/** utc, gmt, z, +01:00, utc-3, europe/lisbon */
+function matchTimezone(tokens: string[], at: number, _now: Date, _dayFirst: boolean, parts: PhraseParts): number {
+	if (parts.timezone) {
+		return 0;
+	}
+	const zone = zoneName(tokens[at] ?? '');
+	if (!zone) {
+		return 0;
+	}
+	parts.timezone = zone;
+	return 1;
+}
+
+// --- Calendar helpers ---------------------------------------------------------
+
+function unitOf(token: string): 'day' | 'week' | 'month' | 'year' | 'hour' | 'minute' | null {
+	if (/^days?$/.test(token)) return 'day';
+	if (/^(weeks?|wks?)$/.test(token)) return 'week';
+	if (/^months?$/.test(token)) return 'month';
+	if (/^(years?|yrs?)$/.test(token)) return 'year';
+	if (/^(hours?|hrs?|h)$/.test(token)) return 'hour';
+	if (/^(minutes?|mins?|m)$/.test(token)) return 'minute';
+	return null;
+}
+
+function weekdayIndex(token: string): number | null {
+	const index = token.length < 3 ? -1 : WEEKDAYS.findIndex((name) => name.startsWith(token));
+	return index >= 0 ? index : null;
+}
+
+function monthIndex(token: string): number | null {
+	const index = token.length < 3 ? -1 : MONTHS.findIndex((name) => name.startsWith(token));
+	return index >= 0 ? index : null;
+}
+
+function dayOfMonth(token: string): number | null {
+	const match = token.match(/^(\d{1,2})(?:st|nd|rd|th)?$/);
+	const day = match ? Number(match[1]) : NaN;
+	return day >= 1 && day <= 31 ? day : null;
+}
+
+function zoneName(token: string): string | null {
+	if (token === 'utc' || token === 'gmt' || token === 'z') {
+		return 'UTC';
+	}
+	const offset = token.match(/^(?:utc|gmt)?([+-])(\d{1,2})(?::?(\d{2}))?$/);
+	if (offset) {
+		const hours = Number(offset[2]);
+		const minutes = Number(offset[3] ?? 0);
+		if (hours > 14 || minutes > 59) return null;
+		return `UTC${offset[1]}${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+	}
+	if (!/^[a-z]+\/[a-z_]+(?:\/[a-z_]+)?$/.test(token)) {
+		return null;
+	}
+	try {
+		return new Intl.DateTimeFormat('en-US', { timeZone: token }).resolvedOptions().timeZone;
+	} catch {
+		return null;
+	}
+}
+
+/** Minutes the zone is ahead of UTC at the given instant. */
+function zoneOffsetMinutes(zone: string, at: Date): number {
+	const fixed = zone.match(/^UTC(?:([+-])(\d{2}):(\d{2}))?$/);
+	if (fixed) {
+		const minutes = Number(fixed[2] ?? 0) * 60 + Number(fixed[3] ?? 0);
+		return fixed[1] === '-' ? -minutes : minutes;
+	}
+	const parts = new Intl.DateTimeFormat('en-US', {
+		timeZone: zone,
+		hourCycle: 'h23',
+		year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric',
+	}).formatToParts(at);
+	const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+	const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'));
+	return Math.round((wallClock - at.getTime()) / 60000);
+}
+
+function startOfDay(date: Date): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/** Monday of the week the date falls in. */
+function startOfWeek(date: Date): Date {
+	return addDays(date, -((date.getDay() + 6) % 7));
+}
+
+function addDays(date: Date, days: number): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+// Clamps to the last day of a shorter month: jan 31 + 1 month is feb 28
+function addMonths(date: Date, months: number): Date {
+	const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+	const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+	return new Date(target.getFullYear(), target.getMonth(), Math.min(date.getDate(), lastDay));
+}
+
+/** The date, or null when the month is out of range or the day does not exist in it. */
+function exactDate(year: number, month: number, day: number): Date | null {
+	if (month < 0 || month > 11 || day < 1) {
+		return null;
+	}
+	const date = new Date(year, month, day);
+	return date.getFullYear() === year && date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+/** The next time the month and day come round, today included. */
+function nextMonthDay(now: Date, month: number, day: number): Date | null {
+	const today = startOfDay(now);
+	const thisYear = exactDate(today.getFullYear(), month, day);
+	if (thisYear && thisYear >= today) {
+		return thisYear;
+	}
+	return exactDate(today.getFullYear() + 1, month, day)
+		?? exactDate(today.getFullYear() + 4 - (today.getFullYear() % 4), month, day);
+}
+
+function parseLocalDate(iso: string): Date {
+	const [year, month, day] = iso.split('-').map(Number);
+	return new Date(year ?? 1970, (month ?? 1) - 1, day ?? 1);
+}
+
+function isoDate(date: Date): string {
+	const y = date.getFullYear();
+	const m = String(date.getMonth() + 1).padStart(2, '0');
+	const d = String(date.getDate()).padStart(2, '0');
+	return `${y}-${m}-${d}`;
+}
+
+function isoDateTime(date: Date): string {
+	const h = String(date.getHours()).padStart(2, '0');
+	const min = String(date.getMinutes()).padStart(2, '0');
+	return `${isoDate(date)}T${h}:${min}:00`;
+}
@@ -1,6 +1,7 @@
 import { RangeSetBuilder } from '@codemirror/state';
 import { Decoration, type DecorationSet, EditorView, ViewPlugin, type ViewUpdate, WidgetType } from '@codemirror/view';
 import type TaskTodoistPlugin from './main';
+import { hasSubtaskMarker } from './task-checklist';
 
 const UNCHECKED_TASK_LINE_REGEX = /^(\s*[-*+]\s+\[\s\]\s+)(.+)$/;
 const LINKED_TASK_LINE_REGEX = /^(\s*[-*+]\s+\[[ xX]\]\s+)(\[\[([^\]|]+)(?:\|([^\]]+))?\]\])(\s*)$/;
@@ -64,7 +65,8 @@ function buildDecorations(view: EditorView, plugin: TaskTodoistPlugin): Decorati
 				}
 			} else if (plugin.settings.showConvertButton) {
 				const uncheckedMatch = line.text.match(UNCHECKED_TASK_LINE_REGEX);
-				if (uncheckedMatch) {
+				// Items already synced as checklist subtasks are not converted to notes
+				if (uncheckedMatch && !hasSubtaskMarker(line.text)) {
 					const title = normalizeTaskText(uncheckedMatch[2] ?? '');
 					if (title) {
 						builder.add(
@@ -1,5 +1,51 @@
-import type { TaskTodoistSettings } from './settings';
+import type { ImportRule, TaskTodoistSettings } from './settings';
 import type { TodoistItem, TodoistProject } from './todoist-client';
+import { compileTodoistFilter, type TodoistFilterContext, type TodoistFilterPredicate } from './todoist-filter';
+
+interface CompiledImportRule {
+	rule: ImportRule;
+	matches: TodoistFilterPredicate;
+}
+
+/**
+ * Compiles the enabled import rules. Rules with an invalid query are left out
+ * and reported in `errors`.
+ */
+export function compileImportRules(settings: TaskTodoistSettings): { rules: CompiledImportRule[]; errors: string[] } {
+	const rules: CompiledImportRule[] = [];
+	const errors: string[] = [];
+	for (const rule of settings.importRules ?? []) {
+		if (!rule.enabled || !rule.query.trim()) continue;
+		try {
+			rules.push({ rule, matches: compileTodoistFilter(rule.query) });
+		} catch (e) {
+			errors.push(`Import rule "${rule.name || rule.query}": ${e instanceof Error ? e.message : String(e)}`);
+		}
+	}
+	return { rules, errors };
+}
+
+/**
+ * Maps each item to the first enabled import rule it matches, for picking the
+ * folder and template of its note.
+ */
+export function assignImportRules(
+	items: TodoistItem[],
+	projects: TodoistProject[],
+	settings: TaskTodoistSettings,
+	userId: string | null,
+	sectionNameById: Map<string, string> = new Map(),
+): Map<string, ImportRule> {
+	const { rules } = compileImportRules(settings);
+	const assigned = new Map<string, ImportRule>();
+	if (rules.length === 0) return assigned;
+	const context = buildFilterContext(projects, sectionNameById, userId);
+	for (const item of items) {
+		const match = rules.find(({ matches }) => matches(item, context));
+		if (match) assigned.set(item.id, match.rule);
+	}
+	return assigned;
+}
 
 export function filterImportableItems(
 	items: TodoistItem[],
@@ -14,6 +60,9 @@ export function filterImportableItems(
 	}
 
 	const projectNameById = new Map(projects.map((project) => [project.id, project.name]));
+	// Import rules, when any are enabled, replace the project allow list and required label
+	const { rules: importRules } = compileImportRules(settings);
+	const filterContext = buildFilterContext(projects, sectionNameById, userId);
 	const allowedProjectNames = parseNameSet(settings.autoImportAllowedProjectNames);
 	const excludedProjectNames = parseNameSet(settings.excludedProjectNames);
 	const excludedSectionNames = parseNameSet(settings.excludedSectionNames);
@@ -38,7 +87,7 @@ export function filterImportableItems(
 
 		const projectName = projectNameById.get(item.project_id)?.toLowerCase();
 
-		if (settings.autoImportProjectScope === 'allow-list-by-name' && allowedProjectNames.size > 0) {
+		if (importRules.length === 0 && settings.autoImportProjectScope === 'allow-list-by-name' && allowedProjectNames.size > 0) {
 			if (!projectName || !allowedProjectNames.has(projectName)) {
 				return false;
 			}
@@ -57,7 +106,11 @@ export function filterImportableItems(
 
 		const labels = (item.labels ?? []).map((label) => label.toLowerCase());
 
-		if (requiredLabel && !labels.includes(requiredLabel)) {
+		if (importRules.length === 0 && requiredLabel && !labels.includes(requiredLabel)) {
+			return false;
+		}
+
+		if (importRules.length > 0 && !importRules.some(({ matches }) => matches(item, filterContext))) {
 			return false;
 		}
 
@@ -73,6 +126,16 @@ export function filterImportableItems(
 	});
 }
 
+export function buildFilterContext(projects: TodoistProject[], sectionNameById: Map<string, string>, userId: string | null): TodoistFilterContext {
+	return {
+		projectNameById: new Map(projects.map((project) => [project.id, project.name])),
+		projectParentIdById: new Map(projects.map((project) => [project.id, project.parent_id])),
+		sectionNameById,
+		userId,
+		now: new Date(),
+	};
+}
+
 function parseNameSet(rawValue: string): Set<string> {
 	return new Set(
 		(rawValue ?? '')
@@ -1,6 +1,7 @@
-import { MarkdownPostProcessorContext, Plugin, TFile } from 'obsidian';
+import { MarkdownPostProcessorContext, Plugin, TFile, getLanguage } from 'obsidian';
 import type TaskTodoistPlugin from './main';
 import { toTaskWikiLink } from './task-note-factory';
+import { parseInlineTaskDirectives } from './task-directives';
 import { notify } from './notify';
 
 const UNCHECKED_TASK_LINE_REGEX = /^(\s*[-*+]\s+\[\s\]\s+)(.+)$/;
@@ -57,16 +58,42 @@ async function convertInlineTask(
 		return;
 	}
 
+	const parsed = parseInlineTaskDirectives(taskText, {
+		locale: getLanguage(),
+		projectNames: plugin.getKnownProjectNames(),
+	});
+	if (!parsed.title) {
+		notify(plugin.settings, 'Task title is empty.', 5000);
+		return;
+	}
+	if (parsed.errors) {
+		notify(plugin.settings, `Task conversion failed: ${parsed.errors.join(' ')}`, 6000);
+		return;
+	}
+	const parentTaskLink = parsed.parentTask ? plugin.resolveParentTaskLink(parsed.parentTask, ctx.sourcePath) : undefined;
+	if (parentTaskLink === null) {
+		notify(plugin.settings, `Task conversion failed: parent task "${parsed.parentTask}" not found.`, 6000);
+		return;
+	}
+
 	try {
 		const createdTaskNote = await plugin.createTaskNote({
-			title: taskText,
+			title: parsed.title,
 			description: '',
+			parentTaskLink,
 			todoistSync: true,
-			todoistDueDate: '',
-			todoistDueString: '',
+			todoistProjectName: parsed.projectName,
+			todoistSectionName: parsed.sectionName,
+			todoistDueDate: parsed.dueRaw ?? '',
+			todoistDueString: parsed.recurrenceRaw ?? '',
+			todoistDeadlineDate: parsed.deadlineRaw,
+			todoistDuration: parsed.duration,
+			todoistPriority: parsed.priority,
+			todoistLabels: parsed.labels,
+			todoistAssignee: parsed.assignee,
 		});
 
-		const updated = await replaceTaskLineWithLink(plugin, ctx, listItem, file, taskText, createdTaskNote);
+		const updated = await replaceTaskLineWithLink(plugin, ctx, listItem, file, taskText, createdTaskNote, parsed.title);
 		if (!updated) {
 			notify(plugin.settings, 'Task note created, but original task line was not updated.', 6000);
 			return;
@@ -86,6 +113,7 @@ async function replaceTaskLineWithLink(
 	file: TFile,
 	taskText: string,
 	createdTaskNote: TFile,
+	alias: string,
 ): Promise<boolean> {
 	const sectionInfo = ctx.getSectionInfo(listItem);
 	const content = await plugin.app.vault.cachedRead(file);
@@ -94,7 +122,7 @@ async function replaceTaskLineWithLink(
 	const start = sectionInfo ? Math.max(0, sectionInfo.lineStart) : 0;
 	const endExclusive = sectionInfo ? Math.min(lines.length, sectionInfo.lineEnd + 1) : lines.length;
 
-	const link = toTaskWikiLink(createdTaskNote, taskText);
+	const link = toTaskWikiLink(createdTaskNote, alias);
 	const targetLineIndex = findTaskLineIndex(lines, start, endExclusive, taskText);
 	if (targetLineIndex < 0) {
 		return false;
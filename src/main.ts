@@ -1,4 +1,4 @@
-import { Editor, MarkdownView, Plugin, TAbstractFile, TFile, normalizePath } from 'obsidian';
+import { Editor, MarkdownView, Plugin, TAbstractFile, TFile, getLanguage, normalizePath } from 'obsidian';
 import { notify } from './notify';
 import {
 	DEFAULT_TODOIST_TOKEN_SECRET_NAME,
@@ -7,16 +7,25 @@ import {
 	type TaskTodoistSettings,
 } from './settings';
 import { TaskTodoistSettingTab } from './settings-tab';
-import { TodoistClient, type TodoistCreateProjectInput, type TodoistProjectSectionLookup } from './todoist-client';
+import { TodoistClient, type TodoistCreateProjectInput, type TodoistProjectSectionLookup, type TodoistSyncSnapshot } from './todoist-client';
 import { SyncService, type SyncRunResult } from './sync-service';
 import { CreateTaskModal } from './create-task-modal';
-import { createLocalTaskNote, type LocalTaskNoteInput } from './task-note-factory';
+import { CompletedBackfillModal } from './completed-backfill-modal';
+import { RoutingPreviewModal } from './routing-preview-modal';
+import type { NoteMove, SyncConflictEntry } from './task-note-repository';
+import { SyncConflictModal } from './sync-conflict-modal';
+import type { MergeField, SyncConflictChoice } from './task-merge';
+import { SyncPlanModal } from './sync-plan-modal';
+import type { SyncPlan } from './sync-plan';
+import { createLocalTaskNote, findProjectForTaskFolder, resolveTaskFolderLocation, toTaskWikiLink, type LocalTaskNoteInput } from './task-note-factory';
 import { registerInlineTaskConverter } from './inline-task-converter';
 import { createTaskConvertOverlayExtension } from './editor-task-convert-overlay';
 import { formatDueForDisplay, parseInlineTaskDirectives } from './task-directives';
-import { applyStandardTaskFrontmatter, getPropNames, setTaskStatus, touchModifiedDate } from './task-frontmatter';
+import { applyStandardTaskFrontmatter, getPropNames, isInTaskFolder, setTaskStatus, touchModifiedDate } from './task-frontmatter';
 import { resolveTemplateVars } from './template-variables';
-import { VaultIndex } from './vault-index';
+import { VaultIndex, buildVaultIndexSnapshot, findProjectIdForFolder } from './vault-index';
+import { Outbox, type OutboxData, type OutboxEntry } from './outbox';
+import { addCommentsBlock } from './task-comments';
 
 export default class TaskTodoistPlugin extends Plugin {
 	settings: TaskTodoistSettings;
@@ -36,6 +45,10 @@ export default class TaskTodoistPlugin extends Plugin {
 	private vaultIndex: VaultIndex | null = null;
 	private syncQueued = false;
 	private lastSyncToken: string | null = null;
+	// Remote state as of lastSyncToken; lets scheduled runs request only deltas
+	private syncSnapshot: TodoistSyncSnapshot | null = null;
+	// Journal of local changes not yet confirmed by Todoist; saved to its own file, not data.json
+	private outbox: Outbox = new Outbox(null, () => this.saveOutbox());
 	private readonly statusSyncBusy = new Set<string>();
 	private readonly lastKnownTaskStatus = new Map<string, { taskDone: boolean | null; taskStatus: string | null }>();
 	private lookupCache: { expiresAt: number; value: TodoistProjectSectionLookup } | null = null;
@@ -58,22 +71,64 @@ export default class TaskTodoistPlugin extends Plugin {
 	}
 
 	async loadSettings(): Promise<void> {
-		const loaded = await this.loadData() as Partial<TaskTodoistSettings & { lastSyncToken: string | null }> | null;
-		const raw = loaded ?? {};
+		const loaded = await this.loadData() as Partial<TaskTodoistSettings & {
+			lastSyncToken: string | null;
+			syncSnapshot: TodoistSyncSnapshot | null;
+			outbox: OutboxData | null;
+		}> | null;
+		const { syncSnapshot, outbox, ...raw } = loaded ?? {};
 		this.settings = {
 			...DEFAULT_SETTINGS,
 			...raw,
 			// Deep merge propNames so partial saved configs inherit defaults for new keys
 			propNames: { ...DEFAULT_PROP_NAMES, ...(raw.propNames ?? {}) },
+			// Copied so editing rules never touches the shared default array
+			importRules: (raw.importRules ?? []).map((rule) => ({ ...rule })),
+			routingRules: (raw.routingRules ?? []).map((rule) => ({ ...rule })),
 		};
 		this.lastSyncToken = raw.lastSyncToken ?? null;
+		this.syncSnapshot = syncSnapshot ?? null;
+		const savedOutbox = await this.loadOutboxData();
+		this.outbox = new Outbox(savedOutbox ?? outbox, () => this.saveOutbox());
+		// Older versions kept the outbox in data.json; move it to its own file
+		if (!savedOutbox && outbox) {
+			await this.saveOutbox();
+		}
 	}
 
 	async saveSettings(): Promise<void> {
-		await this.saveData({ ...this.settings, lastSyncToken: this.lastSyncToken });
+		await this.saveData({
+			...this.settings,
+			lastSyncToken: this.lastSyncToken,
+			syncSnapshot: this.syncSnapshot,
+		});
 		this.vaultIndex?.updateSettings(this.settings);
 	}
 
+	/**
+	 * Writes the outbox to outbox.json in the plugin folder. It changes on every
+	 * local edit, so it is kept apart from data.json and its large sync snapshot.
+	 */
+	private async saveOutbox(): Promise<void> {
+		await this.app.vault.adapter.write(this.getOutboxPath(), JSON.stringify(this.outbox.toJSON()));
+	}
+
+	private async loadOutboxData(): Promise<OutboxData | null> {
+		const path = this.getOutboxPath();
+		try {
+			if (!(await this.app.vault.adapter.exists(path))) return null;
+			return JSON.parse(await this.app.vault.adapter.read(path)) as OutboxData;
+		} catch (e) {
+			console.error('[TaskTodoist] Failed to read the outbox:', e);
+			return null;
+		}
+	}
+
+	private getOutboxPath(): string {
+		const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		return normalizePath(`${pluginDir}/outbox.json`);
+	}
+
 	isSecretStorageAvailable(): boolean {
 		return Boolean(this.app.secretStorage);
 	}
@@ -90,6 +145,21 @@ export default class TaskTodoistPlugin extends Plugin {
 		return this.lastSyncMessage;
 	}
 
+	/** Drops the cached remote snapshot so the next sync run does a full sync. */
+	async resetSyncSnapshot(): Promise<void> {
+		this.syncSnapshot = null;
+		this.lastSyncToken = null;
+		await this.saveSettings();
+	}
+
+	getOutboxEntries(): readonly OutboxEntry[] {
+		return this.outbox.list();
+	}
+
+	async clearOutbox(): Promise<void> {
+		await this.outbox.clear();
+	}
+
 	logDiagnostics(): void {
 		const { todoistApiToken: _token, ...safeSettings } = this.settings as typeof this.settings & { todoistApiToken?: unknown };
 		console.group('[obsidian-task-todoist] Diagnostics');
@@ -99,6 +169,7 @@ export default class TaskTodoistPlugin extends Plugin {
 		}
 		console.log('Settings:', safeSettings);
 		console.log('Vault index snapshot:', this.vaultIndex?.get());
+		console.debug('Outbox:', this.outbox.list());
 		console.groupEnd();
 	}
 
@@ -111,7 +182,7 @@ export default class TaskTodoistPlugin extends Plugin {
 		await this.loadTodoistApiToken();
 		const token = this.todoistApiToken;
 		if (!token) {
-			return { projects: [], sections: [] };
+			return { projects: [], sections: [], collaborators: [] };
 		}
 
 		const client = new TodoistClient(token);
@@ -123,6 +194,21 @@ export default class TaskTodoistPlugin extends Plugin {
 		return value;
 	}
 
+	/** Link to the task note a `parent::` directive names, or null when there is no such note. */
+	resolveParentTaskLink(name: string, sourcePath: string): string | null {
+		const file = this.app.metadataCache.getFirstLinkpathDest(name, sourcePath);
+		return file ? toTaskWikiLink(file) : null;
+	}
+
+	/**
+	 * Todoist project names for `#Project` in task titles, from the cached lookup or
+	 * else the last sync. Never fetched, so converting a task does not wait on the network.
+	 */
+	getKnownProjectNames(): string[] {
+		const projects = this.lookupCache?.value.projects ?? this.syncSnapshot?.projects ?? [];
+		return projects.map((project) => project.name);
+	}
+
 	async testTodoistConnection(): Promise<{ ok: boolean; message: string }> {
 		await this.loadTodoistApiToken();
 		const token = this.todoistApiToken;
@@ -168,10 +254,19 @@ export default class TaskTodoistPlugin extends Plugin {
 			}
 
 			try {
-				const service = new SyncService(this.app, this.settings, token, this.lastSyncToken, this.vaultIndex);
+				const service = new SyncService(
+					this.app,
+					this.settings,
+					token,
+					this.lastSyncToken,
+					this.vaultIndex,
+					this.syncSnapshot,
+					this.outbox,
+				);
 				const result = await service.runImportSync();
 				if (result.syncToken) {
 					this.lastSyncToken = result.syncToken;
+					this.syncSnapshot = result.snapshot ?? null;
 					try {
 						await this.saveSettings();
 					} catch (saveErr) {
@@ -202,8 +297,128 @@ export default class TaskTodoistPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Imports tasks completed in Todoist between two dates as done task notes.
+	 * Holds the sync lock so the new notes are not picked up as local edits.
+	 */
+	async backfillCompletedTasks(since: Date, until: Date, projectNames: string[]): Promise<{ ok: boolean; message: string }> {
+		if (this.syncLock !== null) {
+			return { ok: false, message: 'Sync is running. Try again when it finishes.' };
+		}
+
+		const doBackfill = async (): Promise<{ ok: boolean; message: string }> => {
+			await this.loadTodoistApiToken();
+			const token = this.todoistApiToken;
+			if (!token) {
+				return { ok: false, message: 'No todoist API token is configured.' };
+			}
+			try {
+				const service = new SyncService(this.app, this.settings, token, this.lastSyncToken, this.vaultIndex);
+				return await service.runCompletedBackfill(since, until, projectNames);
+			} catch (err) {
+				const message = err instanceof Error ? err.message : String(err);
+				return { ok: false, message: `Import failed unexpectedly: ${message}` };
+			}
+		};
+
+		this.syncLock = doBackfill();
+		try {
+			return await this.syncLock;
+		} finally {
+			this.syncLock = null;
+		}
+	}
+
+	/** Works out what a sync would do without running it. See {@link SyncService.planImportSync}. */
+	async planImportSync(): Promise<{ ok: true; plan: SyncPlan } | { ok: false; message: string }> {
+		if (this.syncLock !== null) {
+			return { ok: false, message: 'Sync is running. Try again when it finishes.' };
+		}
+		await this.loadTodoistApiToken();
+		const token = this.todoistApiToken;
+		if (!token) {
+			return { ok: false, message: 'No todoist API token is configured.' };
+		}
+		try {
+			const service = new SyncService(this.app, this.settings, token, this.lastSyncToken, this.vaultIndex, this.syncSnapshot, this.outbox);
+			return await service.planImportSync();
+		} catch (err) {
+			const message = err instanceof Error ? err.message : String(err);
+			return { ok: false, message: `Sync preview failed unexpectedly: ${message}` };
+		}
+	}
+
+	openSyncPlanModal(): void {
+		new SyncPlanModal(this.app, this).open();
+	}
+
+	/** Task notes the routing rules would move, from the last synced snapshot; null before the first sync. */
+	planNoteMoves(): NoteMove[] | null {
+		return new SyncService(this.app, this.settings, '', this.lastSyncToken, this.vaultIndex, this.syncSnapshot).planNoteMoves();
+	}
+
+	/** Moves task notes to their routed folders. Holds the sync lock so the moves are not synced mid-run. */
+	async applyNoteMoves(moves: NoteMove[]): Promise<{ ok: boolean; message: string }> {
+		if (this.syncLock !== null) {
+			return { ok: false, message: 'Sync is running. Try again when it finishes.' };
+		}
+
+		const doMoves = async (): Promise<{ ok: boolean; message: string }> => {
+			const service = new SyncService(this.app, this.settings, '', this.lastSyncToken, this.vaultIndex);
+			const moved = await service.applyNoteMoves(moves);
+			return { ok: true, message: `Moved ${moved} of ${moves.length} task notes.` };
+		};
+
+		this.syncLock = doMoves();
+		try {
+			return await this.syncLock;
+		} finally {
+			this.syncLock = null;
+		}
+	}
+
+	openRoutingPreviewModal(): void {
+		new RoutingPreviewModal(this.app, this).open();
+	}
+
+	/** Task notes held in the `conflict` sync status. */
+	listSyncConflicts(): SyncConflictEntry[] {
+		return new SyncService(this.app, this.settings, '', this.lastSyncToken, this.vaultIndex, this.syncSnapshot).listSyncConflicts();
+	}
+
+	/** Applies conflict inbox choices to a note and queues it for the next sync once nothing is left to resolve. */
+	async resolveSyncConflict(entry: SyncConflictEntry, choices: Map<MergeField, SyncConflictChoice>): Promise<{ ok: boolean; message: string }> {
+		if (this.syncLock !== null) {
+			return { ok: false, message: 'Sync is running. Try again when it finishes.' };
+		}
+
+		const doResolve = async (): Promise<{ ok: boolean; message: string }> => {
+			const service = new SyncService(this.app, this.settings, '', this.lastSyncToken, this.vaultIndex);
+			const resolved = await service.resolveSyncConflict(entry.file, choices);
+			if (!resolved) {
+				return { ok: true, message: `Some conflicts in "${entry.title}" are still open.` };
+			}
+			await this.outbox.record('update', entry.file.path, entry.todoistId);
+			return { ok: true, message: `Resolved "${entry.title}"; the next sync applies your choices.` };
+		};
+
+		this.syncLock = doResolve();
+		try {
+			return await this.syncLock;
+		} finally {
+			this.syncLock = null;
+		}
+	}
+
+	openSyncConflictModal(): void {
+		new SyncConflictModal(this.app, this).open();
+	}
+
 	async createTaskNote(input: LocalTaskNoteInput) {
 		const created = await createLocalTaskNote(this.app, this.settings, input);
+		if (input.todoistSync) {
+			await this.outbox.record('create', created.path);
+		}
 		const linkTarget = created.path.replace(/\.md$/i, '');
 		this.recentTaskMetaByLink.set(linkTarget, {
 			projectName: input.todoistProjectName?.trim() || undefined,
@@ -223,6 +438,10 @@ export default class TaskTodoistPlugin extends Plugin {
 		new CreateTaskModal(this.app, this, initialTitle).open();
 	}
 
+	openCompletedBackfillModal(): void {
+		new CompletedBackfillModal(this.app, this).open();
+	}
+
 	async createNoteTaskForCurrentNote(): Promise<void> {
 		const file = this.app.workspace.getActiveFile();
 		if (!file) {
@@ -282,7 +501,7 @@ export default class TaskTodoistPlugin extends Plugin {
 			if (projectId) {
 				const projectTasks = snapshot.items.filter((item) => item.project_id === projectId && !item.parent_id);
 				if (projectTasks.length > 0) {
-					const minOrder = Math.min(...projectTasks.map((t) => t.order ?? 0));
+					const minOrder = Math.min(...projectTasks.map((t) => t.child_order ?? 0));
 					noteTaskOrder = minOrder > 0 ? minOrder - 1 : minOrder;
 				}
 			}
@@ -290,7 +509,7 @@ export default class TaskTodoistPlugin extends Plugin {
 			const taskId = await client.createTask({
 				content: `${file.basename} [note](${obsidianUri})`,
 				projectId,
-				order: noteTaskOrder,
+				childOrder: noteTaskOrder,
 			});
 
 			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
@@ -404,6 +623,87 @@ export default class TaskTodoistPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Turns the active note into a section note of the project whose note is in
+	 * the same folder (or an ancestor folder). The section is created in Todoist
+	 * on the next sync.
+	 */
+	/** Adds an empty comments block to the active task note, where a first comment can be written. */
+	async addCommentsBlockToCurrentNote(): Promise<void> {
+		const file = this.app.workspace.getActiveFile();
+		if (!file) {
+			notify(this.settings, 'No active note.', 4000);
+			return;
+		}
+
+		const p = getPropNames(this.settings);
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+		if (!fm?.[p.todoistId]) {
+			notify(this.settings, 'This note is not synced with a todoist task.', 4000);
+			return;
+		}
+		if (!this.settings.syncComments) {
+			notify(this.settings, 'Turn on sync comments to send comments to todoist.', 6000);
+			return;
+		}
+
+		const added = await addCommentsBlock(this.app, file);
+		notify(this.settings, added ? 'Added a comments block. Write new comments as list items inside it.' : 'This note already has a comments block.', 5000);
+	}
+
+	async createSectionForCurrentNote(): Promise<void> {
+		const file = this.app.workspace.getActiveFile();
+		if (!file) {
+			notify(this.settings, 'No active note.', 4000);
+			return;
+		}
+
+		const p = getPropNames(this.settings);
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+		const existingSectionId = fm ? fm[p.todoistSectionId] : undefined;
+		if (typeof existingSectionId === 'string' && existingSectionId.trim()) {
+			notify(this.settings, 'This note is already a Todoist section.', 4000);
+			return;
+		}
+		if (fm?.[p.todoistId]) {
+			notify(this.settings, 'Task notes cannot become sections.', 4000);
+			return;
+		}
+
+		const { projectIndex } = this.vaultIndex?.get() ?? buildVaultIndexSnapshot(this.app, this.settings);
+		// A project note in this folder or above, else (with project subfolders) the project folder the note is in
+		const projectId = findProjectIdForFolder(projectIndex, file)
+			?? (this.settings.useProjectSubfolders && this.syncSnapshot
+				? findProjectForTaskFolder(file, resolveTemplateVars(this.settings.tasksFolderPath), this.syncSnapshot.projects) ?? undefined
+				: undefined);
+		const projectFile = projectId ? projectIndex.get(projectId) : undefined;
+		const projectFm = projectFile ? this.app.metadataCache.getFileCache(projectFile)?.frontmatter as Record<string, unknown> | undefined : undefined;
+		const projectName = typeof projectFm?.[p.todoistProjectName] === 'string'
+			? projectFm[p.todoistProjectName] as string
+			: projectFile?.basename ?? this.syncSnapshot?.projects.find((project) => project.id === projectId)?.name;
+		if (!projectId || !projectName) {
+			notify(this.settings, 'No project note or project folder found for this note.', 6000);
+			return;
+		}
+
+		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+			const f = frontmatter as Record<string, unknown>;
+			// Empty section ID: listPendingSectionCreates() picks the note up on the next sync
+			f[p.todoistSectionId] = '';
+			f[p.todoistSectionName] = file.basename;
+			f[p.todoistProjectId] = projectId;
+			f[p.todoistProjectName] = projectName;
+			f[p.todoistProjectLink] = projectFile ? toTaskWikiLink(projectFile, projectFile.basename) : '';
+			if (!f[p.vaultId]) {
+				f[p.vaultId] = crypto.randomUUID();
+			}
+			touchModifiedDate(f, this.settings);
+		});
+
+		this.vaultIndex?.invalidate();
+		notify(this.settings, `Section "${file.basename}" will be created in "${projectName}" on the next sync.`, 5000);
+	}
+
 	async convertEditorChecklistLineToTaskNote(editor: Editor): Promise<{ ok: boolean; message: string }> {
 		const lineNumber = editor.getCursor().line;
 		return this.convertChecklistLineByEditorLine(editor, lineNumber);
@@ -445,22 +745,45 @@ export default class TaskTodoistPlugin extends Plugin {
 			};
 		}
 
-		const parsed = parseInlineTaskDirectives(normalizeTaskText(match[2] ?? ''));
+		const parsed = parseInlineTaskDirectives(normalizeTaskText(match[2] ?? ''), {
+			locale: getLanguage(),
+			projectNames: this.getKnownProjectNames(),
+		});
 		if (!parsed.title) {
 			return {
 				ok: false,
 				message: 'Task title is empty.',
 			};
 		}
+		if (parsed.errors) {
+			return {
+				ok: false,
+				message: parsed.errors.join(' '),
+			};
+		}
+		const sourcePath = this.app.workspace.getActiveFile()?.path ?? '';
+		const parentTaskLink = parsed.parentTask ? this.resolveParentTaskLink(parsed.parentTask, sourcePath) : undefined;
+		if (parentTaskLink === null) {
+			return {
+				ok: false,
+				message: `Parent task "${parsed.parentTask}" not found.`,
+			};
+		}
 
 		const created = await this.createTaskNote({
 			title: parsed.title,
 			description: '',
+			parentTaskLink,
 			todoistSync: true,
 			todoistProjectName: parsed.projectName,
 			todoistSectionName: parsed.sectionName,
 			todoistDueDate: parsed.dueRaw,
 			todoistDueString: parsed.recurrenceRaw,
+			todoistDeadlineDate: parsed.deadlineRaw,
+			todoistDuration: parsed.duration,
+			todoistPriority: parsed.priority,
+			todoistLabels: parsed.labels,
+			todoistAssignee: parsed.assignee,
 		});
 		const linkTarget = created.path.replace(/\.md$/i, '');
 		editor.setLine(lineNumber, `${match[1]}[[${linkTarget}|${parsed.title}]]`);
@@ -478,14 +801,15 @@ export default class TaskTodoistPlugin extends Plugin {
 		}
 
 		const p = getPropNames(this.settings);
+		let todoistId = '';
 		await this.app.fileManager.processFrontMatter(taskFile, (frontmatter) => {
 			const data = frontmatter as Record<string, unknown>;
 			applyStandardTaskFrontmatter(data, this.settings);
 			touchModifiedDate(data, this.settings);
 			setTaskStatus(data, isDone ? 'done' : 'open', this.settings);
 			data[p.localUpdatedAt] = new Date().toISOString();
-			const todoistId = typeof data[p.todoistId] === 'string' ? (data[p.todoistId] as string) : '';
-			if (todoistId.trim()) {
+			todoistId = typeof data[p.todoistId] === 'string' ? (data[p.todoistId] as string).trim() : '';
+			if (todoistId) {
 				data[p.todoistSyncStatus] = 'dirty_local';
 				// Clean up legacy key if present
 				if (p.todoistSyncStatus !== 'sync_status' && 'sync_status' in data) {
@@ -493,6 +817,9 @@ export default class TaskTodoistPlugin extends Plugin {
 				}
 			}
 		});
+		if (todoistId) {
+			await this.outbox.record(isDone ? 'complete' : 'update', taskFile.path, todoistId);
+		}
 	}
 
 	getLinkedTaskMetaSummary(linkTarget: string): string {
@@ -614,6 +941,48 @@ export default class TaskTodoistPlugin extends Plugin {
 				await this.createProjectForCurrentNote();
 			},
 		});
+		this.addCommand({
+			id: 'create-section-from-note',
+			name: 'Create todoist section from current note',
+			callback: async () => {
+				await this.createSectionForCurrentNote();
+			},
+		});
+		this.addCommand({
+			id: 'add-comments-block',
+			name: 'Add comments block to current task note',
+			callback: async () => {
+				await this.addCommentsBlockToCurrentNote();
+			},
+		});
+		this.addCommand({
+			id: 'import-completed-tasks',
+			name: 'Import completed tasks',
+			callback: () => {
+				this.openCompletedBackfillModal();
+			},
+		});
+		this.addCommand({
+			id: 'preview-sync',
+			name: 'Preview sync (dry run)',
+			callback: () => {
+				this.openSyncPlanModal();
+			},
+		});
+		this.addCommand({
+			id: 'resolve-sync-conflicts',
+			name: 'Resolve sync conflicts',
+			callback: () => {
+				this.openSyncConflictModal();
+			},
+		});
+		this.addCommand({
+			id: 'preview-task-note-routing',
+			name: 'Preview task note routing',
+			callback: () => {
+				this.openRoutingPreviewModal();
+			},
+		});
 	}
 
 	private registerRibbonCommands(): void {
@@ -765,6 +1134,91 @@ export default class TaskTodoistPlugin extends Plugin {
 		this.registerEvent(this.app.vault.on('modify', (file) => {
 			void this.onVaultFileModified(file);
 		}));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			void this.onVaultFileRenamed(file, oldPath);
+		}));
+		this.registerEvent(this.app.metadataCache.on('deleted', (file, prevCache) => {
+			void this.onTaskFileDeleted(file, prevCache?.frontmatter as Record<string, unknown> | undefined);
+		}));
+	}
+
+	private async onVaultFileRenamed(file: TAbstractFile, oldPath: string): Promise<void> {
+		if (!(file instanceof TFile) || file.extension !== 'md') {
+			return;
+		}
+		await this.outbox.renamePath(oldPath, file.path);
+		// A move between folders may change project/section when subfolders are in use
+		if (this.syncLock !== null || getFolderOf(oldPath) === getFolderOf(file.path)) {
+			return;
+		}
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+		const todoistId = frontmatter ? readTodoistId(frontmatter, this.settings) : '';
+		if (todoistId && this.isTaskFilePath(file.path)) {
+			await this.outbox.record('move', file.path, todoistId);
+			await this.applyTaskFolderMove(file, frontmatter ?? {});
+		}
+	}
+
+	/**
+	 * With project subfolders, dropping a task note into another project or section
+	 * folder moves the task: the note's project/section fields are rewritten to match
+	 * and it is marked dirty so the next sync sends the item_move.
+	 */
+	private async applyTaskFolderMove(file: TFile, frontmatter: Record<string, unknown>): Promise<void> {
+		if (!this.settings.useProjectSubfolders || !this.syncSnapshot) {
+			return;
+		}
+		const location = resolveTaskFolderLocation(
+			getFolderOf(file.path),
+			resolveTemplateVars(this.settings.tasksFolderPath),
+			this.syncSnapshot.projects,
+			this.syncSnapshot.sections,
+			this.settings.useSectionSubfolders,
+		);
+		if (!location) {
+			return;
+		}
+		const p = getPropNames(this.settings);
+		const currentProjectId = typeof frontmatter[p.todoistProjectId] === 'string' ? (frontmatter[p.todoistProjectId] as string).trim() : '';
+		const currentSectionId = typeof frontmatter[p.todoistSectionId] === 'string' ? (frontmatter[p.todoistSectionId] as string).trim() : '';
+		if (location.projectId === currentProjectId && (location.sectionId ?? '') === currentSectionId) {
+			return;
+		}
+		// Without section subfolders the folder says nothing about the section, so keep it when the project is unchanged
+		const sectionId = location.sectionId ?? (this.settings.useSectionSubfolders || location.projectId !== currentProjectId ? '' : currentSectionId);
+		const project = this.syncSnapshot.projects.find((candidate) => candidate.id === location.projectId);
+		const section = this.syncSnapshot.sections.find((candidate) => candidate.id === sectionId);
+		const { projectIndex, sectionIndex } = this.vaultIndex?.get() ?? buildVaultIndexSnapshot(this.app, this.settings);
+		const projectNote = projectIndex.get(location.projectId);
+		const sectionNote = sectionId ? sectionIndex.get(sectionId) : undefined;
+		await this.app.fileManager.processFrontMatter(file, (fm) => {
+			const data = fm as Record<string, unknown>;
+			data[p.todoistProjectId] = location.projectId;
+			data[p.todoistProjectName] = project?.name ?? '';
+			data[p.todoistProjectLink] = projectNote ? toTaskWikiLink(projectNote) : '';
+			data[p.todoistSectionId] = sectionId;
+			data[p.todoistSectionName] = section?.name ?? '';
+			data[p.todoistSectionLink] = sectionNote ? toTaskWikiLink(sectionNote) : '';
+			// A subtask dragged elsewhere leaves its parent
+			data[p.todoistParentId] = '';
+			data[p.parentTask] = '';
+			data[p.localUpdatedAt] = new Date().toISOString();
+			data[p.todoistSyncStatus] = 'dirty_local';
+			touchModifiedDate(data, this.settings);
+		});
+	}
+
+	private async onTaskFileDeleted(file: TFile, frontmatter: Record<string, unknown> | undefined): Promise<void> {
+		if (file.extension !== 'md' || this.syncLock !== null) {
+			return;
+		}
+		const todoistId = frontmatter ? readTodoistId(frontmatter, this.settings) : '';
+		if (!this.settings.pushLocalDeletes || !todoistId || !this.isTaskFilePath(file.path)) {
+			// Still drop any queued create/update for the deleted note
+			await this.outbox.record('delete', file.path);
+			return;
+		}
+		await this.outbox.record('delete', file.path, todoistId);
 	}
 
 	private async onVaultFileModified(file: TAbstractFile): Promise<void> {
@@ -785,8 +1239,16 @@ export default class TaskTodoistPlugin extends Plugin {
 
 		const p = getPropNames(this.settings);
 		const todoistSync = frontmatter[p.todoistSync];
-		const todoistId = typeof frontmatter[p.todoistId] === 'string' ? (frontmatter[p.todoistId] as string).trim() : '';
-		if (!(todoistSync === true || todoistSync === 'true') || !todoistId) {
+		const todoistId = readTodoistId(frontmatter, this.settings);
+		if (!(todoistSync === true || todoistSync === 'true')) {
+			return;
+		}
+		if (!todoistId) {
+			// todoist_sync switched on for a local note — journal the create
+			const pendingId = frontmatter[p.todoistPendingId];
+			if (!(typeof pendingId === 'string' && pendingId.trim())) {
+				await this.outbox.record('create', file.path);
+			}
 			return;
 		}
 
@@ -794,9 +1256,14 @@ export default class TaskTodoistPlugin extends Plugin {
 			typeof frontmatter[p.todoistSyncStatus] === 'string'
 				? frontmatter[p.todoistSyncStatus] as string
 				: (typeof frontmatter.sync_status === 'string' ? frontmatter.sync_status : '');
+		if (currentStatus === 'dirty_local') {
+			await this.outbox.record('update', file.path, todoistId);
+			return;
+		}
 		if (
-			currentStatus === 'dirty_local' ||
 			currentStatus === 'queued_local_create' ||
+			// Conflicting notes wait for the conflict inbox
+			currentStatus === 'conflict' ||
 			currentStatus === 'deleted_remote' ||
 			currentStatus === 'archived_remote' ||
 			currentStatus === 'missing_remote'
@@ -814,12 +1281,11 @@ export default class TaskTodoistPlugin extends Plugin {
 				delete data.sync_status;
 			}
 		});
+		await this.outbox.record('update', file.path, todoistId);
 	}
 
 	private isTaskFilePath(path: string): boolean {
-		const taskFolder = normalizePath(resolveTemplateVars(this.settings.tasksFolderPath));
-		const taskPrefix = `${taskFolder}/`;
-		return path === taskFolder || path.startsWith(taskPrefix);
+		return isInTaskFolder(path, this.settings);
 	}
 
 	/** Returns true for project notes that also represent a Todoist task (dual-purpose notes). */
@@ -835,6 +1301,17 @@ export default class TaskTodoistPlugin extends Plugin {
 	}
 }
 
+function readTodoistId(frontmatter: Record<string, unknown>, settings: TaskTodoistSettings): string {
+	const raw = frontmatter[getPropNames(settings).todoistId];
+	if (typeof raw === 'number') return String(raw);
+	return typeof raw === 'string' ? raw.trim() : '';
+}
+
+function getFolderOf(path: string): string {
+	const index = path.lastIndexOf('/');
+	return index === -1 ? '' : path.slice(0, index);
+}
+
 function normalizeTaskText(value: string): string {
 	return value.replace(/\s+/g, ' ').trim();
 }
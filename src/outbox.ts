@@ -0,0 +1,178 @@
+import { generateUuid } from './task-frontmatter';
+
+export type OutboxIntent = 'create' | 'update' | 'complete' | 'delete' | 'move';
+
+/**
+ * A local change waiting to be pushed to Todoist.
+ * Command UUIDs are assigned once and reused on every replay — Todoist ignores
+ * a command whose UUID it has already processed, so replays are idempotent.
+ */
+export interface OutboxEntry {
+	id: string;
+	intent: OutboxIntent;
+	path: string;
+	todoistId?: string;
+	/** Sync API command UUIDs keyed by command type (item_add, item_update, …). */
+	commandIds: Record<string, string>;
+	/** temp_id used by a replayed item_add so it maps back to the same task. */
+	tempId?: string;
+	createdAt: string;
+	attempts: number;
+	lastError?: string;
+}
+
+export interface OutboxData {
+	entries: OutboxEntry[];
+	/**
+	 * False until the first push after upgrading, which still scans the vault for
+	 * dirty_local / queued_local_create notes recorded before the outbox existed.
+	 */
+	seeded: boolean;
+}
+
+/** Durable journal of local intents, persisted with the plugin data. */
+export class Outbox {
+	private readonly entries: OutboxEntry[];
+	private seeded: boolean;
+	private readonly persist: () => Promise<void>;
+
+	constructor(data: OutboxData | null | undefined, persist: () => Promise<void>) {
+		this.entries = Array.isArray(data?.entries) ? data.entries.map((entry) => ({ ...entry, commandIds: { ...entry.commandIds } })) : [];
+		this.seeded = Boolean(data?.seeded);
+		this.persist = persist;
+	}
+
+	list(): readonly OutboxEntry[] {
+		return this.entries;
+	}
+
+	get size(): number {
+		return this.entries.length;
+	}
+
+	/** The pending create/update entry for a note, if any (deletes are keyed by ID only). */
+	entryFor(path: string): OutboxEntry | undefined {
+		return this.entries.find((entry) => entry.path === path && entry.intent !== 'delete');
+	}
+
+	isSeeded(): boolean {
+		return this.seeded;
+	}
+
+	async markSeeded(): Promise<void> {
+		if (this.seeded) return;
+		this.seeded = true;
+		await this.persist();
+	}
+
+	/**
+	 * Records an intent for a note. Update-like intents (update, complete, move)
+	 * coalesce into one entry per path because the payload is read from the note
+	 * at push time; a pending create absorbs them entirely.
+	 */
+	async record(intent: OutboxIntent, path: string, todoistId?: string): Promise<void> {
+		const existing = this.entryFor(path);
+		if (intent === 'delete') {
+			if (existing) this.entries.splice(this.entries.indexOf(existing), 1);
+			// A note deleted before its create was sent has nothing to delete remotely
+			if (!todoistId) {
+				if (existing) await this.persist();
+				return;
+			}
+			this.entries.push(this.newEntry(intent, path, todoistId));
+			await this.persist();
+			return;
+		}
+
+		if (existing) {
+			if (existing.intent === 'create' || (existing.intent === intent && existing.attempts === 0)) {
+				return;
+			}
+			if (intent !== 'create') existing.intent = intent;
+			if (todoistId) existing.todoistId = todoistId;
+			// A previously attempted update may already have been applied by Todoist;
+			// new edits need fresh command UUIDs or they would be ignored as repeats.
+			if (existing.attempts > 0) {
+				existing.commandIds = {};
+				existing.attempts = 0;
+				delete existing.lastError;
+			}
+			await this.persist();
+			return;
+		}
+
+		this.entries.push(this.newEntry(intent, path, todoistId));
+		await this.persist();
+	}
+
+	/** Follows a note across renames and moves. */
+	async renamePath(oldPath: string, newPath: string): Promise<void> {
+		let changed = false;
+		for (const entry of this.entries) {
+			if (entry.path === oldPath) {
+				entry.path = newPath;
+				changed = true;
+			}
+		}
+		if (changed) await this.persist();
+	}
+
+	async recordAttempt(id: string, error?: string): Promise<void> {
+		const entry = this.entries.find((candidate) => candidate.id === id);
+		if (!entry) return;
+		entry.attempts += 1;
+		entry.lastError = error;
+		await this.persist();
+	}
+
+	/**
+	 * Gives an entry new command UUIDs (and a new temp_id for a create) after
+	 * Todoist rejected it: replaying the old UUIDs would only return the same error.
+	 */
+	async renewCommandIds(id: string): Promise<void> {
+		const entry = this.entries.find((candidate) => candidate.id === id);
+		if (!entry) return;
+		entry.commandIds = {};
+		if (entry.intent === 'create') entry.tempId = generateUuid();
+		await this.persist();
+	}
+
+	async remove(ids: string[]): Promise<void> {
+		const idSet = new Set(ids);
+		const before = this.entries.length;
+		for (let i = this.entries.length - 1; i >= 0; i--) {
+			const entry = this.entries[i];
+			if (entry && idSet.has(entry.id)) this.entries.splice(i, 1);
+		}
+		if (this.entries.length !== before) await this.persist();
+	}
+
+	/** Drops all entries; the next sync rescans the vault to rediscover pending notes. */
+	async clear(): Promise<void> {
+		this.entries.length = 0;
+		this.seeded = false;
+		await this.persist();
+	}
+
+	/** Saves command UUIDs assigned while queueing, before the batch is sent. */
+	async save(): Promise<void> {
+		await this.persist();
+	}
+
+	toJSON(): OutboxData {
+		return { entries: this.entries, seeded: this.seeded };
+	}
+
+	private newEntry(intent: OutboxIntent, path: string, todoistId?: string): OutboxEntry {
+		return {
+			id: generateUuid(),
+			intent,
+			path,
+			...(todoistId ? { todoistId } : {}),
+			commandIds: {},
+			...(intent === 'create' ? { tempId: generateUuid() } : {}),
+			createdAt: new Date().toISOString(),
+			attempts: 0,
+		};
+	}
+}
@@ -1,3 +1,5 @@
+import { TodoistNetworkError, getHeader, parseRetryAfter } from './todoist-errors';
+
 function sleep(ms: number): Promise<void> {
 	return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -22,26 +24,45 @@ export class RateLimiter {
 
 export const MAX_RETRIES = 3;
 export const BASE_RETRY_DELAY_MS = 2000;
+// A longer Retry-After is not waited out; the response is returned for the caller to report
+export const MAX_RETRY_DELAY_MS = 60000;
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
 
 /**
- * Wraps a fetch function with exponential-backoff retry on HTTP 429 (rate-limited).
- * Returns the response once it is not 429, or rethrows after exhausting retries.
+ * Wraps a request with retries for transient failures: 429 and 5xx responses
+ * and network errors. Waits as long as Retry-After asks when the response has
+ * one, otherwise backs off exponentially with jitter. Once retries are
+ * exhausted the last response is returned (or the network error rethrown).
+ * Retrying /sync commands is safe because Todoist dedupes them by UUID.
  */
-export async function withRetryOn429<T extends { status: number }>(
+export async function withRetry<T extends { status: number; headers?: Record<string, string> }>(
 	fn: () => Promise<T>,
 ): Promise<T> {
 	let delay = BASE_RETRY_DELAY_MS;
-	for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-		const response = await fn();
-		if (response.status !== 429) {
+	for (let attempt = 0; ; attempt++) {
+		let response: T;
+		try {
+			response = await fn();
+		} catch (e) {
+			if (!(e instanceof TodoistNetworkError) || attempt === MAX_RETRIES) throw e;
+			await sleep(withJitter(delay));
+			delay *= 2;
+			continue;
+		}
+		if (!RETRYABLE_STATUSES.has(response.status) || attempt === MAX_RETRIES) {
 			return response;
 		}
-		if (attempt === MAX_RETRIES) {
-			return response; // Return the 429 response; caller decides how to handle
+		const retryAfter = parseRetryAfter(getHeader(response.headers, 'retry-after'));
+		if (retryAfter !== null && retryAfter > MAX_RETRY_DELAY_MS) {
+			return response;
 		}
-		await sleep(delay);
+		await sleep(retryAfter ?? withJitter(delay));
 		delay *= 2;
 	}
-	// Unreachable, but satisfies TypeScript
-	return fn();
+}
+
+/** Random delay between half and all of the given one, so clients do not retry in lockstep. */
+function withJitter(delay: number): number {
+	return delay / 2 + Math.random() * (delay / 2);
 }
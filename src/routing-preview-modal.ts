@@ -0,0 +1,84 @@
+import { App, Modal, Setting } from 'obsidian';
+import type TaskTodoistPlugin from './main';
+import type { NoteMove } from './task-note-repository';
+import { notify } from './notify';
+
+export class RoutingPreviewModal extends Modal {
+	private readonly plugin: TaskTodoistPlugin;
+	private running = false;
+
+	constructor(app: App, plugin: TaskTodoistPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.setTitle('Task note routing');
+
+		const moves = this.plugin.planNoteMoves();
+		if (moves === null) {
+			contentEl.createDiv({
+				cls: 'task-todoist-parse-hint',
+				text: 'Run a sync first; the preview uses the tasks from the last sync.',
+			});
+			return;
+		}
+		if (moves.length === 0) {
+			contentEl.createDiv({
+				cls: 'task-todoist-parse-hint',
+				text: 'Every synced task note is already in the folder its routing gives it.',
+			});
+			return;
+		}
+
+		contentEl.createDiv({
+			cls: 'task-todoist-parse-hint',
+			text: `${moves.length} task notes are not where the current routing and folder settings would put them. ` +
+				'Sync moves a note the next time its task changes in todoist, or you can move them all now.',
+		});
+		const list = contentEl.createEl('ul', { cls: 'task-todoist-routing-preview-list' });
+		for (const move of moves) {
+			const entry = list.createEl('li', { text: move.file.basename });
+			entry.createDiv({
+				cls: 'task-todoist-routing-preview-folders',
+				text: `${move.fromFolder} → ${move.toFolder}`,
+			});
+		}
+
+		new Setting(contentEl)
+			.addButton((button) => {
+				button
+					.setButtonText('Move notes')
+					.setCta()
+					.onClick(async () => {
+						if (this.running) return;
+						this.running = true;
+						button.setDisabled(true);
+						try {
+							await this.handleMove(moves);
+						} finally {
+							this.running = false;
+							button.setDisabled(false);
+						}
+					});
+			})
+			.addButton((button) => {
+				button.setButtonText('Close').onClick(() => this.close());
+			});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private async handleMove(moves: NoteMove[]): Promise<void> {
+		const result = await this.plugin.applyNoteMoves(moves);
+		const prefix = result.ok ? 'Success:' : 'Failed:';
+		notify(this.plugin.settings, `${prefix} ${result.message}`, 8000);
+		if (result.ok) {
+			this.close();
+		}
+	}
+}
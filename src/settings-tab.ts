@@ -2,7 +2,8 @@ import { App, PluginSettingTab, SecretComponent, Setting } from 'obsidian';
 import { notify } from './notify';
 import type TaskTodoistPlugin from './main';
 import { DEFAULT_PROP_NAMES } from './settings';
-import type { CompletedTaskMode, DeletedTaskMode, ConflictResolution, ImportProjectScope, PropNames, TodoistLinkStyle } from './settings';
+import type { CompletedTaskMode, DeletedTaskMode, ConflictResolution, ImportProjectScope, ImportRule, PropNames, RoutingDueRange, RoutingRecurrence, RoutingRule, TodoistLinkStyle } from './settings';
+import { validateTodoistFilter } from './todoist-filter';
 
 type TabId = 'general' | 'import' | 'sync' | 'notes' | 'notetask' | 'properties';
 
@@ -276,6 +277,8 @@ export class TaskTodoistSettingTab extends PluginSettingTab {
 				});
 			});
 
+		this.renderImportRules(el);
+
 		new Setting(el).setName('Label tags').setHeading();
 
 		new Setting(el)
@@ -330,6 +333,238 @@ export class TaskTodoistSettingTab extends PluginSettingTab {
 			});
 	}
 
+	private renderImportRules(el: HTMLElement): void {
+		new Setting(el).setName('Filter import rules').setHeading();
+
+		new Setting(el)
+			.setDesc(
+				'Import tasks matching a todoist filter query, e.g. "(today | overdue) & #Work & !@someday". ' +
+				'While any rule is enabled, the project scope, allowed project names and required label above are ignored; the exclusions still apply. ' +
+				'A task uses the folder and template of the first rule it matches.'
+			)
+			.addButton((button) => {
+				button.setButtonText('Add rule').onClick(async () => {
+					this.plugin.settings.importRules.push({ name: '', query: '', folder: '', templatePath: '', enabled: true });
+					await this.plugin.saveSettings();
+					this.display();
+				});
+			});
+
+		this.plugin.settings.importRules.forEach((rule, index) => this.renderImportRule(el, rule, index));
+	}
+
+	private renderImportRule(el: HTMLElement, rule: ImportRule, index: number): void {
+		const save = () => this.plugin.saveSettings();
+		new Setting(el)
+			.setName(rule.name.trim() || `Rule ${index + 1}`)
+			.addText((text) => {
+				text.setPlaceholder('Name').setValue(rule.name).onChange(async (value) => {
+					rule.name = value;
+					await save();
+				});
+			})
+			.addToggle((toggle) => {
+				toggle.setTooltip('Enabled').setValue(rule.enabled).onChange(async (value) => {
+					rule.enabled = value;
+					await save();
+				});
+			})
+			.addExtraButton((button) => {
+				button.setIcon('trash').setTooltip('Remove rule').onClick(async () => {
+					this.plugin.settings.importRules.splice(index, 1);
+					await save();
+					this.display();
+				});
+			});
+
+		const querySetting = new Setting(el).setName('Filter query');
+		const showQueryError = (query: string) => {
+			querySetting.setDesc(query.trim() ? (validateTodoistFilter(query) ?? '') : 'The rule matches nothing until a query is set.');
+		};
+		showQueryError(rule.query);
+		querySetting.addText((text) => {
+			text.setPlaceholder('(today | overdue) & #work').setValue(rule.query).onChange(async (value) => {
+				rule.query = value;
+				showQueryError(value);
+				await save();
+			});
+			text.inputEl.size = 40;
+		});
+
+		new Setting(el)
+			.setName('Folder and template')
+			.setDesc('Base folder for the notes (default: the tasks folder) and the path of a template note (default: the note template setting).')
+			.addText((text) => {
+				text.setPlaceholder('Tasks/work').setValue(rule.folder).onChange(async (value) => {
+					rule.folder = value.trim();
+					await save();
+				});
+			})
+			.addText((text) => {
+				text.setPlaceholder('Templates/Work task.md').setValue(rule.templatePath).onChange(async (value) => {
+					rule.templatePath = value.trim();
+					await save();
+				});
+			});
+	}
+
+	private renderRoutingRules(el: HTMLElement): void {
+		new Setting(el).setName('Routing rules').setHeading();
+
+		new Setting(el)
+			.setDesc(
+				'Choose the folder, template and extra tags of imported task notes by project, section, label, priority, due date or recurrence. ' +
+				'Rules are checked from the top and the first match wins; project and section subfolders still apply below the rule\'s folder. ' +
+				'A rule\'s folder and template take precedence over those of filter import rules.'
+			)
+			.addButton((button) => {
+				button.setButtonText('Preview note moves').onClick(() => {
+					this.plugin.openRoutingPreviewModal();
+				});
+			})
+			.addButton((button) => {
+				button.setButtonText('Add rule').onClick(async () => {
+					this.plugin.settings.routingRules.push({
+						name: '',
+						enabled: true,
+						projects: '',
+						sections: '',
+						labels: '',
+						priorities: '',
+						dueRange: 'any',
+						recurrence: 'any',
+						folder: '',
+						templatePath: '',
+						tags: '',
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				});
+			});
+
+		this.plugin.settings.routingRules.forEach((rule, index) => this.renderRoutingRule(el, rule, index));
+	}
+
+	private renderRoutingRule(el: HTMLElement, rule: RoutingRule, index: number): void {
+		const rules = this.plugin.settings.routingRules;
+		const save = () => this.plugin.saveSettings();
+		const moveRule = async (offset: number) => {
+			rules.splice(index, 1);
+			rules.splice(index + offset, 0, rule);
+			await save();
+			this.display();
+		};
+		new Setting(el)
+			.setName(rule.name.trim() || `Routing rule ${index + 1}`)
+			.addText((text) => {
+				text.setPlaceholder('Name').setValue(rule.name).onChange(async (value) => {
+					rule.name = value;
+					await save();
+				});
+			})
+			.addToggle((toggle) => {
+				toggle.setTooltip('Enabled').setValue(rule.enabled).onChange(async (value) => {
+					rule.enabled = value;
+					await save();
+				});
+			})
+			.addExtraButton((button) => {
+				button.setIcon('arrow-up').setTooltip('Move up').setDisabled(index === 0).onClick(() => moveRule(-1));
+			})
+			.addExtraButton((button) => {
+				button.setIcon('arrow-down').setTooltip('Move down').setDisabled(index === rules.length - 1).onClick(() => moveRule(1));
+			})
+			.addExtraButton((button) => {
+				button.setIcon('trash').setTooltip('Remove rule').onClick(async () => {
+					rules.splice(index, 1);
+					await save();
+					this.display();
+				});
+			});
+
+		new Setting(el)
+			.setName('Projects and sections')
+			.setDesc('Comma-separated names. Leave empty to match any.')
+			.addText((text) => {
+				text.setPlaceholder('Work, clients').setValue(rule.projects).onChange(async (value) => {
+					rule.projects = value;
+					await save();
+				});
+			})
+			.addText((text) => {
+				text.setPlaceholder('Meetings').setValue(rule.sections).onChange(async (value) => {
+					rule.sections = value;
+					await save();
+				});
+			});
+
+		new Setting(el)
+			.setName('Labels and priorities')
+			.setDesc('Matches tasks with any of the labels and any of the priorities. Leave empty to match any.')
+			.addText((text) => {
+				text.setPlaceholder('Waiting, review').setValue(rule.labels).onChange(async (value) => {
+					rule.labels = value;
+					await save();
+				});
+			})
+			.addText((text) => {
+				text.setPlaceholder('P1, p2').setValue(rule.priorities).onChange(async (value) => {
+					rule.priorities = value;
+					await save();
+				});
+			});
+
+		new Setting(el)
+			.setName('Due date and recurrence')
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('any', 'Any due date')
+					.addOption('no-date', 'No due date')
+					.addOption('overdue', 'Overdue')
+					.addOption('today', 'Due today')
+					.addOption('next-7-days', 'Due in the next 7 days')
+					.addOption('later', 'Due later')
+					.setValue(rule.dueRange)
+					.onChange(async (value) => {
+						rule.dueRange = value as RoutingDueRange;
+						await save();
+					});
+			})
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('any', 'Recurring or not')
+					.addOption('recurring', 'Recurring')
+					.addOption('not-recurring', 'Not recurring')
+					.setValue(rule.recurrence)
+					.onChange(async (value) => {
+						rule.recurrence = value as RoutingRecurrence;
+						await save();
+					});
+			});
+
+		new Setting(el)
+			.setName('Folder, template and tags')
+			.setDesc('Base folder for the notes, the path of a template note and comma-separated tags added to new notes. Empty folder and template fall back to the import rule or the defaults.')
+			.addText((text) => {
+				text.setPlaceholder('Tasks/work').setValue(rule.folder).onChange(async (value) => {
+					rule.folder = value.trim();
+					await save();
+				});
+			})
+			.addText((text) => {
+				text.setPlaceholder('Templates/Work task.md').setValue(rule.templatePath).onChange(async (value) => {
+					rule.templatePath = value.trim();
+					await save();
+				});
+			})
+			.addText((text) => {
+				text.setPlaceholder('Work').setValue(rule.tags).onChange(async (value) => {
+					rule.tags = value;
+					await save();
+				});
+			});
+	}
+
 	// ── Sync ───────────────────────────────────────────────────────────────────
 	// Sync schedule, conflict resolution, file organization, and archive.
 
@@ -348,6 +583,15 @@ export class TaskTodoistSettingTab extends PluginSettingTab {
 				});
 			});
 
+		new Setting(el)
+			.setName('Preview sync')
+			.setDesc('List the notes a sync would create, update, move, archive or delete and the commands it would send to todoist, then run it only if you approve. Useful before changing the folder layout or the deleted task mode.')
+			.addButton((button) => {
+				button.setButtonText('Preview').onClick(() => {
+					this.plugin.openSyncPlanModal();
+				});
+			});
+
 		new Setting(el)
 			.setName('Enable scheduled sync')
 			.setDesc('Run sync automatically in the background.')
@@ -388,11 +632,12 @@ export class TaskTodoistSettingTab extends PluginSettingTab {
 
 		new Setting(el)
 			.setName('Conflict resolution')
-			.setDesc('When both local and remote changed since last sync, choose which side wins.')
+			.setDesc('When a field changed both in the note and in todoist since the last sync, choose which side wins, or hold the task until you resolve it.')
 			.addDropdown((dropdown) => {
 				dropdown
 					.addOption('local-wins', 'Local wins (default — skip remote overwrite)')
 					.addOption('remote-wins', 'Remote wins — overwrite local changes with Todoist data')
+					.addOption('manual', 'Ask me — hold the task until the conflict is resolved')
 					.setValue(this.plugin.settings.conflictResolution)
 					.onChange(async (value) => {
 						this.plugin.settings.conflictResolution = value as ConflictResolution;
@@ -400,10 +645,86 @@ export class TaskTodoistSettingTab extends PluginSettingTab {
 					});
 			});
 
+		new Setting(el)
+			.setName('Resolve sync conflicts')
+			.setDesc('Review the fields edited both in a note and in todoist and choose which value to keep. Only used when conflict resolution is set to ask.')
+			.addButton((button) => {
+				button.setButtonText('Open').onClick(() => {
+					this.plugin.openSyncConflictModal();
+				});
+			});
+
+		new Setting(el)
+			.setName('Sync comments')
+			.setDesc('Mirror todoist task comments into a managed comments block at the end of each task note. List items added to that block are posted as new comments on the next sync.')
+			.addToggle((toggle) => {
+				toggle.setValue(this.plugin.settings.syncComments).onChange(async (value) => {
+					this.plugin.settings.syncComments = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(el)
+			.setName('Sync checklist items as subtasks')
+			.setDesc('Sync top-level checklist items in a task note body as todoist subtasks of that task, without creating separate notes. Each synced item gets an inline ID marker, and deleting the line deletes the subtask.')
+			.addToggle((toggle) => {
+				toggle.setValue(this.plugin.settings.syncChecklistSubtasks).onChange(async (value) => {
+					this.plugin.settings.syncChecklistSubtasks = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
 		new Setting(el)
 			.setName('Last sync')
 			.setDesc(this.plugin.getLastSyncMessage());
 
+		new Setting(el).setName('Outbox').setHeading();
+
+		const outboxEntries = this.plugin.getOutboxEntries();
+		new Setting(el)
+			.setName('Pending local changes')
+			.setDesc(outboxEntries.length === 0
+				? 'No local changes are waiting to be pushed.'
+				: `${outboxEntries.length} change(s) waiting to be pushed on the next sync.`)
+			.addButton((button) => {
+				button
+					.setButtonText('Clear outbox')
+					.setDisabled(outboxEntries.length === 0)
+					.onClick(async () => {
+						await this.plugin.clearOutbox();
+						notify(this.plugin.settings, 'Outbox cleared. The next sync rescans the vault for pending changes.', 5000);
+						this.display();
+					});
+			});
+		if (outboxEntries.length > 0) {
+			const list = el.createEl('ul', { cls: 'task-todoist-outbox-list' });
+			for (const entry of outboxEntries) {
+				const attempts = entry.attempts > 0 ? ` — ${entry.attempts} failed attempt(s)` : '';
+				const error = entry.lastError ? `: ${entry.lastError}` : '';
+				list.createEl('li', { text: `${entry.intent} ${entry.path}${attempts}${error}` });
+			}
+		}
+
+		new Setting(el)
+			.setName('Delete todoist task with note')
+			.setDesc('When a synced task note is deleted, queue a delete for its todoist task.')
+			.addToggle((toggle) => {
+				toggle.setValue(this.plugin.settings.pushLocalDeletes).onChange(async (value) => {
+					this.plugin.settings.pushLocalDeletes = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		new Setting(el)
+			.setName('Force full sync')
+			.setDesc('Sync normally requests only changes since the last run. Clear the cached todoist state so the next run downloads everything again.')
+			.addButton((button) => {
+				button.setButtonText('Clear sync cache').onClick(async () => {
+					await this.plugin.resetSyncSnapshot();
+					notify(this.plugin.settings, 'Sync cache cleared — the next sync will be a full sync.', 5000);
+				});
+			});
+
 		new Setting(el)
 			.setName('Debug diagnostics')
 			.setDesc('Log the last sync result, phase errors, and settings to the developer console (Ctrl+Shift+I / Cmd+Option+I).')
@@ -450,6 +771,8 @@ export class TaskTodoistSettingTab extends PluginSettingTab {
 					});
 			});
 
+		this.renderRoutingRules(el);
+
 		new Setting(el).setName('Completed & deleted tasks').setHeading();
 
 		new Setting(el)
@@ -705,6 +1028,35 @@ export class TaskTodoistSettingTab extends PluginSettingTab {
 				});
 		}
 
+		new Setting(el).setName('Label notes').setHeading();
+
+		new Setting(el)
+			.setName('Create label notes')
+			.setDesc('Create a note for each label and link task notes to the notes of their labels. A label note is renamed along with its label.')
+			.addToggle((toggle) => {
+				toggle.setValue(this.plugin.settings.createLabelNotes).onChange(async (value) => {
+					this.plugin.settings.createLabelNotes = value;
+					await this.plugin.saveSettings();
+					this.display();
+				});
+			});
+
+		if (this.plugin.settings.createLabelNotes) {
+			new Setting(el)
+				.setName('Label notes folder')
+				.setDesc('Folder for label notes. Supports template variables.')
+				.addText((text) => {
+					text
+						.setPlaceholder('Labels')
+						.setValue(this.plugin.settings.labelNotesFolderPath)
+						.onChange(async (value) => {
+							this.plugin.settings.labelNotesFolderPath = value.trim();
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.size = 32;
+				});
+		}
+
 		new Setting(el).setName('Area projects').setHeading();
 
 		let areaTemplateSetting: Setting;
@@ -993,7 +1345,11 @@ export class TaskTodoistSettingTab extends PluginSettingTab {
 		this.addPropNameSetting(el, 'Todoist priority', 'Task priority (1–4).', 'todoistPriority');
 		this.addPropNameSetting(el, 'Priority label', 'Human-readable priority: none, low, medium, or high.', 'todoistPriorityLabel');
 		this.addPropNameSetting(el, 'Todoist duration', 'Task duration in minutes, synced two-way with Todoist.', 'todoistDuration');
+		this.addPropNameSetting(el, 'Todoist child order', 'Position of the task among its siblings, synced two-way with Todoist.', 'todoistChildOrder');
+		this.addPropNameSetting(el, 'Todoist day order', 'Position of the task in the today and upcoming views, synced two-way with Todoist.', 'todoistDayOrder');
 		this.addPropNameSetting(el, 'Completed date', 'Date set when the task is completed in Todoist (YYYY-MM-DD). Only written once; not overwritten on subsequent syncs.', 'completedAt');
+		this.addPropNameSetting(el, 'Todoist assignee', 'Name of the collaborator the task is assigned to in a shared project. Edit it to reassign the task, or clear it to unassign.', 'todoistAssignee');
+		this.addPropNameSetting(el, 'Todoist assignee ID', 'User ID of the assigned collaborator.', 'todoistAssigneeId');
 		this.addPropNameSetting(el, 'Todoist is deleted', 'Set to true when the task was confirmed deleted in Todoist (as opposed to completed).', 'todoistIsDeleted');
 
 		new Setting(el).setName('Due dates & recurrence').setHeading();
@@ -1001,6 +1357,7 @@ export class TaskTodoistSettingTab extends PluginSettingTab {
 		this.addPropNameSetting(el, 'Deadline date', 'Hard deadline from Todoist (separate from due date).', 'todoistDeadline');
 		this.addPropNameSetting(el, 'Todoist due date', 'ISO due date from Todoist.', 'todoistDue');
 		this.addPropNameSetting(el, 'Todoist due string', 'Natural language recurrence string from Todoist.', 'todoistDueString');
+		this.addPropNameSetting(el, 'Todoist reminders', 'List of reminders, synced two-way with Todoist. Use a time (2026-10-20 09:00) or an offset before the due time (30m before).', 'todoistReminders');
 		this.addPropNameSetting(el, 'Todoist is recurring', 'Whether the task is a recurring task.', 'todoistIsRecurring');
 		this.addPropNameSetting(el, 'Recurrence', 'iCal RRULE-like recurrence string for TaskNotes compatibility (e.g. DTSTART:20260224;FREQ=DAILY;INTERVAL=1).', 'recurrence');
 		this.addPropNameSetting(el, 'Complete instances', 'Accumulated list of completed recurring task instance dates, for TaskNotes compatibility.', 'completeInstances');
@@ -1011,6 +1368,7 @@ export class TaskTodoistSettingTab extends PluginSettingTab {
 		this.addPropNameSetting(el, 'Todoist section link', 'Wikilink to the section note (e.g. [[Projects/My Project/Section|Section]]).', 'todoistSectionLink');
 		this.addPropNameSetting(el, 'Parent project link', 'Wikilink to the parent project note, written on sub-project notes. Used by the {{parent_project_link}} template variable.', 'todoistParentProjectLink');
 		this.addPropNameSetting(el, 'Parent project name', 'Name of the parent project, written on sub-project notes. Used by the {{parent_project_name}} template variable.', 'todoistParentProjectName');
+		this.addPropNameSetting(el, 'Todoist label links', 'Wikilinks to the label notes of the task\'s labels (when label notes are enabled).', 'todoistLabelLinks');
 		this.addPropNameSetting(el, 'Parent task', 'Property storing the wiki-link to a parent task.', 'parentTask');
 		this.addPropNameSetting(el, 'Todoist child tasks', 'Wiki-links to child task notes.', 'todoistChildTasks');
 		this.addPropNameSetting(el, 'Todoist has children', 'Whether this task has child tasks.', 'todoistHasChildren');
@@ -1020,7 +1378,14 @@ export class TaskTodoistSettingTab extends PluginSettingTab {
 
 		this.addPropNameSetting(el, 'Todoist project name', 'Human-readable Todoist project name.', 'todoistProjectName');
 		this.addPropNameSetting(el, 'Todoist project color', 'Color of the Todoist project (e.g. "berry_red", "blue").', 'todoistProjectColor');
+		this.addPropNameSetting(el, 'Todoist project favorite', 'Whether the project is a favorite in Todoist, written on project notes.', 'todoistProjectFavorite');
+		this.addPropNameSetting(el, 'Todoist project archived', 'Whether the project is archived in Todoist. Set it on a project note to archive or unarchive the project.', 'todoistProjectArchived');
 		this.addPropNameSetting(el, 'Todoist section name', 'Human-readable Todoist section name.', 'todoistSectionName');
+		this.addPropNameSetting(el, 'Todoist section archived', 'Whether the section is archived in Todoist. Set it on a section note to archive or unarchive the section.', 'todoistSectionArchived');
+		this.addPropNameSetting(el, 'Todoist label name', 'Label name, written on label notes.', 'todoistLabelName');
+		this.addPropNameSetting(el, 'Todoist label ID', 'The remote Todoist label ID. Used on label notes to identify which label they represent.', 'todoistLabelId');
+		this.addPropNameSetting(el, 'Todoist label color', 'Color of the Todoist label, written on label notes.', 'todoistLabelColor');
+		this.addPropNameSetting(el, 'Todoist label favorite', 'Whether the label is a favorite in Todoist, written on label notes.', 'todoistLabelFavorite');
 		this.addPropNameSetting(el, 'Vault ID', 'Write-once stable UUID added to every plugin note at creation. Existing notes are backfilled on first sync. Never overwritten after initial write.', 'vaultId');
 		this.addPropNameSetting(el, 'Todoist ID', 'The remote Todoist task ID.', 'todoistId');
 		this.addPropNameSetting(el, 'Todoist project ID', 'The remote Todoist project ID. Also used on project notes to identify which project they represent.', 'todoistProjectId');
@@ -1038,6 +1403,11 @@ export class TaskTodoistSettingTab extends PluginSettingTab {
 		this.addPropNameSetting(el, 'Todoist sync status', 'Internal sync state (synced, dirty_local, etc.).', 'todoistSyncStatus');
 		this.addPropNameSetting(el, 'Todoist last imported signature', 'Internal hash for remote change detection.', 'todoistLastImportedSignature');
 		this.addPropNameSetting(el, 'Todoist last synced signature', 'Internal hash for local change detection.', 'todoistLastSyncedSignature');
+		this.addPropNameSetting(el, 'Todoist sync base', 'Internal per-field hashes for merging edits made on both sides.', 'todoistSyncBase');
+		this.addPropNameSetting(el, 'Todoist sync conflict', 'Internal record of fields edited in both places, waiting to be resolved.', 'todoistSyncConflict');
+		this.addPropNameSetting(el, 'Todoist project synced signature', 'Internal hash for detecting edits to project notes.', 'todoistProjectSyncedSignature');
+		this.addPropNameSetting(el, 'Todoist section synced signature', 'Internal hash for detecting edits to section notes.', 'todoistSectionSyncedSignature');
+		this.addPropNameSetting(el, 'Todoist checklist subtasks', 'Internal state of the checklist items synced as subtasks.', 'todoistChecklistSubtasks');
 		this.addPropNameSetting(el, 'Todoist last imported at', 'Timestamp of last sync from Todoist.', 'todoistLastImportedAt');
 
 		new Setting(el)
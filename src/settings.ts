@@ -4,7 +4,47 @@ export type CompletedTaskMode = 'keep-in-place' | 'move-to-folder';
 export type DeletedTaskMode = 'keep-in-place' | 'move-to-folder' | 'stop-syncing' | 'delete';
 export type ImportProjectScope = 'all-projects' | 'allow-list-by-name';
 export type TodoistLinkStyle = 'app' | 'web';
-export type ConflictResolution = 'local-wins' | 'remote-wins';
+/** Which side wins a field edited in both places; `manual` holds the task in the conflict inbox. */
+export type ConflictResolution = 'local-wins' | 'remote-wins' | 'manual';
+
+/** A named import scope: tasks matching `query` (Todoist filter syntax) are imported with the rule's folder and template. */
+export interface ImportRule {
+	name: string;
+	query: string;
+	/** Base folder for the rule's task notes; empty = the tasks folder. */
+	folder: string;
+	/** Vault path of a note whose content is the template; empty = the note template setting. */
+	templatePath: string;
+	enabled: boolean;
+}
+
+export type RoutingDueRange = 'any' | 'no-date' | 'overdue' | 'today' | 'next-7-days' | 'later';
+export type RoutingRecurrence = 'any' | 'recurring' | 'not-recurring';
+
+/**
+ * Chooses the folder, template and tags of imported task notes. Criteria left
+ * empty (or "any") match every task; the first enabled rule that matches wins.
+ */
+export interface RoutingRule {
+	name: string;
+	enabled: boolean;
+	/** Comma-separated project names. */
+	projects: string;
+	/** Comma-separated section names. */
+	sections: string;
+	/** Comma-separated labels; the task needs at least one of them. */
+	labels: string;
+	/** Comma-separated priorities, p1–p4. */
+	priorities: string;
+	dueRange: RoutingDueRange;
+	recurrence: RoutingRecurrence;
+	/** Base folder for matching notes; empty = the import rule's folder or the tasks folder. */
+	folder: string;
+	/** Vault path of a template note; empty = the import rule's template or the note template setting. */
+	templatePath: string;
+	/** Comma-separated tags added to new notes. */
+	tags: string;
+}
 
 export interface PropNames {
 	// Core task properties
@@ -67,6 +107,35 @@ export interface PropNames {
 	todoistNoteTaskSyncedAt: string;
 	// Date the task was completed (set when Todoist marks the task as done)
 	completedAt: string;
+	// Todoist reminders: "YYYY-MM-DD HH:mm" for a fixed time, "30m before" / "1h before" relative to due
+	todoistReminders: string;
+	// Label notes: Todoist label ID, name, color and favorite flag
+	todoistLabelId: string;
+	todoistLabelName: string;
+	todoistLabelColor: string;
+	todoistLabelFavorite: string;
+	// Wikilinks from a task note to the label notes of its labels
+	todoistLabelLinks: string;
+	// Assignee (responsible collaborator) display name and Todoist user ID
+	todoistAssignee: string;
+	todoistAssigneeId: string;
+	// Project notes: favorite and archived flags (synced two-way)
+	todoistProjectFavorite: string;
+	todoistProjectArchived: string;
+	// Hash of a project note's synced fields; a mismatch marks local edits to push
+	todoistProjectSyncedSignature: string;
+	// Section notes: archived flag and hash of the synced fields (as for project notes)
+	todoistSectionArchived: string;
+	todoistSectionSyncedSignature: string;
+	// Checklist subtasks of a task note: "id:checked:hash" per item as of the last sync
+	todoistChecklistSubtasks: string;
+	// Task ordering: position among siblings, and in the Today / Upcoming views (synced two-way)
+	todoistChildOrder: string;
+	todoistDayOrder: string;
+	// Per-field hashes ("field:hash") of a task as of the last sync, for three-way merges
+	todoistSyncBase: string;
+	// Fields of a task in the `conflict` sync status, with the note and Todoist values
+	todoistSyncConflict: string;
 }
 
 export const DEFAULT_PROP_NAMES: PropNames = {
@@ -116,6 +185,24 @@ export const DEFAULT_PROP_NAMES: PropNames = {
 	todoistNoteTaskId: 'todoist_note_task_id',
 	todoistNoteTaskSyncedAt: 'todoist_note_task_synced_at',
 	completedAt: 'completed',
+	todoistReminders: 'todoist_reminders',
+	todoistLabelId: 'todoist_label_id',
+	todoistLabelName: 'todoist_label_name',
+	todoistLabelColor: 'todoist_label_color',
+	todoistLabelFavorite: 'todoist_label_favorite',
+	todoistLabelLinks: 'todoist_label_links',
+	todoistAssignee: 'todoist_assignee',
+	todoistAssigneeId: 'todoist_assignee_id',
+	todoistProjectFavorite: 'todoist_project_favorite',
+	todoistProjectArchived: 'todoist_project_archived',
+	todoistProjectSyncedSignature: 'todoist_project_synced_signature',
+	todoistSectionArchived: 'todoist_section_archived',
+	todoistSectionSyncedSignature: 'todoist_section_synced_signature',
+	todoistChecklistSubtasks: 'todoist_checklist_subtasks',
+	todoistChildOrder: 'todoist_child_order',
+	todoistDayOrder: 'todoist_day_order',
+	todoistSyncBase: 'todoist_sync_base',
+	todoistSyncConflict: 'todoist_sync_conflict',
 };
 
 export interface TaskTodoistSettings {
@@ -136,6 +223,10 @@ export interface TaskTodoistSettings {
 	autoImportExcludeLabel: string;
 	autoImportExcludeNotePrefix: boolean;
 	autoImportAssignedToMeOnly: boolean;
+	// Filter-query import rules; when any is enabled they replace the project allow list and required label
+	importRules: ImportRule[];
+	// Ordered rules choosing the folder, template and tags of imported task notes
+	routingRules: RoutingRule[];
 	todoistTokenSecretName: string;
 	// New settings
 	propNames: PropNames;
@@ -191,6 +282,14 @@ export interface TaskTodoistSettings {
 	noteTaskSyncTagsAsLabels: boolean;
 	// Label tags: Todoist label names that are also mirrored as note tags (bidirectional)
 	labelTags: string;
+	// Label notes: create one note per Todoist label and link task notes to them
+	createLabelNotes: boolean;
+	labelNotesFolderPath: string;
+	// Outbox: deleting a synced task note also deletes the Todoist task
+	pushLocalDeletes: boolean;
+	// Comments: mirror Todoist task comments into a managed block and push new ones
+	syncComments: boolean;
+	syncChecklistSubtasks: boolean;
 }
 
 export const DEFAULT_SETTINGS: TaskTodoistSettings = {
@@ -211,6 +310,8 @@ export const DEFAULT_SETTINGS: TaskTodoistSettings = {
 	autoImportExcludeLabel: '',
 	autoImportExcludeNotePrefix: true,
 	autoImportAssignedToMeOnly: true,
+	importRules: [],
+	routingRules: [],
 	todoistTokenSecretName: DEFAULT_TODOIST_TOKEN_SECRET_NAME,
 	propNames: { ...DEFAULT_PROP_NAMES },
 	useProjectSubfolders: false,
@@ -250,4 +351,9 @@ export const DEFAULT_SETTINGS: TaskTodoistSettings = {
 	noteTaskStatusSectionMap: '',
 	noteTaskSyncTagsAsLabels: false,
 	labelTags: '',
+	createLabelNotes: false,
+	labelNotesFolderPath: 'Labels',
+	pushLocalDeletes: false,
+	syncComments: false,
+	syncChecklistSubtasks: false,
 };
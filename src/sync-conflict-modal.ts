@@ -0,0 +1,150 @@
+import { App, Modal, Setting, type TextComponent } from 'obsidian';
+import type TaskTodoistPlugin from './main';
+import type { SyncConflictEntry } from './task-note-repository';
+import { EDITABLE_CONFLICT_FIELDS, type MergeField, type SyncConflictChoice } from './task-merge';
+import { notify } from './notify';
+
+const FIELD_LABELS: Record<MergeField, string> = {
+	title: 'Title',
+	description: 'Description',
+	done: 'Status',
+	due: 'Due',
+	recurrence: 'Recurrence',
+	deadline: 'Deadline',
+	priority: 'Priority',
+	labels: 'Labels',
+	duration: 'Duration (minutes)',
+	reminders: 'Reminders',
+	assignee: 'Assignee',
+	project: 'Project',
+	section: 'Section',
+	parent: 'Parent task',
+};
+
+type ChoiceKind = SyncConflictChoice['keep'];
+
+/** Lists the tasks held in the conflict inbox and applies the value chosen for each field. */
+export class SyncConflictModal extends Modal {
+	private readonly plugin: TaskTodoistPlugin;
+	private running = false;
+	private openEntries = 0;
+
+	constructor(app: App, plugin: TaskTodoistPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.setTitle('Sync conflicts');
+
+		const entries = this.plugin.listSyncConflicts();
+		if (entries.length === 0) {
+			contentEl.createDiv({
+				cls: 'task-todoist-parse-hint',
+				text: this.plugin.settings.conflictResolution === 'manual'
+					? 'No conflicts to resolve.'
+					: 'No conflicts to resolve. Conflicts are only held here when conflict resolution is set to ask.',
+			});
+			return;
+		}
+
+		contentEl.createDiv({
+			cls: 'task-todoist-parse-hint',
+			text: 'These fields were edited both in the note and in todoist. Choose a value for each; the next sync sends it to todoist or writes it to the note.',
+		});
+		this.openEntries = entries.length;
+		for (const entry of entries) {
+			this.renderEntry(contentEl.createDiv(), entry);
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private renderEntry(containerEl: HTMLElement, entry: SyncConflictEntry): void {
+		new Setting(containerEl)
+			.setName(entry.title)
+			.setHeading()
+			.addExtraButton((button) => {
+				button
+					.setIcon('file-text')
+					.setTooltip('Open note')
+					.onClick(() => {
+						void this.app.workspace.getLeaf(false).openFile(entry.file);
+						this.close();
+					});
+			});
+
+		const kinds = new Map<MergeField, ChoiceKind>();
+		const edits = new Map<MergeField, string>();
+		for (const conflict of entry.fields) {
+			kinds.set(conflict.field, 'local');
+			edits.set(conflict.field, conflict.local);
+			const editable = EDITABLE_CONFLICT_FIELDS.has(conflict.field);
+			const setting = new Setting(containerEl)
+				.setName(FIELD_LABELS[conflict.field])
+				.setDesc(`Note: ${conflict.local || '—'} · Todoist: ${conflict.remote || '—'}`);
+			let editInput: TextComponent | null = null;
+			setting.addDropdown((dropdown) => {
+				dropdown.addOption('local', 'Keep note value').addOption('remote', 'Keep todoist value');
+				if (editable) dropdown.addOption('edit', 'Edit');
+				dropdown.setValue('local').onChange((value) => {
+					kinds.set(conflict.field, value as ChoiceKind);
+					editInput?.setDisabled(value !== 'edit');
+				});
+			});
+			if (editable) {
+				setting.addText((text) => {
+					text.setValue(conflict.local).setDisabled(true).onChange((value) => {
+						edits.set(conflict.field, value);
+					});
+					editInput = text;
+				});
+			}
+		}
+
+		new Setting(containerEl).addButton((button) => {
+			button
+				.setButtonText('Resolve')
+				.setCta()
+				.onClick(async () => {
+					if (this.running) return;
+					this.running = true;
+					button.setDisabled(true);
+					try {
+						await this.handleResolve(containerEl, entry, kinds, edits);
+					} finally {
+						this.running = false;
+						button.setDisabled(false);
+					}
+				});
+		});
+	}
+
+	private async handleResolve(
+		containerEl: HTMLElement,
+		entry: SyncConflictEntry,
+		kinds: Map<MergeField, ChoiceKind>,
+		edits: Map<MergeField, string>,
+	): Promise<void> {
+		const choices = new Map<MergeField, SyncConflictChoice>();
+		for (const [field, keep] of kinds) {
+			choices.set(field, keep === 'edit' ? { keep, value: edits.get(field) ?? '' } : { keep });
+		}
+		const result = await this.plugin.resolveSyncConflict(entry, choices);
+		const prefix = result.ok ? 'Success:' : 'Failed:';
+		notify(this.plugin.settings, `${prefix} ${result.message}`, 8000);
+		if (!result.ok) {
+			return;
+		}
+		// Every field has a choice, so the task has left the inbox
+		containerEl.remove();
+		this.openEntries -= 1;
+		if (this.openEntries === 0) {
+			this.close();
+		}
+	}
+}
@@ -0,0 +1,147 @@
+import { App, Modal, Setting } from 'obsidian';
+import type TaskTodoistPlugin from './main';
+import { notify } from './notify';
+import {
+	isEmptySyncPlan,
+	summarizeSyncPlan,
+	type SyncPlan,
+	type SyncPlanCommandKind,
+	type SyncPlanNoteAction,
+} from './sync-plan';
+
+const COMMAND_LABELS: Record<SyncPlanCommandKind, string> = {
+	'create-task': 'Create task',
+	'update-task': 'Update task',
+	'complete-task': 'Complete task',
+	'move-task': 'Move task',
+	'delete-task': 'Delete task',
+	'reorder-tasks': 'Reorder',
+	'update-project': 'Update project',
+	'create-section': 'Create section',
+	'update-section': 'Update section',
+	'create-project-task': 'Create project task',
+};
+
+const NOTE_ACTION_LABELS: Record<SyncPlanNoteAction, string> = {
+	create: 'Create',
+	update: 'Update',
+	move: 'Move',
+	'mark-done': 'Mark done',
+	'mark-deleted': 'Mark deleted',
+	archive: 'Archive',
+	'stop-syncing': 'Stop syncing',
+	delete: 'Delete',
+};
+
+/** Shows what a sync would do and runs it once approved. */
+export class SyncPlanModal extends Modal {
+	private readonly plugin: TaskTodoistPlugin;
+	private running = false;
+
+	constructor(app: App, plugin: TaskTodoistPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.setTitle('Sync preview');
+		contentEl.createDiv({ cls: 'task-todoist-parse-hint', text: 'Working out what a sync would change…' });
+		void this.loadPlan();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private async loadPlan(): Promise<void> {
+		const result = await this.plugin.planImportSync();
+		const { contentEl } = this;
+		contentEl.empty();
+		if (!result.ok) {
+			contentEl.createDiv({ cls: 'task-todoist-parse-hint', text: result.message });
+			return;
+		}
+		this.renderPlan(result.plan);
+	}
+
+	private renderPlan(plan: SyncPlan): void {
+		const { contentEl } = this;
+		contentEl.createDiv({
+			cls: 'task-todoist-parse-hint',
+			text: isEmptySyncPlan(plan)
+				? 'Nothing to sync: the vault and todoist are in step.'
+				: `${summarizeSyncPlan(plan)}. Nothing has been changed yet.`,
+		});
+
+		if (plan.conflicts.length > 0) {
+			new Setting(contentEl).setName('Conflicts').setHeading();
+			const list = contentEl.createEl('ul', { cls: 'task-todoist-sync-plan-list' });
+			for (const conflict of plan.conflicts) {
+				const winner = conflict.resolution === 'manual'
+					? 'held for the conflict inbox'
+					: conflict.resolution === 'local-wins' ? 'the note wins' : 'todoist wins';
+				list.createEl('li', { text: `${conflict.title} — edited in both places; ${winner}` });
+			}
+		}
+
+		if (plan.commands.length > 0) {
+			new Setting(contentEl).setName('Sent to todoist').setHeading();
+			const list = contentEl.createEl('ul', { cls: 'task-todoist-sync-plan-list' });
+			for (const command of plan.commands) {
+				list.createEl('li', { text: `${COMMAND_LABELS[command.kind]}: ${command.label}` });
+			}
+		}
+
+		if (plan.notes.length > 0) {
+			new Setting(contentEl).setName('Note changes').setHeading();
+			const list = contentEl.createEl('ul', { cls: 'task-todoist-sync-plan-list' });
+			for (const change of plan.notes) {
+				const target = change.targetPath ? ` → ${change.targetPath}` : '';
+				list.createEl('li', { text: `${NOTE_ACTION_LABELS[change.action]}: ${change.path}${target}` });
+			}
+		}
+
+		if (plan.warnings.length > 0) {
+			new Setting(contentEl).setName('Warnings').setHeading();
+			const list = contentEl.createEl('ul', { cls: 'task-todoist-sync-plan-list' });
+			for (const warning of plan.warnings) {
+				list.createEl('li', { text: warning });
+			}
+		}
+
+		contentEl.createDiv({
+			cls: 'task-todoist-parse-hint',
+			text: 'Checklist subtasks, comments, NoteTasks and project, section and label notes sync as usual but are not listed.',
+		});
+
+		new Setting(contentEl)
+			.addButton((button) => {
+				button
+					.setButtonText('Run sync')
+					.setCta()
+					.onClick(async () => {
+						if (this.running) return;
+						this.running = true;
+						button.setDisabled(true);
+						try {
+							await this.handleRun();
+						} finally {
+							this.running = false;
+							button.setDisabled(false);
+						}
+					});
+			})
+			.addButton((button) => {
+				button.setButtonText('Cancel').onClick(() => this.close());
+			});
+	}
+
+	private async handleRun(): Promise<void> {
+		const result = await this.plugin.runImportSync();
+		const prefix = result.ok ? 'Sync:' : 'Sync failed:';
+		notify(this.plugin.settings, `${prefix} ${result.shortMessage ?? result.message}`, 8000);
+		this.close();
+	}
+}
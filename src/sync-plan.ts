@@ -0,0 +1,65 @@
+import type { ConflictResolution } from './settings';
+
+export type SyncPlanNoteAction = 'create' | 'update' | 'move' | 'mark-done' | 'mark-deleted' | 'archive' | 'stop-syncing' | 'delete';
+
+/** A change a sync would make to a note in the vault. */
+export interface SyncPlanNoteChange {
+	action: SyncPlanNoteAction;
+	path: string;
+	/** Where the note ends up, for `move` and `archive`. */
+	targetPath?: string;
+	title: string;
+}
+
+export type SyncPlanCommandKind =
+	| 'create-task'
+	| 'update-task'
+	| 'complete-task'
+	| 'move-task'
+	| 'delete-task'
+	| 'reorder-tasks'
+	| 'update-project'
+	| 'create-section'
+	| 'update-section'
+	| 'create-project-task';
+
+/** A command a sync would send to Todoist. */
+export interface SyncPlanCommand {
+	kind: SyncPlanCommandKind;
+	label: string;
+	/** Note the command comes from, when there is one. */
+	path?: string;
+}
+
+/** A task edited in its note and in Todoist since the last sync. */
+export interface SyncPlanConflict {
+	path: string;
+	title: string;
+	resolution: ConflictResolution;
+}
+
+/**
+ * Everything a sync would do, worked out without writing to the vault or
+ * Todoist. Checklist subtasks, comments, NoteTasks, label notes and project
+ * and section notes are synced as usual but not listed.
+ */
+export interface SyncPlan {
+	commands: SyncPlanCommand[];
+	notes: SyncPlanNoteChange[];
+	conflicts: SyncPlanConflict[];
+	warnings: string[];
+}
+
+export function isEmptySyncPlan(plan: SyncPlan): boolean {
+	return plan.commands.length === 0 && plan.notes.length === 0 && plan.conflicts.length === 0;
+}
+
+/** One-line summary, e.g. "3 Todoist commands, 5 note changes, 1 conflict". */
+export function summarizeSyncPlan(plan: SyncPlan): string {
+	const count = (value: number, noun: string) => `${value} ${noun}${value === 1 ? '' : 's'}`;
+	return [
+		count(plan.commands.length, 'Todoist command'),
+		count(plan.notes.length, 'note change'),
+		count(plan.conflicts.length, 'conflict'),
+	].join(', ');
+}
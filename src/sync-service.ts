@@ -1,12 +1,67 @@
-import { TaskNoteRepository, type SyncedTaskEntry, type MissingTaskEntry, type ActiveNoteTaskEntry } from './task-note-repository';
+import {
+	TaskNoteRepository,
+	type SyncedTaskEntry,
+	type MissingTaskEntry,
+	type ActiveNoteTaskEntry,
+	type PendingProjectUpdate,
+	type PendingSectionCreate,
+	type PendingSectionUpdate,
+	type LocalTaskOrder,
+	type NoteMove,
+	type SyncConflictEntry,
+	type PendingLocalCreate,
+	type PendingLocalUpdate,
+	remoteSyncFields,
+} from './task-note-repository';
+import {
+	buildSyncConflicts,
+	hashTaskFields,
+	mergeTaskFields,
+	type FieldMerge,
+	type MergeField,
+	type SyncConflictChoice,
+	type SyncConflictField,
+} from './task-merge';
 import type { TaskTodoistSettings } from './settings';
-import { getPropNames } from './task-frontmatter';
-import { filterImportableItems } from './import-rules';
+import { generateUuid, getPropNames } from './task-frontmatter';
+import { compileImportRules, filterImportableItems } from './import-rules';
+import { resolveNoteRoutes } from './task-routing';
+import type { SyncPlan } from './sync-plan';
 import { TodoistClient } from './todoist-client';
-import type { TodoistItem, TodoistSyncSnapshot } from './todoist-client';
-import type { App } from 'obsidian';
+import type {
+	TodoistBatchOutcome,
+	TodoistCollaborator,
+	TodoistComment,
+	TodoistCompletedItem,
+	TodoistItem,
+	TodoistLabel,
+	TodoistProject,
+	TodoistProjectUpdateInput,
+	TodoistReminder,
+	TodoistSection,
+	TodoistSectionUpdateInput,
+	TodoistSyncSnapshot,
+} from './todoist-client';
+import { collectNewComments, hasCommentsBlock, markNewComments, unmarkComment, writeCommentsBlock } from './task-comments';
+import {
+	applyChecklistEdits,
+	hashChecklistContent,
+	parseChecklistSubtasks,
+	readChecklistBase,
+	writeChecklistBase,
+	type ChecklistLineEdit,
+	type ChecklistSubtaskBase,
+} from './task-checklist';
+import { planReminderChanges } from './task-reminders';
+import { buildRecurrenceString, recurrenceRuleKey, recurrenceToDueString } from './todoist-rrule';
+import { describeError } from './todoist-errors';
+import type { TodoistTransport } from './todoist-transport';
+import { TFile, type App } from 'obsidian';
 import { syncLinkedChecklistStates } from './linked-checklist-sync';
 import { type VaultIndex, buildVaultIndexSnapshot } from './vault-index';
+import type { Outbox, OutboxIntent } from './outbox';
+import { findProjectForTaskFolder } from './task-note-factory';
+import { resolveTemplateVars } from './template-variables';
 
 	export interface SyncRunResult {
 	ok: boolean;
@@ -19,6 +74,8 @@ import { type VaultIndex, buildVaultIndexSnapshot } from './vault-index';
 	pushedUpdates?: number;
 	linkedChecklistUpdates?: number;
 	syncToken?: string;
+	/** Merged remote state to persist for the next incremental sync. */
+	snapshot?: TodoistSyncSnapshot;
 	phaseErrors?: string[];
 }
 
@@ -28,17 +85,207 @@ export class SyncService {
 	private readonly token: string;
 	private readonly lastSyncToken: string | null;
 	private readonly vaultIndex: VaultIndex | null;
+	private readonly previousSnapshot: TodoistSyncSnapshot | null;
+	private readonly outbox: Outbox | null;
+	private readonly transport: TodoistTransport | undefined;
 
-	constructor(app: App, settings: TaskTodoistSettings, token: string, lastSyncToken: string | null = null, vaultIndex: VaultIndex | null = null) {
+	constructor(
+		app: App,
+		settings: TaskTodoistSettings,
+		token: string,
+		lastSyncToken: string | null = null,
+		vaultIndex: VaultIndex | null = null,
+		previousSnapshot: TodoistSyncSnapshot | null = null,
+		outbox: Outbox | null = null,
+		transport?: TodoistTransport,
+	) {
 		this.app = app;
 		this.settings = settings;
 		this.token = token;
 		this.lastSyncToken = lastSyncToken;
 		this.vaultIndex = vaultIndex;
+		this.previousSnapshot = previousSnapshot;
+		this.outbox = outbox;
+		this.transport = transport;
+	}
+
+	/**
+	 * Dry run of {@link runImportSync}: fetches the current Todoist state and
+	 * works out the commands, note changes and conflicts a sync would produce,
+	 * without writing to the vault, the outbox or Todoist.
+	 */
+	async planImportSync(): Promise<{ ok: true; plan: SyncPlan } | { ok: false; message: string }> {
+		const todoistClient = new TodoistClient(this.token, this.transport);
+		const repository = new TaskNoteRepository(this.app, this.settings, this.vaultIndex ?? undefined);
+		const plan: SyncPlan = { commands: [], notes: [], conflicts: [], warnings: [] };
+
+		let recentlyDeletedIds = new Set<string>();
+		try {
+			recentlyDeletedIds = await todoistClient.fetchRecentlyDeletedTaskIds(50);
+		} catch (e) {
+			plan.warnings.push(`Deleted-IDs fetch: ${errorMessage(e)}`);
+		}
+		const baseSnapshot = this.previousSnapshot && this.previousSnapshot.syncToken === this.lastSyncToken
+			? this.previousSnapshot
+			: null;
+		let snapshot: TodoistSyncSnapshot;
+		try {
+			snapshot = await todoistClient.fetchSyncSnapshot(baseSnapshot);
+			for (const id of snapshot.deletedItemIds ?? []) recentlyDeletedIds.add(id);
+		} catch (e) {
+			return { ok: false, message: `Todoist sync failed: ${errorMessage(e)}` };
+		}
+		const projectIdByName = new Map(snapshot.projects.map((project) => [project.name.toLowerCase(), project.id]));
+		const remoteItemById = new Map(snapshot.items.map((item) => [item.id, item]));
+		const scanVault = !this.outbox || !this.outbox.isSeeded();
+
+		// Local edits to push (phases 4–5f)
+		const pendingCreates = await repository.listPendingLocalCreates(scanVault ? undefined : this.listOutboxFiles(['create']));
+		for (const pending of pendingCreates) {
+			plan.commands.push({ kind: 'create-task', label: pending.title, path: pending.file.path });
+		}
+		const pendingUpdates = await repository.listPendingLocalUpdates(
+			scanVault ? undefined : this.listOutboxFiles(['update', 'complete', 'move']),
+			true,
+		);
+		for (const pending of pendingUpdates) {
+			const remoteItem = remoteItemById.get(pending.todoistId);
+			const resolvedProjectId = resolveProjectId(pending.projectId, pending.projectName, projectIdByName);
+			const resolvedSectionId = resolveSectionId(pending.sectionId, pending.sectionName, resolvedProjectId, snapshot, []);
+			const move = remoteItem && !pending.isProjectTask
+				? planTaskMove(pending.parentId, resolvedSectionId, resolvedProjectId, remoteItem, snapshot.sections)
+				: {};
+			plan.commands.push({ kind: pending.isDone ? 'complete-task' : 'update-task', label: pending.title, path: pending.file.path });
+			if (Object.keys(move).length > 0) {
+				plan.commands.push({ kind: 'move-task', label: pending.title, path: pending.file.path });
+			}
+		}
+		for (const entry of this.outbox?.list() ?? []) {
+			if (entry.intent === 'delete' && entry.todoistId && remoteItemById.has(entry.todoistId)) {
+				plan.commands.push({ kind: 'delete-task', label: entry.path, path: entry.path });
+			}
+		}
+		const projectById = new Map(snapshot.projects.map((project) => [project.id, project]));
+		for (const pending of await repository.listPendingProjectUpdates()) {
+			const remote = projectById.get(pending.projectId);
+			if (remote && planProjectUpdate(pending, remote, projectIdByName)) {
+				plan.commands.push({ kind: 'update-project', label: pending.name, path: pending.file.path });
+			}
+		}
+		for (const pending of await repository.listPendingSectionCreates()) {
+			plan.commands.push({ kind: 'create-section', label: pending.name, path: pending.file.path });
+		}
+		const sectionById = new Map(snapshot.sections.map((section) => [section.id, section]));
+		for (const pending of await repository.listPendingSectionUpdates()) {
+			const remote = sectionById.get(pending.sectionId);
+			if (remote && planSectionUpdate(pending, remote, projectIdByName)) {
+				plan.commands.push({ kind: 'update-section', label: pending.name, path: pending.file.path });
+			}
+		}
+		if (baseSnapshot) {
+			const { childOrders, dayOrders } = planTaskReorders(repository.listLocalTaskOrders(), baseSnapshot, snapshot);
+			const reordered = new Set([...Array.from(childOrders.values()).flatMap((orders) => Array.from(orders.keys())), ...dayOrders.keys()]);
+			if (reordered.size > 0) {
+				plan.commands.push({ kind: 'reorder-tasks', label: `${reordered.size} task(s)` });
+			}
+		}
+		if (this.settings.createProjectTasks) {
+			for (const pending of await repository.listPendingProjectTaskCreates()) {
+				plan.commands.push({ kind: 'create-project-task', label: pending.projectName, path: pending.file.path });
+			}
+		}
+
+		// Notes written from Todoist (phases 7–8). Pushed edits are not applied to the
+		// snapshot, so a pushed note only shows up here when Todoist changed it too.
+		const indexes = this.vaultIndex ? this.vaultIndex.get() : buildVaultIndexSnapshot(this.app, this.settings);
+		const sectionNameById = new Map(snapshot.sections.map((section) => [section.id, section.name]));
+		const checklistSubtaskIds = new Set<string>();
+		if (this.settings.syncChecklistSubtasks) {
+			for (const file of indexes.taskIndex.values()) {
+				const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+				readChecklistBase(fm, this.settings).forEach((_, id) => checklistSubtaskIds.add(id));
+			}
+		}
+		const importableItems = filterImportableItems(
+			snapshot.items,
+			snapshot.projects,
+			this.settings,
+			snapshot.userId,
+			sectionNameById,
+			new Set(indexes.noteTaskIndex.keys()),
+		).filter((item) => !checklistSubtaskIds.has(item.id));
+		plan.warnings.push(...compileImportRules(this.settings).errors);
+		const existingSyncedTasks = Array.from(indexes.taskIndex.entries()).map(([todoistId, file]) => ({ todoistId, file }));
+		const itemsToUpsertById = new Map(includeAncestorTasks(importableItems, snapshot.items).filter((item) => !item.is_deleted).map((item) => [item.id, item]));
+		for (const entry of existingSyncedTasks) {
+			const remoteItem = remoteItemById.get(entry.todoistId);
+			if (remoteItem && !remoteItem.is_deleted) {
+				itemsToUpsertById.set(remoteItem.id, remoteItem);
+			}
+		}
+		const itemsToUpsert = Array.from(itemsToUpsertById.values());
+		plan.notes.push(...repository.planItemSync(itemsToUpsert, {
+			projectNameById: new Map(snapshot.projects.map((project) => [project.id, project.name])),
+			sectionNameById,
+			sectionProjectIdById: new Map(snapshot.sections.map((section) => [section.id, section.project_id])),
+			projectParentIdById: new Map(snapshot.projects.map((project) => [project.id, project.parent_id])),
+			remindersByItemId: groupRemindersByItem(snapshot.reminders),
+			collaboratorNameById: new Map(snapshot.collaborators.map((c) => [c.id, c.full_name])),
+			noteRouteByItemId: resolveNoteRoutes(itemsToUpsert, snapshot.projects, this.settings, snapshot.userId, sectionNameById),
+		}));
+		plan.notes.push(...repository.planMissingRemoteTasks(findMissingEntries(existingSyncedTasks, remoteItemById, recentlyDeletedIds)));
+
+		// A note with edits to push that Todoist changed as well
+		const updatedPaths = new Set(plan.notes.filter((change) => change.action === 'update').map((change) => change.path));
+		for (const pending of pendingUpdates) {
+			if (updatedPaths.has(pending.file.path)) {
+				plan.conflicts.push({ path: pending.file.path, title: pending.title, resolution: this.settings.conflictResolution });
+			}
+		}
+		return { ok: true, plan };
+	}
+
+	/**
+	 * Task notes the routing rules would place in another folder, worked out
+	 * from the last synced snapshot. Null when nothing has been synced yet.
+	 */
+	planNoteMoves(): NoteMove[] | null {
+		const snapshot = this.previousSnapshot;
+		if (!snapshot) {
+			return null;
+		}
+		const repository = new TaskNoteRepository(this.app, this.settings, this.vaultIndex ?? undefined);
+		const items = snapshot.items.filter((item) => !item.is_deleted && !item.checked);
+		const sectionNameById = new Map(snapshot.sections.map((section) => [section.id, section.name]));
+		return repository.planNoteMoves(items, {
+			projectNameById: new Map(snapshot.projects.map((project) => [project.id, project.name])),
+			sectionNameById,
+			sectionProjectIdById: new Map(snapshot.sections.map((section) => [section.id, section.project_id])),
+			projectParentIdById: new Map(snapshot.projects.map((project) => [project.id, project.parent_id])),
+			noteRouteByItemId: resolveNoteRoutes(items, snapshot.projects, this.settings, snapshot.userId, sectionNameById),
+		});
+	}
+
+	async applyNoteMoves(moves: NoteMove[]): Promise<number> {
+		const repository = new TaskNoteRepository(this.app, this.settings, this.vaultIndex ?? undefined);
+		return repository.applyNoteMoves(moves);
+	}
+
+	listSyncConflicts(): SyncConflictEntry[] {
+		const repository = new TaskNoteRepository(this.app, this.settings, this.vaultIndex ?? undefined);
+		return repository.listSyncConflicts(this.previousSnapshot ? {
+			projectNameById: new Map(this.previousSnapshot.projects.map((project) => [project.id, project.name])),
+			sectionNameById: new Map(this.previousSnapshot.sections.map((section) => [section.id, section.name])),
+		} : {});
+	}
+
+	async resolveSyncConflict(file: TFile, choices: Map<MergeField, SyncConflictChoice>): Promise<boolean> {
+		const repository = new TaskNoteRepository(this.app, this.settings, this.vaultIndex ?? undefined);
+		return repository.resolveSyncConflict(file, choices);
 	}
 
 	async runImportSync(): Promise<SyncRunResult> {
-		const todoistClient = new TodoistClient(this.token);
+		const todoistClient = new TodoistClient(this.token, this.transport);
 		const repository = new TaskNoteRepository(this.app, this.settings, this.vaultIndex ?? undefined);
 		const phaseErrors: string[] = [];
 
@@ -59,24 +306,66 @@ export class SyncService {
 		}
 
 		// Phase 3: first snapshot + project lookup (critical — abort if this fails)
+		// Incremental when the persisted snapshot matches the stored sync token.
+		const baseSnapshot = this.previousSnapshot && this.previousSnapshot.syncToken === this.lastSyncToken
+			? this.previousSnapshot
+			: null;
 		let snapshot: TodoistSyncSnapshot;
 		try {
-			snapshot = await todoistClient.fetchSyncSnapshot();
+			snapshot = await todoistClient.fetchSyncSnapshot(baseSnapshot);
+			for (const id of snapshot.deletedItemIds ?? []) recentlyDeletedIds.add(id);
 		} catch (e) {
 			const message = errorMessage(e);
 			return { ok: false, message: `Todoist sync failed: ${message}` };
 		}
 		const projectIdByName = new Map(snapshot.projects.map((project) => [project.name.toLowerCase(), project.id]));
 
+		// Phase 3b: propagate label renames to task notes before anything is pushed,
+		// so pending local edits do not send the old name back (non-critical)
+		try {
+			const knownLabelNames = repository.listLabelNoteNames();
+			for (const label of this.previousSnapshot?.labels ?? []) knownLabelNames.set(label.id, label.name);
+			const labelRenames = findLabelRenames(knownLabelNames, snapshot.labels);
+			if (labelRenames.size > 0) {
+				await repository.applyLabelRenames(labelRenames);
+				this.settings.labelTags = renameLabelTags(this.settings.labelTags, labelRenames);
+			}
+		} catch (e) {
+			phaseErrors.push(`Label renames: ${errorMessage(e)}`);
+		}
+
+		// Once the outbox is seeded, the push phases only look at notes it has journalled.
+		// Until then (first run after upgrading) the vault is scanned and the results seeded.
+		const outbox = this.outbox;
+		const scanVault = !outbox || !outbox.isSeeded();
+		let outboxListingFailed = false;
+
 		// Phase 4: push pending local creates (per-item errors are non-critical)
 		let pendingLocalCreates: Awaited<ReturnType<typeof repository.listPendingLocalCreates>> = [];
 		try {
-			pendingLocalCreates = await repository.listPendingLocalCreates();
+			pendingLocalCreates = await repository.listPendingLocalCreates(scanVault ? undefined : this.listOutboxFiles(['create']));
+			if (outbox) {
+				if (scanVault) {
+					for (const pending of pendingLocalCreates) await outbox.record('create', pending.file.path);
+				}
+				await this.pruneResolvedOutboxEntries(['create'], pendingLocalCreates.map((pending) => pending.file.path));
+			}
 		} catch (e) {
+			outboxListingFailed = true;
 			phaseErrors.push(`List pending creates: ${errorMessage(e)}`);
 		}
-		for (const pending of pendingLocalCreates) {
+		// Creates are queued into one batch and sent together; results map back per note path.
+		// Parents go first so a child created in the same run can refer to its parent's temp_id.
+		const createBatch = todoistClient.createCommandBatch();
+		const queuedCreates: typeof pendingLocalCreates = [];
+		const queuedTempIds = new Map<string, string>();
+		for (const pending of orderParentsFirst(pendingLocalCreates)) {
 			try {
+				const parentId = pending.parentPath ? queuedTempIds.get(pending.parentPath) : pending.parentId;
+				if (pending.parentPath && !parentId) {
+					phaseErrors.push(`Warning: Create "${pending.title}" — waiting for its parent task "${pending.parentPath}" to be created`);
+					continue;
+				}
 				const resolvedProjectId = resolveProjectId(pending.projectId, pending.projectName, projectIdByName);
 				if (!resolvedProjectId && pending.projectName?.trim()) {
 					phaseErrors.push(`Warning: Create "${pending.title}" — project "${pending.projectName}" not found in Todoist`);
@@ -90,49 +379,100 @@ export class SyncService {
 					sectionWarnings,
 				);
 				phaseErrors.push(...sectionWarnings.map((w) => `Create "${pending.title}": ${w}`));
-				const dueDate = pending.dueDate?.trim() || undefined;
-				const dueString = pending.dueString?.trim() || undefined;
-				const createDeadline = pending.deadline?.trim() || undefined;
-				const createdTodoistId = await todoistClient.createTask({
+				const reminderChanges = planReminderChanges(pending.reminders ?? [], []);
+				for (const value of reminderChanges.invalid) {
+					phaseErrors.push(`Warning: Create "${pending.title}" — reminder "${value}" not understood`);
+				}
+				const assigneeWarnings: string[] = [];
+				const responsibleUid = resolveAssigneeId(pending.assignee, pending.assigneeId, snapshot.collaborators, assigneeWarnings);
+				phaseErrors.push(...assigneeWarnings.map((w) => `Warning: Create "${pending.title}" — ${w}`));
+				const entry = outbox?.entryFor(pending.file.path);
+				// Mark the note before anything is sent, so a run that stops before the
+				// result is written replays this temp_id instead of creating a duplicate
+				const tempId = pending.dispatchedTempId ?? entry?.tempId ?? generateUuid();
+				if (tempId !== pending.dispatchedTempId) {
+					await repository.markCreateDispatched(pending.file, tempId);
+				}
+				createBatch.queueCreateTask(pending.file.path, {
 					content: pending.title,
 					description: pending.description,
 					projectId: resolvedProjectId,
 					sectionId: resolvedSectionId,
+					parentId,
 					priority: pending.priority,
 					labels: pending.labels,
-					dueDate,
-					dueString,
-					deadline: createDeadline,
+					dueDate: pending.dueDate?.trim() || undefined,
+					dueString: pending.dueString?.trim() || undefined,
+					deadline: pending.deadline?.trim() || undefined,
 					duration: pending.duration,
-				});
-				// Write the pending ID immediately so a crash before markLocalCreateSynced()
-				// does not cause a duplicate task on the next sync run.
-				await repository.markCreateDispatched(pending.file, createdTodoistId);
-				if (pending.isDone) {
-					await todoistClient.updateTask({
-						id: createdTodoistId,
-						content: pending.title,
-						description: pending.description,
-						isDone: true,
-						projectId: resolvedProjectId,
-						sectionId: resolvedSectionId,
-						dueDate,
-						dueString,
-					});
+					reminders: reminderChanges.add,
+					responsibleUid: responsibleUid ?? undefined,
+				}, { close: pending.isDone, commandIds: entry?.commandIds, tempId });
+				queuedCreates.push(pending);
+				queuedTempIds.set(pending.file.path, tempId);
+			} catch (e) {
+				phaseErrors.push(`Create "${pending.title}": ${errorMessage(e)}`);
+			}
+		}
+		// Persist the command UUIDs assigned while queueing before anything is sent
+		await outbox?.save();
+		const createOutcomes = createBatch.size > 0 ? await createBatch.flush() : new Map<string, TodoistBatchOutcome>();
+		for (const pending of queuedCreates) {
+			const outcome = createOutcomes.get(pending.file.path);
+			await this.settleOutboxEntry(pending.file.path, outcome);
+			try {
+				if (!outcome?.createdId) {
+					// A rejected create was not applied and gets a fresh temp_id next time;
+					// one that got no answer keeps its temp_id and is replayed.
+					if (outcome?.errorKind === 'command_rejected') {
+						await repository.clearCreateDispatched(pending.file);
+						const entry = outbox?.entryFor(pending.file.path);
+						if (entry) await outbox?.renewCommandIds(entry.id);
+					}
+					phaseErrors.push(`Create "${pending.title}": ${outcome?.error ?? 'No result returned by Todoist.'}`);
+					continue;
+				}
+				if (!outcome.ok) {
+					// The task exists but a follow-up command failed; keep its real ID as the
+					// pending ID so it is not created again
+					await repository.markCreateDispatched(pending.file, outcome.createdId);
+					phaseErrors.push(`Create "${pending.title}": ${outcome.error ?? 'No result returned by Todoist.'}`);
+					continue;
 				}
-				await repository.markLocalCreateSynced(pending.file, createdTodoistId, pending.syncSignature);
+				const parentId = pending.parentPath ? createOutcomes.get(pending.parentPath)?.createdId : pending.parentId;
+				await repository.markLocalCreateSynced(pending.file, outcome.createdId, pending.syncSignature, parentId);
 			} catch (e) {
 				phaseErrors.push(`Create "${pending.title}": ${errorMessage(e)}`);
 			}
 		}
 
 		// Phase 5: push pending local updates (per-item errors are non-critical)
+		const updateIntents: OutboxIntent[] = ['update', 'complete', 'move'];
 		let pendingLocalUpdates: Awaited<ReturnType<typeof repository.listPendingLocalUpdates>> = [];
 		try {
-			pendingLocalUpdates = await repository.listPendingLocalUpdates();
+			pendingLocalUpdates = await repository.listPendingLocalUpdates(scanVault ? undefined : this.listOutboxFiles(updateIntents));
+			if (outbox) {
+				if (scanVault) {
+					for (const pending of pendingLocalUpdates) await outbox.record(pending.isDone ? 'complete' : 'update', pending.file.path, pending.todoistId);
+				}
+				await this.pruneResolvedOutboxEntries(updateIntents, pendingLocalUpdates.map((pending) => pending.file.path));
+			}
 		} catch (e) {
+			outboxListingFailed = true;
 			phaseErrors.push(`List pending updates: ${errorMessage(e)}`);
 		}
+		const updateBatch = todoistClient.createCommandBatch();
+		const queuedUpdates: typeof pendingLocalUpdates = [];
+		const remindersByItemId = groupRemindersByItem(snapshot.reminders);
+		const remoteItemById = new Map(snapshot.items.map((item) => [item.id, item]));
+		const remoteFieldMaps = {
+			projectNameById: new Map(snapshot.projects.map((project) => [project.id, project.name])),
+			sectionNameById: new Map(snapshot.sections.map((section) => [section.id, section.name])),
+			remindersByItemId,
+			collaboratorNameById: new Map(snapshot.collaborators.map((c) => [c.id, c.full_name])),
+		};
+		// Field merges of notes with hashes from their last sync; the rest push every field
+		const mergeByPath = new Map<string, { merge: FieldMerge; syncBase: Map<MergeField, string>; conflicts: SyncConflictField[] }>();
 		for (const pending of pendingLocalUpdates) {
 			try {
 				const resolvedProjectId = resolveProjectId(pending.projectId, pending.projectName, projectIdByName);
@@ -151,32 +491,121 @@ export class SyncService {
 				const dueDate = pending.dueDate?.trim() || undefined;
 				const dueString = pending.dueString?.trim() || undefined;
 				const deadline = pending.deadline?.trim() || undefined;
-				await todoistClient.updateTask({
+				// Notes without a reminders property leave the task's reminders alone
+				const reminderChanges = pending.reminders === undefined
+					? null
+					: planReminderChanges(pending.reminders, remindersByItemId.get(pending.todoistId) ?? []);
+				for (const value of reminderChanges?.invalid ?? []) {
+					phaseErrors.push(`Warning: Update "${pending.title}" — reminder "${value}" not understood`);
+				}
+				const assigneeWarnings: string[] = [];
+				const responsibleUid = resolveAssigneeId(pending.assignee, pending.assigneeId, snapshot.collaborators, assigneeWarnings);
+				phaseErrors.push(...assigneeWarnings.map((w) => `Warning: Update "${pending.title}" — ${w}`));
+				const remoteItem = remoteItemById.get(pending.todoistId);
+				// Only the fields edited in the note since the last sync are sent; fields
+				// edited in both places follow the conflict resolution setting.
+				let merge: FieldMerge | null = null;
+				if (remoteItem && pending.syncBase.size > 0) {
+					const localFields = {
+						...pending,
+						projectId: resolvedProjectId,
+						sectionId: resolvedSectionId,
+						assigneeId: responsibleUid === undefined ? pending.assigneeId : (responsibleUid ?? ''),
+					};
+					const localHashes = hashTaskFields(localFields);
+					const remoteFields = remoteSyncFields(remoteItem, remoteFieldMaps);
+					const remoteHashes = hashTaskFields(remoteFields);
+					const resolution = this.settings.conflictResolution;
+					merge = mergeTaskFields(pending.syncBase, localHashes, remoteHashes, resolution);
+					if (merge.conflicts.length > 0) {
+						const outcome = resolution === 'manual'
+							? 'resolve it with "Resolve sync conflicts"'
+							: `kept the ${resolution === 'local-wins' ? 'note' : 'todoist'} value`;
+						phaseErrors.push(`Warning: Conflict in "${pending.title}" — ${merge.conflicts.join(', ')} changed in both places; ${outcome}`);
+					}
+					const conflicts = resolution === 'manual'
+						? buildSyncConflicts(merge.conflicts, localFields, remoteFields, remoteHashes, remoteFieldMaps)
+						: [];
+					const syncBase = new Map(remoteHashes);
+					for (const field of merge.push) {
+						const hash = localHashes.get(field);
+						if (hash) syncBase.set(field, hash);
+					}
+					// Held fields keep their old base so they still conflict until resolved
+					for (const { field } of conflicts) {
+						const hash = pending.syncBase.get(field);
+						if (hash) syncBase.set(field, hash); else syncBase.delete(field);
+					}
+					mergeByPath.set(pending.file.path, { merge, syncBase, conflicts });
+					if (merge.push.size === 0) {
+						// Nothing left to send; the import below writes the Todoist values
+						if (conflicts.length > 0) {
+							await repository.markSyncConflict(pending.file, conflicts, syncBase);
+						} else {
+							await repository.markLocalUpdateSynced(pending.file, pending.syncSignature, syncBase);
+						}
+						await this.settleOutboxEntry(pending.file.path, { ok: true });
+						continue;
+					}
+				}
+				const push = (field: MergeField) => !merge || merge.push.has(field);
+				const recurrenceWarnings: string[] = [];
+				const recurrenceDue = remoteItem && !pending.isProjectTask && (!merge || (push('recurrence') && !push('due')))
+					? planRecurrenceDue(pending, remoteItem, dueDate, recurrenceWarnings)
+					: null;
+				phaseErrors.push(...recurrenceWarnings.map((w) => `Warning: Update "${pending.title}" — ${w}`));
+				// Project tasks stay in the project they represent
+				const move = remoteItem && !pending.isProjectTask && (push('project') || push('section') || push('parent'))
+					? planTaskMove(pending.parentId, resolvedSectionId, resolvedProjectId, remoteItem, snapshot.sections)
+					: {};
+				const entry = outbox?.entryFor(pending.file.path);
+				updateBatch.queueUpdateTask(pending.file.path, {
 					id: pending.todoistId,
 					// Project task notes are one-way (Obsidian→Todoist): never push the title.
-					...(pending.isProjectTask ? {} : { content: pending.title }),
-					description: pending.description,
-					isDone: pending.isDone,
+					...(pending.isProjectTask || !push('title') ? {} : { content: pending.title }),
+					...(push('description') ? { description: pending.description } : {}),
+					// A completed instance closes the recurring task, which moves it to the next date
+					isDone: push('done') ? pending.isDone || pending.completesInstance === true : undefined,
 					isRecurring: pending.isRecurring,
-					projectId: resolvedProjectId,
-					sectionId: resolvedSectionId,
-					priority: pending.priority,
-					labels: pending.labels,
-					dueDate,
-					dueString,
-					clearDue: !dueDate && !dueString,
-					deadline,
-					clearDeadline: !deadline,
-					duration: pending.duration,
-					clearDuration: pending.duration === undefined || pending.duration === null,
-				});
-				await repository.markLocalUpdateSynced(pending.file, pending.syncSignature);
+					...move,
+					...(push('priority') ? { priority: pending.priority } : {}),
+					...(push('labels') ? { labels: pending.labels } : {}),
+					...(push('due') ? { dueDate, dueString, clearDue: !dueDate && !dueString } : {}),
+					...(recurrenceDue ?? {}),
+					...(push('deadline') ? { deadline, clearDeadline: !deadline } : {}),
+					...(push('duration')
+						? { duration: pending.duration, clearDuration: pending.duration === undefined || pending.duration === null }
+						: {}),
+					...(push('reminders') ? { addReminders: reminderChanges?.add, removeReminderIds: reminderChanges?.removeIds } : {}),
+					...(push('assignee') ? { responsibleUid } : {}),
+				}, entry?.commandIds);
+				queuedUpdates.push(pending);
+			} catch (e) {
+				phaseErrors.push(`Update "${pending.title}": ${errorMessage(e)}`);
+			}
+		}
+		await outbox?.save();
+		const updateOutcomes = updateBatch.size > 0 ? await updateBatch.flush() : new Map<string, TodoistBatchOutcome>();
+		for (const pending of queuedUpdates) {
+			const outcome = updateOutcomes.get(pending.file.path);
+			await this.settleOutboxEntry(pending.file.path, outcome);
+			if (!outcome?.ok) {
+				phaseErrors.push(`Update "${pending.title}": ${outcome?.error ?? 'No result returned by Todoist.'}`);
+				continue;
+			}
+			try {
+				const merged = mergeByPath.get(pending.file.path);
+				if (merged && merged.conflicts.length > 0) {
+					await repository.markSyncConflict(pending.file, merged.conflicts, merged.syncBase);
+				} else {
+					await repository.markLocalUpdateSynced(pending.file, pending.syncSignature, merged?.syncBase);
+				}
 				// Record the completed instance date for recurring tasks so TaskNotes
 				// can track which occurrences have been checked off.
-				if (pending.isDone && pending.isRecurring && pending.dueDate) {
+				if (pending.isDone && pending.isRecurring && pending.dueDate && (!merged || merged.merge.push.has('done'))) {
 					await repository.recordRecurringCompletion(pending.file, pending.dueDate);
 				}
-				if (!pending.isProjectTask) {
+				if (!pending.isProjectTask && (!merged || merged.merge.push.has('title'))) {
 					await repository.renameTaskFileToMatchTitle(pending.file, pending.title);
 				}
 			} catch (e) {
@@ -184,9 +613,185 @@ export class SyncService {
 			}
 		}
 
+		// Phase 5b: replay journalled deletes of task notes (per-item errors are non-critical)
+		if (outbox) {
+			const activeIds = new Set(snapshot.items.map((item) => item.id));
+			const deleteEntries = outbox.list().filter((entry) => entry.intent === 'delete');
+			// Tasks already gone from Todoist need no command
+			await outbox.remove(deleteEntries.filter((entry) => !entry.todoistId || !activeIds.has(entry.todoistId)).map((entry) => entry.id));
+			const deleteBatch = todoistClient.createCommandBatch();
+			for (const entry of outbox.list()) {
+				if (entry.intent === 'delete' && entry.todoistId) {
+					deleteBatch.queueDeleteTask(entry.id, entry.todoistId, entry.commandIds);
+				}
+			}
+			if (deleteBatch.size > 0) {
+				await outbox.save();
+				const deleteOutcomes = await deleteBatch.flush();
+				for (const [entryId, outcome] of deleteOutcomes) {
+					if (outcome.ok) {
+						await outbox.remove([entryId]);
+					} else {
+						await outbox.recordAttempt(entryId, outcome.error);
+						phaseErrors.push(`Delete "${outbox.list().find((entry) => entry.id === entryId)?.path ?? entryId}": ${outcome.error ?? 'unknown error'}`);
+					}
+				}
+			}
+			if (scanVault && !outboxListingFailed) {
+				await outbox.markSeeded();
+			}
+		}
+
+		// Phase 5c: push project note edits (non-critical, per-project). Projects whose
+		// push fails stay dirty so the pull below does not overwrite the user's edits.
+		const dirtyProjectIds = new Set<string>();
+		try {
+			const pendingProjectUpdates = await repository.listPendingProjectUpdates();
+			const projectById = new Map(snapshot.projects.map((project) => [project.id, project]));
+			const projectBatch = todoistClient.createCommandBatch();
+			const queuedProjects: PendingProjectUpdate[] = [];
+			for (const pending of pendingProjectUpdates) {
+				const remote = projectById.get(pending.projectId);
+				if (!remote) {
+					phaseErrors.push(`Warning: Project "${pending.name}" — not found in Todoist`);
+					continue;
+				}
+				const input = planProjectUpdate(pending, remote, projectIdByName);
+				if (!input) {
+					// Already matches Todoist (e.g. the same edit was made in both places)
+					await repository.markProjectNoteSynced(pending.file, pending.syncSignature);
+					continue;
+				}
+				projectBatch.queueUpdateProject(pending.file.path, input);
+				queuedProjects.push(pending);
+			}
+			const projectOutcomes = projectBatch.size > 0 ? await projectBatch.flush() : new Map<string, TodoistBatchOutcome>();
+			for (const pending of queuedProjects) {
+				const outcome = projectOutcomes.get(pending.file.path);
+				if (!outcome?.ok) {
+					dirtyProjectIds.add(pending.projectId);
+					phaseErrors.push(`Project "${pending.name}": ${outcome?.error ?? 'No result returned by Todoist.'}`);
+					continue;
+				}
+				await repository.markProjectNoteSynced(pending.file, pending.syncSignature);
+			}
+		} catch (e) {
+			phaseErrors.push(`Project updates: ${errorMessage(e)}`);
+		}
+
+		// Phase 5d: create sections for new section notes and push section note edits
+		// (non-critical, per-section). Failed edits keep the section dirty, as in 5c.
+		const dirtySectionIds = new Set<string>();
+		try {
+			const pendingSectionCreates = await repository.listPendingSectionCreates();
+			const pendingSectionUpdates = await repository.listPendingSectionUpdates();
+			const sectionById = new Map(snapshot.sections.map((section) => [section.id, section]));
+			const sectionBatch = todoistClient.createCommandBatch();
+			const queuedSectionCreates: Array<{ pending: PendingSectionCreate; project: TodoistProject }> = [];
+			const queuedSectionUpdates: PendingSectionUpdate[] = [];
+			for (const pending of pendingSectionCreates) {
+				// A note without project properties or a project note nearby goes by its task folder
+				const projectId = resolveProjectId(pending.projectId, pending.projectName, projectIdByName)
+					?? (this.settings.useProjectSubfolders
+						? findProjectForTaskFolder(pending.file, resolveTemplateVars(this.settings.tasksFolderPath), snapshot.projects)
+						: null);
+				const project = snapshot.projects.find((candidate) => candidate.id === projectId);
+				if (!project) {
+					phaseErrors.push(`Warning: Section "${pending.name}" — no Todoist project found for the note`);
+					continue;
+				}
+				// Marked before sending, like task creates, so a lost response is replayed
+				const tempId = pending.dispatchedTempId ?? generateUuid();
+				if (tempId !== pending.dispatchedTempId) {
+					await repository.markCreateDispatched(pending.file, tempId);
+				}
+				sectionBatch.queueCreateSection(pending.file.path, { name: pending.name, projectId: project.id }, tempId);
+				queuedSectionCreates.push({ pending, project });
+			}
+			for (const pending of pendingSectionUpdates) {
+				const remote = sectionById.get(pending.sectionId);
+				if (!remote) {
+					phaseErrors.push(`Warning: Section "${pending.name}" — not found in Todoist`);
+					continue;
+				}
+				const input = planSectionUpdate(pending, remote, projectIdByName);
+				if (!input) {
+					await repository.markSectionNoteSynced(pending.file, pending.syncSignature);
+					continue;
+				}
+				sectionBatch.queueUpdateSection(pending.file.path, input);
+				queuedSectionUpdates.push(pending);
+			}
+			const sectionOutcomes = sectionBatch.size > 0 ? await sectionBatch.flush() : new Map<string, TodoistBatchOutcome>();
+			for (const { pending, project } of queuedSectionCreates) {
+				const outcome = sectionOutcomes.get(pending.file.path);
+				if (!outcome?.ok || !outcome.createdId) {
+					if (outcome?.errorKind === 'command_rejected') await repository.clearCreateDispatched(pending.file);
+					phaseErrors.push(`Section "${pending.name}": ${outcome?.error ?? 'No result returned by Todoist.'}`);
+					continue;
+				}
+				await repository.markSectionCreated(pending.file, outcome.createdId, project.id, project.name);
+			}
+			for (const pending of queuedSectionUpdates) {
+				const outcome = sectionOutcomes.get(pending.file.path);
+				if (!outcome?.ok) {
+					dirtySectionIds.add(pending.sectionId);
+					phaseErrors.push(`Section "${pending.name}": ${outcome?.error ?? 'No result returned by Todoist.'}`);
+					continue;
+				}
+				await repository.markSectionNoteSynced(pending.file, pending.syncSignature);
+			}
+		} catch (e) {
+			phaseErrors.push(`Section updates: ${errorMessage(e)}`);
+		}
+
+		// Phase 5e: checklist items in task note bodies <-> their Todoist subtasks (non-critical).
+		// The subtasks are kept out of the task note import below.
+		let checklistSubtaskIds = new Set<string>();
+		let checklistNotesChanged = 0;
+		if (this.settings.syncChecklistSubtasks) {
+			try {
+				const checklistResult = await this.syncChecklistSubtasks(todoistClient, repository, snapshot, recentlyDeletedIds, phaseErrors);
+				checklistSubtaskIds = checklistResult.subtaskIds;
+				checklistNotesChanged = checklistResult.changed;
+			} catch (e) {
+				phaseErrors.push(`Checklist subtasks: ${errorMessage(e)}`);
+			}
+		}
+
+		// Phase 5f: push reorders made in notes (non-critical). Tasks whose reorder
+		// fails keep their local order properties in the import below.
+		const dirtyOrderIds = new Set<string>();
+		if (baseSnapshot) {
+			try {
+				const { childOrders, dayOrders } = planTaskReorders(repository.listLocalTaskOrders(), baseSnapshot, snapshot);
+				const batch = todoistClient.createCommandBatch();
+				const queued = new Map<string, Map<string, number>>();
+				for (const [group, orders] of childOrders) {
+					batch.queueReorderTasks(`reorder:${group}`, orders);
+					queued.set(`reorder:${group}`, orders);
+				}
+				if (dayOrders.size > 0) {
+					batch.queueUpdateDayOrders('day-orders', dayOrders);
+					queued.set('day-orders', dayOrders);
+				}
+				const outcomes = batch.size > 0 ? await batch.flush() : new Map<string, TodoistBatchOutcome>();
+				for (const [key, orders] of queued) {
+					const outcome = outcomes.get(key);
+					if (outcome?.ok) continue;
+					for (const id of orders.keys()) dirtyOrderIds.add(id);
+					phaseErrors.push(`Task order: ${outcome?.error ?? 'No result returned by Todoist.'}`);
+				}
+			} catch (e) {
+				phaseErrors.push(`Task order: ${errorMessage(e)}`);
+			}
+		}
+
 		// Phase 6: second snapshot post-push (critical — abort if this fails)
+		// Only the changes made since phase 3 (including our own pushes) are fetched.
 		try {
-			snapshot = await todoistClient.fetchSyncSnapshot();
+			snapshot = await todoistClient.fetchSyncSnapshot(snapshot);
+			for (const id of snapshot.deletedItemIds ?? []) recentlyDeletedIds.add(id);
 		} catch (e) {
 			const message = errorMessage(e);
 			const errorSuffix = phaseErrors.length > 0 ? ` Prior errors: ${phaseErrors.join('; ')}` : '';
@@ -207,7 +812,8 @@ export class SyncService {
 			snapshot.userId,
 			sectionNameById,
 			noteTaskIds,
-		);
+		).filter((item) => !checklistSubtaskIds.has(item.id));
+		phaseErrors.push(...compileImportRules(this.settings).errors.map((error) => `Warning: ${error}`));
 		const importableWithAncestors = includeAncestorTasks(importableItems, snapshot.items);
 		const projectNameById = new Map(snapshot.projects.map((project) => [project.id, project.name]));
 		const projectParentIdById = new Map(snapshot.projects.map((project) => [project.id, project.parent_id]));
@@ -233,11 +839,29 @@ export class SyncService {
 				projectColorById,
 				allProjects: snapshot.projects.filter((p) => !p.is_archived),
 				allSections: snapshot.sections.filter((s) => !s.is_archived),
+				remindersByItemId: groupRemindersByItem(snapshot.reminders),
+				allLabels: snapshot.labels,
+				collaboratorNameById: new Map(snapshot.collaborators.map((c) => [c.id, c.full_name])),
+				dirtyProjectIds,
+				dirtySectionIds,
+				dirtyOrderIds,
+				noteRouteByItemId: resolveNoteRoutes(Array.from(itemsToUpsertById.values()), snapshot.projects, this.settings, snapshot.userId, sectionNameById),
 			});
 		} catch (e) {
 			phaseErrors.push(`Import: ${errorMessage(e)}`);
 		}
 
+		// Phase 7b: task comments (non-critical). New comments written in a note's
+		// Comments block are pushed first, then the block is re-rendered from Todoist.
+		let commentsRefreshed = 0;
+		if (this.settings.syncComments) {
+			try {
+				commentsRefreshed = await this.syncComments(todoistClient, repository, snapshot, phaseErrors);
+			} catch (e) {
+				phaseErrors.push(`Comments: ${errorMessage(e)}`);
+			}
+		}
+
 		// Phase 8: handle missing/deleted remote tasks (non-critical)
 		let missingHandled = 0;
 		try {
@@ -363,7 +987,7 @@ export class SyncService {
 							await todoistClient.updateTask({
 								id: entry.noteTaskId,
 								content: newContent,
-								description: entry.description,
+								description: entry.description ?? '',
 								isDone: false,
 								priority: entry.priority,
 								labels: entry.labels,
@@ -411,7 +1035,7 @@ export class SyncService {
 					await todoistClient.updateTask({
 						id: entry.noteTaskId,
 						content: newContent,
-						description: entry.description,
+						description: entry.description ?? '',
 						isDone: needsStatusChange ? isDoneStatus : undefined,
 						priority: entry.priority,
 						labels: entry.labels,
@@ -420,7 +1044,8 @@ export class SyncService {
 						clearDue: !entry.dueDate && !entry.dueString,
 						deadline: entry.deadline?.trim(),
 						clearDeadline: !entry.deadline,
-						sectionId: noteTaskSectionId,
+						// item_move also lifts a subtask out of its parent, so only send real section changes
+						sectionId: noteTaskSectionId !== remoteItem.section_id ? noteTaskSectionId : undefined,
 					});
 					await repository.markNoteTaskSyncedAt(entry.file);
 					noteTasksUpdated += 1;
@@ -483,7 +1108,7 @@ export class SyncService {
 				// Calculate order to place NoteTask at the top of the project
 				const projectTasks = snapshot.items.filter((item) => item.project_id === resolvedNoteTaskProjectId && !item.parent_id);
 				const minOrder = projectTasks.length > 0
-					? Math.min(...projectTasks.map((t) => t.order ?? 0))
+					? Math.min(...projectTasks.map((t) => t.child_order ?? 0))
 					: 0;
 				const noteTaskOrder = minOrder > 0 ? minOrder - 1 : minOrder;
 
@@ -491,7 +1116,7 @@ export class SyncService {
 					content: `${pending.title} [+](${obsidianUri})`,
 					projectId: resolvedNoteTaskProjectId,
 					sectionId: resolvedNoteTaskSectionId,
-					order: noteTaskOrder,
+					childOrder: noteTaskOrder,
 					labels: pending.labels,
 				});
 				await repository.markNoteTaskCreated(pending.file, createdTaskId);
@@ -506,20 +1131,28 @@ export class SyncService {
 
 	// Phase 10: archive/unarchive project and section notes (non-critical)
 		try {
-			const archivedProjects = snapshot.projects.filter((p) => p.is_archived);
-			const archivedSections = snapshot.sections.filter((s) => s.is_archived);
+			const archivedProjects = snapshot.projects.filter((p) => p.is_archived && !dirtyProjectIds.has(p.id));
+			const archivedSections = snapshot.sections.filter((s) => s.is_archived && !dirtySectionIds.has(s.id));
 			await repository.applyArchivedProjectsAndSections(archivedProjects, archivedSections, projectNameById, projectParentIdById, sectionProjectIdById, sectionNameById);
 		} catch (e) {
 			phaseErrors.push(`Archive: ${errorMessage(e)}`);
 		}
 		try {
-			const unarchivedProjects = snapshot.projects.filter((p) => !p.is_archived);
-			const unarchivedSections = snapshot.sections.filter((s) => !s.is_archived);
+			const unarchivedProjects = snapshot.projects.filter((p) => !p.is_archived && !dirtyProjectIds.has(p.id));
+			const unarchivedSections = snapshot.sections.filter((s) => !s.is_archived && !dirtySectionIds.has(s.id));
 			await repository.applyUnarchivedProjectsAndSections(unarchivedProjects, unarchivedSections, projectNameById, projectParentIdById, sectionProjectIdById, sectionNameById);
 		} catch (e) {
 			phaseErrors.push(`Unarchive: ${errorMessage(e)}`);
 		}
 
+		// Phase 10b: record pulled project and section properties as synced (non-critical)
+		try {
+			await repository.markProjectNotesSynced(dirtyProjectIds);
+			await repository.markSectionNotesSynced(dirtySectionIds);
+		} catch (e) {
+			phaseErrors.push(`Project signatures: ${errorMessage(e)}`);
+		}
+
 		// Phase 11: sync linked checklist states (non-critical)
 		let linkedChecklistUpdates = 0;
 		try {
@@ -530,9 +1163,11 @@ export class SyncService {
 
 		const ancestorCount = importableWithAncestors.length - importableItems.length;
 		const projectTaskMsg = projectTasksCreated > 0 ? `, ${projectTasksCreated} project task(s) created` : '';
+		const commentMsg = commentsRefreshed > 0 ? `, ${commentsRefreshed} comment block(s) refreshed` : '';
+		const checklistMsg = checklistNotesChanged > 0 ? `, ${checklistNotesChanged} note checklist(s) synced` : '';
 		const noteTaskMsg = (noteTasksAutoCreated > 0 || noteTasksUpdated > 0 || noteTasksPulled > 0) ? `, ${noteTasksAutoCreated} NoteTask(s) created, ${noteTasksUpdated} pushed, ${noteTasksPulled} pulled` : '';
 		const errorSuffix = phaseErrors.length > 0 ? ` [${phaseErrors.length} issue(s): ${phaseErrors.join('; ')}]` : '';
-		const message = `Synced ${importableItems.length} importable task(s) (+${ancestorCount} ancestors): ${pendingLocalCreates.length} created remotely, ${pendingLocalUpdates.length} updates pushed, ${taskResult.created} created, ${taskResult.updated} updated, ${missingHandled} missing handled, ${linkedChecklistUpdates} checklist lines refreshed${projectTaskMsg}${noteTaskMsg}.${errorSuffix}`;
+		const message = `Synced ${importableItems.length} importable task(s) (+${ancestorCount} ancestors): ${pendingLocalCreates.length} created remotely, ${pendingLocalUpdates.length} updates pushed, ${taskResult.created} created, ${taskResult.updated} updated, ${missingHandled} missing handled, ${linkedChecklistUpdates} checklist lines refreshed${projectTaskMsg}${noteTaskMsg}${commentMsg}${checklistMsg}.${errorSuffix}`;
 		// Build a concise notification message
 		const shortParts: string[] = [];
 		const fromTodoist = taskResult.created + taskResult.updated;
@@ -556,13 +1191,544 @@ export class SyncService {
 			pushedUpdates: pendingLocalUpdates.length,
 			linkedChecklistUpdates,
 			syncToken: snapshot.syncToken || undefined,
+			snapshot: snapshot.syncToken ? snapshot : undefined,
 			phaseErrors: phaseErrors.length > 0 ? phaseErrors : undefined,
 		};
 	}
+
+	/**
+	 * Imports tasks completed between two dates as done task notes. Project names
+	 * (case-insensitive) narrow the import; an empty list means all projects.
+	 */
+	async runCompletedBackfill(since: Date, until: Date, projectNames: string[]): Promise<{ ok: boolean; message: string }> {
+		const todoistClient = new TodoistClient(this.token, this.transport);
+		const repository = new TaskNoteRepository(this.app, this.settings, this.vaultIndex ?? undefined);
+		try {
+			const lookup = await todoistClient.fetchProjectSectionLookup();
+			const projectIdByName = new Map(lookup.projects.map((project) => [project.name.toLowerCase(), project.id]));
+			const projectIds: Array<string | undefined> = [];
+			for (const name of projectNames) {
+				const id = projectIdByName.get(name.trim().toLowerCase());
+				if (!id) {
+					return { ok: false, message: `Project "${name}" not found in Todoist.` };
+				}
+				projectIds.push(id);
+			}
+			if (projectIds.length === 0) projectIds.push(undefined);
+
+			const items: TodoistCompletedItem[] = [];
+			for (const projectId of projectIds) {
+				items.push(...await todoistClient.fetchCompletedTasks(since, until, projectId));
+			}
+			const created = await repository.importCompletedTasks(items, {
+				projectNameById: new Map(lookup.projects.map((project) => [project.id, project.name])),
+				sectionNameById: new Map(lookup.sections.map((section) => [section.id, section.name])),
+				sectionProjectIdById: new Map(lookup.sections.map((section) => [section.id, section.project_id])),
+				projectParentIdById: new Map(lookup.projects.map((project) => [project.id, project.parent_id])),
+			});
+			return {
+				ok: true,
+				message: `Imported ${created} completed task(s) (${items.length - created} already in the vault).`,
+			};
+		} catch (e) {
+			return { ok: false, message: `Completed task import failed: ${errorMessage(e)}` };
+		}
+	}
+
+	private async syncComments(
+		todoistClient: TodoistClient,
+		repository: TaskNoteRepository,
+		snapshot: TodoistSyncSnapshot,
+		phaseErrors: string[],
+	): Promise<number> {
+		const commentsByItemId = new Map<string, TodoistComment[]>();
+		for (const comment of snapshot.comments) {
+			const list = commentsByItemId.get(comment.item_id) ?? [];
+			list.push(comment);
+			commentsByItemId.set(comment.item_id, list);
+		}
+		const activeIds = new Set(snapshot.items.map((item) => item.id));
+		const candidates: SyncedTaskEntry[] = [];
+		for (const entry of await repository.listSyncedTasks()) {
+			if (!activeIds.has(entry.todoistId)) continue;
+			if (commentsByItemId.has(entry.todoistId) || await hasCommentsBlock(this.app, entry.file)) {
+				candidates.push(entry);
+			}
+		}
+
+		const batch = todoistClient.createCommandBatch();
+		const queued: Array<{ key: string; file: TFile; todoistId: string; content: string; pendingId: string }> = [];
+		for (const entry of candidates) {
+			// New comments get a pending id marker before anything is sent, so a comment
+			// whose result is lost is replayed with the same UUID instead of posted twice
+			let content = await this.app.vault.read(entry.file);
+			if (markNewComments(content) !== content) {
+				content = await this.app.vault.process(entry.file, markNewComments);
+			}
+			for (const { content: comment, pendingId } of collectNewComments(content)) {
+				const key = `${entry.file.path}#${pendingId}`;
+				batch.queueAddComment(key, entry.todoistId, comment, pendingId);
+				queued.push({ key, file: entry.file, todoistId: entry.todoistId, content: comment, pendingId });
+			}
+		}
+		const outcomes = batch.size > 0 ? await batch.flush() : new Map<string, TodoistBatchOutcome>();
+		const pushedItemIds = new Set<string>();
+		const failedItemIds = new Set<string>();
+		for (const comment of queued) {
+			const outcome = outcomes.get(comment.key);
+			if (!outcome?.ok || !outcome.createdId) {
+				failedItemIds.add(comment.todoistId);
+				if (outcome?.errorKind === 'command_rejected') {
+					await this.app.vault.process(comment.file, (content) => unmarkComment(content, comment.pendingId));
+				}
+				phaseErrors.push(`Comment on ${comment.todoistId}: ${outcome?.error ?? 'No result returned by Todoist.'}`);
+				continue;
+			}
+			pushedItemIds.add(comment.todoistId);
+			const list = commentsByItemId.get(comment.todoistId) ?? [];
+			// A replayed comment may already be in the snapshot
+			if (!list.some((known) => known.id === outcome.createdId)) {
+				list.push({ id: outcome.createdId, item_id: comment.todoistId, content: comment.content, posted_at: new Date().toISOString() });
+			}
+			commentsByItemId.set(comment.todoistId, list);
+		}
+
+		let refreshed = 0;
+		for (const entry of candidates) {
+			// Keep unsent comments in the note until they are accepted
+			if (failedItemIds.has(entry.todoistId)) continue;
+			const comments = commentsByItemId.get(entry.todoistId) ?? [];
+			if (comments.length === 0 && !pushedItemIds.has(entry.todoistId)) continue;
+			if (await writeCommentsBlock(this.app, entry.file, comments)) {
+				refreshed += 1;
+			}
+		}
+		return refreshed;
+	}
+
+	/**
+	 * Reconciles the checklist items of task notes with the subtasks they stand
+	 * for. A change on either side since the last sync (recorded per item in the
+	 * note's frontmatter) is copied to the other; when both sides changed, the
+	 * note wins. New unchecked items become subtasks and get an id marker; a
+	 * removed line deletes its subtask. Returns the IDs of all tracked subtasks.
+	 */
+	private async syncChecklistSubtasks(
+		todoistClient: TodoistClient,
+		repository: TaskNoteRepository,
+		snapshot: TodoistSyncSnapshot,
+		recentlyDeletedIds: Set<string>,
+		phaseErrors: string[],
+	): Promise<{ changed: number; subtaskIds: Set<string> }> {
+		const activeItemById = new Map(snapshot.items.map((item) => [item.id, item]));
+		const subtaskIds = new Set<string>();
+		const batch = todoistClient.createCommandBatch();
+		const notes: Array<{
+			file: TFile;
+			base: Map<string, ChecklistSubtaskBase>;
+			nextBase: Map<string, ChecklistSubtaskBase>;
+			edits: ChecklistLineEdit[];
+			// Applied once the batch is flushed, with the outcome of the note's commands
+			pending: Array<{ key: string; label: string; settle: (outcome: TodoistBatchOutcome) => void }>;
+		}> = [];
+
+		for (const entry of await repository.listSyncedTasks()) {
+			const cache = this.app.metadataCache.getFileCache(entry.file);
+			const base = readChecklistBase(cache?.frontmatter as Record<string, unknown> | undefined, this.settings);
+			base.forEach((_, id) => subtaskIds.add(id));
+			const parent = activeItemById.get(entry.todoistId);
+			// Leave notes of completed tasks, and notes without checklist items, alone
+			if (!parent || (base.size === 0 && !cache?.listItems?.some((item) => item.task !== undefined))) continue;
+
+			const note = { file: entry.file, base, nextBase: new Map(base), edits: [] as ChecklistLineEdit[], pending: [] as typeof notes[number]['pending'] };
+			let lines = parseChecklistSubtasks(await this.app.vault.read(entry.file));
+			// New items get a temp_id marker before anything is sent, so a create whose
+			// result is lost is replayed with the same temp_id instead of sent twice
+			const marks: ChecklistLineEdit[] = lines
+				.filter((line) => line.id === null && !line.pendingId && !line.checked)
+				.map((line) => ({ kind: 'markPending', content: line.content, pendingId: generateUuid() }));
+			if (await applyChecklistEdits(this.app, entry.file, marks)) {
+				lines = parseChecklistSubtasks(await this.app.vault.read(entry.file));
+			}
+			const seenIds = new Set<string>();
+			lines.forEach((line) => {
+				if (line.id === null) {
+					const pendingId = line.pendingId;
+					if (!pendingId) return;
+					const key = `${entry.file.path}#new:${pendingId}`;
+					batch.queueCreateTask(key, { content: line.content, projectId: parent.project_id, parentId: parent.id }, { close: line.checked, tempId: pendingId });
+					note.pending.push({
+						key,
+						label: line.content,
+						settle: (outcome) => {
+							if (!outcome.createdId) {
+								// A rejected create was not applied; the item is sent afresh next sync
+								if (outcome.errorKind === 'command_rejected') note.edits.push({ kind: 'clearPending', pendingId });
+								return;
+							}
+							subtaskIds.add(outcome.createdId);
+							note.edits.push({ kind: 'assignId', pendingId, id: outcome.createdId });
+							// A failed close leaves the item open; the checked line is pushed next sync
+							note.nextBase.set(outcome.createdId, { checked: line.checked && outcome.ok, contentHash: hashChecklistContent(line.content) });
+						},
+					});
+					return;
+				}
+
+				const id = line.id;
+				seenIds.add(id);
+				subtaskIds.add(id);
+				const remote = activeItemById.get(id);
+				if (!remote && recentlyDeletedIds.has(id)) {
+					note.edits.push({ kind: 'remove', id });
+					note.nextBase.delete(id);
+					return;
+				}
+				// A marker copied in from elsewhere has no history: only remote changes apply
+				const lineBase = base.get(id) ?? { checked: line.checked, contentHash: hashChecklistContent(line.content) };
+				// Completed subtasks drop out of the snapshot; their content is not known
+				const remoteChecked = !remote;
+				const localContentChanged = hashChecklistContent(line.content) !== lineBase.contentHash;
+				const localCheckedChanged = line.checked !== lineBase.checked;
+				const pullContent = !localContentChanged && remote && hashChecklistContent(remote.content) !== lineBase.contentHash
+					? remote.content.trim()
+					: undefined;
+				const pullChecked = !localCheckedChanged && remoteChecked !== lineBase.checked ? remoteChecked : undefined;
+				if (pullContent !== undefined || pullChecked !== undefined) {
+					note.edits.push({ kind: 'update', id, content: pullContent, checked: pullChecked });
+				}
+				const synced = {
+					checked: pullChecked ?? line.checked,
+					contentHash: hashChecklistContent(pullContent ?? line.content),
+				};
+				const change = {
+					content: localContentChanged && remote?.content.trim() !== line.content ? line.content : undefined,
+					isDone: localCheckedChanged && line.checked !== remoteChecked ? line.checked : undefined,
+				};
+				if (change.content === undefined && change.isDone === undefined) {
+					note.nextBase.set(id, synced);
+					return;
+				}
+				const key = `${entry.file.path}#subtask:${id}`;
+				batch.queueUpdateSubtask(key, id, change);
+				note.pending.push({
+					key,
+					label: line.content,
+					settle: (outcome) => {
+						// On failure the old base stays, so the local change is retried next sync
+						if (outcome.ok) note.nextBase.set(id, synced);
+					},
+				});
+			});
+
+			for (const id of base.keys()) {
+				if (seenIds.has(id)) continue;
+				if (!activeItemById.has(id) && recentlyDeletedIds.has(id)) {
+					note.nextBase.delete(id);
+					continue;
+				}
+				const key = `${entry.file.path}#delete:${id}`;
+				batch.queueDeleteTask(key, id);
+				note.pending.push({
+					key,
+					label: id,
+					settle: (outcome) => {
+						// A rejected delete means the subtask is already gone
+						if (outcome.ok || outcome.errorKind === 'command_rejected') note.nextBase.delete(id);
+					},
+				});
+			}
+			notes.push(note);
+		}
+
+		const outcomes = batch.size > 0 ? await batch.flush() : new Map<string, TodoistBatchOutcome>();
+		let changed = 0;
+		for (const note of notes) {
+			for (const { key, label, settle } of note.pending) {
+				const outcome = outcomes.get(key) ?? { ok: false, error: 'No result returned by Todoist.' };
+				if (!outcome.ok) {
+					phaseErrors.push(`Checklist subtask "${label}" in ${note.file.basename}: ${outcome.error ?? 'unknown error'}`);
+				}
+				settle(outcome);
+			}
+			const linesChanged = await applyChecklistEdits(this.app, note.file, note.edits);
+			const baseChanged = !sameChecklistBase(note.base, note.nextBase);
+			if (baseChanged) {
+				await writeChecklistBase(this.app, note.file, this.settings, note.nextBase);
+			}
+			if (linesChanged || baseChanged) changed += 1;
+		}
+		return { changed, subtaskIds };
+	}
+
+	/** Files for the outbox entries with the given intents that still exist in the vault. */
+	private listOutboxFiles(intents: OutboxIntent[]): TFile[] {
+		const files: TFile[] = [];
+		for (const entry of this.outbox?.list() ?? []) {
+			if (!intents.includes(entry.intent)) continue;
+			const file = this.app.vault.getAbstractFileByPath(entry.path);
+			if (file instanceof TFile) files.push(file);
+		}
+		return files;
+	}
+
+	/** Drops entries whose note no longer has anything to push (already synced, or deleted). */
+	private async pruneResolvedOutboxEntries(intents: OutboxIntent[], pendingPaths: string[]): Promise<void> {
+		if (!this.outbox) return;
+		const pendingPathSet = new Set(pendingPaths);
+		const resolved = this.outbox.list()
+			.filter((entry) => intents.includes(entry.intent) && !pendingPathSet.has(entry.path))
+			.map((entry) => entry.id);
+		await this.outbox.remove(resolved);
+	}
+
+	private async settleOutboxEntry(path: string, outcome: TodoistBatchOutcome | undefined): Promise<void> {
+		const entry = this.outbox?.entryFor(path);
+		if (!this.outbox || !entry) return;
+		if (outcome?.ok) {
+			await this.outbox.remove([entry.id]);
+		} else {
+			await this.outbox.recordAttempt(entry.id, outcome?.error ?? 'No result returned by Todoist.');
+		}
+	}
+}
+
+function sameChecklistBase(a: Map<string, ChecklistSubtaskBase>, b: Map<string, ChecklistSubtaskBase>): boolean {
+	if (a.size !== b.size) return false;
+	for (const [id, state] of a) {
+		const other = b.get(id);
+		if (!other || other.checked !== state.checked || other.contentHash !== state.contentHash) return false;
+	}
+	return true;
 }
 
 function errorMessage(e: unknown): string {
-	return e instanceof Error ? e.message : String(e);
+	return describeError(e);
+}
+
+/** Old name → new name for labels whose name changed since it was last seen. */
+function findLabelRenames(knownNames: Map<string, string>, labels: TodoistLabel[]): Map<string, string> {
+	const renames = new Map<string, string>();
+	for (const label of labels) {
+		const previousName = knownNames.get(label.id);
+		if (previousName && previousName !== label.name) {
+			renames.set(previousName, label.name);
+		}
+	}
+	return renames;
+}
+
+function renameLabelTags(labelTags: string, renames: Map<string, string>): string {
+	const renamesLower = new Map(Array.from(renames.entries()).map(([oldName, newName]) => [oldName.toLowerCase(), newName]));
+	const names = labelTags.split(',').map((name) => name.trim()).filter(Boolean);
+	if (!names.some((name) => renamesLower.has(name.toLowerCase()))) return labelTags;
+	return names.map((name) => renamesLower.get(name.toLowerCase()) ?? name).join(', ');
+}
+
+/**
+ * Diffs an edited project note against the project in Todoist. The parent comes
+ * from the parent link when it changed, else from the parent name; an empty
+ * value moves the project to the top level. Returns null when nothing differs.
+ */
+function planProjectUpdate(
+	pending: PendingProjectUpdate,
+	remote: TodoistProject,
+	projectIdByName: Map<string, string>,
+): TodoistProjectUpdateInput | null {
+	const input: TodoistProjectUpdateInput = { id: remote.id };
+	if (pending.name && pending.name !== remote.name) input.name = pending.name;
+	// Todoist has no "no color"; a cleared color is left alone
+	if (pending.color && pending.color !== remote.color) input.color = pending.color;
+	if (pending.isFavorite !== remote.is_favorite) input.isFavorite = pending.isFavorite;
+	if (pending.archived !== remote.is_archived) input.archived = pending.archived;
+	const parentNameId = pending.parentName
+		? projectIdByName.get(pending.parentName.toLowerCase())
+		: null;
+	if (pending.parentLinkId !== undefined && pending.parentLinkId !== remote.parent_id) {
+		input.parentId = pending.parentLinkId;
+	} else if (parentNameId !== undefined && parentNameId !== remote.parent_id) {
+		input.parentId = parentNameId;
+	}
+	return Object.keys(input).length > 1 ? input : null;
+}
+
+/**
+ * Diffs an edited section note against the section in Todoist. The target project
+ * comes from the project link when it changed, else from the project name.
+ * Returns null when nothing differs.
+ */
+function planSectionUpdate(
+	pending: PendingSectionUpdate,
+	remote: TodoistSection,
+	projectIdByName: Map<string, string>,
+): TodoistSectionUpdateInput | null {
+	const input: TodoistSectionUpdateInput = { id: remote.id };
+	if (pending.name && pending.name !== remote.name) input.name = pending.name;
+	if (pending.archived !== remote.is_archived) input.archived = pending.archived;
+	const projectNameId = pending.projectName ? projectIdByName.get(pending.projectName.toLowerCase()) : undefined;
+	if (pending.projectLinkId && pending.projectLinkId !== remote.project_id) {
+		input.projectId = pending.projectLinkId;
+	} else if (projectNameId && projectNameId !== remote.project_id) {
+		input.projectId = projectNameId;
+	}
+	return Object.keys(input).length > 1 ? input : null;
+}
+
+/**
+ * Finds order properties edited in notes: values that differ both from the
+ * previous snapshot (what the last sync wrote to the notes) and from Todoist
+ * now. Child orders are grouped by sibling set, since item_reorder orders the
+ * children of one parent.
+ */
+function planTaskReorders(
+	orders: LocalTaskOrder[],
+	previous: TodoistSyncSnapshot,
+	current: TodoistSyncSnapshot,
+): { childOrders: Map<string, Map<string, number>>; dayOrders: Map<string, number> } {
+	const previousById = new Map(previous.items.map((item) => [item.id, item]));
+	const currentById = new Map(current.items.map((item) => [item.id, item]));
+	const childOrders = new Map<string, Map<string, number>>();
+	const dayOrders = new Map<string, number>();
+	for (const order of orders) {
+		const before = previousById.get(order.todoistId);
+		const now = currentById.get(order.todoistId);
+		if (!before || !now) continue;
+		if (order.childOrder !== null && order.childOrder !== (before.child_order ?? null) && order.childOrder !== (now.child_order ?? null)) {
+			const group = [now.project_id, now.section_id ?? '', now.parent_id ?? ''].join('/');
+			const siblings = childOrders.get(group) ?? new Map<string, number>();
+			siblings.set(order.todoistId, order.childOrder);
+			childOrders.set(group, siblings);
+		}
+		if (order.dayOrder !== null && order.dayOrder !== (before.day_order ?? null) && order.dayOrder !== (now.day_order ?? null)) {
+			dayOrders.set(order.todoistId, order.dayOrder);
+		}
+	}
+	return { childOrders, dayOrders };
+}
+
+/**
+ * Works out the item_move (if any) that takes a task from where it is in Todoist
+ * to where its note puts it. A subtask whose parent is unchanged is left alone:
+ * it follows its parent. A section from another project is dropped, so moving a
+ * task to a new project lands it at that project's top level.
+ */
+function planTaskMove(
+	parentId: string | undefined,
+	sectionId: string | undefined,
+	projectId: string | undefined,
+	remote: TodoistItem,
+	sections: TodoistSection[],
+): { parentId?: string; sectionId?: string; projectId?: string } {
+	if (parentId) {
+		return parentId !== remote.parent_id ? { parentId } : {};
+	}
+	const targetProjectId = projectId ?? remote.project_id;
+	const targetSectionId = sectionId && sections.some((section) => section.id === sectionId && section.project_id === targetProjectId)
+		? sectionId
+		: null;
+	const moved = targetProjectId !== remote.project_id
+		|| targetSectionId !== (remote.section_id ?? null)
+		|| Boolean(remote.parent_id);
+	if (!moved) return {};
+	return targetSectionId ? { sectionId: targetSectionId } : { projectId: targetProjectId };
+}
+
+/** Puts each pending create after the create of its parent note; parent links that loop keep their order. */
+function orderParentsFirst(pending: PendingLocalCreate[]): PendingLocalCreate[] {
+	const byPath = new Map(pending.map((entry) => [entry.file.path, entry]));
+	const ordered: PendingLocalCreate[] = [];
+	const visited = new Set<string>();
+	const visit = (entry: PendingLocalCreate): void => {
+		if (visited.has(entry.file.path)) return;
+		visited.add(entry.file.path);
+		const parent = entry.parentPath ? byPath.get(entry.parentPath) : undefined;
+		if (parent) visit(parent);
+		ordered.push(entry);
+	};
+	for (const entry of pending) visit(entry);
+	return ordered;
+}
+
+/**
+ * Turns a recurrence edited in the note (the TaskNotes RRULE) into the due
+ * fields that change it in Todoist. Returns null when the rule matches the
+ * task's, the note has no recurrence property, or a due string edited in the
+ * note already says how the task repeats. An emptied rule sends the due date
+ * alone, which stops the task repeating.
+ */
+function planRecurrenceDue(
+	pending: PendingLocalUpdate,
+	remote: TodoistItem,
+	dueDate: string | undefined,
+	warnings: string[],
+): { dueDate?: string; dueString?: string; clearDue: boolean } | null {
+	if (pending.recurrence === undefined) {
+		return null;
+	}
+	const remoteDueString = remote.due?.string ?? '';
+	const remoteRecurrence = remote.due?.is_recurring
+		? (buildRecurrenceString(remoteDueString, remote.due.date ?? '') ?? '')
+		: '';
+	if (recurrenceRuleKey(pending.recurrence) === recurrenceRuleKey(remoteRecurrence)) {
+		return null;
+	}
+	if ((pending.dueString?.trim() ?? '') !== remoteDueString.trim() && pending.syncBase.size === 0) {
+		return null;
+	}
+	if (!pending.recurrence.trim()) {
+		return { dueDate, dueString: undefined, clearDue: !dueDate };
+	}
+	const dueString = recurrenceToDueString(pending.recurrence, { fromCompletion: /^ev(ery)?!/i.test(remoteDueString.trim()) });
+	if (!dueString) {
+		warnings.push(`recurrence "${pending.recurrence}" cannot be expressed in todoist`);
+		return null;
+	}
+	// The rule sets the next date, so the current one is not sent
+	return { dueDate: undefined, dueString, clearDue: false };
+}
+
+/**
+ * Resolves the assignee properties of a note to a Todoist user ID. The name
+ * wins over the ID (it is what users edit) and matches a collaborator's full
+ * name or email. Returns undefined when the note has neither property, so the
+ * task's assignee is left alone, and null when both are empty (unassign).
+ */
+function resolveAssigneeId(
+	name: string | undefined,
+	id: string | undefined,
+	collaborators: TodoistCollaborator[],
+	warnings?: string[],
+): string | null | undefined {
+	if (name === undefined && id === undefined) {
+		return undefined;
+	}
+	const trimmedName = name?.trim() ?? '';
+	const trimmedId = id?.trim() ?? '';
+	if (trimmedName) {
+		const lower = trimmedName.toLowerCase();
+		const match = collaborators.find(
+			(c) => c.full_name.toLowerCase() === lower || c.email?.toLowerCase() === lower,
+		);
+		if (match) {
+			return match.id;
+		}
+		warnings?.push(`assignee "${trimmedName}" is not a collaborator${trimmedId ? '; keeping the assignee ID' : ''}`);
+		return trimmedId || undefined;
+	}
+	return trimmedId || null;
+}
+
+function groupRemindersByItem(reminders: TodoistReminder[]): Map<string, TodoistReminder[]> {
+	const byItemId = new Map<string, TodoistReminder[]>();
+	for (const reminder of reminders) {
+		const list = byItemId.get(reminder.item_id);
+		if (list) {
+			list.push(reminder);
+		} else {
+			byItemId.set(reminder.item_id, [reminder]);
+		}
+	}
+	return byItemId;
 }
 
 function findMissingEntries(
@@ -574,9 +1740,9 @@ function findMissingEntries(
 	for (const entry of existingSyncedTasks) {
 		const remoteItem = activeItemById.get(entry.todoistId);
 		if (!remoteItem || remoteItem.is_deleted) {
-			// Full sync only returns active items — both completed and deleted tasks are absent.
-			// We detect true deletions via an incremental sync (recentlyDeletedIds) run before
-			// the full sync; absent items not in that set are treated as completed.
+			// The snapshot only holds active items — both completed and deleted tasks are absent.
+			// True deletions come from the activity log and from incremental sync deltas
+			// (recentlyDeletedIds); absent items not in that set are treated as completed.
 			const isDeletedRemote = Boolean(remoteItem?.is_deleted) || recentlyDeletedIds.has(entry.todoistId);
 			result.push({ ...entry, isDeletedRemote });
 		}
@@ -0,0 +1,182 @@
+import type { App, TFile } from 'obsidian';
+import type { TaskTodoistSettings } from './settings';
+import { findCommentsBlockRange } from './task-comments';
+import { getPropNames } from './task-frontmatter';
+import { simpleStableHash } from './stable-hash';
+
+// Ties a checklist line to the Todoist subtask it is synced with.
+const SUBTASK_MARKER_REGEX = /\s*<!-- subtask:([^\s>]+) -->\s*$/;
+// Marker value of an item whose create was sent but not confirmed yet
+const PENDING_MARKER_PREFIX = 'pending:';
+// Only top-level items; indented lines are left to the item above them
+const CHECKLIST_LINE_REGEX = /^([-*+]\s+)\[([ xX])\]\s+(.*)$/;
+const LINKED_ITEM_REGEX = /^\[\[[^\]]+\]\]\s*$/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+export interface ChecklistSubtaskLine {
+	/** Todoist ID from the line's marker, or null for an item not synced yet. */
+	id: string | null;
+	/** temp_id of a create sent for the item whose result was not written back yet. */
+	pendingId?: string;
+	content: string;
+	checked: boolean;
+}
+
+/** State of a subtask at the last sync, kept in the task note's frontmatter. */
+export interface ChecklistSubtaskBase {
+	checked: boolean;
+	contentHash: string;
+}
+
+/**
+ * A change to write back into the note. Subtasks are addressed by ID, items
+ * being created by their temp_id, and new items (`markPending`) by their
+ * content, as they have no marker yet.
+ */
+export type ChecklistLineEdit =
+	| { kind: 'update'; id: string; content?: string; checked?: boolean }
+	| { kind: 'remove'; id: string }
+	| { kind: 'markPending'; content: string; pendingId: string }
+	| { kind: 'assignId'; pendingId: string; id: string }
+	| { kind: 'clearPending'; pendingId: string };
+
+export function hasSubtaskMarker(line: string): boolean {
+	return SUBTASK_MARKER_REGEX.test(line);
+}
+
+export function hashChecklistContent(content: string): string {
+	return simpleStableHash(content.trim());
+}
+
+/**
+ * Returns the checklist items of a task note body. Skips the frontmatter, code
+ * blocks, the managed comments block and items that only link to a task note
+ * (those are kept in step by the linked checklist sync).
+ */
+export function parseChecklistSubtasks(content: string): ChecklistSubtaskLine[] {
+	return scanChecklistLines(content).map(({ item }) => item);
+}
+
+/** Reads the `todoist_checklist_subtasks` frontmatter list ("id:checked:hash" entries). */
+export function readChecklistBase(frontmatter: Record<string, unknown> | undefined, settings: TaskTodoistSettings): Map<string, ChecklistSubtaskBase> {
+	const base = new Map<string, ChecklistSubtaskBase>();
+	const raw = frontmatter?.[getPropNames(settings).todoistChecklistSubtasks];
+	if (!Array.isArray(raw)) return base;
+	for (const entry of raw) {
+		if (typeof entry !== 'string') continue;
+		const [id, checked, contentHash] = entry.split(':');
+		if (id && contentHash) {
+			base.set(id, { checked: checked === '1', contentHash });
+		}
+	}
+	return base;
+}
+
+export async function writeChecklistBase(
+	app: App,
+	file: TFile,
+	settings: TaskTodoistSettings,
+	base: Map<string, ChecklistSubtaskBase>,
+): Promise<void> {
+	const entries = Array.from(base.entries()).map(([id, state]) => `${id}:${state.checked ? 1 : 0}:${state.contentHash}`);
+	await app.fileManager.processFrontMatter(file, (frontmatter) => {
+		const data = frontmatter as Record<string, unknown>;
+		const key = getPropNames(settings).todoistChecklistSubtasks;
+		if (entries.length > 0) {
+			data[key] = entries;
+		} else {
+			delete data[key];
+		}
+	});
+}
+
+/**
+ * Applies edits to the checklist lines of a note. Lines are found again
+ * inside the write so edits made since the note was read are kept.
+ * Returns true when the file changed.
+ */
+export async function applyChecklistEdits(app: App, file: TFile, edits: ChecklistLineEdit[]): Promise<boolean> {
+	if (edits.length === 0) return false;
+	let changed = false;
+	await app.vault.process(file, (content) => {
+		const lines = content.split('\n');
+		const scanned = scanChecklistLines(content);
+		const removed = new Set<number>();
+		for (const edit of edits) {
+			const target = edit.kind === 'markPending'
+				? scanned.find(({ item }) => item.id === null && !item.pendingId && item.content === edit.content)
+				: edit.kind === 'assignId' || edit.kind === 'clearPending'
+					? scanned.find(({ item }) => item.pendingId === edit.pendingId)
+					: scanned.find(({ item }) => item.id === edit.id);
+			if (!target) continue;
+			if (edit.kind === 'remove') {
+				removed.add(target.index);
+				continue;
+			}
+			if (edit.kind === 'markPending') {
+				target.item.pendingId = edit.pendingId;
+			} else if (edit.kind === 'assignId') {
+				target.item.id = edit.id;
+				delete target.item.pendingId;
+			} else if (edit.kind === 'clearPending') {
+				delete target.item.pendingId;
+			} else {
+				target.item.content = edit.content ?? target.item.content;
+				target.item.checked = edit.checked ?? target.item.checked;
+			}
+			lines[target.index] = renderChecklistLine(target.prefix, target.item);
+		}
+		const next = lines.filter((_, index) => !removed.has(index)).join('\n');
+		changed = next !== content;
+		return next;
+	});
+	return changed;
+}
+
+function renderChecklistLine(prefix: string, item: ChecklistSubtaskLine): string {
+	const marker = item.id ?? (item.pendingId ? `${PENDING_MARKER_PREFIX}${item.pendingId}` : null);
+	return `${prefix}[${item.checked ? 'x' : ' '}] ${item.content}${marker ? ` <!-- subtask:${marker} -->` : ''}`;
+}
+
+function scanChecklistLines(content: string): Array<{ index: number; prefix: string; item: ChecklistSubtaskLine }> {
+	const lines = content.split('\n');
+	const commentsRange = findCommentsBlockRange(content);
+	const results: Array<{ index: number; prefix: string; item: ChecklistSubtaskLine }> = [];
+	let offset = 0;
+	let index = 0;
+	if (lines[0]?.trim() === '---') {
+		const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+		if (end !== -1) {
+			for (; index <= end; index += 1) offset += (lines[index] ?? '').length + 1;
+		}
+	}
+	let inFence = false;
+	for (; index < lines.length; index += 1) {
+		const line = lines[index] ?? '';
+		const lineStart = offset;
+		offset += line.length + 1;
+		if (FENCE_REGEX.test(line)) {
+			inFence = !inFence;
+			continue;
+		}
+		if (inFence || (commentsRange && lineStart >= commentsRange.start && lineStart < commentsRange.end)) continue;
+		const match = line.match(CHECKLIST_LINE_REGEX);
+		if (!match) continue;
+		const marker = line.match(SUBTASK_MARKER_REGEX);
+		const text = (marker ? line.slice(0, marker.index) : line).match(CHECKLIST_LINE_REGEX)?.[3]?.trim() ?? '';
+		if (!text || LINKED_ITEM_REGEX.test(text)) continue;
+		const markerValue = marker?.[1];
+		const pendingId = markerValue?.startsWith(PENDING_MARKER_PREFIX) ? markerValue.slice(PENDING_MARKER_PREFIX.length) : undefined;
+		results.push({
+			index,
+			prefix: match[1] ?? '- ',
+			item: {
+				id: pendingId ? null : markerValue ?? null,
+				...(pendingId ? { pendingId } : {}),
+				content: text,
+				checked: (match[2] ?? ' ') !== ' ',
+			},
+		});
+	}
+	return results;
+}
@@ -0,0 +1,157 @@
+import type { App, TFile } from 'obsidian';
+import { generateUuid } from './task-frontmatter';
+import type { TodoistComment } from './todoist-client';
+
+// The block between these markers is regenerated from Todoist on every sync.
+const BLOCK_START = '<!-- todoist-comments -->';
+const BLOCK_END = '<!-- /todoist-comments -->';
+const COMMENTS_HEADING = 'Comments';
+const COMMENT_ID_REGEX = /\s*<!-- id:([^\s>]+) -->\s*$/;
+// Marker value of a comment that was sent but not confirmed yet
+const PENDING_ID_PREFIX = 'pending:';
+const LIST_ITEM_REGEX = /^[-*+]\s+(.*)$/;
+
+export interface NewComment {
+	content: string;
+	/** UUID the comment is sent with, kept in its marker until Todoist confirms it. */
+	pendingId: string;
+}
+
+/**
+ * Returns true when the note has a managed comments block. The heading cache
+ * rules most notes out without reading them; the markers decide.
+ */
+export async function hasCommentsBlock(app: App, file: TFile): Promise<boolean> {
+	const headings = app.metadataCache.getFileCache(file)?.headings ?? [];
+	if (!headings.some((heading) => heading.heading.trim() === COMMENTS_HEADING)) return false;
+	return findCommentsBlockRange(await app.vault.cachedRead(file)) !== null;
+}
+
+/**
+ * Gives each list item written locally inside the managed block a pending id
+ * marker, so it is sent with the same UUID until Todoist confirms it.
+ */
+export function markNewComments(content: string): string {
+	const range = findCommentsBlockRange(content);
+	if (!range) return content;
+	const block = content.slice(range.start, range.end).split('\n').map((line) => {
+		const item = line.match(LIST_ITEM_REGEX);
+		if (!item || COMMENT_ID_REGEX.test(line) || !(item[1] ?? '').trim()) return line;
+		return `${line.trimEnd()} <!-- id:${PENDING_ID_PREFIX}${generateUuid()} -->`;
+	});
+	return content.slice(0, range.start) + block.join('\n') + content.slice(range.end);
+}
+
+/** Drops the pending id marker of a comment Todoist rejected, so it is sent afresh next time. */
+export function unmarkComment(content: string, pendingId: string): string {
+	return content.replace(` <!-- id:${PENDING_ID_PREFIX}${pendingId} -->`, '');
+}
+
+/**
+ * Returns comments written locally inside the managed block that Todoist has
+ * not confirmed yet — list items with a pending id marker (see
+ * {@link markNewComments}). Indented lines below an item continue it.
+ */
+export function collectNewComments(content: string): NewComment[] {
+	const block = extractBlock(content);
+	if (block === null) return [];
+
+	const comments: Array<{ pendingId: string; lines: string[] }> = [];
+	let current: { pendingId: string; lines: string[] } | null = null;
+	for (const line of block.split('\n')) {
+		const item = line.match(LIST_ITEM_REGEX);
+		if (item) {
+			if (current) comments.push(current);
+			const marker = line.match(COMMENT_ID_REGEX)?.[1];
+			current = marker?.startsWith(PENDING_ID_PREFIX)
+				? { pendingId: marker.slice(PENDING_ID_PREFIX.length), lines: [(item[1] ?? '').replace(COMMENT_ID_REGEX, '').trim()] }
+				: null;
+		} else if (current && /^\s{2,}\S/.test(line)) {
+			current.lines.push(line.trim());
+		} else if (current && line.trim() === '') {
+			comments.push(current);
+			current = null;
+		}
+	}
+	if (current) comments.push(current);
+	return comments
+		.map(({ pendingId, lines }) => ({ content: lines.join('\n'), pendingId }))
+		.filter((comment) => comment.content.trim() !== '');
+}
+
+export function renderCommentsBlock(comments: TodoistComment[]): string {
+	const sorted = [...comments].sort((a, b) => (a.posted_at ?? '').localeCompare(b.posted_at ?? ''));
+	const lines = [BLOCK_START, `## ${COMMENTS_HEADING}`, ''];
+	for (const comment of sorted) {
+		const [first = '', ...rest] = comment.content.trim().split('\n');
+		const posted = formatPostedAt(comment.posted_at);
+		lines.push(`- ${posted ? `**${posted}** ` : ''}${first} <!-- id:${comment.id} -->`);
+		for (const line of rest) {
+			lines.push(`  ${line}`);
+		}
+	}
+	lines.push(BLOCK_END);
+	return lines.join('\n');
+}
+
+/**
+ * Rewrites the managed comments block of a task note, appending it to the end
+ * of the note when missing. Returns true when the file changed.
+ */
+export async function writeCommentsBlock(app: App, file: TFile, comments: TodoistComment[]): Promise<boolean> {
+	const block = renderCommentsBlock(comments);
+	let changed = false;
+	await app.vault.process(file, (content) => {
+		const range = findCommentsBlockRange(content);
+		let next: string;
+		if (range) {
+			next = content.slice(0, range.start) + block + content.slice(range.end);
+		} else if (comments.length === 0) {
+			next = content;
+		} else {
+			next = `${content.replace(/\s*$/, '')}\n\n${block}\n`;
+		}
+		changed = next !== content;
+		return next;
+	});
+	return changed;
+}
+
+/**
+ * Appends an empty managed comments block to a task note, so a first comment
+ * can be written for a task that has none. Returns false when the note
+ * already has one.
+ */
+export async function addCommentsBlock(app: App, file: TFile): Promise<boolean> {
+	let added = false;
+	await app.vault.process(file, (content) => {
+		if (findCommentsBlockRange(content)) return content;
+		added = true;
+		return `${content.replace(/\s*$/, '')}\n\n${renderCommentsBlock([])}\n`;
+	});
+	return added;
+}
+
+function extractBlock(content: string): string | null {
+	const range = findCommentsBlockRange(content);
+	return range ? content.slice(range.start, range.end) : null;
+}
+
+/**
+ * Locates the managed block, markers included. Only text between both
+ * markers counts: a "## Comments" section the user wrote is left alone.
+ */
+export function findCommentsBlockRange(content: string): { start: number; end: number } | null {
+	const start = content.indexOf(BLOCK_START);
+	if (start === -1) return null;
+	const end = content.indexOf(BLOCK_END, start);
+	return end === -1 ? null : { start, end: end + BLOCK_END.length };
+}
+
+function formatPostedAt(postedAt: string | null): string {
+	if (!postedAt) return '';
+	const date = new Date(postedAt);
+	if (Number.isNaN(date.getTime())) return '';
+	const pad = (value: number) => (value < 10 ? `0${value}` : String(value));
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
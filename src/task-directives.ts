@@ -1,24 +1,64 @@
+import {
+	findTrailingDateExpression,
+	formatDateExpressionDue,
+	parseDateExpression,
+	type DateParseOptions,
+} from './date-expression';
+
 export interface ParsedTaskDirectives {
 	title: string;
 	projectName?: string;
 	sectionName?: string;
 	dueRaw?: string;
+	/** Deadline date, from `{deadline}` or the end of a due range ("mon to fri"). */
+	deadlineRaw?: string;
 	recurrenceRaw?: string;
+	/** Todoist API priority: 4 is p1, 1 is p4. */
+	priority?: number;
+	labels?: string[];
+	assignee?: string;
+	/** Duration in minutes. */
+	duration?: number;
+	/** Parent task as written: a note name or link target. */
+	parentTask?: string;
+	/** Directive values that could not be read; the rest of the result is still filled in. */
+	errors?: string[];
+}
+
+export interface TaskDirectiveOptions extends DateParseOptions {
+	/** Todoist project names; an unquoted `#Name` is only read as a project when it is one of them. */
+	projectNames?: string[];
 }
 
-const DIRECTIVE_REGEX = /\b(proj|project|sec|section|due|recur|recurrence)::(?:"([^"]+)"|(\S+))/gi;
+const DIRECTIVE_REGEX = /\b(proj|project|sec|section|due|recur|recurrence|priority|label|deadline|duration|parent)::(?:"([^"]+)"|(\[\[[^\]]+\]\])|(\S+))/gi;
+
+const PRIORITY_NAMES: Record<string, number> = { urgent: 4, high: 4, medium: 3, low: 2, normal: 1, none: 1 };
 
-export function parseInlineTaskDirectives(rawTaskText: string): ParsedTaskDirectives {
+/**
+ * Todoist quick-add tokens: `#Project`, `/Section`, `@label` and `+assignee`
+ * (quote names with spaces: `#"Home office"`), `p1`–`p4` and `{deadline}`. A token
+ * must start a word, and a backslash before it (`\#tag`) keeps it in the title.
+ */
+const QUICK_ADD_REGEX = /(^|\s)(\\?)(?:([#/@+])(?:"([^"]+)"|([^\s"]+))|(p[1-4])(?=\s|$)|\{([^{}]+)\}(?!\}))/gi;
+
+export function parseInlineTaskDirectives(rawTaskText: string, options: TaskDirectiveOptions = {}): ParsedTaskDirectives {
 	let projectName: string | undefined;
 	let sectionName: string | undefined;
 	let dueRaw: string | undefined;
+	let deadlineRaw: string | undefined;
 	let recurrenceRaw: string | undefined;
+	let priority: number | undefined;
+	let deadline: string | undefined;
+	let duration: number | undefined;
+	let parentTask: string | undefined;
+	const labels: string[] = [];
+	const errors: string[] = [];
 
 	let cleaned = rawTaskText;
 	let match: RegExpExecArray | null;
 	while ((match = DIRECTIVE_REGEX.exec(rawTaskText)) !== null) {
 		const directive = (match[1] ?? '').toLowerCase();
-		const value = (match[2] ?? match[3] ?? '').trim();
+		const value = (match[2] ?? match[3] ?? match[4] ?? '').trim();
 		if (!value) {
 			continue;
 		}
@@ -28,25 +68,61 @@ export function parseInlineTaskDirectives(rawTaskText: string): ParsedTaskDirect
 		} else if (directive === 'sec' || directive === 'section') {
 			sectionName = value;
 		} else if (directive === 'due') {
-			dueRaw = normalizeCommonDueRaw(value);
+			const expression = parseDateExpression(value, options);
+			// Phrases the parser does not know are kept for the due date as written
+			dueRaw = expression ? formatDateExpressionDue(expression) : value.toLowerCase();
+			if (expression?.end) {
+				deadlineRaw = expression.end.date;
+			}
 		} else if (directive === 'recur' || directive === 'recurrence') {
 			recurrenceRaw = value;
 			if (!dueRaw) {
-				dueRaw = inferDueDateForRecurrenceRule(value);
+				dueRaw = inferDueDateForRecurrenceRule(value, options);
 			}
+		} else if (directive === 'priority') {
+			const parsed = parsePriorityValue(value);
+			if (parsed === undefined) errors.push(`Priority "${value}" not understood; use p1–p4 or high, medium, low.`);
+			else priority = parsed;
+		} else if (directive === 'label') {
+			if (!labels.includes(value)) labels.push(value);
+		} else if (directive === 'deadline') {
+			const parsed = parseDateExpression(value, options)?.date;
+			if (parsed === undefined) errors.push(`Deadline "${value}" is not a date.`);
+			else deadline = parsed;
+		} else if (directive === 'duration') {
+			const parsed = parseDurationValue(value);
+			if (parsed === undefined) errors.push(`Duration "${value}" not understood; use e.g. 45m, 1h30 or 90.`);
+			else duration = parsed;
+		} else if (directive === 'parent') {
+			parentTask = value.replace(/^\[\[([^\]|]+)(?:\|[^\]]*)?\]\]$/, '$1').trim();
 		}
 		cleaned = cleaned.replace(match[0], ' ');
 	}
 
-	const title = cleaned.replace(/\s+/g, ' ').trim();
+	// Directives win over quick-add tokens for the same field
+	const quickAdd = extractQuickAddTokens(cleaned, options);
+	const allLabels = [...labels, ...(quickAdd.labels ?? []).filter((label) => !labels.includes(label))];
+	const tokens = {
+		projectName: projectName ?? quickAdd.projectName,
+		sectionName: sectionName ?? quickAdd.sectionName,
+		priority: priority ?? quickAdd.priority,
+		labels: allLabels.length > 0 ? allLabels : undefined,
+		assignee: quickAdd.assignee,
+		duration,
+		parentTask,
+		errors: errors.length > 0 ? errors : undefined,
+	};
+	deadlineRaw = deadline ?? quickAdd.deadlineRaw ?? deadlineRaw;
+
+	const title = quickAdd.text.replace(/\s+/g, ' ').trim();
 	if (!dueRaw && !recurrenceRaw) {
-		const natural = detectNaturalDueSuffix(title);
+		const natural = detectNaturalDueSuffix(title, options);
 		if (natural.matched) {
 			return {
 				title: natural.title,
-				projectName,
-				sectionName,
+				...tokens,
 				dueRaw: natural.dueRaw,
+				deadlineRaw: deadlineRaw ?? natural.deadlineRaw,
 				recurrenceRaw: natural.recurrenceRaw,
 			};
 		}
@@ -54,16 +130,127 @@ export function parseInlineTaskDirectives(rawTaskText: string): ParsedTaskDirect
 
 	return {
 		title,
-		projectName,
-		sectionName,
+		...tokens,
 		dueRaw,
+		deadlineRaw,
 		recurrenceRaw,
 	};
 }
 
-export function detectNaturalDueSuffix(rawTitle: string): {
+/** Todoist API priority for `p1`–`p4`, `1`–`4` (read as p-levels) or a name like "high". */
+function parsePriorityValue(value: string): number | undefined {
+	const normalized = value.trim().toLowerCase();
+	const level = normalized.match(/^p?([1-4])$/);
+	if (level) {
+		return 5 - Number(level[1]);
+	}
+	return PRIORITY_NAMES[normalized];
+}
+
+/** Minutes for `45m`, `90`, `1h`, `1.5h`, `1h30`, `1h30m` or `1:30`; up to a day. */
+function parseDurationValue(value: string): number | undefined {
+	const normalized = value.trim().toLowerCase().replace(/\s+/g, '');
+	let minutes: number | undefined;
+	let match: RegExpMatchArray | null;
+	if ((match = normalized.match(/^(\d+)(?:m|min|mins|minutes?)?$/))) {
+		minutes = Number(match[1]);
+	} else if ((match = normalized.match(/^(\d+(?:\.\d+)?)(?:h|hrs?|hours?)$/))) {
+		minutes = Math.round(Number(match[1]) * 60);
+	} else if ((match = normalized.match(/^(\d+)(?:h|:)(\d{1,2})m?$/))) {
+		minutes = Number(match[1]) * 60 + Number(match[2]);
+	}
+	return minutes !== undefined && minutes > 0 && minutes <= 1440 ? minutes : undefined;
+}
+
+function extractQuickAddTokens(text: string, options: TaskDirectiveOptions): {
+	text: string;
+	projectName?: string;
+	sectionName?: string;
+	deadlineRaw?: string;
+	priority?: number;
+	labels?: string[];
+	assignee?: string;
+} {
+	let projectName: string | undefined;
+	let sectionName: string | undefined;
+	let deadlineRaw: string | undefined;
+	let priority: number | undefined;
+	let assignee: string | undefined;
+	const labels: string[] = [];
+
+	const remaining = text.replace(QUICK_ADD_REGEX, (
+		whole: string,
+		lead: string,
+		escape: string,
+		sigil: string | undefined,
+		quoted: string | undefined,
+		bare: string | undefined,
+		priorityToken: string | undefined,
+		deadline: string | undefined,
+	) => {
+		if (escape) {
+			return `${lead}${whole.slice(lead.length + 1)}`;
+		}
+		if (priorityToken) {
+			// Todoist's API numbers priorities the other way round: p1 is 4
+			priority = 5 - Number(priorityToken.slice(1));
+			return lead;
+		}
+		if (deadline !== undefined) {
+			const expression = parseDateExpression(deadline, options);
+			if (!expression) {
+				return whole;
+			}
+			deadlineRaw = expression.date;
+			return lead;
+		}
+		// Trailing punctuation ("@home,") stays in the title
+		const punctuation = quoted === undefined ? (bare?.match(/[.,;:!?)]+$/)?.[0] ?? '') : '';
+		const name = (quoted ?? bare?.slice(0, bare.length - punctuation.length) ?? '').trim();
+		if (!name) {
+			return whole;
+		}
+		if (sigil === '#') {
+			// Other hashtags are Obsidian tags; nested ones (#a/b) always are
+			const known = quoted === undefined
+				? options.projectNames?.find((candidate) => candidate.trim().toLowerCase() === name.toLowerCase())
+				: name;
+			if (!known || (quoted === undefined && name.includes('/'))) {
+				return whole;
+			}
+			projectName = known.trim();
+		} else if (sigil === '/') {
+			if (quoted === undefined && name.includes('/')) {
+				return whole;
+			}
+			sectionName = name;
+		} else if (sigil === '@') {
+			if (!labels.includes(name)) labels.push(name);
+		} else {
+			// "+1" is not a person
+			if (quoted === undefined && !/^\p{L}/u.test(name)) {
+				return whole;
+			}
+			assignee = name;
+		}
+		return punctuation || lead;
+	});
+
+	return {
+		text: remaining,
+		projectName,
+		sectionName,
+		deadlineRaw,
+		priority,
+		labels: labels.length > 0 ? labels : undefined,
+		assignee,
+	};
+}
+
+export function detectNaturalDueSuffix(rawTitle: string, options: DateParseOptions = {}): {
 	title: string;
 	dueRaw?: string;
+	deadlineRaw?: string;
 	recurrenceRaw?: string;
 	matched: boolean;
 } {
@@ -71,13 +258,12 @@ export function detectNaturalDueSuffix(rawTitle: string): {
 	if (!normalized) {
 		return { title: '', matched: false };
 	}
-	const now = new Date();
 
 	const recurrenceMatch = normalized.match(/^(.*\S)\s+(every\s+.+)$/i);
 	if (recurrenceMatch) {
 		const title = (recurrenceMatch[1] ?? '').trim();
 		const recurrenceRaw = (recurrenceMatch[2] ?? '').trim().toLowerCase();
-		const dueRaw = inferDueDateForRecurrenceRule(recurrenceRaw, now);
+		const dueRaw = inferDueDateForRecurrenceRule(recurrenceRaw, options);
 		if (title && recurrenceRaw) {
 			return {
 				title,
@@ -88,235 +274,28 @@ export function detectNaturalDueSuffix(rawTitle: string): {
 		}
 	}
 
-	const inDaysMatch = normalized.match(/^(.*\S)\s+in\s+(\d{1,3})\s+days?\.?$/i);
-	if (inDaysMatch) {
-		const title = (inDaysMatch[1] ?? '').trim();
-		const days = Number((inDaysMatch[2] ?? '').trim());
-		if (title && Number.isFinite(days) && days > 0) {
-			return {
-				title,
-				dueRaw: addDaysAsIso(now, days),
-				matched: true,
-			};
-		}
-	}
-
-	const inWeeksMatch = normalized.match(/^(.*\S)\s+in\s+(\d{1,3})\s+weeks?\.?$/i);
-	if (inWeeksMatch) {
-		const title = (inWeeksMatch[1] ?? '').trim();
-		const weeks = Number((inWeeksMatch[2] ?? '').trim());
-		if (title && Number.isFinite(weeks) && weeks > 0) {
-			return {
-				title,
-				dueRaw: addDaysAsIso(now, weeks * 7),
-				matched: true,
-			};
-		}
-	}
-
-	const thisNextWeekdayMatch = normalized.match(
-		/^(.*\S)\s+(this|next)\s+(mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:r|rs|rsday)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?)\.?$/i,
-	);
-	if (thisNextWeekdayMatch) {
-		const title = (thisNextWeekdayMatch[1] ?? '').trim();
-		const kind = ((thisNextWeekdayMatch[2] ?? '').trim().toLowerCase()) as 'this' | 'next';
-		const weekdayToken = (thisNextWeekdayMatch[3] ?? '').trim().toLowerCase();
-		const weekday = toWeekdayIndex(weekdayToken);
-		if (title && weekday !== null) {
-			return {
-				title,
-				dueRaw: resolveThisNextWeekdayAsIso(now, kind, weekday),
-				matched: true,
-			};
-		}
-	}
-
-	const bareWeekdayMatch = normalized.match(
-		/^(.*\S)\s+(mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:r|rs|rsday)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?)\.?$/i,
-	);
-	if (bareWeekdayMatch) {
-		const title = (bareWeekdayMatch[1] ?? '').trim();
-		const weekdayToken = (bareWeekdayMatch[2] ?? '').trim().toLowerCase();
-		const weekday = toWeekdayIndex(weekdayToken);
-		if (title && weekday !== null) {
-			return {
-				title,
-				dueRaw: resolveThisNextWeekdayAsIso(now, 'this', weekday),
-				matched: true,
-			};
-		}
-	}
-
-	const dueMatch = normalized.match(
-		/^(.*\S)\s+((?:today|tomorrow|tonight|next\s+(?:mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:r|rs|rsday)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?)))$/i,
-	);
-	if (dueMatch) {
-		const title = (dueMatch[1] ?? '').trim();
-		const dueRaw = normalizeCommonDueRaw((dueMatch[2] ?? '').trim().toLowerCase(), now);
-		if (title && dueRaw) {
-			return {
-				title,
-				dueRaw,
-				matched: true,
-			};
-		}
-	}
-
-	const monthRegex = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|jun(?:e)?|jul(?:y)?|aug(?:ust)?|sep(?:t|tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
-
-	const dayMonthMatch = normalized.match(new RegExp(`^(.*\\S)\\s+(\\d{1,2})\\s+(${monthRegex})\\.?$`, 'i'));
-	if (dayMonthMatch) {
-		const title = (dayMonthMatch[1] ?? '').trim();
-		const day = Number((dayMonthMatch[2] ?? '').trim());
-		const monthToken = (dayMonthMatch[3] ?? '').trim().toLowerCase();
-		const month = toMonthIndex(monthToken);
-		const iso = month === null ? null : resolveMonthDayAsIso(now, month, day);
-		if (title && iso) {
-			return {
-				title,
-				dueRaw: iso,
-				matched: true,
-			};
-		}
-	}
-
-	const monthDayMatch = normalized.match(
-		new RegExp(`^(.*\\S)\\s+(${monthRegex})\\s+(\\d{1,2})(?:st|nd|rd|th)?\\.?$`, 'i'),
-	);
-	if (monthDayMatch) {
-		const title = (monthDayMatch[1] ?? '').trim();
-		const monthToken = (monthDayMatch[2] ?? '').trim().toLowerCase();
-		const day = Number((monthDayMatch[3] ?? '').trim());
-		const month = toMonthIndex(monthToken);
-		const iso = month === null ? null : resolveMonthDayAsIso(now, month, day);
-		if (title && iso) {
-			return {
-				title,
-				dueRaw: iso,
-				matched: true,
-			};
-		}
+	const trailing = findTrailingDateExpression(normalized, options);
+	if (trailing?.title) {
+		return {
+			title: trailing.title,
+			dueRaw: formatDateExpressionDue(trailing.expression),
+			deadlineRaw: trailing.expression.end?.date,
+			matched: true,
+		};
 	}
 
 	return { title: normalized, matched: false };
 }
 
-export function inferDueDateForRecurrenceRule(recurrenceRaw: string, from = new Date()): string | undefined {
+/** First due date of a recurrence whose rule names a day, e.g. "every monday" or "every 12 march". */
+export function inferDueDateForRecurrenceRule(recurrenceRaw: string, options: DateParseOptions = {}): string | undefined {
 	const normalized = recurrenceRaw.trim().toLowerCase();
 	if (!normalized) {
 		return undefined;
 	}
 	const everyPrefixMatch = normalized.match(/^every\s+(.+)$/i);
 	const body = (everyPrefixMatch?.[1] ?? normalized).trim();
-
-	const weekday = toWeekdayIndex(body);
-	if (weekday !== null) {
-		return resolveThisNextWeekdayAsIso(from, 'this', weekday);
-	}
-
-	const monthRegex = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|jun(?:e)?|jul(?:y)?|aug(?:ust)?|sep(?:t|tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
-	const dayMonthMatch = body.match(new RegExp(`^(\\d{1,2})\\s+(${monthRegex})$`, 'i'));
-	if (dayMonthMatch) {
-		const day = Number((dayMonthMatch[1] ?? '').trim());
-		const monthToken = (dayMonthMatch[2] ?? '').trim().toLowerCase();
-		const month = toMonthIndex(monthToken);
-		return month === null ? undefined : (resolveMonthDayAsIso(from, month, day) ?? undefined);
-	}
-
-	const monthDayMatch = body.match(new RegExp(`^(${monthRegex})\\s+(\\d{1,2})(?:st|nd|rd|th)?$`, 'i'));
-	if (monthDayMatch) {
-		const monthToken = (monthDayMatch[1] ?? '').trim().toLowerCase();
-		const day = Number((monthDayMatch[2] ?? '').trim());
-		const month = toMonthIndex(monthToken);
-		return month === null ? undefined : (resolveMonthDayAsIso(from, month, day) ?? undefined);
-	}
-
-	return undefined;
-}
-
-function normalizeCommonDueRaw(raw: string, from = new Date()): string {
-	const normalized = raw.trim().toLowerCase();
-	if (!normalized) {
-		return '';
-	}
-	if (normalized === 'today') {
-		return toIsoDate(new Date(from.getFullYear(), from.getMonth(), from.getDate()));
-	}
-	if (normalized === 'tomorrow' || normalized === 'tonight') {
-		return addDaysAsIso(from, 1);
-	}
-	return normalized;
-}
-
-function addDaysAsIso(from: Date, days: number): string {
-	const next = new Date(from.getFullYear(), from.getMonth(), from.getDate());
-	next.setDate(next.getDate() + days);
-	return toIsoDate(next);
-}
-
-function toWeekdayIndex(token: string): number | null {
-	const normalized = token.toLowerCase();
-	if (normalized.startsWith('sun')) return 0;
-	if (normalized.startsWith('mon')) return 1;
-	if (normalized.startsWith('tue')) return 2;
-	if (normalized.startsWith('wed')) return 3;
-	if (normalized.startsWith('thu')) return 4;
-	if (normalized.startsWith('fri')) return 5;
-	if (normalized.startsWith('sat')) return 6;
-	return null;
-}
-
-function resolveThisNextWeekdayAsIso(from: Date, kind: 'this' | 'next', weekday: number): string {
-	const today = new Date(from.getFullYear(), from.getMonth(), from.getDate());
-	const currentWeekday = today.getDay();
-	const baseDiff = (weekday - currentWeekday + 7) % 7;
-	const daysToAdd = kind === 'next' ? baseDiff + 7 : baseDiff;
-	today.setDate(today.getDate() + daysToAdd);
-	return toIsoDate(today);
-}
-
-function toMonthIndex(token: string): number | null {
-	const m = token.toLowerCase();
-	if (m.startsWith('jan')) return 0;
-	if (m.startsWith('feb')) return 1;
-	if (m.startsWith('mar')) return 2;
-	if (m.startsWith('apr')) return 3;
-	if (m === 'may') return 4;
-	if (m.startsWith('jun')) return 5;
-	if (m.startsWith('jul')) return 6;
-	if (m.startsWith('aug')) return 7;
-	if (m.startsWith('sep')) return 8;
-	if (m.startsWith('oct')) return 9;
-	if (m.startsWith('nov')) return 10;
-	if (m.startsWith('dec')) return 11;
-	return null;
-}
-
-function resolveMonthDayAsIso(from: Date, month: number, day: number): string | null {
-	if (day < 1 || day > 31) {
-		return null;
-	}
-	const currentYear = from.getFullYear();
-	const today = new Date(currentYear, from.getMonth(), from.getDate());
-	const candidateThisYear = new Date(currentYear, month, day);
-	if (candidateThisYear.getMonth() !== month || candidateThisYear.getDate() !== day) {
-		return null;
-	}
-	if (candidateThisYear >= today) {
-		return toIsoDate(candidateThisYear);
-	}
-	const candidateNextYear = new Date(currentYear + 1, month, day);
-	if (candidateNextYear.getMonth() !== month || candidateNextYear.getDate() !== day) {
-		return null;
-	}
-	return toIsoDate(candidateNextYear);
-}
-
-function toIsoDate(date: Date): string {
-	const y = date.getFullYear();
-	const m = String(date.getMonth() + 1).padStart(2, '0');
-	const d = String(date.getDate()).padStart(2, '0');
-	return `${y}-${m}-${d}`;
+	return parseDateExpression(body, options)?.date;
 }
 
 export function formatDueForDisplay(dueRaw: string): string {
@@ -340,6 +319,20 @@ export function formatDueForDisplay(dueRaw: string): string {
 		}
 	}
 
+	if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(trimmed)) {
+		const parsed = new Date(trimmed);
+		if (!Number.isNaN(parsed.getTime())) {
+			const time = new Intl.DateTimeFormat(undefined, { hour: 'numeric', minute: '2-digit' }).format(parsed);
+			const relative = relativeDayLabel(parsed, new Date());
+			const day = relative ?? new Intl.DateTimeFormat(undefined, {
+				month: 'short',
+				day: 'numeric',
+				year: 'numeric',
+			}).format(parsed);
+			return `${day} ${time}`;
+		}
+	}
+
 	return trimmed;
 }
 
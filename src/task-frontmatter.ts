@@ -1,3 +1,4 @@
+import { normalizePath } from 'obsidian';
 import type { PropNames, TaskTodoistSettings } from './settings';
 import { resolveTemplateVars } from './template-variables';
 
@@ -5,6 +6,17 @@ export function getPropNames(settings: TaskTodoistSettings): PropNames {
 	return settings.propNames;
 }
 
+/** True for paths inside the tasks folder or the folder of an enabled import or routing rule. */
+export function isInTaskFolder(path: string, settings: TaskTodoistSettings): boolean {
+	const ruleFolders = [...(settings.importRules ?? []), ...(settings.routingRules ?? [])]
+		.filter((rule) => rule.enabled && rule.folder.trim())
+		.map((rule) => rule.folder);
+	return [settings.tasksFolderPath, ...ruleFolders].some((folder) => {
+		const resolved = normalizePath(resolveTemplateVars(folder));
+		return path === resolved || path.startsWith(`${resolved}/`);
+	});
+}
+
 export function applyStandardTaskFrontmatter(
 	frontmatter: Record<string, unknown>,
 	settings: TaskTodoistSettings,
@@ -0,0 +1,275 @@
+import type { ConflictResolution, TaskTodoistSettings } from './settings';
+import { getPropNames } from './task-frontmatter';
+import { canonicalReminders } from './task-reminders';
+import { recurrenceRuleKey } from './todoist-rrule';
+import { simpleStableHash } from './stable-hash';
+
+/** A task's synced fields, as read from its note or from Todoist. */
+export interface TaskSyncFields {
+	title: string;
+	description: string;
+	isDone: boolean;
+	isRecurring: boolean;
+	projectId?: string;
+	sectionId?: string;
+	parentId?: string;
+	dueDate?: string;
+	dueString?: string;
+	priority?: number;
+	labels?: string[];
+	deadline?: string;
+	duration?: number;
+	/** Undefined when the note has no reminders property; the reminders are then left alone. */
+	reminders?: string[];
+	assignee?: string;
+	assigneeId?: string;
+	/** TaskNotes `recurrence` rule; undefined when the note has no such property. */
+	recurrence?: string;
+	/** The note's `complete_instances` lists the current due date of a recurring task. */
+	completesInstance?: boolean;
+}
+
+export const MERGE_FIELDS = [
+	'title',
+	'description',
+	'done',
+	'due',
+	'recurrence',
+	'deadline',
+	'priority',
+	'labels',
+	'duration',
+	'reminders',
+	'assignee',
+	'project',
+	'section',
+	'parent',
+] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number];
+
+/**
+ * Outcome of a three-way merge: fields to send to Todoist, fields to take from
+ * Todoist, and fields changed on both sides to different values.
+ */
+export interface FieldMerge {
+	push: Set<MergeField>;
+	pull: Set<MergeField>;
+	conflicts: MergeField[];
+}
+
+/** A field edited in both places, kept in the note until the user picks a value. */
+export interface SyncConflictField {
+	field: MergeField;
+	local: string;
+	remote: string;
+	/** Hash of the Todoist value when the conflict was recorded. */
+	remoteHash: string;
+}
+
+/** How the user settled a conflicting field: keep a side, or write a new value. */
+export type SyncConflictChoice =
+	| { keep: 'local' }
+	| { keep: 'remote' }
+	| { keep: 'edit'; value: string };
+
+/** Fields whose value can be typed in when resolving a conflict. */
+export const EDITABLE_CONFLICT_FIELDS: ReadonlySet<MergeField> = new Set<MergeField>([
+	'title',
+	'description',
+	'due',
+	'recurrence',
+	'deadline',
+	'priority',
+	'labels',
+	'duration',
+	'reminders',
+	'assignee',
+]);
+
+/** Project and section names for describing fields; IDs are shown without them. */
+export interface FieldNameLookup {
+	projectNameById?: Map<string, string>;
+	sectionNameById?: Map<string, string>;
+}
+
+/** Hash of each field. Reminders and recurrence are left out when the note has no such property. */
+export function hashTaskFields(fields: TaskSyncFields): Map<MergeField, string> {
+	const hashes = new Map<MergeField, string>();
+	for (const field of MERGE_FIELDS) {
+		if (field === 'reminders' && fields.reminders === undefined) continue;
+		if (field === 'recurrence' && fields.recurrence === undefined) continue;
+		hashes.set(field, simpleStableHash(JSON.stringify(fieldValue(fields, field))));
+	}
+	return hashes;
+}
+
+/**
+ * Merges note (`local`) and Todoist (`remote`) field hashes against the hashes
+ * stored at the last sync. A field changed on one side only goes to the other;
+ * a field changed on both sides to different values is a conflict and follows
+ * `resolution` (`manual` leaves it out of both sets). Fields missing from the
+ * base count as changed locally.
+ */
+export function mergeTaskFields(
+	base: Map<MergeField, string>,
+	local: Map<MergeField, string>,
+	remote: Map<MergeField, string>,
+	resolution: ConflictResolution,
+): FieldMerge {
+	const merge: FieldMerge = { push: new Set(), pull: new Set(), conflicts: [] };
+	for (const field of MERGE_FIELDS) {
+		const remoteHash = remote.get(field);
+		const localHash = local.get(field) ?? base.get(field) ?? remoteHash;
+		if (localHash === remoteHash) continue;
+		const baseHash = base.get(field);
+		const localChanged = baseHash === undefined || localHash !== baseHash;
+		const remoteChanged = baseHash !== undefined && remoteHash !== baseHash;
+		if (localChanged && remoteChanged) {
+			merge.conflicts.push(field);
+			// Held conflicts are neither sent nor pulled until resolved
+			if (resolution !== 'manual') merge[resolution === 'local-wins' ? 'push' : 'pull'].add(field);
+		} else if (localChanged) {
+			merge.push.add(field);
+		} else {
+			merge.pull.add(field);
+		}
+	}
+	return merge;
+}
+
+/** Reads the `todoist_sync_base` frontmatter list ("field:hash" entries). */
+export function readSyncBase(frontmatter: Record<string, unknown> | undefined, settings: TaskTodoistSettings): Map<MergeField, string> {
+	const base = new Map<MergeField, string>();
+	const raw = frontmatter?.[getPropNames(settings).todoistSyncBase];
+	if (!Array.isArray(raw)) return base;
+	for (const entry of raw) {
+		if (typeof entry !== 'string') continue;
+		const [field, hash] = entry.split(':');
+		if (field && hash && (MERGE_FIELDS as readonly string[]).includes(field)) {
+			base.set(field as MergeField, hash);
+		}
+	}
+	return base;
+}
+
+/** Records the conflicting fields with both values, described for display. */
+export function buildSyncConflicts(
+	fields: MergeField[],
+	local: TaskSyncFields,
+	remote: TaskSyncFields,
+	remoteHashes: Map<MergeField, string>,
+	names: FieldNameLookup,
+): SyncConflictField[] {
+	return fields.map((field) => ({
+		field,
+		local: describeTaskField(local, field, names),
+		remote: describeTaskField(remote, field, names),
+		remoteHash: remoteHashes.get(field) ?? '',
+	}));
+}
+
+/** Reads the `todoist_sync_conflict` frontmatter list. */
+export function readSyncConflicts(frontmatter: Record<string, unknown> | undefined, settings: TaskTodoistSettings): SyncConflictField[] {
+	const raw = frontmatter?.[getPropNames(settings).todoistSyncConflict];
+	if (!Array.isArray(raw)) return [];
+	const conflicts: SyncConflictField[] = [];
+	for (const entry of raw) {
+		if (!entry || typeof entry !== 'object') continue;
+		const { field, local, remote, remote_hash: remoteHash } = entry as Record<string, unknown>;
+		if (typeof field === 'string' && (MERGE_FIELDS as readonly string[]).includes(field) && typeof remoteHash === 'string') {
+			conflicts.push({
+				field: field as MergeField,
+				local: typeof local === 'string' ? local : '',
+				remote: typeof remote === 'string' ? remote : '',
+				remoteHash,
+			});
+		}
+	}
+	return conflicts;
+}
+
+export function formatSyncConflicts(conflicts: SyncConflictField[]): Array<Record<string, string>> {
+	return conflicts.map((conflict) => ({
+		field: conflict.field,
+		local: conflict.local,
+		remote: conflict.remote,
+		remote_hash: conflict.remoteHash,
+	}));
+}
+
+/** A field's value as shown to the user and offered for editing. */
+export function describeTaskField(fields: TaskSyncFields, field: MergeField, names: FieldNameLookup = {}): string {
+	switch (field) {
+		case 'title':
+			return fields.title.trim();
+		case 'description':
+			return fields.description.trim();
+		case 'done':
+			return fields.isDone ? 'Done' : 'Open';
+		case 'due': {
+			const date = fields.dueDate?.trim() ?? '';
+			const text = fields.dueString?.trim() ?? '';
+			return fields.isRecurring && text ? text : date || text;
+		}
+		case 'recurrence':
+			return fields.recurrence?.trim() ?? '';
+		case 'deadline':
+			return fields.deadline?.trim() ?? '';
+		case 'priority':
+			// Shown as in Todoist: API priority 4 is p1
+			return `p${5 - (fields.priority ?? 1)}`;
+		case 'labels':
+			return (fields.labels ?? []).join(', ');
+		case 'duration':
+			return fields.duration ? String(fields.duration) : '';
+		case 'reminders':
+			return (fields.reminders ?? []).join(', ');
+		case 'assignee':
+			return fields.assignee?.trim() || fields.assigneeId?.trim() || '';
+		case 'project':
+			return names.projectNameById?.get(fields.projectId ?? '') ?? fields.projectId ?? '';
+		case 'section':
+			return names.sectionNameById?.get(fields.sectionId ?? '') ?? fields.sectionId ?? '';
+		case 'parent':
+			return fields.parentId ?? '';
+	}
+}
+
+export function formatSyncBase(hashes: Map<MergeField, string>): string[] {
+	return MERGE_FIELDS.filter((field) => hashes.has(field)).map((field) => `${field}:${hashes.get(field) ?? ''}`);
+}
+
+function fieldValue(fields: TaskSyncFields, field: MergeField): unknown {
+	switch (field) {
+		case 'title':
+			return fields.title.trim();
+		case 'description':
+			return fields.description.trim();
+		case 'done':
+			// Completing the current instance of a recurring task is sent as a completion
+			return fields.isDone || fields.completesInstance === true;
+		case 'due':
+			return [fields.dueDate?.trim() ?? '', fields.dueString?.trim() ?? '', fields.isRecurring];
+		case 'recurrence':
+			return recurrenceRuleKey(fields.recurrence ?? '');
+		case 'deadline':
+			return fields.deadline?.trim() ?? '';
+		case 'priority':
+			return fields.priority ?? 1;
+		case 'labels':
+			return (fields.labels ?? []).slice().sort();
+		case 'duration':
+			return fields.duration ?? null;
+		case 'reminders':
+			return canonicalReminders(fields.reminders ?? []);
+		case 'assignee':
+			return fields.assigneeId?.trim() ?? '';
+		case 'project':
+			return fields.projectId?.trim() ?? '';
+		case 'section':
+			return fields.sectionId?.trim() ?? '';
+		case 'parent':
+			return fields.parentId?.trim() ?? '';
+	}
+}
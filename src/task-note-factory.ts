@@ -1,6 +1,6 @@
 import { App, TFile, normalizePath } from 'obsidian';
 import type { TaskTodoistSettings } from './settings';
-import type { TodoistProject } from './todoist-client';
+import type { TodoistProject, TodoistSection } from './todoist-client';
 import { formatCreatedDate, formatModifiedDate, generateUuid, getDefaultTaskTag, getPropNames, priorityLabel } from './task-frontmatter';
 import { resolveTemplateVars, TaskTemplateContext } from './template-variables';
 import { buildRecurrenceString } from './todoist-rrule';
@@ -18,7 +18,12 @@ export interface LocalTaskNoteInput {
 	todoistDueDate?: string;
 	todoistDueString?: string;
 	todoistDeadlineDate?: string;
+	/** Duration in minutes. */
+	todoistDuration?: number;
 	todoistPriority?: number;
+	todoistLabels?: string[];
+	todoistAssignee?: string;
+	todoistAssigneeId?: string;
 }
 
 export async function createLocalTaskNote(
@@ -49,6 +54,9 @@ export async function createLocalTaskNote(
 	const description = input.description?.trim() ?? '';
 	const deadlineDate = input.todoistDeadlineDate?.trim() ?? '';
 	const priority = input.todoistPriority ?? 1;
+	const labels = (input.todoistLabels ?? []).map((label) => label.trim()).filter(Boolean);
+	const assignee = input.todoistAssignee?.trim() ?? '';
+	const assigneeId = input.todoistAssigneeId?.trim() ?? '';
 	const createdDateStr = formatCreatedDate(now);
 	const recurrenceStr = isRecurring && dueDate ? buildRecurrenceString(dueString, dueDate) : null;
 
@@ -103,6 +111,9 @@ export async function createLocalTaskNote(
 			data[p.todoistSectionName] = effectiveSectionName;
 			data[p.todoistPriority] = priority;
 			data[p.todoistPriorityLabel] = priorityLabel(priority);
+			if (labels.length > 0) {
+				data[p.todoistLabels] = labels;
+			}
 			data[p.todoistDue] = dueDate;
 			data[p.todoistDueString] = dueString;
 			data[p.todoistIsRecurring] = isRecurring;
@@ -110,6 +121,13 @@ export async function createLocalTaskNote(
 				data[p.recurrence] = recurrenceStr;
 			}
 			data[p.todoistDeadline] = deadlineDate || null;
+			if (input.todoistDuration) {
+				data[p.todoistDuration] = input.todoistDuration;
+			}
+			if (assignee || assigneeId) {
+				data[p.todoistAssignee] = assignee;
+				data[p.todoistAssigneeId] = assigneeId;
+			}
 			data[p.todoistDescription] = description;
 			data[p.todoistUrl] = todoistUrl;
 			// Project/section links: empty for locally created notes (set by sync when the task is imported)
@@ -140,11 +158,15 @@ export async function createLocalTaskNote(
 		`${p.todoistSectionName}: "${escapeDoubleQuotes(effectiveSectionName)}"`,
 		`${p.todoistPriority}: ${priority}`,
 		`${p.todoistPriorityLabel}: "${priorityLabel(priority)}"`,
+		labels.length > 0 ? `${p.todoistLabels}:\n${labels.map((label) => `  - "${escapeDoubleQuotes(label)}"`).join('\n')}` : null,
 		`${p.todoistDue}: "${escapeDoubleQuotes(dueDate)}"`,
 		`${p.todoistDueString}: "${escapeDoubleQuotes(dueString)}"`,
 		`${p.todoistIsRecurring}: ${isRecurring ? 'true' : 'false'}`,
 		recurrenceStr ? `${p.recurrence}: "${escapeDoubleQuotes(recurrenceStr)}"` : null,
 		deadlineDate ? `${p.todoistDeadline}: "${escapeDoubleQuotes(deadlineDate)}"` : `${p.todoistDeadline}: null`,
+		input.todoistDuration ? `${p.todoistDuration}: ${input.todoistDuration}` : null,
+		assignee || assigneeId ? `${p.todoistAssignee}: "${escapeDoubleQuotes(assignee)}"` : null,
+		assignee || assigneeId ? `${p.todoistAssigneeId}: "${escapeDoubleQuotes(assigneeId)}"` : null,
 		`${p.todoistDescription}: "${escapeDoubleQuotes(description)}"`,
 		todoistUrl ? `${p.todoistUrl}: "${escapeDoubleQuotes(todoistUrl)}"` : `${p.todoistUrl}: ""`,
 		`${p.todoistProjectLink}: ""`,
@@ -322,6 +344,51 @@ export function buildProjectFolderSegments(
 	});
 }
 
+/**
+ * Inverse of the project/section subfolder layout: finds the project (and,
+ * with section subfolders, the section) whose task folder is folderPath.
+ * Returns null when the folder is not a project or section folder.
+ */
+export function resolveTaskFolderLocation(
+	folderPath: string,
+	tasksFolderPath: string,
+	projects: TodoistProject[],
+	sections: TodoistSection[],
+	useSectionSubfolders: boolean,
+): { projectId: string; sectionId: string | null } | null {
+	const projectNameById = new Map(projects.map((p) => [p.id, p.name]));
+	const projectParentIdById = new Map(projects.map((p) => [p.id, p.parent_id ?? null]));
+	const target = normalizePath(folderPath);
+	const projectFolder = (projectId: string): string => normalizePath(
+		[tasksFolderPath, ...buildProjectFolderSegments(projectId, projectNameById, projectParentIdById)].join('/'),
+	);
+	if (useSectionSubfolders) {
+		const sectionNameById = new Map(sections.map((s) => [s.id, s.name]));
+		const sectionProjectIdById = new Map(sections.map((s) => [s.id, s.project_id]));
+		for (const section of sections) {
+			if (!projectNameById.has(section.project_id)) continue;
+			const sectionFolder = buildSanitizedSectionFolderName(section.id, section.name, section.project_id, sectionNameById, sectionProjectIdById);
+			if (normalizePath(`${projectFolder(section.project_id)}/${sectionFolder}`) === target) {
+				return { projectId: section.project_id, sectionId: section.id };
+			}
+		}
+	}
+	const project = projects.find((p) => projectFolder(p.id) === target);
+	return project ? { projectId: project.id, sectionId: null } : null;
+}
+
+/**
+ * With project subfolders, the project whose folder under the tasks folder holds
+ * the note, at any depth (section subfolders included). Null outside those folders.
+ */
+export function findProjectForTaskFolder(file: TFile, tasksFolderPath: string, projects: TodoistProject[]): string | null {
+	for (let folder = file.parent; folder && !folder.isRoot(); folder = folder.parent) {
+		const location = resolveTaskFolderLocation(folder.path, tasksFolderPath, projects, [], false);
+		if (location) return location.projectId;
+	}
+	return null;
+}
+
 /**
  * Like buildProjectFolderSegments but only includes the chain from rootId down to
  * projectId. Useful for building paths relative to a reference root project.
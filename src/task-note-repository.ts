@@ -1,7 +1,7 @@
 import { App, TFile, TFolder, normalizePath, parseYaml } from 'obsidian';
-import type { TaskTodoistSettings } from './settings';
+import type { PropNames, TaskTodoistSettings } from './settings';
 import { notify } from './notify';
-import type { TodoistItem, TodoistProject, TodoistSection } from './todoist-client';
+import type { TodoistCompletedItem, TodoistItem, TodoistLabel, TodoistProject, TodoistReminder, TodoistSection } from './todoist-client';
 import {
 	applyStandardTaskFrontmatter,
 	formatCreatedDate,
@@ -12,6 +12,7 @@ import {
 	getTaskStatus,
 	getTaskTitle,
 	getPropNames,
+	isInTaskFolder,
 	priorityLabel,
 	setTaskStatus,
 	setTaskTitle,
@@ -31,10 +32,30 @@ import {
 	topologicalSortProjects,
 } from './task-note-factory';
 import { resolveTemplateVars, ProjectTemplateContext, SectionTemplateContext } from './template-variables';
-import { buildRecurrenceString } from './todoist-rrule';
-import { type VaultIndex, buildVaultIndexSnapshot, type VaultIndexSnapshot } from './vault-index';
-
-interface ProjectSectionMaps {
+import { buildRecurrenceString, keepRecurrenceStart, recurrenceRuleKey } from './todoist-rrule';
+import type { NoteRoute } from './task-routing';
+import type { SyncPlanNoteChange } from './sync-plan';
+import {
+	EDITABLE_CONFLICT_FIELDS,
+	buildSyncConflicts,
+	describeTaskField,
+	formatSyncBase,
+	formatSyncConflicts,
+	hashTaskFields,
+	mergeTaskFields,
+	readSyncBase,
+	readSyncConflicts,
+	type FieldNameLookup,
+	type MergeField,
+	type SyncConflictChoice,
+	type SyncConflictField,
+	type TaskSyncFields,
+} from './task-merge';
+import { canonicalReminders, formatReminders, readReminderProperty } from './task-reminders';
+import { simpleStableHash } from './stable-hash';
+import { type VaultIndex, buildVaultIndexSnapshot, findProjectIdForFolder, type VaultIndexSnapshot } from './vault-index';
+
+export interface ProjectSectionMaps {
 	projectNameById: Map<string, string>;
 	sectionNameById: Map<string, string>;
 	sectionProjectIdById?: Map<string, string>;
@@ -44,6 +65,19 @@ interface ProjectSectionMaps {
 	sectionFileById?: Map<string, TFile>;
 	allProjects?: TodoistProject[];
 	allSections?: TodoistSection[];
+	remindersByItemId?: Map<string, TodoistReminder[]>;
+	allLabels?: TodoistLabel[];
+	/** Label notes by lower-cased label name; set only when label notes are enabled. */
+	labelFileByName?: Map<string, TFile>;
+	collaboratorNameById?: Map<string, string>;
+	/** Projects whose note edits could not be pushed; their notes are not overwritten from Todoist. */
+	dirtyProjectIds?: Set<string>;
+	/** Sections whose note edits could not be pushed; their notes are not overwritten from Todoist. */
+	dirtySectionIds?: Set<string>;
+	/** Tasks whose local reorder could not be pushed; their order properties are not overwritten. */
+	dirtyOrderIds?: Set<string>;
+	/** Folder, template and tags chosen for each item's note by its import and routing rules. */
+	noteRouteByItemId?: Map<string, NoteRoute>;
 }
 
 interface UpsertResult {
@@ -56,17 +90,44 @@ interface SyncTaskResult {
 	updated: number;
 }
 
+/** A synced task note and the folder its routing puts it in. */
+export interface NoteMove {
+	todoistId: string;
+	file: TFile;
+	fromFolder: string;
+	toFolder: string;
+}
+
 export interface SyncedTaskEntry {
 	todoistId: string;
 	file: TFile;
 }
 
+export interface LocalTaskOrder {
+	todoistId: string;
+	childOrder: number | null;
+	dayOrder: number | null;
+}
+
+/** A task note in the `conflict` sync status; `local` values are read from the note as it is now. */
+export interface SyncConflictEntry {
+	file: TFile;
+	todoistId: string;
+	title: string;
+	fields: SyncConflictField[];
+}
+
 export interface MissingTaskEntry {
 	todoistId: string;
 	file: TFile;
 	isDeletedRemote: boolean;
 }
 
+type MissingTaskAction =
+	| { kind: 'delete' }
+	| { kind: 'stop-syncing' }
+	| { kind: 'mark-done' | 'mark-deleted'; updateFrontmatter: boolean; moveToFolder: string | null };
+
 interface ParentAssignment {
 	childTodoistId: string;
 	parentTodoistId: string;
@@ -89,6 +150,17 @@ export interface PendingLocalCreate {
 	labels?: string[];
 	deadline?: string;
 	duration?: number;
+	/** Raw reminders property values; undefined when the note has no such property. */
+	reminders?: string[];
+	/** Assignee name and ID; both undefined when the note has neither property. */
+	assignee?: string;
+	assigneeId?: string;
+	/** temp_id of an earlier attempt that may have reached Todoist; the create is replayed with it. */
+	dispatchedTempId?: string;
+	/** Todoist ID of the parent task, from the parent task link or the parent ID property. */
+	parentId?: string;
+	/** Linked parent note that is itself waiting to be created; the child refers to its temp_id. */
+	parentPath?: string;
 }
 
 export interface PendingProjectTaskCreate {
@@ -104,6 +176,41 @@ export interface PendingProjectTaskCreate {
 	duration?: number;
 }
 
+export interface PendingProjectUpdate {
+	file: TFile;
+	projectId: string;
+	name: string;
+	color: string | null;
+	/** Project ID of the parent link's note: null when the link is empty, undefined when it does not resolve. */
+	parentLinkId?: string | null;
+	parentName: string;
+	isFavorite: boolean;
+	archived: boolean;
+	syncSignature: string;
+}
+
+/** A section note with an empty section ID: the section is created in Todoist on the next sync. */
+export interface PendingSectionCreate {
+	file: TFile;
+	name: string;
+	/** From the note's project ID, its project link, or the project note of its folder. */
+	projectId?: string;
+	projectName?: string;
+	/** temp_id of an earlier attempt that may have reached Todoist; the create is replayed with it. */
+	dispatchedTempId?: string;
+}
+
+export interface PendingSectionUpdate {
+	file: TFile;
+	sectionId: string;
+	name: string;
+	/** Project ID of the project link's note: null when the link is empty, undefined when it does not resolve. */
+	projectLinkId?: string | null;
+	projectName: string;
+	archived: boolean;
+	syncSignature: string;
+}
+
 export interface PendingNoteTaskAutoCreate {
 	file: TFile;
 	title: string;
@@ -146,11 +253,24 @@ export interface PendingLocalUpdate {
 	dueString?: string;
 	projectId?: string;
 	sectionId?: string;
+	/** Parent task ID; undefined for a top-level task. */
+	parentId?: string;
 	priority?: number;
 	labels?: string[];
 	deadline?: string;
 	duration?: number;
+	/** Raw reminders property values; undefined when the note has no such property. */
+	reminders?: string[];
+	/** Assignee name and ID; both undefined when the note has neither property. */
+	assignee?: string;
+	assigneeId?: string;
+	/** TaskNotes recurrence rule; undefined when the note has no such property. */
+	recurrence?: string;
+	/** True when the current due date of a recurring task is in complete_instances. */
+	completesInstance?: boolean;
 	isProjectTask?: boolean;
+	/** Field hashes as of the last sync; empty for notes synced before they were recorded. */
+	syncBase: Map<MergeField, string>;
 }
 
 export class TaskNoteRepository {
@@ -168,7 +288,7 @@ export class TaskNoteRepository {
 		const resolvedFolder = resolveTemplateVars(this.settings.tasksFolderPath);
 		await this.ensureFolderExists(resolvedFolder);
 
-		const { taskIndex: existingByTodoistId, projectIndex, sectionIndex, duplicateTaskFiles } = this.buildVaultIndexes();
+		const { taskIndex: existingByTodoistId, projectIndex, sectionIndex, labelIndex, duplicateTaskFiles } = this.buildVaultIndexes();
 		await this.autoResolveDuplicateIds(duplicateTaskFiles, existingByTodoistId);
 		const createdOrUpdatedByTodoistId = new Map<string, TFile>();
 		const pendingParents: ParentAssignment[] = [];
@@ -183,6 +303,9 @@ export class TaskNoteRepository {
 		// Parse exclusion lists
 		const excludedProjectNames = parseCommaSeparatedNameSet(this.settings.excludedProjectNames);
 		const excludedSectionNames = parseCommaSeparatedNameSet(this.settings.excludedSectionNames);
+		// Notes with unpushed project edits keep their frontmatter and location until the push succeeds
+		const dirtyProjectIds = maps.dirtyProjectIds ?? new Set<string>();
+		const dirtySectionIds = maps.dirtySectionIds ?? new Set<string>();
 
 		// Pre-pass: ensure notes for ALL projects and sections (not just those with tasks)
 		if (this.settings.createProjectNotes && maps.allProjects) {
@@ -190,6 +313,9 @@ export class TaskNoteRepository {
 			for (const project of sortedProjects) {
 				if (!seenProjectIds.has(project.id) && !excludedProjectNames.has(project.name.toLowerCase())) {
 					seenProjectIds.add(project.id);
+					if (dirtyProjectIds.has(project.id) && projectIndex.has(project.id)) {
+						continue;
+					}
 					const projectFile = await this.ensureProjectNote(
 						project.id,
 						project.name,
@@ -197,6 +323,7 @@ export class TaskNoteRepository {
 						maps.projectNameById,
 						maps.projectParentIdById ?? new Map(),
 						project.color,
+						project.is_favorite,
 					);
 					if (projectFile) {
 						projectFileById.set(project.id, projectFile);
@@ -208,6 +335,9 @@ export class TaskNoteRepository {
 			for (const section of maps.allSections) {
 				if (!seenSectionIds.has(section.id) && !excludedSectionNames.has(section.name.toLowerCase())) {
 					seenSectionIds.add(section.id);
+					if (dirtySectionIds.has(section.id) && sectionIndex.has(section.id)) {
+						continue;
+					}
 					const projectName = maps.projectNameById.get(section.project_id) ?? 'Unknown';
 					const projectFile = projectFileById.get(section.project_id) ?? null;
 					await this.ensureSectionNote(
@@ -226,11 +356,22 @@ export class TaskNoteRepository {
 			}
 		}
 
+		let labelFileByName: Map<string, TFile> | undefined;
+		if (this.settings.createLabelNotes && maps.allLabels) {
+			labelFileByName = new Map();
+			for (const label of maps.allLabels) {
+				const labelFile = await this.ensureLabelNote(label, labelIndex);
+				if (labelFile) {
+					labelFileByName.set(label.name.toLowerCase(), labelFile);
+				}
+			}
+		}
+
 		for (const item of items) {
 			// Ensure project/section notes for items not covered by the pre-pass
 			if (this.settings.createProjectNotes && !seenProjectIds.has(item.project_id)) {
 				const projectName = maps.projectNameById.get(item.project_id) ?? 'Unknown';
-				if (!excludedProjectNames.has(projectName.toLowerCase())) {
+				if (!excludedProjectNames.has(projectName.toLowerCase()) && !(dirtyProjectIds.has(item.project_id) && projectIndex.has(item.project_id))) {
 					seenProjectIds.add(item.project_id);
 					const projectFile = await this.ensureProjectNote(
 						item.project_id,
@@ -239,6 +380,7 @@ export class TaskNoteRepository {
 						maps.projectNameById,
 						maps.projectParentIdById ?? new Map(),
 						maps.projectColorById?.get(item.project_id) ?? null,
+						maps.allProjects?.find((project) => project.id === item.project_id)?.is_favorite,
 					);
 					if (projectFile) {
 						projectFileById.set(item.project_id, projectFile);
@@ -247,7 +389,7 @@ export class TaskNoteRepository {
 			}
 			if (this.settings.createSectionNotes && (this.settings.useProjectSubfolders || !!this.settings.sectionNotesFolderPath?.trim()) && item.section_id && !seenSectionIds.has(item.section_id)) {
 				const sectionName = maps.sectionNameById.get(item.section_id) ?? 'Unknown';
-				if (!excludedSectionNames.has(sectionName.toLowerCase())) {
+				if (!excludedSectionNames.has(sectionName.toLowerCase()) && !(dirtySectionIds.has(item.section_id) && sectionIndex.has(item.section_id))) {
 					seenSectionIds.add(item.section_id);
 					const projectName = maps.projectNameById.get(item.project_id) ?? 'Unknown';
 					const projectFile = projectFileById.get(item.project_id) ?? null;
@@ -267,7 +409,7 @@ export class TaskNoteRepository {
 			}
 
 			const existingFile = existingByTodoistId.get(item.id);
-			const mapsWithFiles: ProjectSectionMaps = { ...maps, projectFileById, sectionFileById: sectionIndex };
+			const mapsWithFiles: ProjectSectionMaps = { ...maps, projectFileById, sectionFileById: sectionIndex, labelFileByName };
 			const strippedContent = stripObsidianNoteLink(item.content);
 			const itemForObsidian = strippedContent !== item.content ? { ...item, content: strippedContent } : item;
 			let upsertResult: UpsertResult & { file: TFile };
@@ -301,7 +443,7 @@ export class TaskNoteRepository {
 		await this.applyChildMetadata(combinedIndex, pendingParents);
 
 		if (this.settings.createProjectNotes && maps.projectParentIdById) {
-			await this.applyParentProjectLinks(projectFileById, maps.projectParentIdById, maps.projectNameById);
+			await this.applyParentProjectLinks(projectFileById, maps.projectParentIdById, maps.projectNameById, dirtyProjectIds);
 		}
 
 		// Invalidate the shared vault index so subsequent callers get fresh data
@@ -322,6 +464,7 @@ export class TaskNoteRepository {
 		projectNameById: Map<string, string>,
 		projectParentIdById: Map<string, string | null>,
 		projectColor?: string | null,
+		projectFavorite?: boolean,
 	): Promise<void> {
 		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
 		if (!fm) return;
@@ -338,13 +481,15 @@ export class TaskNoteRepository {
 		const cachedColor: string | null | undefined =
 			rawCachedColor === undefined ? undefined : (typeof rawCachedColor === 'string' ? rawCachedColor : null);
 		const colorChanged = projectColor !== undefined && cachedColor !== projectColor;
+		const favoriteChanged = projectFavorite !== undefined && fm[p.todoistProjectFavorite] !== projectFavorite;
 		const nameChanged = cachedName !== null && cachedName !== projectName;
-		if (!nameChanged && !colorChanged) return;
+		if (!nameChanged && !colorChanged && !favoriteChanged) return;
 
 		// Update using configurable property names
 		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
 			if (nameChanged) frontmatter[p.todoistProjectName] = projectName;
 			if (colorChanged) frontmatter[p.todoistProjectColor] = projectColor ?? null;
+			if (favoriteChanged) (frontmatter as Record<string, unknown>)[p.todoistProjectFavorite] = projectFavorite;
 		});
 
 		if (!nameChanged) return;
@@ -581,11 +726,12 @@ export class TaskNoteRepository {
 		projectNameById: Map<string, string>,
 		projectParentIdById: Map<string, string | null>,
 		projectColor?: string | null,
+		projectFavorite?: boolean,
 	): Promise<TFile | null> {
 		// Check by ID vault-wide — finds the note even if it was renamed or moved
 		if (projectIndex.has(projectId)) {
 			const file = projectIndex.get(projectId)!;
-			await this.updateProjectNoteIfRenamed(file, projectId, projectName, projectNameById, projectParentIdById, projectColor);
+			await this.updateProjectNoteIfRenamed(file, projectId, projectName, projectNameById, projectParentIdById, projectColor, projectFavorite);
 			await this.relocateProjectNoteIfNeeded(file, projectId, projectName, projectNameById, projectParentIdById);
 			return file;
 		}
@@ -632,6 +778,7 @@ export class TaskNoteRepository {
 				`${p.todoistProjectName}: "${escapeDoubleQuotes(projectName)}"`,
 				`${p.todoistProjectId}: "${escapeDoubleQuotes(projectId)}"`,
 				projectColor ? `${p.todoistProjectColor}: "${escapeDoubleQuotes(projectColor)}"` : `${p.todoistProjectColor}: null`,
+				`${p.todoistProjectFavorite}: ${projectFavorite ? 'true' : 'false'}`,
 				`${p.todoistUrl}: "${escapeDoubleQuotes(todoistUrl)}"`,
 				`${p.created}: "${formatCreatedDate(now)}"`,
 				`${p.modified}: "${formatModifiedDate(now)}"`,
@@ -662,6 +809,7 @@ export class TaskNoteRepository {
 			data[p.todoistProjectId] = projectId;
 			data[p.todoistProjectName] = projectName;
 			data[p.todoistProjectColor] = projectColor ?? null;
+			data[p.todoistProjectFavorite] = projectFavorite ?? false;
 			data[p.todoistUrl] = todoistUrl;
 			if (!data[p.created]) data[p.created] = formatCreatedDate(now);
 			if (!data[p.modified]) data[p.modified] = formatModifiedDate(now);
@@ -684,10 +832,20 @@ export class TaskNoteRepository {
 	}
 
 	/**
-	 * If the cached section_name or todoist_project_link on an existing section note is stale,
-	 * updates the frontmatter and renames the file/subfolder to match.
+	 * If the cached section_name or project properties on an existing section note are stale,
+	 * updates the frontmatter and renames the file/subfolder to match. A section moved to
+	 * another project has its subfolder moved under the new project's folder.
 	 */
-	private async updateSectionNoteIfStale(file: TFile, sectionId: string, sectionName: string, projectFile: TFile | null): Promise<void> {
+	private async updateSectionNoteIfStale(
+		file: TFile,
+		sectionId: string,
+		sectionName: string,
+		projectId: string,
+		projectName: string,
+		projectFile: TFile | null,
+		projectNameById: Map<string, string>,
+		projectParentIdById: Map<string, string | null>,
+	): Promise<void> {
 		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
 		if (!fm) return;
 
@@ -699,16 +857,36 @@ export class TaskNoteRepository {
 		const cachedProjectLink = typeof fm[p.todoistProjectLink] === 'string' ? (fm[p.todoistProjectLink] as string) : null;
 
 		const currentProjectLink = projectFile ? toWikiLink(projectFile.path) : '';
+		const cachedProjectId = toOptionalString(fm[p.todoistProjectId]);
 		const sectionNameStale = cachedSectionName !== null && cachedSectionName !== sectionName;
 		const projectLinkStale = cachedProjectLink !== null && cachedProjectLink !== currentProjectLink;
+		const projectMoved = cachedProjectId !== undefined && cachedProjectId !== projectId;
 
-		if (!sectionNameStale && !projectLinkStale) return;
+		if (!sectionNameStale && !projectLinkStale && !projectMoved) return;
 
 		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
-			if (sectionNameStale) frontmatter[p.todoistSectionName] = sectionName;
-			if (projectLinkStale) frontmatter[p.todoistProjectLink] = currentProjectLink;
+			const data = frontmatter as Record<string, unknown>;
+			if (sectionNameStale) data[p.todoistSectionName] = sectionName;
+			if (projectLinkStale) data[p.todoistProjectLink] = currentProjectLink;
+			if (projectMoved) {
+				data[p.todoistProjectId] = projectId;
+				data[p.todoistProjectName] = projectName;
+				data[p.todoistUrl] = buildTodoistSectionUrl(projectId, this.settings);
+			}
 		});
 
+		// Default layout: the section subfolder lives in the project's task folder
+		if (projectMoved && !this.settings.sectionNotesFolderPath?.trim() && file.parent instanceof TFolder) {
+			const sectionFolder = file.parent;
+			const projectSegments = buildProjectFolderSegments(projectId, projectNameById, projectParentIdById);
+			const projectFolderPath = normalizePath([resolveTemplateVars(this.settings.tasksFolderPath), ...projectSegments].join('/'));
+			const targetFolderPath = normalizePath(`${projectFolderPath}/${sectionFolder.name}`);
+			if (sectionFolder.path !== targetFolderPath && !this.app.vault.getAbstractFileByPath(targetFolderPath)) {
+				await this.ensureFolderExists(projectFolderPath);
+				await this.app.fileManager.renameFile(sectionFolder, targetFolderPath);
+			}
+		}
+
 		if (!sectionNameStale) return;
 
 		const oldSanitized = sanitizeFileName(cachedSectionName!) || sectionId;
@@ -773,7 +951,7 @@ export class TaskNoteRepository {
 		// Check by ID vault-wide — finds the note even if it was renamed or moved
 		if (sectionIndex.has(sectionId)) {
 			const file = sectionIndex.get(sectionId)!;
-			await this.updateSectionNoteIfStale(file, sectionId, sectionName, projectFile);
+			await this.updateSectionNoteIfStale(file, sectionId, sectionName, projectId, projectName, projectFile, projectNameById, projectParentIdById);
 			return;
 		}
 
@@ -869,13 +1047,146 @@ export class TaskNoteRepository {
 		sectionIndex.set(sectionId, file);
 	}
 
+	/**
+	 * Finds the note for a Todoist label by ID, creating it in the label notes folder
+	 * when missing. Keeps the name, color and favorite flag of an existing note
+	 * current and renames the file when the label was renamed.
+	 */
+	private async ensureLabelNote(label: TodoistLabel, labelIndex: Map<string, TFile>): Promise<TFile | null> {
+		const p = getPropNames(this.settings);
+		const existing = labelIndex.get(label.id);
+		if (existing) {
+			await this.updateLabelNoteIfChanged(existing, label);
+			return existing;
+		}
+
+		const folderPath = normalizePath(resolveTemplateVars(this.settings.labelNotesFolderPath) || 'Labels');
+		await this.ensureFolderExists(folderPath);
+		const filePath = normalizePath(`${folderPath}/${sanitizeFileName(label.name) || label.id}.md`);
+		const existingAbstract = this.app.vault.getAbstractFileByPath(filePath);
+		if (existingAbstract) {
+			return existingAbstract instanceof TFile ? existingAbstract : null;
+		}
+
+		const now = new Date();
+		const content = [
+			'---',
+			`${p.vaultId}: "${generateUuid()}"`,
+			`${p.todoistLabelName}: ${toQuotedYaml(label.name)}`,
+			`${p.todoistLabelId}: "${escapeDoubleQuotes(label.id)}"`,
+			label.color ? `${p.todoistLabelColor}: "${escapeDoubleQuotes(label.color)}"` : `${p.todoistLabelColor}: null`,
+			`${p.todoistLabelFavorite}: ${label.is_favorite ? 'true' : 'false'}`,
+			`${p.created}: "${formatCreatedDate(now)}"`,
+			`${p.modified}: "${formatModifiedDate(now)}"`,
+			`${p.tags}: []`,
+			'---',
+			'',
+		].join('\n');
+		let file: TFile;
+		try {
+			file = await this.app.vault.create(filePath, content);
+		} catch (e) {
+			// File may have been created by a concurrent operation — re-check path
+			const raceFile = this.app.vault.getAbstractFileByPath(filePath);
+			if (raceFile instanceof TFile) {
+				labelIndex.set(label.id, raceFile);
+				return raceFile;
+			}
+			throw e;
+		}
+		labelIndex.set(label.id, file);
+		return file;
+	}
+
+	private async updateLabelNoteIfChanged(file: TFile, label: TodoistLabel): Promise<void> {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+		if (!fm) return;
+
+		const p = getPropNames(this.settings);
+		const cachedName = typeof fm[p.todoistLabelName] === 'string' ? fm[p.todoistLabelName] as string : null;
+		const cachedColor = typeof fm[p.todoistLabelColor] === 'string' ? fm[p.todoistLabelColor] as string : null;
+		const cachedFavorite = fm[p.todoistLabelFavorite] === true;
+		const nameChanged = cachedName !== label.name;
+		if (!nameChanged && cachedColor === label.color && cachedFavorite === label.is_favorite) return;
+
+		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+			const data = frontmatter as Record<string, unknown>;
+			data[p.todoistLabelName] = label.name;
+			data[p.todoistLabelColor] = label.color;
+			data[p.todoistLabelFavorite] = label.is_favorite;
+		});
+
+		// Only rename files still named after the old label — a user-chosen name is kept
+		if (!nameChanged || !cachedName || file.basename !== (sanitizeFileName(cachedName) || label.id)) return;
+		const folder = getFolderPath(file.path);
+		const newPath = normalizePath(`${folder ? `${folder}/` : ''}${sanitizeFileName(label.name) || label.id}.md`);
+		if (newPath !== file.path && !this.app.vault.getAbstractFileByPath(newPath)) {
+			await this.app.fileManager.renameFile(file, newPath);
+		}
+	}
+
+	/** Label names as last written to label notes, keyed by label ID. */
+	listLabelNoteNames(): Map<string, string> {
+		const p = getPropNames(this.settings);
+		const names = new Map<string, string>();
+		for (const [labelId, file] of this.buildVaultIndexes().labelIndex) {
+			const name = (this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined)?.[p.todoistLabelName];
+			if (typeof name === 'string' && name.trim()) {
+				names.set(labelId, name);
+			}
+		}
+		return names;
+	}
+
+	/**
+	 * Rewrites renamed labels (old name → new name, matched case-insensitively) in
+	 * every task note's labels and in tags mirrored from label tags. Returns the
+	 * number of notes changed.
+	 */
+	async applyLabelRenames(renames: Map<string, string>): Promise<number> {
+		if (renames.size === 0) return 0;
+		const p = getPropNames(this.settings);
+		const renamesLower = new Map(Array.from(renames.entries()).map(([oldName, newName]) => [oldName.toLowerCase(), newName]));
+		const labelTagSet = parseLabelTagSet(this.settings.labelTags);
+		const rename = (value: string): string => renamesLower.get(value.toLowerCase()) ?? value;
+		let changed = 0;
+
+		for (const file of new Set(this.buildVaultIndexes().taskIndex.values())) {
+			const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+			if (!fm) continue;
+			const labels = toStringArray(fm[p.todoistLabels]);
+			const tags = toStringArray(fm[p.tags]);
+			const hasRenamedLabel = labels.some((label) => renamesLower.has(label.toLowerCase()));
+			const hasRenamedTag = tags.some((tag) => {
+				const name = tag.replace(/^#/, '').toLowerCase();
+				return labelTagSet.has(name) && renamesLower.has(name);
+			});
+			if (!hasRenamedLabel && !hasRenamedTag) continue;
+
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				const data = frontmatter as Record<string, unknown>;
+				if (hasRenamedLabel) {
+					data[p.todoistLabels] = labels.map(rename);
+				}
+				if (hasRenamedTag) {
+					data[p.tags] = tags.map((tag) => {
+						const name = tag.replace(/^#/, '');
+						return labelTagSet.has(name.toLowerCase()) && renamesLower.has(name.toLowerCase()) ? rename(name) : tag;
+					});
+				}
+			});
+			changed += 1;
+		}
+
+		this.vaultIndex?.invalidate();
+		return changed;
+	}
+
 	async repairMalformedSignatureFrontmatterLines(): Promise<number> {
 		let repaired = 0;
 		const p = getPropNames(this.settings);
-		const resolvedFolder = resolveTemplateVars(this.settings.tasksFolderPath);
-		const folderPrefix = `${normalizePath(resolvedFolder)}/`;
 		for (const file of this.app.vault.getMarkdownFiles()) {
-			if (!(file.path === normalizePath(resolvedFolder) || file.path.startsWith(folderPrefix))) {
+			if (!isInTaskFolder(file.path, this.settings)) {
 				continue;
 			}
 			const content = await this.app.vault.cachedRead(file);
@@ -898,123 +1209,285 @@ export class TaskNoteRepository {
 		return Array.from(taskIndex.entries()).map(([todoistId, file]) => ({ todoistId, file }));
 	}
 
+	/** Order properties of every synced task note, as currently in the vault. */
+	listLocalTaskOrders(): LocalTaskOrder[] {
+		const p = getPropNames(this.settings);
+		const { taskIndex } = this.buildVaultIndexes();
+		return Array.from(taskIndex.entries()).map(([todoistId, file]) => {
+			const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+			return {
+				todoistId,
+				childOrder: toOptionalNumber(fm?.[p.todoistChildOrder]) ?? null,
+				dayOrder: toOptionalNumber(fm?.[p.todoistDayOrder]) ?? null,
+			};
+		});
+	}
+
+	/**
+	 * Synced task notes that are not in the folder their routing gives them.
+	 * Sync only relocates a note when its task changes in Todoist, so after
+	 * routing rules change these can be moved with {@link applyNoteMoves}.
+	 */
+	planNoteMoves(items: TodoistItem[], maps: ProjectSectionMaps): NoteMove[] {
+		const p = getPropNames(this.settings);
+		const { taskIndex } = this.buildVaultIndexes();
+		const moves: NoteMove[] = [];
+		for (const item of items) {
+			const file = taskIndex.get(item.id);
+			if (!file) {
+				continue;
+			}
+			// Project notes that also represent a task stay with their project
+			const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+			if (typeof fm?.[p.todoistProjectTaskId] === 'string' && (fm[p.todoistProjectTaskId] as string).trim() === item.id) {
+				continue;
+			}
+			const fromFolder = normalizePath(getFolderPath(file.path));
+			const toFolder = normalizePath(this.resolveDesiredFolderPath(
+				maps.projectNameById.get(item.project_id),
+				item.section_id ? maps.sectionNameById.get(item.section_id) : undefined,
+				item.project_id,
+				item.section_id ?? undefined,
+				maps.projectNameById,
+				maps.projectParentIdById ?? new Map<string, string | null>(),
+				maps.sectionProjectIdById ?? new Map<string, string>(),
+				maps.sectionNameById,
+				maps.noteRouteByItemId?.get(item.id)?.folder,
+			));
+			if (fromFolder !== toFolder) {
+				moves.push({ todoistId: item.id, file, fromFolder, toFolder });
+			}
+		}
+		return moves;
+	}
+
+	/** Moves notes planned by {@link planNoteMoves}; returns how many moved. */
+	async applyNoteMoves(moves: NoteMove[]): Promise<number> {
+		let moved = 0;
+		for (const move of moves) {
+			// Skip notes deleted or moved since the plan was made
+			if (this.app.vault.getAbstractFileByPath(move.file.path) !== move.file || normalizePath(getFolderPath(move.file.path)) !== move.fromFolder) {
+				continue;
+			}
+			try {
+				await this.ensureFolderExists(move.toFolder);
+				const targetPath = await this.getUniqueFilePathInFolder(move.toFolder, `${move.file.basename}.md`, move.file.path);
+				await this.app.fileManager.renameFile(move.file, targetPath);
+				moved += 1;
+			} catch (e) {
+				console.error(`[TaskTodoist] Failed to move "${move.file.path}" to "${move.toFolder}": ${e instanceof Error ? e.message : String(e)}`);
+			}
+		}
+		return moved;
+	}
+
 	async applyMissingRemoteTasks(missingEntries: MissingTaskEntry[]): Promise<number> {
 		let changed = 0;
 		const p = getPropNames(this.settings);
-		const { completedTaskMode, deletedTaskMode } = this.settings;
-		const resolvedCompletedFolder = resolveTemplateVars(this.settings.completedFolderPath);
-		const completedFolderPrefix = `${normalizePath(resolvedCompletedFolder)}/`;
-		const resolvedDeletedFolder = resolveTemplateVars(this.settings.deletedFolderPath);
-		const deletedFolderPrefix = `${normalizePath(resolvedDeletedFolder)}/`;
 
 		for (const entry of missingEntries) {
-			const cachedFrontmatter = this.app.metadataCache.getFileCache(entry.file)?.frontmatter as Record<string, unknown> | undefined;
-			const currentSyncStatus =
-				typeof cachedFrontmatter?.[p.todoistSyncStatus] === 'string'
-					? cachedFrontmatter[p.todoistSyncStatus] as string
-					: (typeof cachedFrontmatter?.sync_status === 'string' ? cachedFrontmatter.sync_status : '');
-			const currentTaskStatus = cachedFrontmatter ? getTaskStatus(cachedFrontmatter, this.settings) : 'open';
-
-			if (entry.isDeletedRemote) {
-				// --- Deleted task ---
-				const targetStatus = 'deleted_remote';
-
-				if (deletedTaskMode === 'delete') {
+			const action = this.planMissingTask(entry);
+			if (!action) {
+				continue;
+			}
+
+			if (action.kind === 'delete') {
 				// Delete the file from vault
 				await this.app.vault.delete(entry.file);
 				changed += 1;
 				continue;
 			}
 
-			if (deletedTaskMode === 'stop-syncing') {
-					// Mark deleted_remote, set is_deleted flag, and remove todoist_id so it's no longer tracked
-					if (currentSyncStatus === targetStatus && !cachedFrontmatter?.[p.todoistId]) {
-						continue;
-					}
-					await this.app.fileManager.processFrontMatter(entry.file, (frontmatter) => {
-						const data = frontmatter as Record<string, unknown>;
-						applyStandardTaskFrontmatter(data, this.settings);
-						data[p.todoistSyncStatus] = targetStatus;
-						data[p.todoistIsDeleted] = true;
-						data[p.todoistLastImportedAt] = new Date().toISOString();
-						delete data[p.todoistId];
-					});
-					changed += 1;
-					continue;
-				}
+			if (action.kind === 'stop-syncing') {
+				// Mark deleted_remote, set is_deleted flag, and remove todoist_id so it's no longer tracked
+				await this.app.fileManager.processFrontMatter(entry.file, (frontmatter) => {
+					const data = frontmatter as Record<string, unknown>;
+					applyStandardTaskFrontmatter(data, this.settings);
+					data[p.todoistSyncStatus] = 'deleted_remote';
+					data[p.todoistIsDeleted] = true;
+					data[p.todoistLastImportedAt] = new Date().toISOString();
+					delete data[p.todoistId];
+				});
+				changed += 1;
+				continue;
+			}
 
-				const alreadyMoved = entry.file.path.startsWith(deletedFolderPrefix);
-				const needsFrontmatterUpdate = currentSyncStatus !== targetStatus;
-				const needsMove = deletedTaskMode === 'move-to-folder' && !alreadyMoved;
+			if (action.updateFrontmatter) {
+				await this.app.fileManager.processFrontMatter(entry.file, (frontmatter) => {
+					const data = frontmatter as Record<string, unknown>;
+					applyStandardTaskFrontmatter(data, this.settings);
+					data[p.todoistLastImportedAt] = new Date().toISOString();
+					if (action.kind === 'mark-deleted') {
+						data[p.todoistSyncStatus] = 'deleted_remote';
+						data[p.todoistIsDeleted] = true;
+						return;
+					}
+					// Completed task: always mark as done + archived_remote
+					setTaskStatus(data, 'done', this.settings);
+					data[p.todoistSyncStatus] = 'archived_remote';
+					if (!data[p.completedAt]) {
+						const now = new Date();
+						data[p.completedAt] = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+					}
+				});
+			}
 
-				if (!needsFrontmatterUpdate && !needsMove) {
-					continue;
+			if (action.moveToFolder) {
+				await this.ensureFolderExists(action.moveToFolder);
+				const targetPath = await this.getUniqueFilePathInFolder(
+					action.moveToFolder,
+					entry.file.name,
+					entry.file.path,
+				);
+				if (targetPath !== entry.file.path) {
+					await this.app.fileManager.renameFile(entry.file, targetPath);
 				}
+			}
 
-				if (needsFrontmatterUpdate) {
-					await this.app.fileManager.processFrontMatter(entry.file, (frontmatter) => {
-						const data = frontmatter as Record<string, unknown>;
-						applyStandardTaskFrontmatter(data, this.settings);
-						data[p.todoistSyncStatus] = targetStatus;
-						data[p.todoistIsDeleted] = true;
-						data[p.todoistLastImportedAt] = new Date().toISOString();
-					});
-				}
+			changed += 1;
+		}
+		return changed;
+	}
 
-				if (needsMove) {
-					await this.ensureFolderExists(resolvedDeletedFolder);
-					const targetPath = await this.getUniqueFilePathInFolder(
-						resolvedDeletedFolder,
-						entry.file.name,
-						entry.file.path,
-					);
-					if (targetPath !== entry.file.path) {
-						await this.app.fileManager.renameFile(entry.file, targetPath);
-					}
-				}
+	/**
+	 * What happens to the note of a task that is no longer active in Todoist,
+	 * following the completed and deleted task modes. Null when the note is
+	 * already in that state.
+	 */
+	private planMissingTask(entry: MissingTaskEntry): MissingTaskAction | null {
+		const p = getPropNames(this.settings);
+		const { completedTaskMode, deletedTaskMode } = this.settings;
+		const cachedFrontmatter = this.app.metadataCache.getFileCache(entry.file)?.frontmatter as Record<string, unknown> | undefined;
+		const currentSyncStatus =
+			typeof cachedFrontmatter?.[p.todoistSyncStatus] === 'string'
+				? cachedFrontmatter[p.todoistSyncStatus] as string
+				: (typeof cachedFrontmatter?.sync_status === 'string' ? cachedFrontmatter.sync_status : '');
+		const currentTaskStatus = cachedFrontmatter ? getTaskStatus(cachedFrontmatter, this.settings) : 'open';
+
+		if (entry.isDeletedRemote) {
+			if (deletedTaskMode === 'delete') {
+				return { kind: 'delete' };
+			}
+			if (deletedTaskMode === 'stop-syncing') {
+				return currentSyncStatus === 'deleted_remote' && !cachedFrontmatter?.[p.todoistId] ? null : { kind: 'stop-syncing' };
+			}
+			const deletedFolder = resolveTemplateVars(this.settings.deletedFolderPath);
+			const alreadyMoved = entry.file.path.startsWith(`${normalizePath(deletedFolder)}/`);
+			const updateFrontmatter = currentSyncStatus !== 'deleted_remote';
+			const moveToFolder = deletedTaskMode === 'move-to-folder' && !alreadyMoved ? deletedFolder : null;
+			return updateFrontmatter || moveToFolder ? { kind: 'mark-deleted', updateFrontmatter, moveToFolder } : null;
+		}
 
-				changed += 1;
-			} else {
-				// --- Completed task: always mark as done + archived_remote ---
-				const targetStatus = 'archived_remote';
-				const alreadyMoved = entry.file.path.startsWith(completedFolderPrefix);
-				const needsFrontmatterUpdate = currentTaskStatus !== 'done' || currentSyncStatus !== targetStatus;
-				const needsMove = completedTaskMode === 'move-to-folder' && !alreadyMoved;
+		const completedFolder = resolveTemplateVars(this.settings.completedFolderPath);
+		const alreadyMoved = entry.file.path.startsWith(`${normalizePath(completedFolder)}/`);
+		const updateFrontmatter = currentTaskStatus !== 'done' || currentSyncStatus !== 'archived_remote';
+		const moveToFolder = completedTaskMode === 'move-to-folder' && !alreadyMoved ? completedFolder : null;
+		return updateFrontmatter || moveToFolder ? { kind: 'mark-done', updateFrontmatter, moveToFolder } : null;
+	}
 
-				if (!needsFrontmatterUpdate && !needsMove) {
-					continue;
-				}
+	/** The note changes {@link applyMissingRemoteTasks} would make, without making them. */
+	planMissingRemoteTasks(missingEntries: MissingTaskEntry[]): SyncPlanNoteChange[] {
+		const changes: SyncPlanNoteChange[] = [];
+		for (const entry of missingEntries) {
+			const action = this.planMissingTask(entry);
+			if (!action) {
+				continue;
+			}
+			const change = { path: entry.file.path, title: entry.file.basename };
+			if (action.kind === 'delete' || action.kind === 'stop-syncing') {
+				changes.push({ ...change, action: action.kind });
+			} else if (action.moveToFolder) {
+				changes.push({ ...change, action: 'archive', targetPath: normalizePath(`${action.moveToFolder}/${entry.file.name}`) });
+			} else {
+				changes.push({ ...change, action: action.kind });
+			}
+		}
+		return changes;
+	}
 
-				if (needsFrontmatterUpdate) {
-					await this.app.fileManager.processFrontMatter(entry.file, (frontmatter) => {
-						const data = frontmatter as Record<string, unknown>;
-						applyStandardTaskFrontmatter(data, this.settings);
-						setTaskStatus(data, 'done', this.settings);
-						data[p.todoistSyncStatus] = targetStatus;
-						data[p.todoistLastImportedAt] = new Date().toISOString();
-						if (!data[p.completedAt]) {
-							const now = new Date();
-							data[p.completedAt] = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
-						}
-					});
+	/**
+	 * The note changes {@link syncItems} would make for these items, without
+	 * making them: notes to create, notes to update from Todoist and notes that
+	 * move with the update.
+	 */
+	planItemSync(items: TodoistItem[], maps: ProjectSectionMaps): SyncPlanNoteChange[] {
+		const p = getPropNames(this.settings);
+		const { taskIndex } = this.buildVaultIndexes();
+		const changes: SyncPlanNoteChange[] = [];
+		const plannedPaths = new Set<string>();
+		for (const rawItem of items) {
+			const strippedContent = stripObsidianNoteLink(rawItem.content);
+			const item = strippedContent !== rawItem.content ? { ...rawItem, content: strippedContent } : rawItem;
+			const folder = normalizePath(this.resolveDesiredFolderPath(
+				maps.projectNameById.get(item.project_id),
+				item.section_id ? maps.sectionNameById.get(item.section_id) : undefined,
+				item.project_id,
+				item.section_id ?? undefined,
+				maps.projectNameById,
+				maps.projectParentIdById ?? new Map<string, string | null>(),
+				maps.sectionProjectIdById ?? new Map<string, string>(),
+				maps.sectionNameById,
+				maps.noteRouteByItemId?.get(item.id)?.folder,
+			));
+			const file = taskIndex.get(item.id);
+			if (!file) {
+				const base = sanitizeFileName(stripMarkdownLinks(item.content)) || `Task-${item.id}`;
+				let path = normalizePath(`${folder}/${base}.md`);
+				if (this.app.vault.getAbstractFileByPath(path) || plannedPaths.has(path)) {
+					path = normalizePath(`${folder}/${base}-${item.id}.md`);
 				}
+				plannedPaths.add(path);
+				changes.push({ action: 'create', path, title: item.content });
+				continue;
+			}
+			const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+			// Project notes that also represent a task are never written from Todoist
+			if (typeof fm?.[p.todoistProjectTaskId] === 'string' && (fm[p.todoistProjectTaskId] as string).trim() === item.id) {
+				continue;
+			}
+			if (fm?.[p.todoistLastImportedSignature] === buildRemoteImportSignature(item, maps)) {
+				continue;
+			}
+			changes.push({ action: 'update', path: file.path, title: item.content });
+			if (normalizePath(getFolderPath(file.path)) !== folder) {
+				changes.push({ action: 'move', path: file.path, targetPath: normalizePath(`${folder}/${file.name}`), title: item.content });
+			}
+		}
+		return changes;
+	}
 
-				if (needsMove) {
-					await this.ensureFolderExists(resolvedCompletedFolder);
-					const targetPath = await this.getUniqueFilePathInFolder(
-						resolvedCompletedFolder,
-						entry.file.name,
-						entry.file.path,
-					);
-					if (targetPath !== entry.file.path) {
-						await this.app.fileManager.renameFile(entry.file, targetPath);
-					}
-				}
+	/**
+	 * Creates done task notes for tasks completed in Todoist that the vault has never
+	 * seen. Tasks that already have a note are left to the regular sync. Returns the
+	 * number of notes created.
+	 */
+	async importCompletedTasks(items: TodoistCompletedItem[], maps: ProjectSectionMaps): Promise<number> {
+		const resolvedFolder = resolveTemplateVars(this.settings.tasksFolderPath);
+		await this.ensureFolderExists(resolvedFolder);
+		const { taskIndex } = this.buildVaultIndexes();
+		const p = getPropNames(this.settings);
+		let created = 0;
 
-				changed += 1;
+		for (const item of items) {
+			if (taskIndex.has(item.id)) {
+				continue;
 			}
+			const { file } = await this.createTaskFile(item, maps);
+			taskIndex.set(item.id, file);
+			const completedDate = item.completed_at ? new Date(item.completed_at) : null;
+			if (completedDate && !Number.isNaN(completedDate.getTime())) {
+				await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+					(frontmatter as Record<string, unknown>)[p.completedAt] = formatCreatedDate(completedDate);
+				});
+			}
+			// Same end state as a task completed while synced: done, archived_remote, and
+			// moved to the completed folder when that mode is on.
+			await this.applyMissingRemoteTasks([{ todoistId: item.id, file, isDeletedRemote: false }]);
+			created += 1;
 		}
-		return changed;
+
+		this.vaultIndex?.invalidate();
+		return created;
 	}
 
 	async applyArchivedProjectsAndSections(
@@ -1044,6 +1517,7 @@ export class TaskNoteRepository {
 		for (const project of archivedProjects) {
 			const file = projectIndex.get(project.id);
 			if (file) {
+				await this.setArchivedFlag(file, getPropNames(this.settings).todoistProjectArchived, true);
 				const archivePrefix = `${resolvedProjectArchive}/`;
 				if (file.path !== resolvedProjectArchive && !file.path.startsWith(archivePrefix)) {
 					await this.ensureFolderExists(resolvedProjectArchive);
@@ -1087,6 +1561,7 @@ export class TaskNoteRepository {
 		for (const section of archivedSections) {
 			const file = sectionIndex.get(section.id);
 			if (file) {
+				await this.setArchivedFlag(file, getPropNames(this.settings).todoistSectionArchived, true);
 				const archivePrefix = `${resolvedSectionArchive}/`;
 				if (file.path !== resolvedSectionArchive && !file.path.startsWith(archivePrefix)) {
 					await this.ensureFolderExists(resolvedSectionArchive);
@@ -1153,6 +1628,7 @@ export class TaskNoteRepository {
 			if (!file) {
 				continue;
 			}
+			await this.setArchivedFlag(file, getPropNames(this.settings).todoistProjectArchived, false);
 			const archivePrefix = `${resolvedProjectArchive}/`;
 			if (file.path !== resolvedProjectArchive && !file.path.startsWith(archivePrefix)) {
 				// Note is not in archive — nothing to restore
@@ -1265,6 +1741,7 @@ export class TaskNoteRepository {
 			if (!file) {
 				continue;
 			}
+			await this.setArchivedFlag(file, getPropNames(this.settings).todoistSectionArchived, false);
 			const archivePrefix = `${resolvedSectionArchive}/`;
 			if (file.path !== resolvedSectionArchive && !file.path.startsWith(archivePrefix)) {
 				continue;
@@ -1324,14 +1801,16 @@ export class TaskNoteRepository {
 		return moved;
 	}
 
-	async listPendingLocalCreates(): Promise<PendingLocalCreate[]> {
+	/**
+	 * Lists notes queued for creation in Todoist. Pass `files` (e.g. from the outbox)
+	 * to check only those notes instead of scanning the whole vault.
+	 */
+	async listPendingLocalCreates(files?: TFile[]): Promise<PendingLocalCreate[]> {
 		const pending: PendingLocalCreate[] = [];
-		const resolvedFolder = resolveTemplateVars(this.settings.tasksFolderPath);
-		const folderPrefix = `${normalizePath(resolvedFolder)}/`;
 		const p = getPropNames(this.settings);
 
-		for (const file of this.app.vault.getMarkdownFiles()) {
-			if (!(file.path === normalizePath(resolvedFolder) || file.path.startsWith(folderPrefix))) {
+		for (const file of files ?? this.app.vault.getMarkdownFiles()) {
+			if (!isInTaskFolder(file.path, this.settings)) {
 				continue;
 			}
 
@@ -1350,11 +1829,12 @@ export class TaskNoteRepository {
 				continue;
 			}
 
-			// Skip notes that already have a pending Todoist ID — a previous create was dispatched
-			// but the sync crashed before markLocalCreateSynced() ran. Exclude them from another
-			// create attempt; they will be recovered when the full import syncs them back.
-			const pendingId = frontmatter[p.todoistPendingId];
-			if (typeof pendingId === 'string' && pendingId.trim()) {
+			// A pending temp_id means a create was sent without its result being written;
+			// it is replayed with the same temp_id, which Todoist applies at most once.
+			// A pending real ID (written by older versions) is left for the full import to recover.
+			const pendingId = toOptionalString(frontmatter[p.todoistPendingId]) ?? '';
+			const dispatchedTempId = isTempId(pendingId) ? pendingId : undefined;
+			if (pendingId && !dispatchedTempId) {
 				continue;
 			}
 
@@ -1376,6 +1856,9 @@ export class TaskNoteRepository {
 			const labels = mergeLabelTagsIntoLabels(baseLabels, parseLabelTagSet(this.settings.labelTags), frontmatter[p.tags]);
 			const deadline = toOptionalString(frontmatter[p.todoistDeadline]);
 			const duration = toOptionalNumber(frontmatter[p.todoistDuration]);
+			const reminders = readReminderProperty(frontmatter[p.todoistReminders]);
+			const assignee = readAssigneeProperties(frontmatter, p);
+			const parent = this.resolvePendingParent(file, frontmatter, p);
 			const signature = buildTodoistSyncSignature({
 				title,
 				description,
@@ -1383,12 +1866,16 @@ export class TaskNoteRepository {
 				isRecurring,
 				projectId: toOptionalString(frontmatter[p.todoistProjectId]),
 				sectionId: toOptionalString(frontmatter[p.todoistSectionId]),
+				parentId: toOptionalString(frontmatter[p.todoistParentId]),
 				dueDate,
 				dueString,
 				priority,
 				labels,
 				deadline,
 				duration,
+				reminders,
+				assignee: assignee.name,
+				assigneeId: assignee.id,
 			});
 
 			pending.push({
@@ -1408,18 +1895,54 @@ export class TaskNoteRepository {
 				labels,
 				deadline,
 				duration,
+				reminders,
+				assignee: assignee.name,
+				assigneeId: assignee.id,
+				dispatchedTempId,
+				parentId: parent.parentId,
+				parentPath: parent.parentPath,
 			});
 		}
 
 		return pending;
 	}
 
-	async markLocalCreateSynced(file: TFile, todoistId: string, syncSignature: string): Promise<void> {
+	/**
+	 * The parent of a note queued for creation. A parent task link wins over the
+	 * parent ID property; a linked note that is queued for creation itself is
+	 * returned by path so its create can be sent first.
+	 */
+	private resolvePendingParent(
+		file: TFile,
+		frontmatter: Record<string, unknown>,
+		p: PropNames,
+	): { parentId?: string; parentPath?: string } {
+		const parentId = toOptionalString(frontmatter[p.todoistParentId]);
+		const match = toOptionalString(frontmatter[p.parentTask])?.match(/^\[\[([^\]|]+)(?:\|[^\]]+)?\]\]$/);
+		const parentFile = match ? this.app.metadataCache.getFirstLinkpathDest(match[1]?.trim() ?? '', file.path) : null;
+		if (!parentFile || parentFile.path === file.path) {
+			return { parentId };
+		}
+		const parentFm = this.app.metadataCache.getFileCache(parentFile)?.frontmatter as Record<string, unknown> | undefined;
+		const linkedParentId = toOptionalString(parentFm?.[p.todoistId]);
+		if (linkedParentId) {
+			return { parentId: linkedParentId };
+		}
+		if (parentFm && isTruthy(parentFm[p.todoistSync]) && isInTaskFolder(parentFile.path, this.settings)) {
+			return { parentPath: parentFile.path };
+		}
+		return { parentId };
+	}
+
+	async markLocalCreateSynced(file: TFile, todoistId: string, syncSignature: string, parentId?: string): Promise<void> {
 		const p = getPropNames(this.settings);
 		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
 			const data = frontmatter as Record<string, unknown>;
 			applyStandardTaskFrontmatter(data, this.settings);
 			data[p.todoistId] = todoistId;
+			if (parentId) {
+				data[p.todoistParentId] = parentId;
+			}
 			data[p.todoistSyncStatus] = 'synced';
 			data[p.todoistLastSyncedSignature] = syncSignature;
 			// Write URL now that we have the Todoist ID
@@ -1433,6 +1956,10 @@ export class TaskNoteRepository {
 		});
 	}
 
+	/**
+	 * Records a create as sent: the temp_id before the request goes out, or the
+	 * real ID when Todoist created the task but a follow-up command failed.
+	 */
 	async markCreateDispatched(file: TFile, pendingTodoistId: string): Promise<void> {
 		const p = getPropNames(this.settings);
 		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
@@ -1440,9 +1967,17 @@ export class TaskNoteRepository {
 		});
 	}
 
-	/**
-	 * Returns project notes that are pending Todoist task creation (todoist_project_task_id is empty string).
-	 * Only project notes (notes with todoist_project_id but no todoist_id) are considered.
+	/** Forgets the temp_id of a create Todoist rejected, so the next attempt is sent afresh. */
+	async clearCreateDispatched(file: TFile): Promise<void> {
+		const p = getPropNames(this.settings);
+		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+			delete (frontmatter as Record<string, unknown>)[p.todoistPendingId];
+		});
+	}
+
+	/**
+	 * Returns project notes that are pending Todoist task creation (todoist_project_task_id is empty string).
+	 * Only project notes (notes with todoist_project_id but no todoist_id) are considered.
 	 */
 	async listPendingProjectTaskCreates(): Promise<PendingProjectTaskCreate[]> {
 		const pending: PendingProjectTaskCreate[] = [];
@@ -1491,6 +2026,200 @@ export class TaskNoteRepository {
 		});
 	}
 
+	/**
+	 * Returns project notes whose name, color, parent, favorite or archived properties
+	 * were edited since the last sync (their project signature no longer matches).
+	 * Notes without a stored signature are skipped until markProjectNotesSynced() sets one.
+	 */
+	async listPendingProjectUpdates(): Promise<PendingProjectUpdate[]> {
+		const pending: PendingProjectUpdate[] = [];
+		const p = getPropNames(this.settings);
+		const { projectIndex } = this.buildVaultIndexes();
+
+		for (const [projectId, file] of projectIndex) {
+			const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+			if (!fm) continue;
+			const storedSignature = fm[p.todoistProjectSyncedSignature];
+			if (typeof storedSignature !== 'string' || !storedSignature) continue;
+
+			const fields = readProjectNoteFields(fm, p);
+			const syncSignature = buildProjectNoteSignature(fields);
+			if (syncSignature === storedSignature) continue;
+
+			pending.push({
+				file,
+				projectId,
+				name: fields.name,
+				color: fields.color,
+				parentLinkId: this.resolveProjectLinkId(file, fields.parentLink, p),
+				parentName: fields.parentName,
+				isFavorite: fields.isFavorite,
+				archived: fields.archived,
+				syncSignature,
+			});
+		}
+
+		return pending;
+	}
+
+	async markProjectNoteSynced(file: TFile, syncSignature: string): Promise<void> {
+		const p = getPropNames(this.settings);
+		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+			(frontmatter as Record<string, unknown>)[p.todoistProjectSyncedSignature] = syncSignature;
+		});
+	}
+
+	/**
+	 * Records the current project properties of every project note as synced, so that
+	 * values written by the pull are not mistaken for local edits on the next sync.
+	 * Projects in `skipProjectIds` keep their old signature and stay pending.
+	 */
+	async markProjectNotesSynced(skipProjectIds: Set<string>): Promise<number> {
+		const p = getPropNames(this.settings);
+		const { projectIndex } = this.buildVaultIndexes();
+		return this.refreshSyncedSignatures(projectIndex, skipProjectIds, p.todoistProjectSyncedSignature,
+			(fm) => buildProjectNoteSignature(readProjectNoteFields(fm, p)));
+	}
+
+	/**
+	 * Section notes with an empty section ID. Task notes are excluded: a new task note
+	 * also has an empty section ID, but it is marked for sync and has a title instead.
+	 */
+	async listPendingSectionCreates(): Promise<PendingSectionCreate[]> {
+		const pending: PendingSectionCreate[] = [];
+		const p = getPropNames(this.settings);
+		const { projectIndex } = this.buildVaultIndexes();
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+			if (!fm || typeof fm[p.todoistSectionId] !== 'string' || (fm[p.todoistSectionId] as string).trim()) continue;
+			if (fm[p.todoistId] || isTruthy(fm[p.todoistSync])) continue;
+			const name = toOptionalString(fm[p.todoistSectionName]);
+			if (!name) continue;
+
+			const linkedProjectId = this.resolveProjectLinkId(file, toOptionalString(fm[p.todoistProjectLink]) ?? '', p);
+			const projectId = toOptionalString(fm[p.todoistProjectId])
+				?? linkedProjectId
+				?? findProjectIdForFolder(projectIndex, file);
+			const pendingId = toOptionalString(fm[p.todoistPendingId]) ?? '';
+			pending.push({
+				file,
+				name,
+				projectId,
+				projectName: toOptionalString(fm[p.todoistProjectName]),
+				dispatchedTempId: isTempId(pendingId) ? pendingId : undefined,
+			});
+		}
+
+		return pending;
+	}
+
+	async markSectionCreated(file: TFile, sectionId: string, projectId: string, projectName: string): Promise<void> {
+		const p = getPropNames(this.settings);
+		const { projectIndex } = this.buildVaultIndexes();
+		const projectFile = projectIndex.get(projectId);
+		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+			const data = frontmatter as Record<string, unknown>;
+			if (!data[p.vaultId]) data[p.vaultId] = generateUuid();
+			data[p.todoistSectionId] = sectionId;
+			delete data[p.todoistPendingId];
+			data[p.todoistProjectId] = projectId;
+			data[p.todoistProjectName] = projectName;
+			data[p.todoistUrl] = buildTodoistSectionUrl(projectId, this.settings);
+			if (projectFile) data[p.todoistProjectLink] = toWikiLink(projectFile.path);
+		});
+		this.vaultIndex?.invalidate();
+	}
+
+	/**
+	 * Returns section notes whose name, project or archived properties were edited since
+	 * the last sync. Like project notes, notes without a stored signature are skipped.
+	 */
+	async listPendingSectionUpdates(): Promise<PendingSectionUpdate[]> {
+		const pending: PendingSectionUpdate[] = [];
+		const p = getPropNames(this.settings);
+		const { sectionIndex } = this.buildVaultIndexes();
+
+		for (const [sectionId, file] of sectionIndex) {
+			const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+			if (!fm) continue;
+			const storedSignature = fm[p.todoistSectionSyncedSignature];
+			if (typeof storedSignature !== 'string' || !storedSignature) continue;
+
+			const fields = readSectionNoteFields(fm, p);
+			const syncSignature = buildSectionNoteSignature(fields);
+			if (syncSignature === storedSignature) continue;
+
+			pending.push({
+				file,
+				sectionId,
+				name: fields.name,
+				projectLinkId: this.resolveProjectLinkId(file, fields.projectLink, p),
+				projectName: fields.projectName,
+				archived: fields.archived,
+				syncSignature,
+			});
+		}
+
+		return pending;
+	}
+
+	async markSectionNoteSynced(file: TFile, syncSignature: string): Promise<void> {
+		const p = getPropNames(this.settings);
+		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+			(frontmatter as Record<string, unknown>)[p.todoistSectionSyncedSignature] = syncSignature;
+		});
+	}
+
+	/** Section counterpart of markProjectNotesSynced(). */
+	async markSectionNotesSynced(skipSectionIds: Set<string>): Promise<number> {
+		const p = getPropNames(this.settings);
+		const { sectionIndex } = this.buildVaultIndexes();
+		return this.refreshSyncedSignatures(sectionIndex, skipSectionIds, p.todoistSectionSyncedSignature,
+			(fm) => buildSectionNoteSignature(readSectionNoteFields(fm, p)));
+	}
+
+	private async refreshSyncedSignatures(
+		index: Map<string, TFile>,
+		skipIds: Set<string>,
+		signatureProp: string,
+		sign: (fm: Record<string, unknown>) => string,
+	): Promise<number> {
+		let marked = 0;
+		for (const [id, file] of index) {
+			if (skipIds.has(id)) continue;
+			const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+			if (fm && fm[signatureProp] === sign(fm)) continue;
+			// The cache may lag behind this sync's writes; hash what is in the file
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				const data = frontmatter as Record<string, unknown>;
+				data[signatureProp] = sign(data);
+			});
+			marked += 1;
+		}
+		return marked;
+	}
+
+	/** Project ID of the note a project link points to; null for an empty link, undefined when unresolved. */
+	private resolveProjectLinkId(file: TFile, link: string, p: PropNames): string | null | undefined {
+		if (!link) return null;
+		const match = link.match(/^\[\[([^\]|]+)(?:\|[^\]]+)?\]\]$/);
+		if (!match) return undefined;
+		const linkedFile = this.app.metadataCache.getFirstLinkpathDest(match[1]?.trim() ?? '', file.path);
+		if (!linkedFile) return undefined;
+		const linkedFm = this.app.metadataCache.getFileCache(linkedFile)?.frontmatter as Record<string, unknown> | undefined;
+		return toOptionalString(linkedFm?.[p.todoistProjectId]);
+	}
+
+	private async setArchivedFlag(file: TFile, prop: string, archived: boolean): Promise<void> {
+		const fm = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+		// Unarchived notes only get the property once they have been archived
+		if (isTruthy(fm?.[prop]) === archived) return;
+		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+			(frontmatter as Record<string, unknown>)[prop] = archived;
+		});
+	}
+
 	/**
 	 * Scans all vault files for notes that should have a NoteTask auto-created.
 	 * Criteria: note has a tag matching noteTaskAutoCreateTags, is not in an excluded path,
@@ -1800,7 +2529,7 @@ export class TaskNoteRepository {
 	resolveNoteTaskProjectId(
 		file: TFile,
 		fm: Record<string, unknown>,
-		p: ReturnType<typeof getPropNames>,
+		p: PropNames,
 	): string | undefined {
 		// 1. Direct project ID on the note (e.g. project notes)
 		const rawProjectId = fm[p.todoistProjectId];
@@ -1824,15 +2553,17 @@ export class TaskNoteRepository {
 		return typeof projectId === 'string' && projectId.trim() ? projectId.trim() : undefined;
 	}
 
-	async listPendingLocalUpdates(): Promise<PendingLocalUpdate[]> {
+	/**
+	 * Lists dirty_local notes to push; `files` limits the check like listPendingLocalCreates().
+	 * Dirty notes that match the last sync are marked synced again, unless `readOnly` is set.
+	 */
+	async listPendingLocalUpdates(files?: TFile[], readOnly = false): Promise<PendingLocalUpdate[]> {
 		const pending: PendingLocalUpdate[] = [];
-		const resolvedFolder = resolveTemplateVars(this.settings.tasksFolderPath);
-		const folderPrefix = `${normalizePath(resolvedFolder)}/`;
 		const p = getPropNames(this.settings);
+		const indexes = this.buildVaultIndexes();
 
-		for (const file of this.app.vault.getMarkdownFiles()) {
-			const isInTasksFolder = file.path === normalizePath(resolvedFolder) || file.path.startsWith(folderPrefix);
-			if (!isInTasksFolder) {
+		for (const file of files ?? this.app.vault.getMarkdownFiles()) {
+			if (!isInTaskFolder(file.path, this.settings)) {
 				// Allow dual-purpose notes (project notes that also represent a Todoist task)
 				// even when they live outside the tasks folder.
 				const earlyFm = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
@@ -1867,39 +2598,16 @@ export class TaskNoteRepository {
 				continue;
 			}
 
-			const isDone = getTaskStatus(frontmatter, this.settings) === 'done';
-			const isRecurring = frontmatter[p.todoistIsRecurring] === true || frontmatter[p.todoistIsRecurring] === 'true';
-
-			// Description comes from the frontmatter property (body is no longer synced)
-			const description = typeof frontmatter[p.todoistDescription] === 'string'
-				? (frontmatter[p.todoistDescription] as string).trim()
-				: '';
-			const dueDate = toOptionalString(frontmatter[p.todoistDue]);
-			const dueString = toOptionalString(frontmatter[p.todoistDueString]);
-			const priority = toOptionalNumber(frontmatter[p.todoistPriority]);
-			const baseLabels = toStringArray(frontmatter[p.todoistLabels]);
-			const labels = mergeLabelTagsIntoLabels(baseLabels, parseLabelTagSet(this.settings.labelTags), frontmatter[p.tags]);
-			const deadline = toOptionalString(frontmatter[p.todoistDeadline]);
-			const duration = toOptionalNumber(frontmatter[p.todoistDuration]);
-			const signature = buildTodoistSyncSignature({
-				title,
-				description,
-				isDone,
-				isRecurring,
-				projectId: toOptionalString(frontmatter[p.todoistProjectId]),
-				sectionId: toOptionalString(frontmatter[p.todoistSectionId]),
-				dueDate,
-				dueString,
-				priority,
-				labels,
-				deadline,
-				duration,
-			});
+			const fields = this.readLocalSyncFields(file, frontmatter, title, indexes);
+			const signature = buildTodoistSyncSignature(fields);
 			const lastSyncedSignature =
 				typeof frontmatter[p.todoistLastSyncedSignature] === 'string'
 					? frontmatter[p.todoistLastSyncedSignature] as string
 					: '';
 			if (syncStatus === 'dirty_local' && lastSyncedSignature === signature) {
+				if (readOnly) {
+					continue;
+				}
 				await this.app.fileManager.processFrontMatter(file, (dirtyFrontmatter) => {
 					const data = dirtyFrontmatter as Record<string, unknown>;
 					applyStandardTaskFrontmatter(data, this.settings);
@@ -1916,37 +2624,117 @@ export class TaskNoteRepository {
 			const isProjectTask = Boolean(ptId && ptId === todoistId);
 
 			pending.push({
+				...fields,
 				file,
 				todoistId,
-				title,
-				description,
-				isDone,
-				isRecurring,
 				syncSignature: signature,
 				projectName: toOptionalString(frontmatter[p.todoistProjectName]),
 				sectionName: toOptionalString(frontmatter[p.todoistSectionName]),
-				dueDate,
-				dueString,
-				projectId: toOptionalString(frontmatter[p.todoistProjectId]),
-				sectionId: toOptionalString(frontmatter[p.todoistSectionId]),
-				priority,
-				labels,
-				deadline,
-				duration,
 				isProjectTask,
+				syncBase: readSyncBase(frontmatter, this.settings),
 			});
 		}
 
 		return pending;
 	}
 
-	async markLocalUpdateSynced(file: TFile, syncSignature: string): Promise<void> {
+	/** The task fields a note asks for, as pushed to Todoist. */
+	private readLocalSyncFields(file: TFile, frontmatter: Record<string, unknown>, title: string, indexes: VaultIndexSnapshot): TaskSyncFields {
+		const p = getPropNames(this.settings);
+		// Description comes from the frontmatter property (body is no longer synced)
+		const description = typeof frontmatter[p.todoistDescription] === 'string'
+			? (frontmatter[p.todoistDescription] as string).trim()
+			: '';
+		const baseLabels = toStringArray(frontmatter[p.todoistLabels]);
+		const assignee = readAssigneeProperties(frontmatter, p);
+		const location = this.resolveTaskLocation(file, frontmatter, p, indexes);
+		const isRecurring = frontmatter[p.todoistIsRecurring] === true || frontmatter[p.todoistIsRecurring] === 'true';
+		const dueDate = toOptionalString(frontmatter[p.todoistDue]);
+		const rawRecurrence = frontmatter[p.recurrence];
+		return {
+			title,
+			description,
+			isDone: getTaskStatus(frontmatter, this.settings) === 'done',
+			isRecurring,
+			projectId: location.projectId,
+			sectionId: location.sectionId,
+			parentId: location.parentId,
+			dueDate,
+			dueString: toOptionalString(frontmatter[p.todoistDueString]),
+			priority: toOptionalNumber(frontmatter[p.todoistPriority]),
+			labels: mergeLabelTagsIntoLabels(baseLabels, parseLabelTagSet(this.settings.labelTags), frontmatter[p.tags]),
+			deadline: toOptionalString(frontmatter[p.todoistDeadline]),
+			duration: toOptionalNumber(frontmatter[p.todoistDuration]),
+			reminders: readReminderProperty(frontmatter[p.todoistReminders]),
+			assignee: assignee.name,
+			assigneeId: assignee.id,
+			recurrence: rawRecurrence === undefined ? undefined : (toOptionalString(rawRecurrence) ?? ''),
+			completesInstance: isRecurring && Boolean(dueDate) && toStringArray(frontmatter[p.completeInstances]).includes(dueDate?.slice(0, 10) ?? ''),
+		};
+	}
+
+	/**
+	 * Where a task note asks its task to be: the project, section and parent IDs in
+	 * its frontmatter, unless the matching link or name was edited to point at another
+	 * project, section or task note. Clearing a link does not move the task; clear the
+	 * ID property for that.
+	 */
+	private resolveTaskLocation(
+		file: TFile,
+		fm: Record<string, unknown>,
+		p: PropNames,
+		indexes: VaultIndexSnapshot,
+	): { projectId?: string; sectionId?: string; parentId?: string } {
+		const readNoteProp = (note: TFile | undefined, prop: string): string | undefined => {
+			const noteFm = note ? this.app.metadataCache.getFileCache(note)?.frontmatter as Record<string, unknown> | undefined : undefined;
+			return toOptionalString(noteFm?.[prop]);
+		};
+		const linkedNote = (prop: string): TFile | undefined => {
+			const match = toOptionalString(fm[prop])?.match(/^\[\[([^\]|]+)(?:\|[^\]]+)?\]\]$/);
+			return match ? this.app.metadataCache.getFirstLinkpathDest(match[1]?.trim() ?? '', file.path) ?? undefined : undefined;
+		};
+		// A name edit counts only when it differs from the name on the note of the current ID
+		const findByEditedName = (index: Map<string, TFile>, nameProp: string, currentId: string | undefined, scope?: (note: TFile) => boolean): string | undefined => {
+			const name = toOptionalString(fm[nameProp])?.toLowerCase();
+			const currentName = readNoteProp(currentId ? index.get(currentId) : undefined, nameProp)?.toLowerCase();
+			if (!name || !currentName || name === currentName) return undefined;
+			for (const [id, note] of index) {
+				if (readNoteProp(note, nameProp)?.toLowerCase() === name && (!scope || scope(note))) return id;
+			}
+			return undefined;
+		};
+
+		let projectId = toOptionalString(fm[p.todoistProjectId]);
+		const linkedProjectId = readNoteProp(linkedNote(p.todoistProjectLink), p.todoistProjectId);
+		const movedProjectId = (linkedProjectId !== projectId ? linkedProjectId : undefined)
+			?? findByEditedName(indexes.projectIndex, p.todoistProjectName, projectId);
+		projectId = movedProjectId ?? projectId;
+
+		const inProject = (note: TFile): boolean => readNoteProp(note, p.todoistProjectId) === projectId;
+		let sectionId = toOptionalString(fm[p.todoistSectionId]);
+		const linkedSectionId = readNoteProp(linkedNote(p.todoistSectionLink), p.todoistSectionId);
+		const movedSectionId = (linkedSectionId !== sectionId ? linkedSectionId : undefined)
+			?? findByEditedName(indexes.sectionIndex, p.todoistSectionName, sectionId, inProject);
+		sectionId = movedSectionId ?? sectionId;
+
+		let parentId = toOptionalString(fm[p.todoistParentId]);
+		const linkedParentId = readNoteProp(linkedNote(p.parentTask), p.todoistId);
+		if (linkedParentId && linkedParentId !== parentId) parentId = linkedParentId;
+
+		return { projectId, sectionId, parentId };
+	}
+
+	/** Marks a pushed note synced; `syncBase` records the merged field hashes. */
+	async markLocalUpdateSynced(file: TFile, syncSignature: string, syncBase?: Map<MergeField, string>): Promise<void> {
 		const p = getPropNames(this.settings);
 		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
 			const data = frontmatter as Record<string, unknown>;
 			applyStandardTaskFrontmatter(data, this.settings);
 			data[p.todoistSyncStatus] = 'synced';
 			data[p.todoistLastSyncedSignature] = syncSignature;
+			if (syncBase) {
+				data[p.todoistSyncBase] = formatSyncBase(syncBase);
+			}
 			if (p.todoistSyncStatus !== 'sync_status' && 'sync_status' in data) {
 				delete data.sync_status;
 			}
@@ -1954,6 +2742,105 @@ export class TaskNoteRepository {
 		});
 	}
 
+	/**
+	 * Holds a pushed note in the `conflict` sync status with its conflicting
+	 * fields. The synced signature is left alone so the note is pushed again
+	 * once the conflict is resolved.
+	 */
+	async markSyncConflict(file: TFile, conflicts: SyncConflictField[], syncBase: Map<MergeField, string>): Promise<void> {
+		const p = getPropNames(this.settings);
+		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+			const data = frontmatter as Record<string, unknown>;
+			applyStandardTaskFrontmatter(data, this.settings);
+			data[p.todoistSyncStatus] = 'conflict';
+			data[p.todoistSyncConflict] = formatSyncConflicts(conflicts);
+			data[p.todoistSyncBase] = formatSyncBase(syncBase);
+			if (p.todoistSyncStatus !== 'sync_status' && 'sync_status' in data) {
+				delete data.sync_status;
+			}
+		});
+	}
+
+	/** Task notes waiting in the conflict inbox. */
+	listSyncConflicts(names: FieldNameLookup = {}): SyncConflictEntry[] {
+		const p = getPropNames(this.settings);
+		const indexes = this.buildVaultIndexes();
+		const entries: SyncConflictEntry[] = [];
+		for (const [todoistId, file] of indexes.taskIndex) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+			if (!frontmatter || frontmatter[p.todoistSyncStatus] !== 'conflict') {
+				continue;
+			}
+			const title = getTaskTitle(frontmatter, this.settings, file.basename).trim();
+			const local = this.readLocalSyncFields(file, frontmatter, title, indexes);
+			entries.push({
+				file,
+				todoistId,
+				title,
+				fields: readSyncConflicts(frontmatter, this.settings).map((conflict) => ({
+					...conflict,
+					local: describeTaskField(local, conflict.field, names),
+				})),
+			});
+		}
+		return entries.sort((a, b) => a.title.localeCompare(b.title));
+	}
+
+	/**
+	 * Applies the user's choices to a conflicting note. Each choice moves the
+	 * field's sync base so the next merge sends or pulls it: keeping the note
+	 * value (or an edited one) treats Todoist as unchanged, keeping the Todoist
+	 * value treats the note as unchanged. Returns true once no conflicts are
+	 * left and the note is queued as a local edit.
+	 */
+	async resolveSyncConflict(file: TFile, choices: Map<MergeField, SyncConflictChoice>): Promise<boolean> {
+		const p = getPropNames(this.settings);
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter as Record<string, unknown> | undefined;
+		if (!frontmatter) {
+			return false;
+		}
+		const title = getTaskTitle(frontmatter, this.settings, file.basename).trim();
+		const localHashes = hashTaskFields(this.readLocalSyncFields(file, frontmatter, title, this.buildVaultIndexes()));
+		let resolved = false;
+		await this.app.fileManager.processFrontMatter(file, (fm) => {
+			const data = fm as Record<string, unknown>;
+			const base = readSyncBase(data, this.settings);
+			const remaining: SyncConflictField[] = [];
+			let pullRemote = false;
+			for (const conflict of readSyncConflicts(data, this.settings)) {
+				const choice = choices.get(conflict.field);
+				if (!choice) {
+					remaining.push(conflict);
+				} else if (choice.keep === 'remote') {
+					base.set(conflict.field, localHashes.get(conflict.field) ?? conflict.remoteHash);
+					pullRemote = true;
+				} else {
+					if (choice.keep === 'edit') {
+						applyConflictEdit(data, conflict.field, choice.value, this.settings);
+					}
+					base.set(conflict.field, conflict.remoteHash);
+				}
+			}
+			data[p.todoistSyncBase] = formatSyncBase(base);
+			if (remaining.length > 0) {
+				data[p.todoistSyncConflict] = formatSyncConflicts(remaining);
+				return;
+			}
+			delete data[p.todoistSyncConflict];
+			data[p.todoistSyncStatus] = 'dirty_local';
+			// Cleared so the note is pushed even when only Todoist values were kept,
+			// and re-imported so those values are written to it
+			data[p.todoistLastSyncedSignature] = '';
+			if (pullRemote) {
+				data[p.todoistLastImportedSignature] = '';
+			}
+			data[p.localUpdatedAt] = new Date().toISOString();
+			touchModifiedDate(data, this.settings);
+			resolved = true;
+		});
+		return resolved;
+	}
+
 	async recordRecurringCompletion(file: TFile, completedDate: string): Promise<void> {
 		const p = getPropNames(this.settings);
 		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
@@ -2002,8 +2889,10 @@ export class TaskNoteRepository {
 			maps.projectParentIdById ?? new Map(),
 			maps.sectionProjectIdById ?? new Map(),
 			maps.sectionNameById,
+			maps.noteRouteByItemId?.get(item.id)?.folder,
 		);
-		const markdown = buildNewFileContent(item, maps, this.settings);
+		const template = await this.readRouteTemplate(maps.noteRouteByItemId?.get(item.id)) ?? this.settings.noteTemplate;
+		const markdown = buildNewFileContent(item, maps, this.settings, template);
 		let file: TFile;
 		try {
 			file = await this.app.vault.create(filePath, markdown);
@@ -2018,12 +2907,24 @@ export class TaskNoteRepository {
 		// When a template is used, hydrate all required frontmatter properties.
 		// The template provides layout/body structure; hydration ensures all sync-critical
 		// properties are correctly set (including wikilinks and signatures not available as tokens).
-		if (this.settings.noteTemplate?.trim()) {
+		if (template?.trim()) {
 			await this.hydrateTaskNoteFrontmatter(file, item, maps);
 		}
 		return { created: 1, updated: 0, file };
 	}
 
+	/** Content of a route's template note; null when the route has none or the note is missing. */
+	private async readRouteTemplate(route: NoteRoute | undefined): Promise<string | null> {
+		const path = route?.templatePath;
+		if (!path) return null;
+		const file = this.app.vault.getAbstractFileByPath(normalizePath(path.endsWith('.md') ? path : `${path}.md`));
+		if (!(file instanceof TFile)) {
+			notify(this.settings, `Template "${path}" of rule "${route?.ruleName ?? ''}" not found; using the default template.`);
+			return null;
+		}
+		return this.app.vault.cachedRead(file);
+	}
+
 	private async hydrateTaskNoteFrontmatter(file: TFile, item: TodoistItem, maps: ProjectSectionMaps): Promise<void> {
 		const now = new Date();
 		const p = getPropNames(this.settings);
@@ -2042,25 +2943,16 @@ export class TaskNoteRepository {
 		const deadlineDate = item.deadline?.date ?? '';
 		const priority = item.priority ?? 1;
 		const durationMinutes = item.duration?.amount ?? null;
+		const reminders = formatReminders(maps.remindersByItemId?.get(item.id) ?? []);
+		const assignee = getItemAssignee(item, maps);
 		const createdDateStr = formatCreatedDate(now);
 		const recurrenceStr = item.due?.is_recurring && dueDate && item.due.string
 			? buildRecurrenceString(item.due.string, dueDate)
 			: null;
 		const remoteImportSig = buildRemoteImportSignature(item, maps);
-		const syncedSig = buildTodoistSyncSignature({
-			title: item.content,
-			description,
-			isDone: Boolean(item.checked),
-			isRecurring: Boolean(item.due?.is_recurring),
-			projectId: item.project_id,
-			sectionId: item.section_id ?? undefined,
-			dueDate,
-			dueString: item.due?.string ?? '',
-			priority,
-			labels: item.labels ?? [],
-			deadline: deadlineDate,
-			duration: durationMinutes ?? undefined,
-		});
+		const remoteFields = remoteSyncFields(item, maps);
+		const syncedSig = buildTodoistSyncSignature(remoteFields);
+
 
 		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
 			const data = frontmatter as Record<string, unknown>;
@@ -2075,6 +2967,10 @@ export class TaskNoteRepository {
 			if (!existingTags || (Array.isArray(existingTags) && (existingTags as unknown[]).length === 0)) {
 				data[p.tags] = [defaultTag];
 			}
+			const routeTags = maps.noteRouteByItemId?.get(item.id)?.tags ?? [];
+			if (routeTags.length > 0) {
+				data[p.tags] = mergeRouteTags(data[p.tags], routeTags);
+			}
 
 			// Merge label-tags: add Todoist labels that are configured as label-tags
 			const labelTagSet = parseLabelTagSet(this.settings.labelTags);
@@ -2108,15 +3004,25 @@ export class TaskNoteRepository {
 			}
 			data[p.todoistDeadline] = deadlineDate || null;
 			data[p.todoistDuration] = durationMinutes;
+			data[p.todoistChildOrder] = item.child_order ?? null;
+			data[p.todoistDayOrder] = item.day_order ?? null;
+			data[p.todoistReminders] = reminders;
+			if (assignee.id) {
+				data[p.todoistAssignee] = assignee.name;
+				data[p.todoistAssigneeId] = assignee.id;
+			}
 			data[p.todoistDescription] = description;
 			data[p.todoistUrl] = todoistUrl;
 			data[p.todoistLabels] = item.labels ?? [];
+			const labelLinks = buildLabelLinks(item.labels ?? [], maps);
+			if (labelLinks) data[p.todoistLabelLinks] = labelLinks;
 			data[p.todoistParentId] = item.parent_id ?? '';
 			data[p.todoistHasChildren] = false;
 			data[p.todoistChildTaskCount] = 0;
 			data[p.todoistChildTasks] = [];
 			data[p.todoistLastImportedSignature] = remoteImportSig;
 			data[p.todoistLastSyncedSignature] = syncedSig;
+			data[p.todoistSyncBase] = formatSyncBase(hashTaskFields(remoteFields));
 			data[p.todoistLastImportedAt] = new Date().toISOString();
 		});
 	}
@@ -2144,6 +3050,12 @@ export class TaskNoteRepository {
 			typeof cachedFrontmatter?.[p.todoistLastImportedSignature] === 'string'
 				? cachedFrontmatter[p.todoistLastImportedSignature] as string
 				: '';
+		const syncStatus = typeof cachedFrontmatter?.[p.todoistSyncStatus] === 'string'
+			? cachedFrontmatter[p.todoistSyncStatus] as string
+			: '';
+		const remoteFields = remoteSyncFields(item, maps);
+		const remoteHashes = hashTaskFields(remoteFields);
+		const syncBase = readSyncBase(cachedFrontmatter, this.settings);
 		if (lastImportedSignature === remoteImportSignature) {
 			// Even when the import signature matches, project/section wikilinks may be stale
 			// if project/section notes were created after the task was first synced.
@@ -2159,22 +3071,52 @@ export class TaskNoteRepository {
 			const cachedSectionLink = typeof cachedFrontmatter?.[p.todoistSectionLink] === 'string'
 				? cachedFrontmatter[p.todoistSectionLink] as string
 				: '';
-			if (projectLink !== cachedProjectLink || sectionLink !== cachedSectionLink) {
+			const labelLinks = buildLabelLinks(item.labels ?? [], maps);
+			const labelLinksStale = labelLinks !== null
+				&& !stringArraysEqual(labelLinks, toStringArray(cachedFrontmatter?.[p.todoistLabelLinks]));
+			// Reordering is not part of the import signature, so order changes are picked up here
+			const orderStale = !maps.dirtyOrderIds?.has(item.id)
+				&& ((toOptionalNumber(cachedFrontmatter?.[p.todoistChildOrder]) ?? null) !== (item.child_order ?? null)
+					|| (toOptionalNumber(cachedFrontmatter?.[p.todoistDayOrder]) ?? null) !== (item.day_order ?? null));
+			// Notes synced before field hashes were recorded get them from the matching task
+			const seedSyncBase = syncBase.size === 0 && syncStatus !== 'dirty_local';
+			if (projectLink !== cachedProjectLink || sectionLink !== cachedSectionLink || labelLinksStale || orderStale || seedSyncBase) {
 				await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
 					const data = frontmatter as Record<string, unknown>;
 					data[p.todoistProjectLink] = projectLink;
 					data[p.todoistSectionLink] = sectionLink;
+					if (labelLinks) data[p.todoistLabelLinks] = labelLinks;
+					if (orderStale) {
+						data[p.todoistChildOrder] = item.child_order ?? null;
+						data[p.todoistDayOrder] = item.day_order ?? null;
+					}
+					if (seedSyncBase) data[p.todoistSyncBase] = formatSyncBase(remoteHashes);
 				});
 			}
 			return { created: 0, updated: 0, file };
 		}
 
-		// Conflict resolution: if the file has local unsent changes and local-wins is set,
-		// skip user-editable fields but still write project/section metadata from Todoist.
-		const syncStatus = typeof cachedFrontmatter?.[p.todoistSyncStatus] === 'string'
-			? cachedFrontmatter[p.todoistSyncStatus] as string
-			: '';
-		const localWins = syncStatus === 'dirty_local' && this.settings.conflictResolution === 'local-wins';
+		// Local edits not pushed yet. With field hashes from the last sync, only the
+		// fields edited in the note are kept and the rest take the Todoist values; a
+		// field edited on both sides follows the conflict resolution setting. Older
+		// notes without hashes fall back to keeping or replacing every editable field.
+		const isDirty = syncStatus === 'dirty_local' || syncStatus === 'conflict';
+		const localFields = isDirty && syncBase.size > 0 && cachedFrontmatter
+			? this.readLocalSyncFields(
+				file,
+				cachedFrontmatter,
+				getTaskTitle(cachedFrontmatter, this.settings, file.basename).trim(),
+				this.buildVaultIndexes(),
+			)
+			: null;
+		const merge = localFields
+			? mergeTaskFields(syncBase, hashTaskFields(localFields), remoteHashes, this.settings.conflictResolution)
+			: null;
+		// Conflicts held for the conflict inbox keep the note's value too
+		const heldConflicts = merge && this.settings.conflictResolution === 'manual' ? merge.conflicts : [];
+		const keepLocal = new Set<MergeField>([...(merge?.push ?? []), ...heldConflicts]);
+		const pull = (field: MergeField) => !keepLocal.has(field);
+		const localWins = !merge && isDirty && this.settings.conflictResolution !== 'remote-wins';
 
 		const projectName = maps.projectNameById.get(item.project_id) ?? 'Unknown';
 		const sectionName = item.section_id ? (maps.sectionNameById.get(item.section_id) ?? '') : '';
@@ -2188,6 +3130,8 @@ export class TaskNoteRepository {
 		const deadlineDate = item.deadline?.date ?? '';
 		const priority = item.priority ?? 1;
 		const durationMinutes = item.duration?.amount ?? null;
+		const reminders = formatReminders(maps.remindersByItemId?.get(item.id) ?? []);
+		const assignee = getItemAssignee(item, maps);
 		const recurrenceStr = item.due?.is_recurring && dueDate && item.due.string
 			? buildRecurrenceString(item.due.string, dueDate)
 			: null;
@@ -2199,25 +3143,39 @@ export class TaskNoteRepository {
 			// Always write project/section metadata — these come from Todoist, not local edits.
 			data[p.todoistSync] = true;
 			data[p.todoistId] = item.id;
-			data[p.todoistProjectId] = item.project_id;
-			data[p.todoistProjectName] = projectName;
-			data[p.todoistSectionId] = item.section_id ?? '';
-			data[p.todoistSectionName] = sectionName;
-			data[p.todoistProjectLink] = projectLink;
-			data[p.todoistSectionLink] = sectionLink;
-			data[p.todoistLabels] = item.labels ?? [];
-
-			// Merge label-tags: sync configured label names bidirectionally into note tags
-			const labelTagSet = parseLabelTagSet(this.settings.labelTags);
-			if (labelTagSet.size > 0) {
-				data[p.tags] = mergeLabelTagsIntoTags(data[p.tags], labelTagSet, item.labels ?? []);
+			if (pull('project')) {
+				data[p.todoistProjectId] = item.project_id;
+				data[p.todoistProjectName] = projectName;
+				data[p.todoistProjectLink] = projectLink;
+			}
+			if (pull('section')) {
+				data[p.todoistSectionId] = item.section_id ?? '';
+				data[p.todoistSectionName] = sectionName;
+				data[p.todoistSectionLink] = sectionLink;
+			}
+			if (pull('labels')) {
+				data[p.todoistLabels] = item.labels ?? [];
+				const labelLinks = buildLabelLinks(item.labels ?? [], maps);
+				if (labelLinks) data[p.todoistLabelLinks] = labelLinks;
+
+				// Merge label-tags: sync configured label names bidirectionally into note tags
+				const labelTagSet = parseLabelTagSet(this.settings.labelTags);
+				if (labelTagSet.size > 0) {
+					data[p.tags] = mergeLabelTagsIntoTags(data[p.tags], labelTagSet, item.labels ?? []);
+				}
+			}
+			if (!maps.dirtyOrderIds?.has(item.id)) {
+				data[p.todoistChildOrder] = item.child_order ?? null;
+				data[p.todoistDayOrder] = item.day_order ?? null;
 			}
 
-			data[p.todoistParentId] = item.parent_id ?? '';
-			// Clear the parent wiki-link when the task no longer has a parent;
-			// applyParentLinks will re-set it for tasks that still have one.
-			if (!item.parent_id) {
-				data[p.parentTask] = '';
+			if (pull('parent')) {
+				data[p.todoistParentId] = item.parent_id ?? '';
+				// Clear the parent wiki-link when the task no longer has a parent;
+				// applyParentLinks will re-set it for tasks that still have one.
+				if (!item.parent_id) {
+					data[p.parentTask] = '';
+				}
 			}
 			data[p.todoistUrl] = buildTodoistUrl(item.id, this.settings);
 			// Clear any pending ID guard — recovery path when import catches the task
@@ -2234,18 +3192,20 @@ export class TaskNoteRepository {
 				return;
 			}
 
-			// Remote wins (or no local changes): apply all remote fields.
+			// Remote wins (or no local changes): apply the remote fields not kept from the note.
 			touchModifiedDate(data, this.settings);
-			setTaskTitle(data, item.content, this.settings);
-			setTaskStatus(data, item.checked ? 'done' : 'open', this.settings);
-			data[p.todoistPriority] = priority;
-			data[p.todoistPriorityLabel] = priorityLabel(priority);
+			if (pull('title')) setTaskTitle(data, item.content, this.settings);
+			if (pull('done')) setTaskStatus(data, item.checked ? 'done' : 'open', this.settings);
+			if (pull('priority')) {
+				data[p.todoistPriority] = priority;
+				data[p.todoistPriorityLabel] = priorityLabel(priority);
+			}
 
-				// Detect Todoist-side recurring completion: the due date has advanced
+			// Detect Todoist-side recurring completion: the due date has advanced
 			// while the task is still recurring, meaning an instance was completed
 			// in Todoist. Record the old due date in complete_instances before
 			// overwriting it with the new occurrence date.
-			if (item.due?.is_recurring && dueDate) {
+			if (pull('due') && item.due?.is_recurring && dueDate) {
 				const rawOldDue = data[p.todoistDue];
 				const oldDue = typeof rawOldDue === 'string'
 					? rawOldDue.trim()
@@ -2262,36 +3222,55 @@ export class TaskNoteRepository {
 				}
 			}
 
-			data[p.todoistDue] = dueDate;
-			data[p.todoistDueString] = item.due?.string ?? '';
-			data[p.todoistIsRecurring] = Boolean(item.due?.is_recurring);
-
-			// DTSTART is written once on first creation and never changed —
-			// TaskNotes uses it to know when the recurrence originated.
-			// Only clear it when the task stops being recurring.
-			if (!item.due?.is_recurring) {
-				data[p.recurrence] = null;
-			} else if (!data[p.recurrence]) {
-				data[p.recurrence] = recurrenceStr ?? null;
+			if (pull('due')) {
+				data[p.todoistDue] = dueDate;
+				data[p.todoistDueString] = item.due?.string ?? '';
+				data[p.todoistIsRecurring] = Boolean(item.due?.is_recurring);
 			}
-			data[p.todoistDeadline] = deadlineDate || null;
-			data[p.todoistDuration] = durationMinutes;
-			data[p.todoistDescription] = item.description?.trim() ?? '';
+			if (pull('recurrence')) {
+				// DTSTART is written once on first creation and kept when the rule
+				// changes — TaskNotes uses it to know when the recurrence originated.
+				// Only clear it when the task stops being recurring.
+				const existingRecurrence = toOptionalString(data[p.recurrence]);
+				if (!item.due?.is_recurring || !recurrenceStr) {
+					data[p.recurrence] = null;
+				} else if (!existingRecurrence) {
+					data[p.recurrence] = recurrenceStr;
+				} else if (recurrenceRuleKey(existingRecurrence) !== recurrenceRuleKey(recurrenceStr)) {
+					data[p.recurrence] = keepRecurrenceStart(existingRecurrence, recurrenceStr);
+				}
+			}
+			if (pull('deadline')) data[p.todoistDeadline] = deadlineDate || null;
+			if (pull('duration')) data[p.todoistDuration] = durationMinutes;
+			if (pull('reminders')) data[p.todoistReminders] = reminders;
+			// Only notes of assigned tasks get the properties; they are cleared once present
+			if (pull('assignee') && (assignee.id || p.todoistAssigneeId in data)) {
+				data[p.todoistAssignee] = assignee.name;
+				data[p.todoistAssigneeId] = assignee.id;
+			}
+			if (pull('description')) data[p.todoistDescription] = item.description?.trim() ?? '';
 			data[p.todoistLastImportedSignature] = remoteImportSignature;
-			data[p.todoistLastSyncedSignature] = buildTodoistSyncSignature({
-				title: item.content,
-				description: item.description?.trim() ?? '',
-				isDone: Boolean(item.checked),
-				isRecurring: Boolean(item.due?.is_recurring),
-				projectId: item.project_id,
-				sectionId: item.section_id ?? undefined,
-				dueDate,
-				dueString: item.due?.string ?? '',
-				priority,
-				labels: item.labels ?? [],
-				deadline: deadlineDate,
-				duration: durationMinutes ?? undefined,
-			});
+			if (keepLocal.size > 0) {
+				// The kept fields are still to be pushed; their base stays as it was
+				const base = new Map(remoteHashes);
+				for (const field of keepLocal) {
+					const hash = syncBase.get(field);
+					if (hash) base.set(field, hash); else base.delete(field);
+				}
+				data[p.todoistSyncBase] = formatSyncBase(base);
+				if (syncStatus === 'conflict' && localFields && heldConflicts.length > 0) {
+					// Show the latest Todoist values in the conflict inbox
+					data[p.todoistSyncConflict] = formatSyncConflicts(buildSyncConflicts(heldConflicts, localFields, remoteFields, remoteHashes, maps));
+				} else if (syncStatus === 'conflict') {
+					// The two sides agree again; only the note's own edits are left to push
+					delete data[p.todoistSyncConflict];
+					data[p.todoistSyncStatus] = 'dirty_local';
+				}
+				return;
+			}
+			data[p.todoistLastSyncedSignature] = buildTodoistSyncSignature(remoteFields);
+			data[p.todoistSyncBase] = formatSyncBase(remoteHashes);
+			delete data[p.todoistSyncConflict];
 			data[p.todoistSyncStatus] = 'synced';
 			if (p.todoistSyncStatus !== 'sync_status' && 'sync_status' in data) {
 				delete data.sync_status;
@@ -2302,6 +3281,10 @@ export class TaskNoteRepository {
 		// The description is stored in the todoist_description frontmatter property instead.
 		// The note body is the user's personal notes area.
 
+		// A title, project or section kept from the note moves the note once it is pushed
+		if (keepLocal.has('title') || keepLocal.has('project') || keepLocal.has('section')) {
+			return { created: 0, updated: 1, file };
+		}
 		const renamedFile = await this.relocateTaskFileIfNeeded(
 			file,
 			item.content,
@@ -2313,6 +3296,7 @@ export class TaskNoteRepository {
 			maps.projectParentIdById ?? new Map(),
 			maps.sectionProjectIdById ?? new Map(),
 			maps.sectionNameById,
+			maps.noteRouteByItemId?.get(item.id)?.folder,
 		);
 
 		return { created: 0, updated: 1, file: renamedFile };
@@ -2422,11 +3406,23 @@ export class TaskNoteRepository {
 		projectFileById: Map<string, TFile>,
 		projectParentIdById: Map<string, string | null>,
 		projectNameById: Map<string, string>,
+		dirtyProjectIds: Set<string>,
 	): Promise<void> {
 		const p = getPropNames(this.settings);
 		for (const [projectId, projectFile] of projectFileById) {
+			if (!projectParentIdById.has(projectId) || dirtyProjectIds.has(projectId)) {
+				continue;
+			}
 			const parentId = projectParentIdById.get(projectId) ?? null;
 			if (!parentId) {
+				// Moved to the top level: clear a stale parent link
+				const fm = this.app.metadataCache.getFileCache(projectFile)?.frontmatter as Record<string, unknown> | undefined;
+				if (fm?.[p.todoistParentProjectLink] || fm?.[p.todoistParentProjectName]) {
+					await this.app.fileManager.processFrontMatter(projectFile, (frontmatter) => {
+						(frontmatter as Record<string, unknown>)[p.todoistParentProjectLink] = '';
+						(frontmatter as Record<string, unknown>)[p.todoistParentProjectName] = '';
+					});
+				}
 				continue;
 			}
 			const parentFile = projectFileById.get(parentId);
@@ -2575,6 +3571,7 @@ export class TaskNoteRepository {
 		projectParentIdById: Map<string, string | null>,
 		sectionProjectIdById: Map<string, string>,
 		sectionNameById: Map<string, string>,
+		baseFolder?: string,
 	): Promise<TFile> {
 		const desiredFolder = await this.getDesiredFolderPath(
 			projectName,
@@ -2585,6 +3582,7 @@ export class TaskNoteRepository {
 			projectParentIdById,
 			sectionProjectIdById,
 			sectionNameById,
+			baseFolder,
 		);
 		const currentFolder = getFolderPath(file.path);
 
@@ -2609,8 +3607,37 @@ export class TaskNoteRepository {
 		projectParentIdById: Map<string, string | null>,
 		sectionProjectIdById: Map<string, string>,
 		sectionNameById: Map<string, string>,
+		baseFolder?: string,
 	): Promise<string> {
-		const resolvedFolder = resolveTemplateVars(this.settings.tasksFolderPath);
+		const folder = this.resolveDesiredFolderPath(
+			projectName,
+			sectionName,
+			projectId,
+			sectionId,
+			projectNameById,
+			projectParentIdById,
+			sectionProjectIdById,
+			sectionNameById,
+			baseFolder,
+		);
+		await this.ensureFolderExists(folder);
+		return folder;
+	}
+
+	/** Folder a task note belongs in, without creating it. */
+	private resolveDesiredFolderPath(
+		projectName: string | undefined,
+		sectionName: string | undefined,
+		projectId: string | undefined,
+		sectionId: string | undefined,
+		projectNameById: Map<string, string>,
+		projectParentIdById: Map<string, string | null>,
+		sectionProjectIdById: Map<string, string>,
+		sectionNameById: Map<string, string>,
+		baseFolder?: string,
+	): string {
+		// A rule's folder replaces the tasks folder; project/section subfolders still apply below it
+		const resolvedFolder = resolveTemplateVars(baseFolder ?? this.settings.tasksFolderPath);
 		let folder = normalizePath(resolvedFolder);
 
 		// Reference projects: tasks live inside the project folder alongside the folder note
@@ -2623,13 +3650,11 @@ export class TaskNoteRepository {
 				const segments = buildProjectFolderSegmentsFrom(projectId, refRootId, projectNameById, projectParentIdById);
 				const refBase = resolveTemplateVars(this.settings.referenceNotesFolderPath);
 				let refFolder = normalizePath([refBase, ...segments].join('/'));
-				await this.ensureFolderExists(refFolder);
 				if (this.settings.useSectionSubfolders && sectionId && sectionNameById.size > 0) {
 					const sName = sectionNameById.get(sectionId) ?? sectionName ?? '';
 					const sanitizedSection = buildSanitizedSectionFolderName(sectionId, sName, projectId, sectionNameById, sectionProjectIdById);
 					if (sanitizedSection) {
 						refFolder = normalizePath(`${refFolder}/${sanitizedSection}`);
-						await this.ensureFolderExists(refFolder);
 					}
 				}
 				return refFolder;
@@ -2640,14 +3665,12 @@ export class TaskNoteRepository {
 			const segments = buildProjectFolderSegments(projectId, projectNameById, projectParentIdById);
 			if (segments.length > 0) {
 				folder = normalizePath([resolvedFolder, ...segments].join('/'));
-				await this.ensureFolderExists(folder);
 
 				if (this.settings.useSectionSubfolders && sectionId && sectionNameById.size > 0) {
 					const sName = sectionNameById.get(sectionId) ?? sectionName ?? '';
 					const sanitizedSection = buildSanitizedSectionFolderName(sectionId, sName, projectId, sectionNameById, sectionProjectIdById);
 					if (sanitizedSection) {
 						folder = normalizePath(`${folder}/${sanitizedSection}`);
-						await this.ensureFolderExists(folder);
 					}
 				}
 			}
@@ -2656,13 +3679,11 @@ export class TaskNoteRepository {
 			const sanitizedProject = sanitizeFileName(projectName.trim());
 			if (sanitizedProject) {
 				folder = normalizePath(`${folder}/${sanitizedProject}`);
-				await this.ensureFolderExists(folder);
 
 				if (this.settings.useSectionSubfolders && sectionName?.trim()) {
 					const sanitizedSection = sanitizeFileName(sectionName.trim());
 					if (sanitizedSection) {
 						folder = normalizePath(`${folder}/${sanitizedSection}`);
-						await this.ensureFolderExists(folder);
 					}
 				}
 			}
@@ -2682,6 +3703,7 @@ export class TaskNoteRepository {
 		projectParentIdById: Map<string, string | null>,
 		sectionProjectIdById: Map<string, string>,
 		sectionNameById: Map<string, string>,
+		baseFolder?: string,
 	): Promise<string> {
 		const folder = await this.getDesiredFolderPath(
 			projectName,
@@ -2692,6 +3714,7 @@ export class TaskNoteRepository {
 			projectParentIdById,
 			sectionProjectIdById,
 			sectionNameById,
+			baseFolder,
 		);
 		const base = sanitizeFileName(stripMarkdownLinks(taskTitle)) || `Task-${todoistId}`;
 		const basePath = normalizePath(`${folder}/${base}.md`);
@@ -2728,6 +3751,7 @@ function buildNewFileContent(
 	item: TodoistItem,
 	maps: ProjectSectionMaps,
 	settings: TaskTodoistSettings,
+	template: string = settings.noteTemplate,
 ): string {
 	const now = new Date();
 	const defaultTag = getDefaultTaskTag(settings) ?? 'tasks';
@@ -2746,12 +3770,16 @@ function buildNewFileContent(
 	const deadlineDate = item.deadline?.date ?? '';
 	const priority = item.priority ?? 1;
 	const durationMinutes = item.duration?.amount ?? null;
+	const reminders = formatReminders(maps.remindersByItemId?.get(item.id) ?? []);
+	const assignee = getItemAssignee(item, maps);
+	const remoteFields = remoteSyncFields(item, maps);
+	const labelLinks = buildLabelLinks(item.labels ?? [], maps);
 	const createdDateStr = formatCreatedDate(now);
 	const recurrenceStr = item.due?.is_recurring && dueDate && item.due.string
 		? buildRecurrenceString(item.due.string, dueDate)
 		: null;
 
-	if (settings.noteTemplate?.trim()) {
+	if (template?.trim()) {
 		const context = {
 			title: item.content,
 			description,
@@ -2771,7 +3799,7 @@ function buildNewFileContent(
 			project_link: projectLink,
 			section_link: sectionLink,
 		};
-		return resolveTemplateVars(settings.noteTemplate, now, context);
+		return resolveTemplateVars(template, now, context);
 	}
 
 	const yaml = [
@@ -2782,7 +3810,7 @@ function buildNewFileContent(
 		`${p.created}: "${createdDateStr}"`,
 		`${p.modified}: "${formatModifiedDate(now)}"`,
 		`${p.tags}:`,
-		`  - ${defaultTag}`,
+		...mergeRouteTags([defaultTag], maps.noteRouteByItemId?.get(item.id)?.tags ?? []).map((tag) => `  - ${tag}`),
 		`${p.taskTitle}: ${toQuotedYaml(item.content)}`,
 		`${p.todoistSync}: true`,
 		`${p.todoistSyncStatus}: "synced"`,
@@ -2799,26 +3827,19 @@ function buildNewFileContent(
 		...(recurrenceStr ? [`${p.recurrence}: ${toQuotedYaml(recurrenceStr)}`] : []),
 		`${p.todoistDeadline}: ${deadlineDate ? toQuotedYaml(deadlineDate) : 'null'}`,
 		`${p.todoistDuration}: ${durationMinutes !== null ? durationMinutes : 'null'}`,
+		`${p.todoistReminders}: [${reminders.map((reminder) => toQuotedYamlInline(reminder)).join(', ')}]`,
+		...(assignee.id
+			? [`${p.todoistAssignee}: ${toQuotedYaml(assignee.name)}`, `${p.todoistAssigneeId}: "${escapeDoubleQuotes(assignee.id)}"`]
+			: []),
 		`${p.todoistDescription}: ${toQuotedYaml(description)}`,
 		`${p.todoistUrl}: "${escapeDoubleQuotes(todoistUrl)}"`,
 		`${p.todoistProjectLink}: ${toQuotedYaml(projectLink)}`,
 		`${p.todoistSectionLink}: ${toQuotedYaml(sectionLink)}`,
 		`${p.todoistLastImportedSignature}: "${escapeDoubleQuotes(buildRemoteImportSignature(item, maps))}"`,
-		`${p.todoistLastSyncedSignature}: "${escapeDoubleQuotes(buildTodoistSyncSignature({
-			title: item.content,
-			description,
-			isDone: Boolean(item.checked),
-			isRecurring: Boolean(item.due?.is_recurring),
-			projectId: item.project_id,
-			sectionId: item.section_id ?? undefined,
-			dueDate,
-			dueString: item.due?.string ?? '',
-			priority,
-			labels: item.labels ?? [],
-			deadline: deadlineDate,
-			duration: durationMinutes ?? undefined,
-		}))}"`,
+		`${p.todoistLastSyncedSignature}: "${escapeDoubleQuotes(buildTodoistSyncSignature(remoteFields))}"`,
+		`${p.todoistSyncBase}: [${formatSyncBase(hashTaskFields(remoteFields)).map((entry) => toQuotedYamlInline(entry)).join(', ')}]`,
 		`${p.todoistLabels}: [${(item.labels ?? []).map((label) => toQuotedYamlInline(label)).join(', ')}]`,
+		...(labelLinks ? [`${p.todoistLabelLinks}: [${labelLinks.map((link) => toQuotedYamlInline(link)).join(', ')}]`] : []),
 		`${p.todoistParentId}: "${escapeDoubleQuotes(item.parent_id ?? '')}"`,
 		`${p.todoistHasChildren}: false`,
 		`${p.todoistChildTaskCount}: 0`,
@@ -2836,6 +3857,17 @@ function toWikiLink(filePath: string): string {
 	return `[[${pathWithoutExt}|${displayText}]]`;
 }
 
+/** Wikilinks to the label notes of a task's labels, or null when label notes are off. */
+function buildLabelLinks(labels: string[], maps: ProjectSectionMaps): string[] | null {
+	if (!maps.labelFileByName) return null;
+	const links: string[] = [];
+	for (const label of labels) {
+		const file = maps.labelFileByName.get(label.toLowerCase());
+		if (file) links.push(toWikiLink(file.path));
+	}
+	return links;
+}
+
 function getFolderPath(path: string): string {
 	const slashIndex = path.lastIndexOf('/');
 	if (slashIndex <= 0) {
@@ -2860,6 +3892,11 @@ function isTruthy(value: unknown): boolean {
 	return value === true || value === 'true';
 }
 
+/** temp_ids are generated UUIDs; Todoist's own IDs never have this shape. */
+function isTempId(value: string): boolean {
+	return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+}
+
 function toOptionalString(value: unknown): string | undefined {
 	return typeof value === 'string' && value.trim() ? value.trim() : undefined;
 }
@@ -2923,6 +3960,63 @@ async function readFreshFrontmatter(app: App, file: TFile): Promise<Record<strin
 	}
 }
 
+interface ProjectNoteFields {
+	name: string;
+	color: string | null;
+	parentLink: string;
+	parentName: string;
+	isFavorite: boolean;
+	archived: boolean;
+}
+
+function readProjectNoteFields(fm: Record<string, unknown>, p: PropNames): ProjectNoteFields {
+	return {
+		name: toOptionalString(fm[p.todoistProjectName]) ?? '',
+		color: toOptionalString(fm[p.todoistProjectColor]) ?? null,
+		parentLink: toOptionalString(fm[p.todoistParentProjectLink]) ?? '',
+		parentName: toOptionalString(fm[p.todoistParentProjectName]) ?? '',
+		isFavorite: isTruthy(fm[p.todoistProjectFavorite]),
+		archived: isTruthy(fm[p.todoistProjectArchived]),
+	};
+}
+
+interface SectionNoteFields {
+	name: string;
+	projectLink: string;
+	projectName: string;
+	archived: boolean;
+}
+
+function readSectionNoteFields(fm: Record<string, unknown>, p: PropNames): SectionNoteFields {
+	return {
+		name: toOptionalString(fm[p.todoistSectionName]) ?? '',
+		projectLink: toOptionalString(fm[p.todoistProjectLink]) ?? '',
+		projectName: toOptionalString(fm[p.todoistProjectName]) ?? '',
+		archived: isTruthy(fm[p.todoistSectionArchived]),
+	};
+}
+
+function buildSectionNoteSignature(fields: SectionNoteFields): string {
+	return simpleStableHash(JSON.stringify([
+		fields.name,
+		fields.projectLink,
+		fields.projectName,
+		fields.archived ? 1 : 0,
+	]));
+}
+
+/** Project notes keep their own signature: a note can be both a project note and a task note. */
+function buildProjectNoteSignature(fields: ProjectNoteFields): string {
+	return simpleStableHash(JSON.stringify([
+		fields.name,
+		fields.color ?? '',
+		fields.parentLink,
+		fields.parentName,
+		fields.isFavorite ? 1 : 0,
+		fields.archived ? 1 : 0,
+	]));
+}
+
 function buildRemoteImportSignature(item: TodoistItem, maps: ProjectSectionMaps): string {
 	return simpleStableHash(JSON.stringify([
 		item.content,
@@ -2940,9 +4034,90 @@ function buildRemoteImportSignature(item: TodoistItem, maps: ProjectSectionMaps)
 		(item.labels ?? []).join('|'),
 		item.deadline?.date ?? '',
 		item.duration?.amount ?? null,
+		// Only part of the hash when present, so notes of tasks without reminders keep their signature
+		...withReminders(formatReminders(maps.remindersByItemId?.get(item.id) ?? [])),
+		...withAssignee(getItemAssignee(item, maps)),
 	]));
 }
 
+/** A Todoist item's synced fields, in the shape they are read from a note. */
+export function remoteSyncFields(item: TodoistItem, maps: ProjectSectionMaps): TaskSyncFields {
+	const assignee = getItemAssignee(item, maps);
+	return {
+		title: item.content,
+		description: item.description?.trim() ?? '',
+		isDone: Boolean(item.checked),
+		isRecurring: Boolean(item.due?.is_recurring),
+		projectId: item.project_id,
+		sectionId: item.section_id ?? undefined,
+		parentId: item.parent_id ?? undefined,
+		dueDate: item.due?.date ?? '',
+		dueString: item.due?.string ?? '',
+		priority: item.priority ?? 1,
+		labels: item.labels ?? [],
+		deadline: item.deadline?.date ?? '',
+		duration: item.duration?.amount ?? undefined,
+		reminders: formatReminders(maps.remindersByItemId?.get(item.id) ?? []),
+		assignee: assignee.name,
+		assigneeId: assignee.id,
+		recurrence: item.due?.is_recurring ? (buildRecurrenceString(item.due.string ?? '', item.due.date ?? '') ?? '') : '',
+	};
+}
+
+/** Writes a value typed in the conflict inbox to the note property behind a field. */
+function applyConflictEdit(data: Record<string, unknown>, field: MergeField, value: string, settings: TaskTodoistSettings): void {
+	if (!EDITABLE_CONFLICT_FIELDS.has(field)) return;
+	const p = getPropNames(settings);
+	const trimmed = value.trim();
+	const list = trimmed.split(',').map((entry) => entry.trim()).filter(Boolean);
+	switch (field) {
+		case 'title':
+			setTaskTitle(data, trimmed, settings);
+			break;
+		case 'description':
+			data[p.todoistDescription] = trimmed;
+			break;
+		case 'due':
+			// A date replaces the due date; anything else is sent for Todoist to parse
+			if (/^\d{4}-\d{2}-\d{2}(T[\d:]+)?$/.test(trimmed)) {
+				data[p.todoistDue] = trimmed;
+				data[p.todoistDueString] = '';
+			} else {
+				data[p.todoistDue] = '';
+				data[p.todoistDueString] = trimmed;
+			}
+			break;
+		case 'recurrence':
+			data[p.recurrence] = trimmed || null;
+			break;
+		case 'deadline':
+			data[p.todoistDeadline] = trimmed || null;
+			break;
+		case 'priority': {
+			const match = trimmed.match(/^p?([1-4])$/i);
+			if (match) {
+				const priority = 5 - Number(match[1]);
+				data[p.todoistPriority] = priority;
+				data[p.todoistPriorityLabel] = priorityLabel(priority);
+			}
+			break;
+		}
+		case 'labels':
+			data[p.todoistLabels] = list;
+			break;
+		case 'duration':
+			data[p.todoistDuration] = Number(trimmed) > 0 ? Number(trimmed) : null;
+			break;
+		case 'reminders':
+			data[p.todoistReminders] = list;
+			break;
+		case 'assignee':
+			data[p.todoistAssignee] = trimmed;
+			data[p.todoistAssigneeId] = '';
+			break;
+	}
+}
+
 function parseLabelTagSet(labelTags: string): Set<string> {
 	return new Set(
 		labelTags.split(',').map((l) => l.trim().toLowerCase()).filter(Boolean),
@@ -2974,6 +4149,17 @@ function mergeLabelTagsIntoTags(
 	return [...filtered, ...toAdd];
 }
 
+/** Adds a routing rule's tags to a note's tags, skipping ones already present. */
+function mergeRouteTags(currentTags: unknown, routeTags: string[]): string[] {
+	const tags: string[] = Array.isArray(currentTags)
+		? (currentTags as unknown[]).map((t) => String(t))
+		: typeof currentTags === 'string'
+		? currentTags.split(/[\s,]+/).filter(Boolean)
+		: [];
+	const present = new Set(tags.map((t) => t.replace(/^#/, '').toLowerCase()));
+	return [...tags, ...routeTags.filter((tag) => !present.has(tag.toLowerCase()))];
+}
+
 /**
  * Merges note tags that match the configured label-tags into the given labels
  * array (for Obsidian→Todoist push).
@@ -2993,20 +4179,7 @@ function mergeLabelTagsIntoLabels(
 	return Array.from(new Set([...labels, ...tagLabels]));
 }
 
-function buildTodoistSyncSignature(input: {
-	title: string;
-	description: string;
-	isDone: boolean;
-	isRecurring: boolean;
-	projectId?: string;
-	sectionId?: string;
-	dueDate?: string;
-	dueString?: string;
-	priority?: number;
-	labels?: string[];
-	deadline?: string;
-	duration?: number;
-}): string {
+function buildTodoistSyncSignature(input: TaskSyncFields): string {
 	return simpleStableHash(JSON.stringify([
 		input.title.trim(),
 		input.description.trim(),
@@ -3020,16 +4193,49 @@ function buildTodoistSyncSignature(input: {
 		(input.labels ?? []).slice().sort().join('|'),
 		input.deadline?.trim() ?? '',
 		input.duration ?? null,
+		...withReminders(canonicalReminders(input.reminders ?? [])),
+		...withAssignee({ id: input.assigneeId?.trim() ?? '', name: input.assignee?.trim() ?? '' }),
+		...withParent(input.parentId?.trim() ?? ''),
+		...withRecurrence(recurrenceRuleKey(input.recurrence ?? ''), input.completesInstance === true),
 	]));
 }
 
-function simpleStableHash(value: string): string {
-	let hash = 2166136261;
-	for (let i = 0; i < value.length; i += 1) {
-		hash ^= value.charCodeAt(i);
-		hash += (hash << 1) + (hash << 4) + (hash << 7) + (hash << 8) + (hash << 24);
+function withReminders(reminders: string[]): string[][] {
+	return reminders.length > 0 ? [reminders] : [];
+}
+
+// Like reminders, the assignee only enters a hash once the task or note has one
+function withAssignee(assignee: { id: string; name: string }): string[][] {
+	return assignee.id || assignee.name ? [['assignee', assignee.id, assignee.name]] : [];
+}
+
+// Notes without a recurrence rule or a completed instance keep their earlier hash
+function withRecurrence(ruleKey: string, completesInstance: boolean): string[][] {
+	return ruleKey || completesInstance ? [['recurrence', ruleKey, completesInstance ? 'completed' : '']] : [];
+}
+
+// Top-level tasks keep the hash they had before parents were part of it
+function withParent(parentId: string): string[][] {
+	return parentId ? [['parent', parentId]] : [];
+}
+
+function getItemAssignee(item: TodoistItem, maps: ProjectSectionMaps): { id: string; name: string } {
+	const id = item.responsible_uid ?? '';
+	return { id, name: id ? (maps.collaboratorNameById?.get(id) ?? '') : '' };
+}
+
+/** Reads the assignee properties; both undefined when the note has neither. */
+function readAssigneeProperties(
+	frontmatter: Record<string, unknown>,
+	p: PropNames,
+): { name?: string; id?: string } {
+	if (!(p.todoistAssignee in frontmatter) && !(p.todoistAssigneeId in frontmatter)) {
+		return {};
 	}
-	return (hash >>> 0).toString(16).padStart(8, '0');
+	return {
+		name: toOptionalString(frontmatter[p.todoistAssignee]) ?? '',
+		id: toOptionalString(frontmatter[p.todoistAssigneeId]) ?? '',
+	};
 }
 
 function repairSignatureFrontmatterInContent(
@@ -0,0 +1,135 @@
+import type { TodoistReminder, TodoistReminderInput } from './todoist-client';
+
+// "2026-10-20 09:00", "2026-10-20T09:00" or "2026-10-20T09:00:00"
+const ABSOLUTE_REGEX = /^(\d{4}-\d{2}-\d{2})[T ](\d{1,2}):(\d{2})(?::\d{2})?$/;
+// "30m before", "1h before due", "45 min", "2 hours"
+const RELATIVE_REGEX = /^(\d+)\s*(m|mins?|minutes?|h|hrs?|hours?)?(?:\s+before(?:\s+due)?)?$/i;
+
+export interface ReminderChanges {
+	add: TodoistReminderInput[];
+	removeIds: string[];
+	/** Property values that could not be read as a reminder; left untouched. */
+	invalid: string[];
+}
+
+/**
+ * Formats a Todoist reminder the way it is written to the reminders property.
+ * Location reminders have no vault representation and return null.
+ */
+export function formatReminder(reminder: TodoistReminder): string | null {
+	if (reminder.type === 'relative' && typeof reminder.minute_offset === 'number') {
+		return formatMinutesBefore(reminder.minute_offset);
+	}
+	if (reminder.type === 'absolute' && reminder.due_date) {
+		return formatAbsolute(reminder.due_date);
+	}
+	return null;
+}
+
+/** Formats the reminders of one task, sorted, for its frontmatter. */
+export function formatReminders(reminders: TodoistReminder[]): string[] {
+	return reminders
+		.map((reminder) => formatReminder(reminder))
+		.filter((value): value is string => value !== null)
+		.sort();
+}
+
+/**
+ * Reads the reminders property. Returns undefined when the note has no such
+ * property, so notes written before reminders were synced never clear them.
+ */
+export function readReminderProperty(value: unknown): string[] | undefined {
+	if (value === undefined) return undefined;
+	if (value === null || value === '') return [];
+	const entries = Array.isArray(value) ? value : [value];
+	return entries
+		.map((entry) => (typeof entry === 'string' || typeof entry === 'number' ? String(entry).trim() : ''))
+		.filter(Boolean);
+}
+
+/** Canonical, sorted form of property values (used in sync signatures). */
+export function canonicalReminders(values: string[]): string[] {
+	return values
+		.map((value) => {
+			const input = parseReminder(value);
+			return input ? formatReminderInput(input) : value;
+		})
+		.sort();
+}
+
+export function parseReminder(value: string): TodoistReminderInput | null {
+	const trimmed = value.trim();
+	const absolute = trimmed.match(ABSOLUTE_REGEX);
+	if (absolute) {
+		const hours = Number(absolute[2]);
+		const minutes = Number(absolute[3]);
+		if (hours > 23 || minutes > 59) return null;
+		return { type: 'absolute', due: `${absolute[1]}T${pad(hours)}:${pad(minutes)}:00` };
+	}
+	const relative = trimmed.match(RELATIVE_REGEX);
+	if (relative) {
+		const amount = Number(relative[1]);
+		const unit = (relative[2] ?? 'm').toLowerCase();
+		return { type: 'relative', minuteOffset: unit.startsWith('h') ? amount * 60 : amount };
+	}
+	return null;
+}
+
+/**
+ * Works out the reminder_add / reminder_delete commands that turn the task's
+ * remote reminders into the ones listed in the note. Location reminders are
+ * never removed because they cannot be listed in the note.
+ */
+export function planReminderChanges(desired: string[], remote: TodoistReminder[]): ReminderChanges {
+	const invalid: string[] = [];
+	const wanted = new Map<string, TodoistReminderInput>();
+	for (const value of desired) {
+		const input = parseReminder(value);
+		if (input) {
+			wanted.set(formatReminderInput(input), input);
+		} else {
+			invalid.push(value);
+		}
+	}
+
+	const removeIds: string[] = [];
+	const existing = new Set<string>();
+	for (const reminder of remote) {
+		const formatted = formatReminder(reminder);
+		if (formatted === null) continue;
+		if (wanted.has(formatted) && !existing.has(formatted)) {
+			existing.add(formatted);
+		} else {
+			removeIds.push(reminder.id);
+		}
+	}
+
+	const add = Array.from(wanted.entries())
+		.filter(([formatted]) => !existing.has(formatted))
+		.map(([, input]) => input);
+	return { add, removeIds, invalid };
+}
+
+function formatReminderInput(input: TodoistReminderInput): string {
+	return input.type === 'relative' ? formatMinutesBefore(input.minuteOffset) : formatAbsolute(input.due);
+}
+
+function formatMinutesBefore(minutes: number): string {
+	return minutes > 0 && minutes % 60 === 0 ? `${minutes / 60}h before` : `${minutes}m before`;
+}
+
+/**
+ * Floating times ("2026-10-20T09:00:00") are kept as written; times with a UTC
+ * offset are shown in local time.
+ */
+function formatAbsolute(dueDate: string): string {
+	const floating = dueDate.match(/^(\d{4}-\d{2}-\d{2})T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/);
+	if (floating) return `${floating[1]} ${floating[2]}:${floating[3]}`;
+	const date = new Date(dueDate);
+	if (Number.isNaN(date.getTime())) return dueDate;
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function pad(value: number): string {
+	return String(value).padStart(2, '0');
+}
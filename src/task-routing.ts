@@ -0,0 +1,105 @@
+import type { ImportRule, RoutingDueRange, RoutingRule, TaskTodoistSettings } from './settings';
+import type { TodoistItem, TodoistProject } from './todoist-client';
+import { assignImportRules, buildFilterContext } from './import-rules';
+import { compileTodoistFilter, type TodoistFilterContext, type TodoistFilterPredicate } from './todoist-filter';
+
+/** Where an imported task's note is placed and what it starts out with. */
+export interface NoteRoute {
+	/** Name of the rule that chose the template, for messages. */
+	ruleName: string;
+	folder?: string;
+	templatePath?: string;
+	tags: string[];
+}
+
+// Due ranges go through the filter syntax so they share its date handling
+const DUE_RANGE_FILTERS: Record<Exclude<RoutingDueRange, 'any'>, TodoistFilterPredicate> = {
+	'no-date': compileTodoistFilter('no date'),
+	overdue: compileTodoistFilter('overdue'),
+	today: compileTodoistFilter('today'),
+	'next-7-days': compileTodoistFilter('7 days'),
+	later: compileTodoistFilter('!no date & !overdue & !7 days'),
+};
+
+export function matchesRoutingRule(rule: RoutingRule, item: TodoistItem, context: TodoistFilterContext): boolean {
+	if (!matchesName(rule.projects, context.projectNameById.get(item.project_id))) {
+		return false;
+	}
+	if (!matchesName(rule.sections, item.section_id ? context.sectionNameById.get(item.section_id) : undefined)) {
+		return false;
+	}
+	const labels = parseList(rule.labels);
+	if (labels.size > 0 && !(item.labels ?? []).some((label) => labels.has(label.toLowerCase()))) {
+		return false;
+	}
+	const priorities = parseList(rule.priorities);
+	// Todoist's API numbers priorities the other way round: p1 is 4
+	if (priorities.size > 0 && !priorities.has(`p${5 - (item.priority ?? 1)}`)) {
+		return false;
+	}
+	const recurring = Boolean(item.due?.is_recurring);
+	if ((rule.recurrence === 'recurring' && !recurring) || (rule.recurrence === 'not-recurring' && recurring)) {
+		return false;
+	}
+	const dueFilter = rule.dueRange === 'any' ? undefined : DUE_RANGE_FILTERS[rule.dueRange];
+	return !dueFilter || dueFilter(item, context);
+}
+
+/**
+ * Picks the note folder, template and tags for each item from the first
+ * matching routing rule, falling back to the folder and template of its
+ * import rule. Items without either get no entry.
+ */
+export function resolveNoteRoutes(
+	items: TodoistItem[],
+	projects: TodoistProject[],
+	settings: TaskTodoistSettings,
+	userId: string | null,
+	sectionNameById: Map<string, string> = new Map(),
+): Map<string, NoteRoute> {
+	const importRuleByItemId = assignImportRules(items, projects, settings, userId, sectionNameById);
+	const routingRules = (settings.routingRules ?? []).filter((rule) => rule.enabled);
+	const routes = new Map<string, NoteRoute>();
+	if (importRuleByItemId.size === 0 && routingRules.length === 0) {
+		return routes;
+	}
+	const context = buildFilterContext(projects, sectionNameById, userId);
+	for (const item of items) {
+		const routingRule = routingRules.find((rule) => matchesRoutingRule(rule, item, context));
+		const route = buildNoteRoute(importRuleByItemId.get(item.id), routingRule);
+		if (route) {
+			routes.set(item.id, route);
+		}
+	}
+	return routes;
+}
+
+function buildNoteRoute(importRule: ImportRule | undefined, routingRule: RoutingRule | undefined): NoteRoute | undefined {
+	if (!importRule && !routingRule) {
+		return undefined;
+	}
+	const routingTemplate = routingRule?.templatePath.trim();
+	return {
+		ruleName: (routingTemplate ? routingRule?.name : importRule?.name ?? routingRule?.name) ?? '',
+		folder: routingRule?.folder.trim() || importRule?.folder.trim() || undefined,
+		templatePath: routingTemplate || importRule?.templatePath.trim() || undefined,
+		tags: (routingRule?.tags ?? '')
+			.split(',')
+			.map((tag) => tag.trim().replace(/^#/, ''))
+			.filter(Boolean),
+	};
+}
+
+function matchesName(rawNames: string, name: string | undefined): boolean {
+	const names = parseList(rawNames);
+	return names.size === 0 || (name !== undefined && names.has(name.trim().toLowerCase()));
+}
+
+function parseList(rawValue: string): Set<string> {
+	return new Set(
+		(rawValue ?? '')
+			.split(',')
+			.map((value) => value.trim().toLowerCase())
+			.filter(Boolean),
+	);
+}
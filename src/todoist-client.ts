@@ -1,5 +1,6 @@
-import { requestUrl } from 'obsidian';
-import { RateLimiter, withRetryOn429 } from './rate-limiter';
+import { RateLimiter, withRetry } from './rate-limiter';
+import { commandErrorFromStatus, describeError, errorFromResponse, TodoistError, type TodoistErrorKind } from './todoist-errors';
+import { RequestUrlTransport, type TodoistResponse, type TodoistTransport } from './todoist-transport';
 
 export interface TodoistItem {
 	id: string;
@@ -29,7 +30,10 @@ export interface TodoistItem {
 		amount: number;
 		unit: string;
 	} | null;
-	order?: number;
+	/** Position among the task's siblings (same project, section and parent). */
+	child_order?: number;
+	/** Position in the Today / Upcoming views; -1 when never reordered there. */
+	day_order?: number;
 }
 
 export interface TodoistProject {
@@ -37,6 +41,7 @@ export interface TodoistProject {
 	name: string;
 	parent_id: string | null;
 	is_archived: boolean;
+	is_favorite: boolean;
 	color: string | null;
 }
 
@@ -47,17 +52,69 @@ export interface TodoistSection {
 	is_archived: boolean;
 }
 
+export interface TodoistCollaborator {
+	id: string;
+	full_name: string;
+	email: string | null;
+}
+
+export interface TodoistLabel {
+	id: string;
+	name: string;
+	color: string | null;
+	is_favorite: boolean;
+}
+
+export interface TodoistComment {
+	id: string;
+	item_id: string;
+	content: string;
+	posted_at: string | null;
+}
+
+export interface TodoistReminder {
+	id: string;
+	item_id: string;
+	/** absolute, relative or location */
+	type: string;
+	/** Reminder time for absolute reminders. */
+	due_date: string | null;
+	/** Minutes before the task's due time for relative reminders. */
+	minute_offset: number | null;
+}
+
+/** A reminder to add: at a fixed time (floating, YYYY-MM-DDTHH:MM:SS) or minutes before due. */
+export type TodoistReminderInput =
+	| { type: 'absolute'; due: string }
+	| { type: 'relative'; minuteOffset: number };
+
+export interface TodoistCompletedItem extends TodoistItem {
+	completed_at: string | null;
+}
+
 export interface TodoistSyncSnapshot {
 	userId: string | null;
 	items: TodoistItem[];
 	projects: TodoistProject[];
 	sections: TodoistSection[];
+	/** Personal labels. */
+	labels: TodoistLabel[];
+	/** People who can be assigned tasks: collaborators on shared projects plus the user. */
+	collaborators: TodoistCollaborator[];
+	/** Task comments (the Sync API "notes" resource). */
+	comments: TodoistComment[];
+	reminders: TodoistReminder[];
 	syncToken: string;
+	/** True when the snapshot came from a full sync rather than a merged delta. */
+	fullSync?: boolean;
+	/** Item IDs reported as deleted by the delta this snapshot was merged from. */
+	deletedItemIds?: string[];
 }
 
 export interface TodoistProjectSectionLookup {
 	projects: TodoistProject[];
 	sections: TodoistSection[];
+	collaborators: TodoistCollaborator[];
 }
 
 export interface TodoistCreateTaskInput {
@@ -72,7 +129,9 @@ export interface TodoistCreateTaskInput {
 	dueString?: string;
 	deadline?: string; // YYYY-MM-DD
 	duration?: number; // minutes
-	order?: number;
+	childOrder?: number;
+	reminders?: TodoistReminderInput[];
+	responsibleUid?: string;
 }
 
 export interface TodoistTaskUpdateInput {
@@ -81,8 +140,13 @@ export interface TodoistTaskUpdateInput {
 	description?: string;
 	isDone?: boolean; // undefined = don't change completion state; true = close; false = uncomplete
 	isRecurring?: boolean;
-	projectId?: string;
+	/**
+	 * Move target, sent as one item_move: the parent task if set, else the section,
+	 * else the project (top level). Leave all three undefined to keep the task where it is.
+	 */
+	parentId?: string;
 	sectionId?: string;
+	projectId?: string;
 	priority?: number;
 	labels?: string[];
 	dueDate?: string;
@@ -92,6 +156,9 @@ export interface TodoistTaskUpdateInput {
 	clearDeadline?: boolean;
 	duration?: number; // minutes
 	clearDuration?: boolean;
+	addReminders?: TodoistReminderInput[];
+	removeReminderIds?: string[];
+	responsibleUid?: string | null; // undefined = don't change; null = unassign
 }
 
 export interface TodoistCreateProjectInput {
@@ -99,14 +166,76 @@ export interface TodoistCreateProjectInput {
 	parent_id?: string;
 }
 
+/** Changes to a project; fields left undefined are not sent. */
+export interface TodoistProjectUpdateInput {
+	id: string;
+	name?: string;
+	color?: string;
+	isFavorite?: boolean;
+	parentId?: string | null; // null = move to the top level
+	archived?: boolean; // true = archive; false = unarchive
+}
+
+export interface TodoistCreateSectionInput {
+	name: string;
+	projectId: string;
+}
+
+/** Changes to a section; fields left undefined are not sent. */
+export interface TodoistSectionUpdateInput {
+	id: string;
+	name?: string;
+	projectId?: string;
+	archived?: boolean; // true = archive; false = unarchive
+}
+
+/** Per-key outcome of a flushed {@link TodoistCommandBatch}. */
+export interface TodoistBatchOutcome {
+	ok: boolean;
+	/** Real Todoist ID of a queued create, resolved from temp_id_mapping. */
+	createdId?: string;
+	error?: string;
+	errorKind?: TodoistErrorKind;
+}
+
+interface TodoistCommand {
+	type: string;
+	uuid: string;
+	temp_id?: string;
+	args: Record<string, unknown>;
+}
+
+interface LabeledCommand {
+	command: TodoistCommand;
+	label: string;
+	/** Key under which the command UUID is kept for replays; defaults to the command type. */
+	idKey?: string;
+}
+
 interface TodoistSyncResponse {
-	user?: { id?: string | number };
+	user?: { id?: string | number; full_name?: string; email?: string };
 	items?: Array<Record<string, unknown>>;
 	projects?: Array<Record<string, unknown>>;
 	sections?: Array<Record<string, unknown>>;
+	labels?: Array<Record<string, unknown>>;
+	collaborators?: Array<Record<string, unknown>>;
+	notes?: Array<Record<string, unknown>>;
+	reminders?: Array<Record<string, unknown>>;
 	temp_id_mapping?: Record<string, string>;
 	sync_status?: Record<string, unknown>;
 	sync_token?: string;
+	full_sync?: boolean;
+}
+
+const SNAPSHOT_RESOURCE_TYPES = ['user', 'projects', 'sections', 'labels', 'collaborators', 'items', 'notes', 'reminders'];
+// Todoist accepts at most 100 commands per /sync request
+const MAX_COMMANDS_PER_REQUEST = 100;
+// The completed-tasks endpoint rejects ranges longer than about three months
+const COMPLETED_RANGE_MAX_DAYS = 89;
+
+interface TodoistCompletedTasksResponse {
+	items?: Array<Record<string, unknown>>;
+	next_cursor?: string | null;
 }
 
 interface TodoistActivitiesResponse {
@@ -116,10 +245,12 @@ interface TodoistActivitiesResponse {
 
 export class TodoistClient {
 	private readonly token: string;
+	private readonly transport: TodoistTransport;
 	private readonly rateLimiter: RateLimiter;
 
-	constructor(token: string) {
+	constructor(token: string, transport: TodoistTransport = new RequestUrlTransport()) {
 		this.token = token;
+		this.transport = transport;
 		this.rateLimiter = new RateLimiter(2);
 	}
 
@@ -134,23 +265,33 @@ export class TodoistClient {
 		return { ok: false, message: `Todoist connection failed with status ${response.status}.` };
 	}
 
-	async fetchSyncSnapshot(): Promise<TodoistSyncSnapshot> {
-		const response = await this.sync(['user', 'projects', 'sections', 'items']);
-		if (response.status === 401) {
-			throw new Error('Todoist authentication failed. Check your token.');
+	/**
+	 * Fetches the current items, projects and sections.
+	 * When a previous snapshot is given, only changes since its sync token are
+	 * requested and merged into it. Falls back to a full sync when there is no
+	 * previous snapshot, or when Todoist rejects the stored token.
+	 */
+	async fetchSyncSnapshot(previous: TodoistSyncSnapshot | null = null): Promise<TodoistSyncSnapshot> {
+		if (previous?.syncToken && isMergeableSnapshot(previous)) {
+			const response = await this.sync(SNAPSHOT_RESOURCE_TYPES, previous.syncToken);
+			if (response.status === 200) {
+				const payload = response.json as TodoistSyncResponse;
+				// Todoist may decide to answer with a full sync (e.g. the token is too old)
+				return payload.full_sync ? buildFullSnapshot(payload) : mergeSyncDelta(previous, payload);
+			}
+			const error = errorFromResponse(response, 'sync');
+			if (error.kind !== 'request') {
+				throw error;
+			}
+			// A client error (typically 400 for an invalid or expired token) — retry as a full sync
 		}
+
+		const response = await this.sync(SNAPSHOT_RESOURCE_TYPES);
 		if (response.status !== 200) {
-			throw new Error(`Todoist sync failed with status ${response.status}.`);
+			throw errorFromResponse(response, 'sync');
 		}
 
-		const payload = response.json as TodoistSyncResponse;
-		return {
-			userId: payload.user?.id == null ? null : String(payload.user.id),
-			items: normalizeItems(payload.items ?? []),
-			projects: normalizeProjects(payload.projects ?? []),
-			sections: normalizeSections(payload.sections ?? []),
-			syncToken: typeof payload.sync_token === 'string' ? payload.sync_token : '',
-		};
+		return buildFullSnapshot(response.json as TodoistSyncResponse);
 	}
 
 	/**
@@ -182,13 +323,7 @@ export class TodoistClient {
 			object_event_types: '["item:deleted"]',
 			count: String(limit),
 		});
-		await this.rateLimiter.throttle();
-		const response = await withRetryOn429(() => requestUrl({
-			url: `https://api.todoist.com/api/v1/activities?${params.toString()}`,
-			method: 'GET',
-			headers: { Authorization: `Bearer ${this.token}` },
-			throw: false,
-		}));
+		const response = await this.request('GET', '/activities', { query: params });
 		if (response.status !== 200) {
 			return new Set();
 		}
@@ -201,59 +336,64 @@ export class TodoistClient {
 		return ids;
 	}
 
-	async fetchProjectSectionLookup(): Promise<TodoistProjectSectionLookup> {
-		const response = await this.sync(['projects', 'sections']);
-		if (response.status === 401) {
-			throw new Error('Todoist authentication failed. Check your token.');
+	/**
+	 * Fetches tasks completed between two dates, optionally limited to one project.
+	 * Longer ranges are split into windows the endpoint accepts; pages are followed
+	 * via next_cursor.
+	 */
+	async fetchCompletedTasks(since: Date, until: Date, projectId?: string): Promise<TodoistCompletedItem[]> {
+		const results: TodoistCompletedItem[] = [];
+		let windowStart = since;
+		while (windowStart < until) {
+			const windowEnd = new Date(Math.min(
+				until.getTime(),
+				windowStart.getTime() + COMPLETED_RANGE_MAX_DAYS * 24 * 60 * 60 * 1000,
+			));
+			let cursor: string | null = null;
+			do {
+				const params = new URLSearchParams({
+					since: windowStart.toISOString(),
+					until: windowEnd.toISOString(),
+					limit: '200',
+				});
+				if (projectId) params.set('project_id', projectId);
+				if (cursor) params.set('cursor', cursor);
+				const response = await this.request('GET', '/tasks/completed/by_completion_date', { query: params });
+				if (response.status !== 200) {
+					throw errorFromResponse(response, 'completed tasks request');
+				}
+				const payload = response.json as TodoistCompletedTasksResponse;
+				const rawItems = payload.items ?? [];
+				const completedAtById = new Map(rawItems.map((raw) => [toId(raw.id), raw.completed_at]));
+				for (const item of normalizeItems(rawItems)) {
+					const completedAt = completedAtById.get(item.id);
+					results.push({ ...item, checked: true, completed_at: typeof completedAt === 'string' ? completedAt : null });
+				}
+				cursor = payload.next_cursor ?? null;
+			} while (cursor);
+			windowStart = windowEnd;
 		}
+		return results;
+	}
+
+	async fetchProjectSectionLookup(): Promise<TodoistProjectSectionLookup> {
+		const response = await this.sync(['user', 'projects', 'sections', 'collaborators']);
 		if (response.status !== 200) {
-			throw new Error(`Todoist project lookup failed with status ${response.status}.`);
+			throw errorFromResponse(response, 'project lookup');
 		}
 
 		const payload = response.json as TodoistSyncResponse;
 		return {
 			projects: normalizeProjects(payload.projects ?? []),
 			sections: normalizeSections(payload.sections ?? []),
+			collaborators: mergeCollaborators([], payload),
 		};
 	}
 
 	async createTask(input: TodoistCreateTaskInput): Promise<string> {
 		const commandUuid = generateUuid();
 		const tempId = generateUuid();
-		const args: Record<string, unknown> = {
-			content: input.content,
-		};
-		if (input.description?.trim()) {
-			args.description = input.description.trim();
-		}
-		if (input.projectId) {
-			args.project_id = input.projectId;
-		}
-		if (input.sectionId) {
-			args.section_id = input.sectionId;
-		}
-		if (input.parentId) {
-			args.parent_id = input.parentId;
-		}
-		if (typeof input.priority === 'number') {
-			args.priority = input.priority;
-		}
-		if (input.labels && input.labels.length > 0) {
-			args.labels = input.labels;
-		}
-		const due = buildDueObject(input.dueDate, input.dueString);
-		if (due) {
-			args.due = due;
-		}
-		if (input.deadline?.trim()) {
-			args.deadline = { date: input.deadline.trim() };
-		}
-		if (typeof input.duration === 'number' && input.duration > 0) {
-			args.duration = { amount: input.duration, unit: 'minute' };
-		}
-		if (typeof input.order === 'number') {
-			args.order = input.order;
-		}
+		const args = buildItemAddArgs(input);
 
 		const response = await this.syncWithCommands([
 			{
@@ -264,18 +404,12 @@ export class TodoistClient {
 			},
 		]);
 
-		if (response.status === 401) {
-			throw new Error('Todoist authentication failed. Check your token.');
-		}
 		if (response.status !== 200) {
-			throw new Error(`Todoist create task failed with status ${response.status}.`);
+			throw errorFromResponse(response, 'create task');
 		}
 
 		const payload = response.json as TodoistSyncResponse;
-		const status = payload.sync_status?.[commandUuid];
-		if (status !== 'ok') {
-			throw new Error('Todoist did not accept the create task command.');
-		}
+		assertSyncStatusOk(payload, commandUuid, 'create task');
 
 		const mappedId = payload.temp_id_mapping?.[tempId];
 		if (!mappedId) {
@@ -297,18 +431,12 @@ export class TodoistClient {
 			args,
 		}]);
 
-		if (response.status === 401) {
-			throw new Error('Todoist authentication failed. Check your token.');
-		}
 		if (response.status !== 200) {
-			throw new Error(`Todoist create project failed with status ${response.status}.`);
+			throw errorFromResponse(response, 'create project');
 		}
 
 		const payload = response.json as TodoistSyncResponse;
-		const status = payload.sync_status?.[commandUuid];
-		if (status !== 'ok') {
-			throw new Error('Todoist did not accept the create project command.');
-		}
+		assertSyncStatusOk(payload, commandUuid, 'create project');
 
 		const mappedId = payload.temp_id_mapping?.[tempId];
 		if (!mappedId) {
@@ -326,30 +454,392 @@ export class TodoistClient {
 				args: { id },
 			},
 		]);
-		if (response.status === 401) {
-			throw new Error('Todoist authentication failed. Check your token.');
-		}
 		if (response.status !== 200) {
-			throw new Error(`Todoist delete task failed with status ${response.status}.`);
+			throw errorFromResponse(response, 'delete task');
 		}
 		const payload = response.json as TodoistSyncResponse;
 		assertSyncStatusOk(payload, commandId, 'delete');
 	}
 
 	async updateTask(input: TodoistTaskUpdateInput): Promise<void> {
-		const commands = [];
-		const updateCommandId = generateUuid();
-		const isRecurringCompletion = Boolean(input.isDone && input.isRecurring);
-		const due = buildDueObject(input.dueDate, input.dueString);
-		commands.push({
+		const commands = buildItemUpdateCommands(input);
+		const response = await this.syncWithCommands(commands.map((entry) => entry.command));
+		if (response.status !== 200) {
+			throw errorFromResponse(response, 'update task');
+		}
+
+		const payload = response.json as TodoistSyncResponse;
+		for (const entry of commands) {
+			assertSyncStatusOk(payload, entry.command.uuid, entry.label);
+		}
+	}
+
+	/**
+	 * Starts a command batch. Queued creates and updates are sent together in
+	 * as few /sync requests as the API allows when the batch is flushed.
+	 */
+	createCommandBatch(): TodoistCommandBatch {
+		return new TodoistCommandBatch((commands) => this.syncWithCommands(commands));
+	}
+
+	private async sync(resourceTypes: string[], syncToken = '*') {
+		return this.syncWithBody({
+			sync_token: syncToken,
+			resource_types: JSON.stringify(resourceTypes),
+		});
+	}
+
+	private async syncWithCommands(commands: TodoistCommand[]) {
+		return this.syncWithBody({
+			sync_token: '*',
+			resource_types: '[]',
+			commands: JSON.stringify(commands),
+		});
+	}
+
+	private async syncWithBody(params: Record<string, string>) {
+		return this.request('POST', '/sync', { form: params });
+	}
+
+	private async request(
+		method: 'GET' | 'POST',
+		path: string,
+		options: { query?: URLSearchParams; form?: Record<string, string> },
+	): Promise<TodoistResponse> {
+		await this.rateLimiter.throttle();
+		return withRetry(() => this.transport.send({ method, path, ...options, token: this.token }));
+	}
+}
+
+/**
+ * Collects item commands keyed by the note (or other caller-side entity) that
+ * produced them. Commands for one key are always sent in the same request so
+ * temp IDs can be referenced by follow-up commands (e.g. closing a new task).
+ */
+export class TodoistCommandBatch {
+	private readonly send: (commands: TodoistCommand[]) => Promise<TodoistResponse>;
+	private readonly groups = new Map<string, { commands: LabeledCommand[]; tempId?: string }>();
+
+	constructor(send: (commands: TodoistCommand[]) => Promise<TodoistResponse>) {
+		this.send = send;
+	}
+
+	get size(): number {
+		return this.groups.size;
+	}
+
+	/**
+	 * Queues an item_add with its reminders, optionally followed by an item_close
+	 * for the new task.
+	 * Passing `commandIds` / `tempId` reuses identifiers from an earlier attempt;
+	 * any missing command UUIDs are written back into `commandIds`.
+	 */
+	queueCreateTask(
+		key: string,
+		input: TodoistCreateTaskInput,
+		options: { close?: boolean; commandIds?: Record<string, string>; tempId?: string } = {},
+	): void {
+		const tempId = options.tempId ?? generateUuid();
+		// The temp_id doubles as the item_add UUID, so a note that kept only its
+		// temp_id can still replay the create without Todoist applying it twice
+		const commands: LabeledCommand[] = [{
+			label: 'create task',
+			command: { type: 'item_add', uuid: tempId, temp_id: tempId, args: buildItemAddArgs(input) },
+		}];
+		for (const reminder of input.reminders ?? []) {
+			commands.push(buildReminderAddCommand(tempId, reminder));
+		}
+		if (options.close) {
+			commands.push({
+				label: 'close',
+				command: { type: 'item_close', uuid: generateUuid(), args: { id: tempId } },
+			});
+		}
+		this.groups.set(key, { commands: reuseCommandIds(commands, options.commandIds), tempId });
+	}
+
+	/** Queues the item_update / item_move / item_close commands for a task update. */
+	queueUpdateTask(key: string, input: TodoistTaskUpdateInput, commandIds?: Record<string, string>): void {
+		this.groups.set(key, { commands: reuseCommandIds(buildItemUpdateCommands(input), commandIds) });
+	}
+
+	/** Queues a note_add (task comment); the new comment ID is returned as createdId. */
+	/** Queues a note_add; like {@link queueCreateTask}, a given temp_id is also its UUID. */
+	queueAddComment(key: string, itemId: string, content: string, tempId = generateUuid()): void {
+		this.groups.set(key, {
+			commands: [{
+				label: 'add comment',
+				command: { type: 'note_add', uuid: tempId, temp_id: tempId, args: { item_id: itemId, content } },
+			}],
+			tempId,
+		});
+	}
+
+	/**
+	 * Queues the commands for a project change: project_unarchive first (an
+	 * archived project cannot be edited), then project_update and project_move,
+	 * and project_archive last.
+	 */
+	queueUpdateProject(key: string, input: TodoistProjectUpdateInput): void {
+		const commands: LabeledCommand[] = [];
+		if (input.archived === false) {
+			commands.push({
+				label: 'unarchive project',
+				command: { type: 'project_unarchive', uuid: generateUuid(), args: { id: input.id } },
+			});
+		}
+		const updateArgs: Record<string, unknown> = {
+			...(input.name !== undefined ? { name: input.name } : {}),
+			...(input.color !== undefined ? { color: input.color } : {}),
+			...(input.isFavorite !== undefined ? { is_favorite: input.isFavorite } : {}),
+		};
+		if (Object.keys(updateArgs).length > 0) {
+			commands.push({
+				label: 'update project',
+				command: { type: 'project_update', uuid: generateUuid(), args: { id: input.id, ...updateArgs } },
+			});
+		}
+		if (input.parentId !== undefined) {
+			commands.push({
+				label: 'move project',
+				command: { type: 'project_move', uuid: generateUuid(), args: { id: input.id, parent_id: input.parentId } },
+			});
+		}
+		if (input.archived === true) {
+			commands.push({
+				label: 'archive project',
+				command: { type: 'project_archive', uuid: generateUuid(), args: { id: input.id } },
+			});
+		}
+		if (commands.length > 0) {
+			this.groups.set(key, { commands });
+		}
+	}
+
+	/** Queues a section_add; the new section ID is returned as createdId. */
+	/** Queues a section_add; like {@link queueCreateTask}, a given temp_id is also its UUID. */
+	queueCreateSection(key: string, input: TodoistCreateSectionInput, tempId = generateUuid()): void {
+		this.groups.set(key, {
+			commands: [{
+				label: 'create section',
+				command: { type: 'section_add', uuid: tempId, temp_id: tempId, args: { name: input.name, project_id: input.projectId } },
+			}],
+			tempId,
+		});
+	}
+
+	/**
+	 * Queues the commands for a section change, in the same order as
+	 * {@link queueUpdateProject}: unarchive, update, move, archive.
+	 */
+	queueUpdateSection(key: string, input: TodoistSectionUpdateInput): void {
+		const commands: LabeledCommand[] = [];
+		if (input.archived === false) {
+			commands.push({
+				label: 'unarchive section',
+				command: { type: 'section_unarchive', uuid: generateUuid(), args: { id: input.id } },
+			});
+		}
+		if (input.name !== undefined) {
+			commands.push({
+				label: 'update section',
+				command: { type: 'section_update', uuid: generateUuid(), args: { id: input.id, name: input.name } },
+			});
+		}
+		if (input.projectId !== undefined) {
+			commands.push({
+				label: 'move section',
+				command: { type: 'section_move', uuid: generateUuid(), args: { id: input.id, project_id: input.projectId } },
+			});
+		}
+		if (input.archived === true) {
+			commands.push({
+				label: 'archive section',
+				command: { type: 'section_archive', uuid: generateUuid(), args: { id: input.id } },
+			});
+		}
+		if (commands.length > 0) {
+			this.groups.set(key, { commands });
+		}
+	}
+
+	/**
+	 * Queues a rename and/or completion change for a checklist subtask. Unlike
+	 * queueUpdateTask, fields that are not given (description, due date, …) are
+	 * left untouched.
+	 */
+	queueUpdateSubtask(key: string, id: string, change: { content?: string; isDone?: boolean }): void {
+		const commands: LabeledCommand[] = [];
+		if (change.content !== undefined) {
+			commands.push({
+				label: 'update',
+				command: { type: 'item_update', uuid: generateUuid(), args: { id, content: change.content } },
+			});
+		}
+		if (change.isDone !== undefined) {
+			commands.push({
+				label: change.isDone ? 'close' : 'uncomplete',
+				command: { type: change.isDone ? 'item_close' : 'item_uncomplete', uuid: generateUuid(), args: { id } },
+			});
+		}
+		if (commands.length > 0) {
+			this.groups.set(key, { commands });
+		}
+	}
+
+	/** Queues an item_reorder setting child_order for a group of sibling tasks. */
+	queueReorderTasks(key: string, childOrders: Map<string, number>): void {
+		const items = Array.from(childOrders, ([id, childOrder]) => ({ id, child_order: childOrder }));
+		this.groups.set(key, {
+			commands: [{ label: 'reorder', command: { type: 'item_reorder', uuid: generateUuid(), args: { items } } }],
+		});
+	}
+
+	/** Queues an item_update_day_orders for the Today / Upcoming ordering of tasks. */
+	queueUpdateDayOrders(key: string, dayOrders: Map<string, number>): void {
+		this.groups.set(key, {
+			commands: [{
+				label: 'update day orders',
+				command: { type: 'item_update_day_orders', uuid: generateUuid(), args: { ids_to_orders: Object.fromEntries(dayOrders) } },
+			}],
+		});
+	}
+
+	queueDeleteTask(key: string, id: string, commandIds?: Record<string, string>): void {
+		const commands: LabeledCommand[] = [{
+			label: 'delete',
+			command: { type: 'item_delete', uuid: generateUuid(), args: { id } },
+		}];
+		this.groups.set(key, { commands: reuseCommandIds(commands, commandIds) });
+	}
+
+	/**
+	 * Sends all queued commands in chunks and maps each command's sync_status
+	 * back to its key. Never throws: request-level failures are reported on
+	 * every key in the affected chunk so earlier chunks' results are kept.
+	 */
+	async flush(): Promise<Map<string, TodoistBatchOutcome>> {
+		const outcomes = new Map<string, TodoistBatchOutcome>();
+		const entries = Array.from(this.groups.entries());
+		this.groups.clear();
+
+		let chunk: typeof entries = [];
+		let chunkSize = 0;
+		const chunks: Array<typeof entries> = [];
+		for (const entry of entries) {
+			const count = entry[1].commands.length;
+			if (chunkSize + count > MAX_COMMANDS_PER_REQUEST && chunk.length > 0) {
+				chunks.push(chunk);
+				chunk = [];
+				chunkSize = 0;
+			}
+			chunk.push(entry);
+			chunkSize += count;
+		}
+		if (chunk.length > 0) chunks.push(chunk);
+
+		for (const current of chunks) {
+			const commands = current.flatMap(([, group]) => group.commands.map((entry) => entry.command));
+			let payload: TodoistSyncResponse;
+			try {
+				const response = await this.send(commands);
+				if (response.status !== 200) {
+					throw errorFromResponse(response, 'batch request');
+				}
+				payload = response.json as TodoistSyncResponse;
+			} catch (e) {
+				const error = describeError(e);
+				const errorKind = e instanceof TodoistError ? e.kind : undefined;
+				for (const [key] of current) outcomes.set(key, { ok: false, error, errorKind });
+				continue;
+			}
+
+			for (const [key, group] of current) {
+				const createdId = group.tempId ? payload.temp_id_mapping?.[group.tempId] : undefined;
+				const failed = group.commands.find((entry) => payload.sync_status?.[entry.command.uuid] !== 'ok');
+				if (failed) {
+					const error = commandErrorFromStatus(payload.sync_status?.[failed.command.uuid], failed.label);
+					outcomes.set(key, { ok: false, createdId, error: describeError(error), errorKind: error.kind });
+				} else if (group.tempId && !createdId) {
+					outcomes.set(key, { ok: false, error: 'Todoist response did not include an ID for the created entry.' });
+				} else {
+					outcomes.set(key, { ok: true, createdId });
+				}
+			}
+		}
+		return outcomes;
+	}
+}
+
+function reuseCommandIds(commands: LabeledCommand[], commandIds?: Record<string, string>): LabeledCommand[] {
+	if (!commandIds) return commands;
+	for (const entry of commands) {
+		const idKey = entry.idKey ?? entry.command.type;
+		const known = commandIds[idKey];
+		if (known) {
+			entry.command.uuid = known;
+		} else {
+			commandIds[idKey] = entry.command.uuid;
+		}
+	}
+	return commands;
+}
+
+function buildItemAddArgs(input: TodoistCreateTaskInput): Record<string, unknown> {
+	const args: Record<string, unknown> = {
+		content: input.content,
+	};
+	if (input.description?.trim()) {
+		args.description = input.description.trim();
+	}
+	if (input.projectId) {
+		args.project_id = input.projectId;
+	}
+	if (input.sectionId) {
+		args.section_id = input.sectionId;
+	}
+	if (input.parentId) {
+		args.parent_id = input.parentId;
+	}
+	if (typeof input.priority === 'number') {
+		args.priority = input.priority;
+	}
+	if (input.labels && input.labels.length > 0) {
+		args.labels = input.labels;
+	}
+	const due = buildDueObject(input.dueDate, input.dueString);
+	if (due) {
+		args.due = due;
+	}
+	if (input.deadline?.trim()) {
+		args.deadline = { date: input.deadline.trim() };
+	}
+	if (typeof input.duration === 'number' && input.duration > 0) {
+		args.duration = { amount: input.duration, unit: 'minute' };
+	}
+	if (typeof input.childOrder === 'number') {
+		args.child_order = input.childOrder;
+	}
+	if (input.responsibleUid) {
+		args.responsible_uid = input.responsibleUid;
+	}
+	return args;
+}
+
+function buildItemUpdateCommands(input: TodoistTaskUpdateInput): LabeledCommand[] {
+	const commands: LabeledCommand[] = [];
+	const isRecurringCompletion = Boolean(input.isDone && input.isRecurring);
+	const due = buildDueObject(input.dueDate, input.dueString);
+	commands.push({
+		label: 'update',
+		command: {
 			type: 'item_update',
-			uuid: updateCommandId,
+			uuid: generateUuid(),
 			args: {
 				id: input.id,
 				...(input.content !== undefined ? { content: input.content } : {}),
-				description: input.description ?? '',
-				...(input.projectId ? { project_id: input.projectId } : {}),
-				// Note: section moves use item_move below — item_update does not support section_id
+				...(input.description !== undefined ? { description: input.description } : {}),
+				// Project, section and parent changes use item_move below; item_update ignores them
 				...(typeof input.priority === 'number' ? { priority: input.priority } : {}),
 				...(input.labels !== undefined ? { labels: input.labels } : {}),
 				...(isRecurringCompletion ? {} : (due ? { due } : {})),
@@ -359,87 +849,170 @@ export class TodoistClient {
 				...(typeof input.duration === 'number' && input.duration > 0
 					? { duration: { amount: input.duration, unit: 'minute' } }
 					: input.clearDuration ? { duration: null } : {}),
+				...(input.responsibleUid !== undefined ? { responsible_uid: input.responsibleUid } : {}),
 			},
+		},
+	});
+
+	for (const id of input.removeReminderIds ?? []) {
+		commands.push({
+			label: 'delete reminder',
+			idKey: `reminder_delete:${id}`,
+			command: { type: 'reminder_delete', uuid: generateUuid(), args: { id } },
 		});
+	}
+	for (const reminder of input.addReminders ?? []) {
+		commands.push(buildReminderAddCommand(input.id, reminder));
+	}
 
-		// item_update does not support section moves; use item_move when a target section is specified
-		const moveCommandId = generateUuid();
-		if (input.sectionId) {
-			commands.push({
+	// item_move takes exactly one destination
+	const moveTarget = input.parentId ? { parent_id: input.parentId }
+		: input.sectionId ? { section_id: input.sectionId }
+		: input.projectId ? { project_id: input.projectId }
+		: null;
+	if (moveTarget) {
+		commands.push({
+			label: 'move',
+			command: {
 				type: 'item_move',
-				uuid: moveCommandId,
+				uuid: generateUuid(),
 				args: {
 					id: input.id,
-					section_id: input.sectionId,
+					...moveTarget,
 				},
-			});
-		}
+			},
+		});
+	}
 
-		// Only send item_close / item_uncomplete when the caller explicitly requests a
-		// completion-state change.  Sending item_uncomplete on an already-open task can
-		// cause Todoist to restore the item to its original section, undoing the item_move above.
-		const statusCommandId = generateUuid();
-		if (input.isDone !== undefined) {
-			commands.push({
+	// Only send item_close / item_uncomplete when the caller explicitly requests a
+	// completion-state change.  Sending item_uncomplete on an already-open task can
+	// cause Todoist to restore the item to its original section, undoing the item_move above.
+	if (input.isDone !== undefined) {
+		commands.push({
+			label: input.isDone ? 'close' : 'uncomplete',
+			command: {
 				type: input.isDone ? 'item_close' : 'item_uncomplete',
-				uuid: statusCommandId,
+				uuid: generateUuid(),
 				args: {
 					id: input.id,
 				},
-			});
-		}
+			},
+		});
+	}
+	return commands;
+}
 
-		const response = await this.syncWithCommands(commands);
-		if (response.status === 401) {
-			throw new Error('Todoist authentication failed. Check your token.');
-		}
-		if (response.status !== 200) {
-			throw new Error(`Todoist update task failed with status ${response.status}.`);
-		}
+/**
+ * Builds a reminder_add for a task (real ID, or the temp_id of an item_add in the
+ * same request). Each reminder keeps its own command UUID across replays.
+ */
+function buildReminderAddCommand(itemId: string, reminder: TodoistReminderInput): LabeledCommand {
+	const args: Record<string, unknown> = reminder.type === 'absolute'
+		? { item_id: itemId, type: 'absolute', due: { date: reminder.due } }
+		: { item_id: itemId, type: 'relative', minute_offset: reminder.minuteOffset };
+	return {
+		label: 'add reminder',
+		idKey: `reminder_add:${reminder.type === 'absolute' ? reminder.due : reminder.minuteOffset}`,
+		command: { type: 'reminder_add', uuid: generateUuid(), args },
+	};
+}
 
-		const payload = response.json as TodoistSyncResponse;
-		assertSyncStatusOk(payload, updateCommandId, 'update');
-		if (input.sectionId) {
-			assertSyncStatusOk(payload, moveCommandId, 'move');
-		}
-		if (input.isDone !== undefined) {
-			assertSyncStatusOk(
-				payload,
-				statusCommandId,
-				input.isDone ? 'close' : 'uncomplete',
-			);
+function buildFullSnapshot(payload: TodoistSyncResponse): TodoistSyncSnapshot {
+	return {
+		userId: payload.user?.id == null ? null : String(payload.user.id),
+		items: normalizeItems(payload.items ?? []),
+		projects: normalizeProjects(payload.projects ?? []),
+		sections: normalizeSections(payload.sections ?? []),
+		labels: normalizeLabels((payload.labels ?? []).filter((raw) => !raw.is_deleted)),
+		collaborators: mergeCollaborators([], payload),
+		comments: normalizeComments((payload.notes ?? []).filter((raw) => !raw.is_deleted)),
+		reminders: normalizeReminders((payload.reminders ?? []).filter((raw) => !raw.is_deleted)),
+		syncToken: typeof payload.sync_token === 'string' ? payload.sync_token : '',
+		fullSync: true,
+		deletedItemIds: [],
+	};
+}
+
+/**
+ * Applies an incremental sync response on top of a previous snapshot.
+ * Deleted and completed items are dropped so the merged snapshot matches what a
+ * full sync would return (active items only).
+ */
+function mergeSyncDelta(previous: TodoistSyncSnapshot, payload: TodoistSyncResponse): TodoistSyncSnapshot {
+	const itemsById = new Map(previous.items.map((item) => [item.id, item]));
+	const deletedItemIds: string[] = [];
+	for (const item of normalizeItems(payload.items ?? [])) {
+		if (item.is_deleted || item.checked) {
+			itemsById.delete(item.id);
+			if (item.is_deleted) deletedItemIds.push(item.id);
+		} else {
+			itemsById.set(item.id, item);
 		}
 	}
 
-	private async sync(resourceTypes: string[]) {
-		return this.syncWithBody({
-			sync_token: '*',
-			resource_types: JSON.stringify(resourceTypes),
-		});
+	const projectsById = new Map(previous.projects.map((project) => [project.id, project]));
+	for (const id of collectDeletedIds(payload.projects ?? [])) projectsById.delete(id);
+	for (const project of normalizeProjects((payload.projects ?? []).filter((raw) => !raw.is_deleted))) {
+		projectsById.set(project.id, project);
 	}
 
-	private async syncWithCommands(commands: unknown[]) {
-		return this.syncWithBody({
-			sync_token: '*',
-			resource_types: '[]',
-			commands: JSON.stringify(commands),
-		});
+	const sectionsById = new Map(previous.sections.map((section) => [section.id, section]));
+	for (const id of collectDeletedIds(payload.sections ?? [])) sectionsById.delete(id);
+	for (const section of normalizeSections((payload.sections ?? []).filter((raw) => !raw.is_deleted))) {
+		sectionsById.set(section.id, section);
 	}
 
-	private async syncWithBody(params: Record<string, string>) {
-		const body = new URLSearchParams({ ...params }).toString();
-		await this.rateLimiter.throttle();
-		return withRetryOn429(() => requestUrl({
-			url: 'https://api.todoist.com/api/v1/sync',
-			method: 'POST',
-			contentType: 'application/x-www-form-urlencoded',
-			headers: {
-				Authorization: `Bearer ${this.token}`,
-			},
-			body,
-			throw: false,
-		}));
+	const labelsById = new Map(previous.labels.map((label) => [label.id, label]));
+	for (const id of collectDeletedIds(payload.labels ?? [])) labelsById.delete(id);
+	for (const label of normalizeLabels((payload.labels ?? []).filter((raw) => !raw.is_deleted))) {
+		labelsById.set(label.id, label);
+	}
+
+	const commentsById = new Map(previous.comments.map((comment) => [comment.id, comment]));
+	for (const id of collectDeletedIds(payload.notes ?? [])) commentsById.delete(id);
+	for (const comment of normalizeComments((payload.notes ?? []).filter((raw) => !raw.is_deleted))) {
+		commentsById.set(comment.id, comment);
 	}
+
+	const remindersById = new Map(previous.reminders.map((reminder) => [reminder.id, reminder]));
+	for (const id of collectDeletedIds(payload.reminders ?? [])) remindersById.delete(id);
+	for (const reminder of normalizeReminders((payload.reminders ?? []).filter((raw) => !raw.is_deleted))) {
+		remindersById.set(reminder.id, reminder);
+	}
+
+	return {
+		userId: payload.user?.id == null ? previous.userId : String(payload.user.id),
+		items: Array.from(itemsById.values()),
+		projects: Array.from(projectsById.values()),
+		sections: Array.from(sectionsById.values()),
+		labels: Array.from(labelsById.values()),
+		collaborators: mergeCollaborators(previous.collaborators, payload),
+		comments: Array.from(commentsById.values()),
+		reminders: Array.from(remindersById.values()),
+		syncToken: typeof payload.sync_token === 'string' && payload.sync_token ? payload.sync_token : previous.syncToken,
+		fullSync: false,
+		deletedItemIds,
+	};
+}
+
+/**
+ * Snapshots persisted before a resource type (or a field of one) was synced
+ * lack it and cannot be merged into.
+ */
+function isMergeableSnapshot(snapshot: TodoistSyncSnapshot): boolean {
+	return snapshot.projects.every((project) => typeof project.is_favorite === 'boolean')
+		&& snapshot.items.every((item) => typeof item.child_order === 'number')
+		&& Array.isArray(snapshot.labels)
+		&& Array.isArray(snapshot.collaborators)
+		&& Array.isArray(snapshot.comments)
+		&& Array.isArray(snapshot.reminders);
+}
+
+function collectDeletedIds(rawEntries: Array<Record<string, unknown>>): string[] {
+	return rawEntries
+		.filter((raw) => Boolean(raw.is_deleted))
+		.map((raw) => toId(raw.id))
+		.filter((id): id is string => Boolean(id));
 }
 
 function buildDueObject(dueDate?: string, dueString?: string): { date?: string; string?: string } | undefined {
@@ -464,7 +1037,7 @@ function generateUuid(): string {
 function assertSyncStatusOk(payload: TodoistSyncResponse, commandId: string, label: string): void {
 	const status = payload.sync_status?.[commandId];
 	if (status !== 'ok') {
-		throw new Error(`Todoist ${label} command failed.`);
+		throw commandErrorFromStatus(status, label);
 	}
 }
 
@@ -493,7 +1066,8 @@ function normalizeItems(rawItems: Array<Record<string, unknown>>): TodoistItem[]
 			responsible_uid: toOptionalId(raw.responsible_uid),
 			deadline: toDeadline(raw.deadline),
 			duration: toDuration(raw.duration),
-			order: toOptionalNumber(raw.order),
+			child_order: toOptionalNumber(raw.child_order),
+			day_order: toOptionalNumber(raw.day_order),
 		});
 	}
 	return items;
@@ -507,7 +1081,14 @@ function normalizeProjects(rawProjects: Array<Record<string, unknown>>): Todoist
 			if (!id || !name) {
 				return null;
 			}
-			return { id, name, parent_id: toOptionalId(raw.parent_id), is_archived: Boolean(raw.is_archived), color: typeof raw.color === 'string' ? raw.color : null };
+			return {
+				id,
+				name,
+				parent_id: toOptionalId(raw.parent_id),
+				is_archived: Boolean(raw.is_archived),
+				is_favorite: Boolean(raw.is_favorite),
+				color: typeof raw.color === 'string' ? raw.color : null,
+			};
 		})
 		.filter((project): project is TodoistProject => Boolean(project));
 }
@@ -526,6 +1107,71 @@ function normalizeSections(rawSections: Array<Record<string, unknown>>): Todoist
 		.filter((section): section is TodoistSection => Boolean(section));
 }
 
+/** Merges collaborators and the user (who can always be assigned) from a response into a list. */
+function mergeCollaborators(previous: TodoistCollaborator[], payload: TodoistSyncResponse): TodoistCollaborator[] {
+	const byId = new Map(previous.map((collaborator) => [collaborator.id, collaborator]));
+	for (const raw of payload.collaborators ?? []) {
+		const id = toId(raw.id);
+		const fullName = toStringValue(raw.full_name);
+		if (!id || !fullName) continue;
+		byId.set(id, { id, full_name: fullName, email: typeof raw.email === 'string' ? raw.email : null });
+	}
+	const userId = toId(payload.user?.id);
+	const userName = toStringValue(payload.user?.full_name);
+	if (userId && userName) {
+		byId.set(userId, { id: userId, full_name: userName, email: payload.user?.email ?? null });
+	}
+	return Array.from(byId.values());
+}
+
+function normalizeLabels(rawLabels: Array<Record<string, unknown>>): TodoistLabel[] {
+	return rawLabels
+		.map((raw) => {
+			const id = toId(raw.id);
+			const name = toStringValue(raw.name);
+			if (!id || !name) {
+				return null;
+			}
+			return { id, name, color: typeof raw.color === 'string' ? raw.color : null, is_favorite: Boolean(raw.is_favorite) };
+		})
+		.filter((label): label is TodoistLabel => Boolean(label));
+}
+
+function normalizeComments(rawComments: Array<Record<string, unknown>>): TodoistComment[] {
+	return rawComments
+		.map((raw) => {
+			const id = toId(raw.id);
+			const itemId = toId(raw.item_id);
+			const content = toStringValue(raw.content);
+			if (!id || !itemId || !content) {
+				return null;
+			}
+			return { id, item_id: itemId, content, posted_at: typeof raw.posted_at === 'string' ? raw.posted_at : null };
+		})
+		.filter((comment): comment is TodoistComment => Boolean(comment));
+}
+
+function normalizeReminders(rawReminders: Array<Record<string, unknown>>): TodoistReminder[] {
+	return rawReminders
+		.map((raw) => {
+			const id = toId(raw.id);
+			const itemId = toId(raw.item_id);
+			const type = toStringValue(raw.type);
+			if (!id || !itemId || !type) {
+				return null;
+			}
+			const due = raw.due && typeof raw.due === 'object' ? raw.due as { date?: unknown } : null;
+			return {
+				id,
+				item_id: itemId,
+				type,
+				due_date: typeof due?.date === 'string' ? due.date : null,
+				minute_offset: typeof raw.minute_offset === 'number' ? raw.minute_offset : null,
+			};
+		})
+		.filter((reminder): reminder is TodoistReminder => Boolean(reminder));
+}
+
 function toId(value: unknown): string | null {
 	if (typeof value === 'string' && value.trim()) {
 		return value;
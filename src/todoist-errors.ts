@@ -0,0 +1,141 @@
+import type { TodoistResponse } from './todoist-transport';
+
+export type TodoistErrorKind = 'auth' | 'rate_limited' | 'server' | 'network' | 'command_rejected' | 'request';
+
+const KIND_LABELS: Record<TodoistErrorKind, string> = {
+	auth: 'Auth error',
+	rate_limited: 'Rate limited',
+	server: 'Server error',
+	network: 'Network error',
+	command_rejected: 'Rejected',
+	request: 'Request error',
+};
+
+/** A failure talking to Todoist. `kind` tells callers whether retrying later can help. */
+export class TodoistError extends Error {
+	readonly kind: TodoistErrorKind;
+	/** HTTP status, or null when no response was received. */
+	readonly status: number | null;
+
+	constructor(kind: TodoistErrorKind, message: string, status: number | null = null) {
+		super(message);
+		this.name = 'TodoistError';
+		this.kind = kind;
+		this.status = status;
+	}
+
+	/** True for failures that may go away on their own (rate limits, outages, connectivity). */
+	get isTransient(): boolean {
+		return this.kind === 'rate_limited' || this.kind === 'server' || this.kind === 'network';
+	}
+}
+
+export class TodoistAuthError extends TodoistError {
+	constructor(status: number) {
+		super('auth', 'Todoist authentication failed. Check your token.', status);
+		this.name = 'TodoistAuthError';
+	}
+}
+
+export class TodoistRateLimitError extends TodoistError {
+	/** Wait requested by the Retry-After header, when sent. */
+	readonly retryAfterMs: number | null;
+
+	constructor(retryAfterMs: number | null) {
+		const wait = retryAfterMs !== null ? `; retry after ${Math.ceil(retryAfterMs / 1000)} s` : '';
+		super('rate_limited', `Todoist rate limit reached${wait}.`, 429);
+		this.name = 'TodoistRateLimitError';
+		this.retryAfterMs = retryAfterMs;
+	}
+}
+
+export class TodoistServerError extends TodoistError {
+	constructor(action: string, status: number) {
+		super('server', `Todoist ${action} failed with status ${status}.`, status);
+		this.name = 'TodoistServerError';
+	}
+}
+
+export class TodoistNetworkError extends TodoistError {
+	constructor(cause: unknown) {
+		super('network', `Could not reach Todoist: ${cause instanceof Error ? cause.message : String(cause)}`);
+		this.name = 'TodoistNetworkError';
+	}
+}
+
+/** A /sync command that Todoist answered with an error in sync_status. */
+export class TodoistCommandError extends TodoistError {
+	/** Todoist error code (e.g. 22 for an unknown item), when given. */
+	readonly code: number | null;
+	/** Todoist's own error message, when given. */
+	readonly reason: string | null;
+
+	constructor(label: string, code: number | null, reason: string | null) {
+		const detail = `${reason ? `: ${reason}` : ''}${code !== null ? ` (error ${code})` : ''}`;
+		super('command_rejected', `Todoist ${label} command failed${detail}.`);
+		this.name = 'TodoistCommandError';
+		this.code = code;
+		this.reason = reason;
+	}
+}
+
+/** Any other unexpected status (400, 404, …). */
+export class TodoistRequestError extends TodoistError {
+	constructor(action: string, status: number) {
+		super('request', `Todoist ${action} failed with status ${status}.`, status);
+		this.name = 'TodoistRequestError';
+	}
+}
+
+/** Classifies a non-200 response. */
+export function errorFromResponse(response: TodoistResponse, action: string): TodoistError {
+	const { status } = response;
+	if (status === 401 || status === 403) {
+		return new TodoistAuthError(status);
+	}
+	if (status === 429) {
+		return new TodoistRateLimitError(parseRetryAfter(getHeader(response.headers, 'retry-after')));
+	}
+	if (status >= 500) {
+		return new TodoistServerError(action, status);
+	}
+	return new TodoistRequestError(action, status);
+}
+
+/** Builds the error for a sync_status entry other than "ok". */
+export function commandErrorFromStatus(status: unknown, label: string): TodoistCommandError {
+	if (status && typeof status === 'object') {
+		const { error, error_code: code } = status as { error?: unknown; error_code?: unknown };
+		return new TodoistCommandError(
+			label,
+			typeof code === 'number' ? code : null,
+			typeof error === 'string' && error.trim() ? error.trim() : null,
+		);
+	}
+	return new TodoistCommandError(label, null, status === undefined ? 'no result returned' : null);
+}
+
+/** Message for a phase error, prefixed with the classification of Todoist failures. */
+export function describeError(e: unknown): string {
+	if (e instanceof TodoistError) {
+		return `${KIND_LABELS[e.kind]}: ${e.message}`;
+	}
+	return e instanceof Error ? e.message : String(e);
+}
+
+/** Parses Retry-After as delay-seconds or an HTTP date; null when absent or unreadable. */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | null {
+	if (!value?.trim()) return null;
+	const seconds = Number(value.trim());
+	if (Number.isFinite(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+export function getHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+	if (!headers) return undefined;
+	const match = Object.keys(headers).find((key) => key.toLowerCase() === name);
+	return match === undefined ? undefined : headers[match];
+}
@@ -0,0 +1,279 @@
+import type { TodoistItem } from './todoist-client';
+
+/** Lookups a filter needs beyond the item itself. */
+export interface TodoistFilterContext {
+	projectNameById: Map<string, string>;
+	projectParentIdById: Map<string, string | null>;
+	sectionNameById: Map<string, string>;
+	userId: string | null;
+	now: Date;
+}
+
+export type TodoistFilterPredicate = (item: TodoistItem, context: TodoistFilterContext) => boolean;
+
+export class TodoistFilterError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'TodoistFilterError';
+	}
+}
+
+type Token = { kind: 'op'; value: '(' | ')' | '&' | '|' | '!' | ',' } | { kind: 'term'; value: string };
+
+const OPERATOR_CHARS = new Set(['(', ')', '&', '|', '!', ',']);
+
+/**
+ * Compiles a query in Todoist filter syntax, e.g. `(today | overdue) & #Work & !@someday`,
+ * into a predicate evaluated locally against synced items. Supports `&`, `|`, `!`,
+ * parentheses and `,` (read as "or"), with these terms (case-insensitive):
+ *
+ * - `#Project`, `##Project` (with sub-projects), `/Section`, `@label` — `*` is a wildcard
+ * - `p1`–`p4`, `today`, `tomorrow`, `yesterday`, `overdue` / `od`, `no date`, `recurring`
+ * - `N days` / `next N days`, `due: DATE`, `due before: DATE`, `due after: DATE`
+ *   (DATE is YYYY-MM-DD, `today` or `tomorrow`)
+ * - `no labels`, `subtask`, `assigned`, `assigned to: me`, `assigned to: others`, `search: text`
+ *
+ * Throws {@link TodoistFilterError} for unknown terms or malformed queries.
+ */
+export function compileTodoistFilter(query: string): TodoistFilterPredicate {
+	const tokens = tokenize(query);
+	if (tokens.length === 0) {
+		throw new TodoistFilterError('Filter is empty.');
+	}
+	let position = 0;
+	const peek = (): Token | undefined => tokens[position];
+	const isOp = (value: string): boolean => {
+		const token = peek();
+		return token?.kind === 'op' && token.value === value;
+	};
+
+	const parseList = (): TodoistFilterPredicate => {
+		let left = parseOr();
+		while (isOp(',')) {
+			position += 1;
+			left = either(left, parseOr());
+		}
+		return left;
+	};
+	const parseOr = (): TodoistFilterPredicate => {
+		let left = parseAnd();
+		while (isOp('|')) {
+			position += 1;
+			left = either(left, parseAnd());
+		}
+		return left;
+	};
+	const parseAnd = (): TodoistFilterPredicate => {
+		let left = parseUnary();
+		while (isOp('&')) {
+			position += 1;
+			const right = parseUnary();
+			const current = left;
+			left = (item, context) => current(item, context) && right(item, context);
+		}
+		return left;
+	};
+	const parseUnary = (): TodoistFilterPredicate => {
+		const token = peek();
+		if (!token) {
+			throw new TodoistFilterError('Filter ends unexpectedly.');
+		}
+		position += 1;
+		if (token.kind === 'term') {
+			return compileTerm(token.value);
+		}
+		if (token.value === '!') {
+			const operand = parseUnary();
+			return (item, context) => !operand(item, context);
+		}
+		if (token.value === '(') {
+			const inner = parseList();
+			if (!isOp(')')) {
+				throw new TodoistFilterError('Missing closing parenthesis.');
+			}
+			position += 1;
+			return inner;
+		}
+		throw new TodoistFilterError(`Unexpected "${token.value}".`);
+	};
+
+	const predicate = parseList();
+	const rest = peek();
+	if (rest) {
+		throw new TodoistFilterError(`Unexpected "${rest.value}".`);
+	}
+	return predicate;
+}
+
+/** Returns an error message for an invalid query, or null when it compiles. */
+export function validateTodoistFilter(query: string): string | null {
+	try {
+		compileTodoistFilter(query);
+		return null;
+	} catch (e) {
+		return e instanceof Error ? e.message : String(e);
+	}
+}
+
+function either(left: TodoistFilterPredicate, right: TodoistFilterPredicate): TodoistFilterPredicate {
+	return (item, context) => left(item, context) || right(item, context);
+}
+
+function tokenize(query: string): Token[] {
+	const tokens: Token[] = [];
+	let term = '';
+	const flushTerm = () => {
+		if (term.trim()) tokens.push({ kind: 'term', value: term.trim() });
+		term = '';
+	};
+	for (const char of query) {
+		if (OPERATOR_CHARS.has(char)) {
+			flushTerm();
+			tokens.push({ kind: 'op', value: char as '(' | ')' | '&' | '|' | '!' | ',' });
+		} else {
+			term += char;
+		}
+	}
+	flushTerm();
+	return tokens;
+}
+
+function compileTerm(raw: string): TodoistFilterPredicate {
+	const term = raw.replace(/\s+/g, ' ').toLowerCase();
+
+	if (term.startsWith('##')) {
+		const matches = wildcardMatcher(term.slice(2));
+		return (item, context) => projectAndAncestorNames(item.project_id, context).some(matches);
+	}
+	if (term.startsWith('#')) {
+		const matches = wildcardMatcher(term.slice(1));
+		return (item, context) => matches(context.projectNameById.get(item.project_id) ?? '');
+	}
+	if (term.startsWith('/')) {
+		const matches = wildcardMatcher(term.slice(1));
+		return (item, context) => Boolean(item.section_id) && matches(context.sectionNameById.get(item.section_id ?? '') ?? '');
+	}
+	if (term.startsWith('@')) {
+		const matches = wildcardMatcher(term.slice(1));
+		return (item) => (item.labels ?? []).some((label) => matches(label));
+	}
+
+	const priority = term.match(/^p([1-4])$/);
+	if (priority) {
+		// Todoist's API numbers priorities the other way round: p1 is 4
+		const apiPriority = 5 - Number(priority[1]);
+		return (item) => (item.priority ?? 1) === apiPriority;
+	}
+	const days = term.match(/^(?:next )?(\d+) days?$/);
+	if (days) {
+		const count = Number(days[1]);
+		return (item, context) => {
+			const due = dueDateOf(item);
+			return due !== null && due >= localDate(context.now, 0) && due < localDate(context.now, count);
+		};
+	}
+	const dated = term.match(/^(due|due before|due after|date|date before|date after): ?(.+)$/);
+	if (dated) {
+		const resolve = dateResolver(dated[2] ?? '');
+		const mode = (dated[1] ?? '').replace('date', 'due');
+		return (item, context) => {
+			const due = dueDateOf(item);
+			if (due === null) return false;
+			const target = resolve(context.now);
+			return mode === 'due before' ? due < target : mode === 'due after' ? due > target : due === target;
+		};
+	}
+	const search = raw.match(/^search:\s*(.+)$/i);
+	if (search) {
+		const text = (search[1] ?? '').trim().toLowerCase();
+		return (item) => item.content.toLowerCase().includes(text) || (item.description ?? '').toLowerCase().includes(text);
+	}
+
+	switch (term) {
+		case 'today':
+			return (item, context) => dueDateOf(item) === localDate(context.now, 0);
+		case 'tomorrow':
+			return (item, context) => dueDateOf(item) === localDate(context.now, 1);
+		case 'yesterday':
+			return (item, context) => dueDateOf(item) === localDate(context.now, -1);
+		case 'overdue':
+		case 'od':
+			return (item, context) => isOverdue(item, context.now);
+		case 'no date':
+		case 'no due date':
+			return (item) => dueDateOf(item) === null;
+		case 'recurring':
+			return (item) => Boolean(item.due?.is_recurring);
+		case 'no labels':
+			return (item) => (item.labels ?? []).length === 0;
+		case 'subtask':
+			return (item) => Boolean(item.parent_id);
+		case 'assigned':
+			return (item) => Boolean(item.responsible_uid);
+		case 'assigned to: me':
+		case 'assigned to:me':
+			return (item, context) => Boolean(item.responsible_uid) && item.responsible_uid === context.userId;
+		case 'assigned to: others':
+		case 'assigned to:others':
+			return (item, context) => Boolean(item.responsible_uid) && item.responsible_uid !== context.userId;
+		case 'all':
+			return () => true;
+	}
+	throw new TodoistFilterError(`Unknown filter term "${raw}".`);
+}
+
+function wildcardMatcher(pattern: string): (value: string) => boolean {
+	const trimmed = pattern.trim();
+	if (!trimmed) {
+		throw new TodoistFilterError('Missing name after #, / or @.');
+	}
+	const regex = new RegExp(`^${trimmed.split('*').map(escapeRegExp).join('.*')}$`, 'i');
+	return (value) => regex.test(value.trim());
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function projectAndAncestorNames(projectId: string, context: TodoistFilterContext): string[] {
+	const names: string[] = [];
+	const seen = new Set<string>();
+	let current: string | null = projectId;
+	while (current && !seen.has(current)) {
+		seen.add(current);
+		names.push(context.projectNameById.get(current) ?? '');
+		current = context.projectParentIdById.get(current) ?? null;
+	}
+	return names;
+}
+
+function dateResolver(value: string): (now: Date) => string {
+	const trimmed = value.trim();
+	if (trimmed === 'today') return (now) => localDate(now, 0);
+	if (trimmed === 'tomorrow') return (now) => localDate(now, 1);
+	if (trimmed === 'yesterday') return (now) => localDate(now, -1);
+	if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return () => trimmed;
+	throw new TodoistFilterError(`Unsupported date "${value.trim()}"; use YYYY-MM-DD, today or tomorrow.`);
+}
+
+/** Due date as YYYY-MM-DD, or null for a task without one. */
+function dueDateOf(item: TodoistItem): string | null {
+	const date = item.due?.date ?? item.due?.datetime ?? '';
+	return date ? date.slice(0, 10) : null;
+}
+
+function isOverdue(item: TodoistItem, now: Date): boolean {
+	const due = dueDateOf(item);
+	if (due === null) return false;
+	const today = localDate(now, 0);
+	if (due < today) return true;
+	// A task due earlier today at a set time is overdue too
+	const dateTime = item.due?.datetime ?? (item.due?.date?.includes('T') ? item.due.date : null);
+	return due === today && Boolean(dateTime) && new Date(dateTime ?? '').getTime() < now.getTime();
+}
+
+function localDate(now: Date, offsetDays: number): string {
+	const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offsetDays);
+	const pad = (value: number) => (value < 10 ? `0${value}` : String(value));
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -1,94 +1,248 @@
 /**
- * Converts a Todoist natural-language due.string and the current due date into
- * the iCal RRULE-like format expected by the TaskNotes Obsidian plugin:
+ * Converts between Todoist's natural-language recurrence (`due.string`, e.g.
+ * "every 2nd tue at 9am") and the iCal RRULE-like format expected by the
+ * TaskNotes Obsidian plugin:
  *   DTSTART:YYYYMMDD;FREQ=DAILY;INTERVAL=1
  *
- * Returns null for patterns that cannot be parsed (property should be omitted).
+ * Patterns that cannot be parsed yield null (the property should be omitted).
  */
 
-const DAY_ABBREVIATIONS: Record<string, string> = {
-	monday: 'MO',
-	tuesday: 'TU',
-	wednesday: 'WE',
-	thursday: 'TH',
-	friday: 'FR',
-	saturday: 'SA',
-	sunday: 'SU',
+import { TIMES_OF_DAY } from './date-expression';
+
+export type RecurrenceFrequency = 'HOURLY' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+/** A recurrence as parsed from either format. */
+export interface RecurrenceRule {
+	freq: RecurrenceFrequency;
+	interval: number;
+	/** Weekdays as RRULE BYDAY values, optionally with an ordinal: `MO`, `2TU`, `-1FR`. */
+	byDay: string[];
+	/** Days of the month; -1 is the last day. */
+	byMonthDay: number[];
+	/** Months, 1–12. */
+	byMonth: number[];
+	count?: number;
+	/** Last occurrence date, YYYY-MM-DD. */
+	until?: string;
+	/** First occurrence date from "starting …", YYYY-MM-DD. */
+	start?: string;
+	/** Time of day, HH:MM. */
+	time?: string;
+	/** Todoist's `every!`: the next date is counted from the completion date. */
+	fromCompletion: boolean;
+}
+
+const WEEKDAYS: Array<{ code: string; name: string; aliases: string[] }> = [
+	{ code: 'MO', name: 'monday', aliases: ['monday', 'mon'] },
+	{ code: 'TU', name: 'tuesday', aliases: ['tuesday', 'tues', 'tue'] },
+	{ code: 'WE', name: 'wednesday', aliases: ['wednesday', 'wed'] },
+	{ code: 'TH', name: 'thursday', aliases: ['thursday', 'thurs', 'thur', 'thu'] },
+	{ code: 'FR', name: 'friday', aliases: ['friday', 'fri'] },
+	{ code: 'SA', name: 'saturday', aliases: ['saturday', 'sat'] },
+	{ code: 'SU', name: 'sunday', aliases: ['sunday', 'sun'] },
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAMES = [
+	'january', 'february', 'march', 'april', 'may', 'june',
+	'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const ORDINAL_WORDS: Record<string, number> = {
+	first: 1,
+	second: 2,
+	third: 3,
+	fourth: 4,
+	fifth: 5,
+	last: -1,
+};
+
+const WORKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR'];
+const WEEKEND = ['SA', 'SU'];
+
+const UNIT_FREQUENCIES: Record<string, RecurrenceFrequency> = {
+	hour: 'HOURLY',
+	day: 'DAILY',
+	week: 'WEEKLY',
+	month: 'MONTHLY',
+	year: 'YEARLY',
+};
+
+// Shorthands Todoist accepts in place of "every <unit>"
+const SHORTHANDS: Record<string, string> = {
+	hourly: 'every hour',
+	daily: 'every day',
+	weekly: 'every week',
+	monthly: 'every month',
+	yearly: 'every year',
+	annually: 'every year',
 };
 
+const CLAUSE_SPLIT = /\s+(?=(?:starting|from|until|ending)\b|for \d|at (?:\d|noon\b|midnight\b))/;
+
 /**
- * Converts a Todoist `due.date` (YYYY-MM-DD) to the DTSTART token (YYYYMMDD).
+ * Parses a Todoist recurring due string. Supports, after `every` (or `every!`,
+ * counted from completion):
+ *
+ * - `day`, `week`, `month`, `year`, `hour`, `N <unit>s`, `other <unit>`, and the
+ *   shorthands `daily`, `weekly`, `monthly`, `yearly`, `annually`
+ * - `morning`, `afternoon`, `evening`, `night` (every day at that time)
+ * - weekdays (`monday`, `mon, wed and fri`), `weekday` / `workday`, `weekend`,
+ *   `other monday`, `other week on friday`, `N weeks on monday`
+ * - `2nd tuesday`, `last friday`, `first monday of the month`
+ * - days of the month (`15th`, `1st and 15th`, `last day`)
+ * - the monthly forms with `month on the …` / `N months on the …`
+ *   (`month on the last day`, `other month on the 15th`)
+ * - dates in the year (`jan 1`, `1st january`)
+ *
+ * followed by any of `at <time>`, `starting <date>`, `until <date>`,
+ * `for N times` and `for N <unit>s`. Year-less dates use the year of
+ * `referenceDate` (YYYY-MM-DD). Returns null when the string is not understood.
  */
-function dtstart(dueDate: string): string {
-	return dueDate.replace(/-/g, '');
+export function parseTodoistRecurrence(dueString: string, referenceDate?: string): RecurrenceRule | null {
+	const words = dueString.toLowerCase().trim().replace(/\s+/g, ' ').replace(/[.,;]+$/, '').split(' ');
+	const shorthand = SHORTHANDS[words[0] ?? ''];
+	const norm = (shorthand ? [shorthand, ...words.slice(1)] : words).join(' ');
+	const prefix = norm.match(/^(?:every|ev)(!?)\s*/);
+	if (!prefix) return null;
+	const fromCompletion = prefix[1] === '!';
+	const [body = '', ...clauses] = norm.slice(prefix[0].length).split(CLAUSE_SPLIT);
+	const rule = parseBody(body.trim());
+	if (!rule) return null;
+	rule.fromCompletion = fromCompletion;
+
+	const reference = referenceDate?.slice(0, 10) ?? '';
+	let forUnits: { amount: number; unit: string } | null = null;
+	for (const clause of clauses) {
+		const at = clause.match(/^at (.+)$/);
+		if (at) {
+			const time = parseTime(at[1] ?? '');
+			if (!time) return null;
+			rule.time = time;
+			continue;
+		}
+		const bounded = clause.match(/^(starting|from|until|ending)(?: on)? (.+)$/);
+		if (bounded) {
+			const date = parseDate(bounded[2] ?? '', reference);
+			if (!date) return null;
+			if (bounded[1] === 'starting' || bounded[1] === 'from') rule.start = date;
+			else rule.until = date;
+			continue;
+		}
+		const times = clause.match(/^for (\d+) times?$/);
+		if (times) {
+			rule.count = Number(times[1]);
+			continue;
+		}
+		const span = clause.match(/^for (\d+) (day|week|month|year)s?$/);
+		if (span) {
+			forUnits = { amount: Number(span[1]), unit: span[2] ?? 'day' };
+			continue;
+		}
+		return null;
+	}
+	if (forUnits) {
+		const start = rule.start ?? reference;
+		if (!start) return null;
+		rule.until = addToDate(start, forUnits.amount, forUnits.unit, -1);
+	}
+	return rule;
 }
 
 /**
- * Parse a Todoist due.string like "every day", "every 2 weeks", "every monday"
- * into an iCal RRULE partial string like "FREQ=DAILY;INTERVAL=1".
- * Returns null if the pattern is not recognised.
+ * Formats a rule as a TaskNotes recurrence. DTSTART is the "starting" date if
+ * the rule has one, otherwise `dueDate` (YYYY-MM-DD or an ISO datetime), with
+ * the rule's time of day when it has one.
  */
-function parseDueStringToRRule(s: string): string | null {
-	// Normalise: lowercase, collapse whitespace, strip trailing punctuation
-	const norm = s.toLowerCase().trim().replace(/\s+/g, ' ').replace(/[.,;]+$/, '');
-
-	// "every day"
-	if (norm === 'every day') return 'FREQ=DAILY;INTERVAL=1';
-
-	// "every weekday"
-	if (norm === 'every weekday') return 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR';
-
-	// "every week"
-	if (norm === 'every week') return 'FREQ=WEEKLY;INTERVAL=1';
-
-	// "every month"
-	if (norm === 'every month') return 'FREQ=MONTHLY;INTERVAL=1';
-
-	// "every year"
-	if (norm === 'every year') return 'FREQ=YEARLY;INTERVAL=1';
-
-	// "every N days"
-	let m = norm.match(/^every (\d+) days?$/);
-	if (m) return `FREQ=DAILY;INTERVAL=${m[1]}`;
-
-	// "every N weeks"
-	m = norm.match(/^every (\d+) weeks?$/);
-	if (m) return `FREQ=WEEKLY;INTERVAL=${m[1]}`;
-
-	// "every N months"
-	m = norm.match(/^every (\d+) months?$/);
-	if (m) return `FREQ=MONTHLY;INTERVAL=${m[1]}`;
-
-	// "every N years"
-	m = norm.match(/^every (\d+) years?$/);
-	if (m) return `FREQ=YEARLY;INTERVAL=${m[1]}`;
-
-	// "every Nth" — e.g. "every 15th", "every 1st", "every 22nd"
-	m = norm.match(/^every (\d+)(?:st|nd|rd|th)$/);
-	if (m) return `FREQ=MONTHLY;BYMONTHDAY=${m[1]}`;
-
-	// "every monday" (single weekday)
-	m = norm.match(/^every (monday|tuesday|wednesday|thursday|friday|saturday|sunday)$/);
-	if (m) {
-		const dayName = m[1] ?? '';
-		const byday = DAY_ABBREVIATIONS[dayName];
-		return `FREQ=WEEKLY;BYDAY=${byday}`;
-	}
-
-	// "every monday, wednesday" or "every monday and wednesday" (multiple weekdays)
-	// Accepts comma-separated or "and"-separated lists of weekday names
-	const weekdayListPattern = /^every ((?:(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)(?:\s*,\s*|\s+and\s+))*(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday))$/;
-	m = norm.match(weekdayListPattern);
-	if (m) {
-		const captured = m[1] ?? '';
-		const dayNames = captured.split(/\s*,\s*|\s+and\s+/).map((d) => d.trim());
-		const bydays = dayNames.map((d) => DAY_ABBREVIATIONS[d]).filter(Boolean);
-		if (bydays.length === dayNames.length) {
-			return `FREQ=WEEKLY;BYDAY=${bydays.join(',')}`;
-		}
+export function formatRecurrence(rule: RecurrenceRule, dueDate: string): string {
+	const date = (rule.start ?? dueDate).slice(0, 10).replace(/-/g, '');
+	const dueTime = dueDate.match(/T(\d{2}):(\d{2})/);
+	const time = rule.time ?? (dueTime && !rule.start ? `${dueTime[1]}:${dueTime[2]}` : undefined);
+	const parts = [`DTSTART:${date}${time ? `T${time.replace(':', '')}00` : ''}`, `FREQ=${rule.freq}`];
+	// Plain "every <unit>" rules keep INTERVAL=1, as TaskNotes writes them
+	if (rule.interval > 1 || (rule.byDay.length === 0 && rule.byMonthDay.length === 0 && rule.byMonth.length === 0)) {
+		parts.push(`INTERVAL=${rule.interval}`);
 	}
+	if (rule.byMonth.length > 0) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+	if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+	if (rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+	if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+	if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+	return parts.join(';');
+}
 
-	return null;
+/**
+ * Reads a TaskNotes recurrence (`DTSTART:…;FREQ=…`, or the RFC 5545 form with
+ * an `RRULE:` line). Returns the rule with DTSTART as its start date and time,
+ * or null when FREQ is missing or unsupported.
+ */
+export function parseRecurrence(recurrence: string): RecurrenceRule | null {
+	const fields = new Map<string, string>();
+	for (const part of recurrence.trim().split(/[;\n]+/)) {
+		const token = part.trim().replace(/^RRULE:/i, '');
+		const separator = token.search(/[:=]/);
+		if (separator > 0) fields.set(token.slice(0, separator).toUpperCase(), token.slice(separator + 1).trim());
+	}
+	const freq = fields.get('FREQ')?.toUpperCase();
+	if (freq !== 'HOURLY' && freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+		return null;
+	}
+	const list = (key: string) => (fields.get(key) ?? '').split(',').map((value) => value.trim()).filter(Boolean);
+	const rule: RecurrenceRule = {
+		freq,
+		interval: Math.max(1, Number(fields.get('INTERVAL') ?? '1') || 1),
+		byDay: list('BYDAY').map((value) => value.toUpperCase()),
+		byMonthDay: list('BYMONTHDAY').map(Number).filter((value) => Number.isInteger(value) && value !== 0),
+		byMonth: list('BYMONTH').map(Number).filter((value) => value >= 1 && value <= 12),
+		fromCompletion: false,
+	};
+	const count = Number(fields.get('COUNT'));
+	if (Number.isInteger(count) && count > 0) rule.count = count;
+	const until = fields.get('UNTIL')?.match(/^(\d{4})(\d{2})(\d{2})/);
+	if (until) rule.until = `${until[1]}-${until[2]}-${until[3]}`;
+	const start = fields.get('DTSTART')?.match(/(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2}))?/);
+	if (start) {
+		rule.start = `${start[1]}-${start[2]}-${start[3]}`;
+		if (start[4]) rule.time = `${start[4]}:${start[5]}`;
+	}
+	return rule;
+}
+
+/**
+ * Converts a TaskNotes recurrence back into a Todoist due string, e.g.
+ * `DTSTART:20260105;FREQ=MONTHLY;BYDAY=1MO` → "every 1st monday". A start date
+ * is only added where it fixes the cycle (intervals above one). Pass
+ * `fromCompletion` to produce `every!`. Returns null for rules Todoist cannot
+ * express (several ordinal weekdays, several months, …).
+ */
+export function recurrenceToDueString(recurrence: string, options: { fromCompletion?: boolean } = {}): string | null {
+	const rule = parseRecurrence(recurrence);
+	if (!rule) return null;
+	const body = describeRule(rule);
+	if (!body) return null;
+	const parts = [`${options.fromCompletion ? 'every!' : 'every'} ${body}`];
+	if (rule.time) parts.push(`at ${rule.time}`);
+	if (rule.start && rule.interval > 1) parts.push(`starting ${rule.start}`);
+	if (rule.count !== undefined) parts.push(`for ${rule.count} times`);
+	if (rule.until) parts.push(`until ${rule.until}`);
+	return parts.join(' ');
+}
+
+/**
+ * The rule part of a recurrence, without DTSTART, in a canonical form — two
+ * recurrences with the same key repeat the same way. Empty for an empty value.
+ */
+export function recurrenceRuleKey(recurrence: string): string {
+	const rule = parseRecurrence(recurrence);
+	if (!rule) return recurrence.trim();
+	return formatRecurrence({ ...rule, start: undefined, time: undefined }, '').split(';').slice(1).join(';');
+}
+
+/** Replaces the rule of `current` with the one of `next`, keeping the DTSTART of `current`. */
+export function keepRecurrenceStart(current: string, next: string): string {
+	const start = current.match(/DTSTART[:=][0-9TZ]+/i)?.[0];
+	const rule = next.split(';').filter((part) => !/^DTSTART/i.test(part.trim()));
+	return start ? [start, ...rule].join(';') : next;
 }
 
 /**
@@ -100,7 +254,198 @@ function parseDueStringToRRule(s: string): string | null {
  */
 export function buildRecurrenceString(dueString: string, dueDate: string): string | null {
 	if (!dueString || !dueDate) return null;
-	const rrule = parseDueStringToRRule(dueString);
-	if (!rrule) return null;
-	return `DTSTART:${dtstart(dueDate)};${rrule}`;
+	const rule = parseTodoistRecurrence(dueString, dueDate);
+	if (!rule) return null;
+	return formatRecurrence(rule, dueDate);
+}
+
+function parseBody(body: string): RecurrenceRule | null {
+	const rule = (freq: RecurrenceFrequency, extra: Partial<RecurrenceRule> = {}): RecurrenceRule => ({
+		freq,
+		interval: 1,
+		byDay: [],
+		byMonthDay: [],
+		byMonth: [],
+		fromCompletion: false,
+		...extra,
+	});
+
+	const dayPart = TIMES_OF_DAY[body];
+	if (typeof dayPart === 'number') return rule('DAILY', { time: `${String(dayPart).padStart(2, '0')}:00` });
+	if (body === 'weekday' || body === 'workday') return rule('WEEKLY', { byDay: WORKDAYS });
+	if (body === 'weekend') return rule('WEEKLY', { byDay: WEEKEND });
+	if (body === 'last day' || body === 'last day of the month') return rule('MONTHLY', { byMonthDay: [-1] });
+
+	// "day", "3 weeks", "other month"
+	const unit = body.match(/^(?:(\d+|other) )?(hour|day|week|month|year)s?$/);
+	if (unit) {
+		const interval = unit[1] === 'other' ? 2 : Number(unit[1] ?? '1');
+		return interval > 0 ? rule(UNIT_FREQUENCIES[unit[2] ?? 'day'] ?? 'DAILY', { interval }) : null;
+	}
+
+	// "month on the last day", "other month on the 15th", "2 months on the 1st monday"
+	const monthly = body.match(/^(?:(other|\d+) )?months? on (?:the )?(.+)$/);
+	if (monthly) {
+		const inner = parseBody(monthly[2] ?? '');
+		const interval = parseInterval(monthly[1]);
+		return inner?.freq === 'MONTHLY' && inner.interval === 1 && interval > 0 ? { ...inner, interval } : null;
+	}
+
+	// "other monday", "week on friday", "other week on friday", "2 weeks on mon and thu"
+	const spaced = body.match(/^(?:(?:(other|\d+) )?weeks? on|(other)) (.+)$/);
+	if (spaced) {
+		const days = parseWeekdayList(spaced[3] ?? '');
+		const interval = parseInterval(spaced[1] ?? spaced[2]);
+		return days && interval > 0 ? rule('WEEKLY', { interval, byDay: days }) : null;
+	}
+
+	const days = parseWeekdayList(body);
+	if (days) return rule('WEEKLY', { byDay: days });
+
+	// "2nd tuesday", "last friday of the month"
+	const ordinalDay = body.match(/^(\d)(?:st|nd|rd|th)? (\w+)(?: of the month)?$|^(first|second|third|fourth|fifth|last) (\w+)(?: of the month)?$/);
+	if (ordinalDay) {
+		const ordinal = ordinalDay[1] ? Number(ordinalDay[1]) : ORDINAL_WORDS[ordinalDay[3] ?? ''];
+		const day = weekdayCode(ordinalDay[2] ?? ordinalDay[4] ?? '');
+		if (ordinal && ordinal <= 5 && day) return rule('MONTHLY', { byDay: [`${ordinal}${day}`] });
+	}
+
+	// "15th", "1st, 15th and 28th"
+	const monthDays = splitList(body).map((part) => part.match(/^(\d{1,2})(?:st|nd|rd|th)$/)?.[1]);
+	if (monthDays.length > 0 && monthDays.every((day) => day !== undefined && Number(day) >= 1 && Number(day) <= 31)) {
+		return rule('MONTHLY', { byMonthDay: monthDays.map(Number) });
+	}
+
+	// "jan 1", "january 1st", "1 jan", "1st of january"
+	const yearly = parseMonthDay(body);
+	if (yearly) return rule('YEARLY', { byMonth: [yearly.month], byMonthDay: [yearly.day] });
+
+	return null;
+}
+
+function describeRule(rule: RecurrenceRule): string | null {
+	const unit = rule.freq === 'HOURLY' ? 'hour'
+		: rule.freq === 'DAILY' ? 'day'
+		: rule.freq === 'WEEKLY' ? 'week'
+		: rule.freq === 'MONTHLY' ? 'month'
+		: 'year';
+	const every = (name: string) => (rule.interval > 1 ? `${rule.interval} ${name}s` : name);
+	const plainDays = rule.byDay.every((day) => /^[A-Z]{2}$/.test(day));
+
+	if (rule.freq === 'WEEKLY' && rule.byDay.length > 0 && plainDays) {
+		const days = rule.byDay.join(',');
+		if (rule.interval === 1 && days === WORKDAYS.join(',')) return 'weekday';
+		if (rule.interval === 1 && days === WEEKEND.join(',')) return 'weekend';
+		const names = rule.byDay.map((code) => WEEKDAYS.find((day) => day.code === code)?.name);
+		if (names.some((name) => !name)) return null;
+		if (rule.interval === 1) return names.join(', ');
+		if (rule.interval === 2 && names.length === 1) return `other ${names[0] ?? ''}`;
+		return `${rule.interval} weeks on ${names.join(', ')}`;
+	}
+	// Every N months needs the "N months on the …" form
+	const monthly = (days: string) => (rule.interval > 1 ? `${every('month')} on the ${days}` : days);
+	if (rule.freq === 'MONTHLY' && rule.byDay.length === 1 && rule.byMonthDay.length === 0) {
+		const match = (rule.byDay[0] ?? '').match(/^(-1|[1-5])([A-Z]{2})$/);
+		const name = WEEKDAYS.find((day) => day.code === match?.[2])?.name;
+		if (!match || !name) return null;
+		return monthly(`${match[1] === '-1' ? 'last' : ordinal(Number(match[1]))} ${name}`);
+	}
+	if (rule.freq === 'MONTHLY' && rule.byMonthDay.length > 0 && rule.byDay.length === 0) {
+		if (rule.byMonthDay.length === 1 && rule.byMonthDay[0] === -1) return monthly('last day');
+		if (rule.byMonthDay.some((day) => day < 1)) return null;
+		return monthly(rule.byMonthDay.map(ordinal).join(', '));
+	}
+	if (rule.freq === 'YEARLY' && rule.byMonth.length === 1 && rule.byMonthDay.length === 1 && rule.byDay.length === 0 && rule.interval === 1) {
+		const day = rule.byMonthDay[0] ?? 0;
+		return day >= 1 ? `${MONTHS[(rule.byMonth[0] ?? 1) - 1] ?? 'jan'} ${day}` : null;
+	}
+	// Other BY* parts cannot be expressed; an interval alone is counted from the start date
+	if (rule.byDay.length > 0 || rule.byMonthDay.length > 0 || rule.byMonth.length > 0) {
+		return rule.interval > 1 && rule.start ? every(unit) : null;
+	}
+	return every(unit);
+}
+
+/** "other" is 2, a number is itself, no count is 1. */
+function parseInterval(count: string | undefined): number {
+	if (count === undefined) return 1;
+	return count === 'other' ? 2 : Number(count);
+}
+
+function parseWeekdayList(text: string): string[] | null {
+	const parts = splitList(text);
+	const codes = parts.map(weekdayCode);
+	if (parts.length === 0 || codes.some((code) => !code)) return null;
+	return codes as string[];
+}
+
+function splitList(text: string): string[] {
+	return text.split(/\s*,\s*(?:and\s+)?|\s+and\s+|\s*&\s*/).map((part) => part.trim()).filter(Boolean);
+}
+
+function weekdayCode(word: string): string | undefined {
+	return WEEKDAYS.find((day) => day.aliases.includes(word))?.code;
+}
+
+function monthNumber(word: string): number | undefined {
+	const index = MONTH_NAMES.findIndex((name, i) => word === name || word === MONTHS[i] || (i === 8 && word === 'sept'));
+	return index === -1 ? undefined : index + 1;
+}
+
+function parseMonthDay(text: string): { month: number; day: number } | null {
+	const match = text.match(/^([a-z]+)\.? (\d{1,2})(?:st|nd|rd|th)?$/) ?? text.match(/^(\d{1,2})(?:st|nd|rd|th)?(?: of)? ([a-z]+)\.?$/);
+	if (!match) return null;
+	const [monthWord, dayText] = /^\d/.test(match[1] ?? '') ? [match[2] ?? '', match[1] ?? ''] : [match[1] ?? '', match[2] ?? ''];
+	const month = monthNumber(monthWord);
+	const day = Number(dayText);
+	return month && day >= 1 && day <= 31 ? { month, day } : null;
+}
+
+/** Parses YYYY-MM-DD, "jan 15", "15 jan", optionally followed by a year; returns YYYY-MM-DD. */
+function parseDate(text: string, referenceDate: string): string | null {
+	const trimmed = text.trim().replace(/,/g, '');
+	const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (iso) return trimmed;
+	const withYear = trimmed.match(/^(.+?) (\d{4})$/);
+	const monthDay = parseMonthDay(withYear ? withYear[1] ?? '' : trimmed);
+	if (!monthDay) return null;
+	const year = withYear ? Number(withYear[2]) : Number(referenceDate.slice(0, 4)) || new Date().getFullYear();
+	return `${year}-${pad(monthDay.month)}-${pad(monthDay.day)}`;
+}
+
+/** Parses "9", "9am", "9:30 pm", "14:30", "noon" and "midnight" into HH:MM. */
+function parseTime(text: string): string | null {
+	const trimmed = text.trim();
+	if (trimmed === 'noon') return '12:00';
+	if (trimmed === 'midnight') return '00:00';
+	const match = trimmed.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+	if (!match) return null;
+	let hour = Number(match[1]);
+	const minute = Number(match[2] ?? '0');
+	if (match[3] === 'pm' && hour < 12) hour += 12;
+	if (match[3] === 'am' && hour === 12) hour = 0;
+	return hour <= 23 && minute <= 59 ? `${pad(hour)}:${pad(minute)}` : null;
+}
+
+function addToDate(date: string, amount: number, unit: string, extraDays: number): string {
+	const [year = 1970, month = 1, day = 1] = date.split('-').map(Number);
+	const result = new Date(Date.UTC(
+		year + (unit === 'year' ? amount : 0),
+		month - 1 + (unit === 'month' ? amount : 0),
+		day + (unit === 'day' ? amount : unit === 'week' ? amount * 7 : 0) + extraDays,
+	));
+	return `${result.getUTCFullYear()}-${pad(result.getUTCMonth() + 1)}-${pad(result.getUTCDate())}`;
+}
+
+function ordinal(value: number): string {
+	const suffix = value % 100 >= 11 && value % 100 <= 13 ? 'th'
+		: value % 10 === 1 ? 'st'
+		: value % 10 === 2 ? 'nd'
+		: value % 10 === 3 ? 'rd'
+		: 'th';
+	return `${value}${suffix}`;
+}
+
+function pad(value: number): string {
+	return value < 10 ? `0${value}` : String(value);
 }
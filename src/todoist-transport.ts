@@ -0,0 +1,58 @@
+import { requestUrl, type RequestUrlResponse } from 'obsidian';
+import { TodoistNetworkError } from './todoist-errors';
+
+const API_BASE_URL = 'https://api.todoist.com/api/v1';
+
+export interface TodoistRequest {
+	method: 'GET' | 'POST';
+	/** Path below the API base URL, e.g. "/sync". */
+	path: string;
+	query?: URLSearchParams;
+	/** Form fields, sent url-encoded as the body of a POST. */
+	form?: Record<string, string>;
+	token: string;
+}
+
+export interface TodoistResponse {
+	status: number;
+	headers?: Record<string, string>;
+	/** Parsed body. Only read for successful responses; error bodies may not be JSON. */
+	readonly json: unknown;
+}
+
+/**
+ * Sends requests to the Todoist API on behalf of {@link TodoistClient}. The
+ * default goes over the network; {@link FakeTodoist} answers from memory.
+ */
+export interface TodoistTransport {
+	send(request: TodoistRequest): Promise<TodoistResponse>;
+}
+
+export class RequestUrlTransport implements TodoistTransport {
+	async send(request: TodoistRequest): Promise<TodoistResponse> {
+		const query = request.query?.toString();
+		let response: RequestUrlResponse;
+		try {
+			response = await requestUrl({
+				url: `${API_BASE_URL}${request.path}${query ? `?${query}` : ''}`,
+				method: request.method,
+				headers: { Authorization: `Bearer ${request.token}` },
+				...(request.form
+					? { contentType: 'application/x-www-form-urlencoded', body: new URLSearchParams(request.form).toString() }
+					: {}),
+				throw: false,
+			});
+		} catch (e) {
+			// With throw: false, requestUrl only rejects when no response arrived
+			throw new TodoistNetworkError(e);
+		}
+		return {
+			status: response.status,
+			headers: response.headers,
+			// Deferred: the getter on requestUrl's response throws for non-JSON bodies
+			get json(): unknown {
+				return response.json as unknown;
+			},
+		};
+	}
+}
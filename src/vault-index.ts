@@ -6,6 +6,8 @@ export interface VaultIndexSnapshot {
 	taskIndex: Map<string, TFile>;
 	projectIndex: Map<string, TFile>;
 	sectionIndex: Map<string, TFile>;
+	/** Label notes by todoist_label_id */
+	labelIndex: Map<string, TFile>;
 	vaultIdIndex: Map<string, TFile>;
 	duplicateTaskFiles: Map<string, TFile[]>;
 	/** NoteTask index: maps todoist_note_task_id → TFile (vault-wide) */
@@ -20,6 +22,7 @@ export function buildVaultIndexSnapshot(app: App, settings: TaskTodoistSettings)
 	const taskIndex = new Map<string, TFile>();
 	const projectIndex = new Map<string, TFile>();
 	const sectionIndex = new Map<string, TFile>();
+	const labelIndex = new Map<string, TFile>();
 	const vaultIdIndex = new Map<string, TFile>();
 	const noteTaskIndex = new Map<string, TFile>();
 	const allFilesById = new Map<string, TFile[]>();
@@ -78,12 +81,13 @@ export function buildVaultIndexSnapshot(app: App, settings: TaskTodoistSettings)
 			// notes (which store todoist_project_id for the parent project link) would also
 			// appear in projectIndex, causing tasks to link to section notes instead of
 			// their parent project notes ("sections linked in place of projects").
+			// An empty section ID marks a section note not yet created in Todoist.
 			const rawSectionId =
 				fm[p.todoistSectionId] ??
 				(p.todoistSectionId !== 'section_id' ? fm['section_id'] : undefined);
-			if (typeof rawSectionId === 'string' && rawSectionId.trim()) {
+			if (typeof rawSectionId === 'string') {
 				// Section note — only add to section index
-				sectionIndex.set(rawSectionId.trim(), file);
+				if (rawSectionId.trim()) sectionIndex.set(rawSectionId.trim(), file);
 			} else {
 				// No section ID — may be a project note
 				const rawProjectId =
@@ -95,6 +99,12 @@ export function buildVaultIndexSnapshot(app: App, settings: TaskTodoistSettings)
 			}
 		}
 
+		// Label index: label notes carry a label ID and never a task ID
+		const rawLabelId = fm[p.todoistLabelId];
+		if (!taskId && typeof rawLabelId === 'string' && rawLabelId.trim()) {
+			labelIndex.set(rawLabelId.trim(), file);
+		}
+
 		// Vault ID index: by vault_id frontmatter
 		const rawVaultId = fm[p.vaultId];
 		if (typeof rawVaultId === 'string' && rawVaultId.trim()) {
@@ -115,7 +125,23 @@ export function buildVaultIndexSnapshot(app: App, settings: TaskTodoistSettings)
 		}
 	}
 
-	return { taskIndex, projectIndex, sectionIndex, vaultIdIndex, duplicateTaskFiles, noteTaskIndex };
+	return { taskIndex, projectIndex, sectionIndex, labelIndex, vaultIdIndex, duplicateTaskFiles, noteTaskIndex };
+}
+
+/**
+ * Finds the project a note belongs to by folder: the project note in the note's
+ * own folder, or else in the closest ancestor folder that has one.
+ */
+export function findProjectIdForFolder(projectIndex: Map<string, TFile>, file: TFile): string | undefined {
+	const projectIdByFolder = new Map<string, string>();
+	for (const [projectId, projectFile] of projectIndex) {
+		if (projectFile.parent) projectIdByFolder.set(projectFile.parent.path, projectId);
+	}
+	for (let folder = file.parent; folder; folder = folder.parent) {
+		const projectId = projectIdByFolder.get(folder.path);
+		if (projectId) return projectId;
+	}
+	return undefined;
 }
 
 /**
@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { findTrailingDateExpression, parseDateExpression, type DateParseOptions } from '../src/date-expression';
+
+// Monday 19 October 2026, 10:00 local time
+const NOW = new Date(2026, 9, 19, 10, 0);
+
+function parse(text: string, options: DateParseOptions = {}): ReturnType<typeof parseDateExpression> {
+	return parseDateExpression(text, { now: NOW, ...options });
+}
+
+function dateOf(text: string, options: DateParseOptions = {}): string | undefined {
+	return parse(text, options)?.date;
+}
+
+describe('parseDateExpression', () => {
+	it('parses relative days and times', () => {
+		assert.equal(dateOf('today'), '2026-10-19');
+		assert.equal(dateOf('tomorrow'), '2026-10-20');
+		assert.equal(parse('tomorrow at 3pm')?.datetime, '2026-10-20T15:00:00');
+		assert.equal(parse('tonight')?.datetime, '2026-10-19T19:00:00');
+		assert.equal(parse('tomorrow afternoon')?.datetime, '2026-10-20T12:00:00');
+		assert.equal(dateOf('in 3 days'), '2026-10-22');
+		assert.equal(parse('in 2 hours')?.datetime, '2026-10-19T12:00:00');
+	});
+
+	it('parses calendar-relative phrases', () => {
+		assert.equal(dateOf('next week'), '2026-10-26');
+		assert.equal(dateOf('next month'), '2026-11-01');
+		assert.equal(dateOf('end of week'), '2026-10-25');
+		assert.equal(dateOf('end of month'), '2026-10-31');
+		assert.equal(dateOf('this weekend'), '2026-10-24');
+		assert.equal(dateOf('next weekend'), '2026-10-31');
+	});
+
+	it('parses weekdays', () => {
+		assert.equal(dateOf('friday'), '2026-10-23');
+		assert.equal(dateOf('next fri'), '2026-10-30');
+		const range = parse('mon to fri');
+		assert.equal(range?.date, '2026-10-19');
+		assert.equal(range?.end?.date, '2026-10-23');
+	});
+
+	it('parses month names and ordinal days', () => {
+		assert.equal(dateOf('12 march'), '2027-03-12');
+		assert.equal(dateOf('the 15th'), '2026-11-15');
+		assert.equal(dateOf('the 19th'), '2026-10-19');
+		assert.equal(dateOf('the 31st'), '2026-10-31');
+		const range = parse('dec 30 - jan 2');
+		assert.equal(range?.date, '2026-12-30');
+		assert.equal(range?.end?.date, '2027-01-02');
+	});
+
+	it('reads numeric dates month first in US English', () => {
+		assert.equal(dateOf('3/4'), '2027-03-04');
+		assert.equal(dateOf('12/31'), '2026-12-31');
+		assert.equal(dateOf('12/31/2027'), '2027-12-31');
+		assert.equal(dateOf('3/4', { locale: 'en-US' }), '2027-03-04');
+	});
+
+	it('reads numeric dates day first in other locales', () => {
+		assert.equal(dateOf('3/4', { locale: 'en-GB' }), '2027-04-03');
+		assert.equal(dateOf('31/12', { locale: 'en-GB' }), '2026-12-31');
+		assert.equal(dateOf('15.03.2027', { locale: 'de' }), '2027-03-15');
+		assert.equal(dateOf('15.03.27', { locale: 'de' }), '2027-03-15');
+	});
+
+	it('rejects numeric dates whose month or day is out of range', () => {
+		assert.equal(parse('31/12'), null);
+		assert.equal(parse('13/1/2027'), null);
+		assert.equal(parse('12/31', { locale: 'en-GB' }), null);
+		assert.equal(parse('0/5'), null);
+		assert.equal(parse('2/30'), null);
+		assert.equal(parse('2/29/2027'), null);
+		assert.equal(dateOf('2/29'), '2028-02-29');
+	});
+
+	it('parses ISO dates and explicit time zones', () => {
+		assert.equal(dateOf('2027-01-05'), '2027-01-05');
+		assert.equal(parse('2027-02-30'), null);
+		const zoned = parse('2026-10-20T15:00+01:00');
+		assert.equal(zoned?.datetime, '2026-10-20T14:00:00Z');
+		assert.equal(zoned?.timezone, 'UTC+01:00');
+		assert.equal(parse('tomorrow at 15:00 europe/lisbon')?.datetime, '2026-10-20T14:00:00Z');
+	});
+
+	it('parses phrases in other languages', () => {
+		assert.equal(parse('amanhã às 15h', { locale: 'pt' })?.datetime, '2026-10-20T15:00:00');
+		assert.equal(dateOf('em 3 dias', { locale: 'pt' }), '2026-10-22');
+		assert.equal(dateOf('lundi prochain', { locale: 'fr' }), '2026-10-26');
+		assert.equal(parse('morgen um 15 uhr', { locale: 'de' })?.datetime, '2026-10-20T15:00:00');
+		assert.equal(dateOf('am 5. März', { locale: 'de' }), '2027-03-05');
+	});
+
+	it('returns null for text that is not a date', () => {
+		for (const text of ['', 'morning', '15', 'may', 'weekend', 'banana', 'the 32nd', '45/45']) {
+			assert.equal(parse(text), null, text);
+		}
+	});
+});
+
+describe('findTrailingDateExpression', () => {
+	it('splits a trailing date phrase off a title', () => {
+		const found = findTrailingDateExpression('Call mom tomorrow', { now: NOW });
+		assert.equal(found?.title, 'Call mom');
+		assert.equal(found?.expression.date, '2026-10-20');
+
+		const withTime = findTrailingDateExpression('Pay rent on friday at 9am', { now: NOW });
+		assert.equal(withTime?.title, 'Pay rent');
+		assert.equal(withTime?.expression.datetime, '2026-10-23T09:00:00');
+	});
+
+	it('leaves titles without a date phrase alone', () => {
+		assert.equal(findTrailingDateExpression('Enjoy the evening', { now: NOW }), null);
+		assert.equal(findTrailingDateExpression('Read 1984', { now: NOW }), null);
+		assert.equal(findTrailingDateExpression('Buy 12/31 calendar', { now: NOW }), null);
+	});
+});
@@ -0,0 +1,589 @@
+import { TodoistNetworkError } from '../../src/todoist-errors';
+import { parseTodoistRecurrence, type RecurrenceRule } from '../../src/todoist-rrule';
+import type { TodoistRequest, TodoistResponse, TodoistTransport } from '../../src/todoist-transport';
+
+type FakeRecord = Record<string, unknown> & { id: string };
+
+interface FakeCommand {
+	type: string;
+	uuid: string;
+	temp_id?: string;
+	args: Record<string, unknown>;
+}
+
+interface FakeActivity {
+	object_type: string;
+	object_id: string;
+	event_type: string;
+	event_date: string;
+}
+
+const RESOURCE_TYPES = ['projects', 'sections', 'labels', 'collaborators', 'items', 'notes', 'reminders'] as const;
+type FakeResourceType = typeof RESOURCE_TYPES[number];
+
+// Fields item_update may change; project and section changes need item_move
+const ITEM_UPDATE_FIELDS = ['content', 'description', 'priority', 'labels', 'due', 'deadline', 'duration', 'responsible_uid'];
+// Fields project_update may change; the parent needs project_move
+const PROJECT_UPDATE_FIELDS = ['name', 'color', 'is_favorite'];
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * In-memory Todoist backend for running syncs without a live account. It
+ * answers the requests {@link TodoistClient} makes: /sync reads (full and
+ * incremental) and the commands the client sends, /activities and
+ * /tasks/completed/by_completion_date. The add/edit helpers stand in for
+ * changes made in Todoist between sync runs.
+ *
+ * Known simplifications: only ISO dates and the recurring due strings
+ * {@link parseTodoistRecurrence} understands are read. A recurring due string
+ * sent without a date starts on its first occurrence from today (or its
+ * "starting" date), and closing a recurring task moves it to the next one.
+ */
+export class FakeTodoist implements TodoistTransport {
+	readonly token: string;
+	readonly user = { id: '1', full_name: 'Fake User', email: 'user@example.com' };
+	readonly inboxProjectId: string;
+	/** Every request received, oldest first. */
+	readonly requests: TodoistRequest[] = [];
+	private readonly resources = new Map<FakeResourceType, Map<string, FakeRecord>>(
+		RESOURCE_TYPES.map((type) => [type, new Map<string, FakeRecord>()]),
+	);
+	/** Version at which each record last changed, keyed "type:id". Sync tokens are versions. */
+	private readonly versions = new Map<string, number>();
+	private readonly activities: FakeActivity[] = [];
+	/** Results of processed commands by UUID; replayed commands are not applied twice. */
+	private readonly commandResults = new Map<string, unknown>();
+	private readonly tempIds = new Map<string, string>();
+	private readonly queuedFailures: number[] = [];
+	private version = 0;
+	private oldestValidVersion = 0;
+	private nextId = 100;
+
+	constructor(token = 'fake-token') {
+		this.token = token;
+		this.inboxProjectId = this.addProject('Inbox', { inbox_project: true }).id;
+	}
+
+	async send(request: TodoistRequest): Promise<TodoistResponse> {
+		this.requests.push(request);
+		const failure = this.queuedFailures.shift();
+		if (failure === 0) {
+			throw new TodoistNetworkError(new Error('Simulated network failure'));
+		}
+		if (failure !== undefined) {
+			return respond(failure, { error: `Simulated ${failure} response` }, failure === 429 ? { 'Retry-After': '1' } : undefined);
+		}
+		if (request.token !== this.token) {
+			return respond(401, { error: 'Unauthorized' });
+		}
+		if (request.method === 'POST' && request.path === '/sync') {
+			return this.handleSync(request.form ?? {});
+		}
+		if (request.method === 'GET' && request.path === '/activities') {
+			return respond(200, this.handleActivities(request.query ?? new URLSearchParams()));
+		}
+		if (request.method === 'GET' && request.path === '/tasks/completed/by_completion_date') {
+			return respond(200, this.handleCompletedTasks(request.query ?? new URLSearchParams()));
+		}
+		return respond(404, { error: `Unknown endpoint ${request.method} ${request.path}` });
+	}
+
+	/**
+	 * Makes the next requests fail with the given status (e.g. 429 or 503) before
+	 * being handled. Status 0 simulates a network failure.
+	 */
+	failNextRequests(status: number, count = 1): void {
+		for (let i = 0; i < count; i++) this.queuedFailures.push(status);
+	}
+
+	/** Rejects all sync tokens issued so far, as Todoist does for tokens that are too old. */
+	invalidateSyncTokens(): void {
+		this.oldestValidVersion = this.version;
+	}
+
+	get(type: FakeResourceType, id: string): FakeRecord | undefined {
+		const record = this.table(type).get(id);
+		return record ? { ...record } : undefined;
+	}
+
+	list(type: FakeResourceType): FakeRecord[] {
+		return Array.from(this.table(type).values(), (record) => ({ ...record }));
+	}
+
+	addProject(name: string, fields: Record<string, unknown> = {}): FakeRecord {
+		return this.insert('projects', { name, parent_id: null, color: 'charcoal', is_archived: false, is_favorite: false, ...fields });
+	}
+
+	addSection(projectId: string, name: string, fields: Record<string, unknown> = {}): FakeRecord {
+		return this.insert('sections', { name, project_id: projectId, is_archived: false, ...fields });
+	}
+
+	addItem(content: string, fields: Record<string, unknown> = {}): FakeRecord {
+		const item = this.insert('items', {
+			content,
+			description: '',
+			project_id: this.inboxProjectId,
+			section_id: null,
+			parent_id: null,
+			priority: 1,
+			labels: [],
+			due: null,
+			deadline: null,
+			duration: null,
+			responsible_uid: null,
+			checked: false,
+			completed_at: null,
+			is_deleted: false,
+			child_order: this.table('items').size + 1,
+			day_order: -1,
+			...fields,
+		});
+		this.logActivity('item', item.id, 'added');
+		return item;
+	}
+
+	addLabel(name: string, fields: Record<string, unknown> = {}): FakeRecord {
+		return this.insert('labels', { name, color: 'charcoal', is_favorite: false, ...fields });
+	}
+
+	addCollaborator(fullName: string, email: string): FakeRecord {
+		return this.insert('collaborators', { full_name: fullName, email });
+	}
+
+	addComment(itemId: string, content: string): FakeRecord {
+		return this.insert('notes', { item_id: itemId, content, posted_at: new Date().toISOString() });
+	}
+
+	editProject(id: string, changes: Record<string, unknown>): void {
+		this.patch('projects', id, changes);
+	}
+
+	editSection(id: string, changes: Record<string, unknown>): void {
+		this.patch('sections', id, changes);
+	}
+
+	editItem(id: string, changes: Record<string, unknown>): void {
+		this.patch('items', id, changes);
+		this.logActivity('item', id, 'updated');
+	}
+
+	archiveProject(id: string): void {
+		this.patch('projects', id, { is_archived: true });
+	}
+
+	archiveSection(id: string): void {
+		this.patch('sections', id, { is_archived: true });
+	}
+
+	completeItem(id: string): void {
+		this.patch('items', id, { checked: true, completed_at: new Date().toISOString() });
+		this.logActivity('item', id, 'completed');
+	}
+
+	/** Deletes a task and its subtasks. */
+	deleteItem(id: string): void {
+		for (const item of this.table('items').values()) {
+			if (item.parent_id === id && !item.is_deleted) this.deleteItem(item.id);
+		}
+		this.patch('items', id, { is_deleted: true });
+		this.logActivity('item', id, 'deleted');
+	}
+
+	private handleSync(form: Record<string, string>): TodoistResponse {
+		const payload: Record<string, unknown> = {};
+		const commands = form.commands ? JSON.parse(form.commands) as FakeCommand[] : [];
+		if (commands.length > 0) {
+			const syncStatus: Record<string, unknown> = {};
+			const tempIdMapping: Record<string, string> = {};
+			for (const command of commands) {
+				syncStatus[command.uuid] = this.runCommand(command);
+				const mapped = command.temp_id ? this.tempIds.get(command.temp_id) : undefined;
+				if (command.temp_id && mapped) tempIdMapping[command.temp_id] = mapped;
+			}
+			payload.sync_status = syncStatus;
+			payload.temp_id_mapping = tempIdMapping;
+		}
+
+		const token = form.sync_token ?? '*';
+		const since = token === '*' ? null : Number(token);
+		if (since !== null && (!Number.isInteger(since) || since < this.oldestValidVersion || since > this.version)) {
+			return respond(400, { error: 'Invalid sync token' });
+		}
+		const resourceTypes = JSON.parse(form.resource_types ?? '[]') as string[];
+		for (const type of resourceTypes) {
+			if (type === 'user') {
+				payload.user = { ...this.user };
+			} else if (isResourceType(type)) {
+				payload[type] = this.read(type, since);
+			}
+		}
+		payload.full_sync = since === null;
+		payload.sync_token = String(this.version);
+		return respond(200, payload);
+	}
+
+	/** Full reads leave out deleted records and completed tasks; deltas return every change. */
+	private read(type: FakeResourceType, since: number | null): FakeRecord[] {
+		const records: FakeRecord[] = [];
+		for (const record of this.table(type).values()) {
+			if (since === null) {
+				if (record.is_deleted || (type === 'items' && record.checked)) continue;
+			} else if ((this.versions.get(`${type}:${record.id}`) ?? 0) <= since) {
+				continue;
+			}
+			records.push({ ...record });
+		}
+		return records;
+	}
+
+	private runCommand(command: FakeCommand): unknown {
+		const previous = this.commandResults.get(command.uuid);
+		if (previous !== undefined) return previous;
+		let result: unknown;
+		try {
+			this.applyCommand(command);
+			result = 'ok';
+		} catch (e) {
+			result = { error: e instanceof Error ? e.message : String(e), error_code: 20 };
+		}
+		this.commandResults.set(command.uuid, result);
+		return result;
+	}
+
+	private applyCommand(command: FakeCommand): void {
+		const args = command.args;
+		switch (command.type) {
+			case 'item_add': {
+				const projectId = this.resolveId(args.project_id) ?? this.inboxProjectId;
+				this.require('projects', projectId);
+				const item = this.addItem(toText(args.content), {
+					description: args.description ?? '',
+					project_id: projectId,
+					section_id: this.resolveId(args.section_id),
+					parent_id: this.resolveId(args.parent_id),
+					priority: args.priority ?? 1,
+					labels: args.labels ?? [],
+					due: toFakeDue(args.due),
+					deadline: args.deadline ?? null,
+					duration: args.duration ?? null,
+					responsible_uid: args.responsible_uid ?? null,
+					...(typeof args.child_order === 'number' ? { child_order: args.child_order } : {}),
+				});
+				this.mapTempId(command, item.id);
+				return;
+			}
+			case 'item_update': {
+				const id = this.requireId('items', args.id);
+				const changes: Record<string, unknown> = {};
+				for (const field of ITEM_UPDATE_FIELDS) {
+					if (field in args) changes[field] = field === 'due' ? toFakeDue(args.due) : args[field];
+				}
+				this.editItem(id, changes);
+				return;
+			}
+			case 'item_move': {
+				const id = this.requireId('items', args.id);
+				if (args.section_id !== undefined) {
+					const sectionId = this.requireId('sections', args.section_id);
+					this.editItem(id, { section_id: sectionId, project_id: this.get('sections', sectionId)?.project_id, parent_id: null });
+				} else if (args.parent_id !== undefined) {
+					const parent = this.get('items', this.requireId('items', args.parent_id));
+					this.editItem(id, { parent_id: parent?.id, project_id: parent?.project_id, section_id: parent?.section_id ?? null });
+				} else {
+					this.editItem(id, { project_id: this.requireId('projects', args.project_id), section_id: null, parent_id: null });
+				}
+				this.moveSubtasks(id);
+				return;
+			}
+			case 'item_close': {
+				const id = this.requireId('items', args.id);
+				const due = this.get('items', id)?.due as { date: string | null; string: string; is_recurring: boolean } | null;
+				if (!due?.is_recurring) {
+					this.completeItem(id);
+					return;
+				}
+				// `every!` counts from the completion date, plain `every` from the current due date
+				const current = due.date ?? todayIso();
+				const next = nextRecurrenceDate(due.string, /^every!/i.test(due.string.trim()) ? todayIso() : current.slice(0, 10));
+				if (next) this.editItem(id, { due: { ...due, date: `${next}${current.slice(10)}` } });
+				return;
+			}
+			case 'item_uncomplete':
+				this.editItem(this.requireId('items', args.id), { checked: false, completed_at: null });
+				return;
+			case 'item_delete':
+				this.deleteItem(this.requireId('items', args.id));
+				return;
+			case 'item_reorder':
+				for (const entry of (args.items ?? []) as Array<{ id: unknown; child_order: unknown }>) {
+					this.editItem(this.requireId('items', entry.id), { child_order: entry.child_order });
+				}
+				return;
+			case 'item_update_day_orders':
+				for (const [id, dayOrder] of Object.entries((args.ids_to_orders ?? {}) as Record<string, unknown>)) {
+					this.editItem(this.requireId('items', id), { day_order: dayOrder });
+				}
+				return;
+			case 'project_add': {
+				const project = this.addProject(toText(args.name), {
+					parent_id: this.resolveId(args.parent_id),
+					...(typeof args.color === 'string' ? { color: args.color } : {}),
+				});
+				this.mapTempId(command, project.id);
+				return;
+			}
+			case 'project_update': {
+				const id = this.requireId('projects', args.id);
+				const changes: Record<string, unknown> = {};
+				for (const field of PROJECT_UPDATE_FIELDS) {
+					if (field in args) changes[field] = args[field];
+				}
+				this.editProject(id, changes);
+				return;
+			}
+			case 'project_move': {
+				const id = this.requireId('projects', args.id);
+				const parentId = args.parent_id === null ? null : this.requireId('projects', args.parent_id);
+				this.editProject(id, { parent_id: parentId });
+				return;
+			}
+			case 'project_archive':
+				this.archiveProject(this.requireId('projects', args.id));
+				return;
+			case 'project_unarchive':
+				this.editProject(this.requireId('projects', args.id), { is_archived: false });
+				return;
+			case 'section_add': {
+				const section = this.addSection(this.requireId('projects', args.project_id), toText(args.name));
+				this.mapTempId(command, section.id);
+				return;
+			}
+			case 'section_update':
+				this.editSection(this.requireId('sections', args.id), { name: toText(args.name) });
+				return;
+			case 'section_move': {
+				const id = this.requireId('sections', args.id);
+				const projectId = this.requireId('projects', args.project_id);
+				this.editSection(id, { project_id: projectId });
+				// The section's tasks move with it
+				for (const item of this.list('items')) {
+					if (item.section_id === id && !item.is_deleted) this.editItem(item.id, { project_id: projectId });
+				}
+				return;
+			}
+			case 'section_archive':
+				this.archiveSection(this.requireId('sections', args.id));
+				return;
+			case 'section_unarchive':
+				this.editSection(this.requireId('sections', args.id), { is_archived: false });
+				return;
+			case 'note_add': {
+				const note = this.addComment(this.requireId('items', args.item_id), toText(args.content));
+				this.mapTempId(command, note.id);
+				return;
+			}
+			case 'reminder_add': {
+				const reminder = this.insert('reminders', {
+					item_id: this.requireId('items', args.item_id),
+					type: args.type ?? 'absolute',
+					due: args.due ?? null,
+					minute_offset: args.minute_offset ?? null,
+					is_deleted: false,
+				});
+				this.mapTempId(command, reminder.id);
+				return;
+			}
+			case 'reminder_delete':
+				this.patch('reminders', this.requireId('reminders', args.id), { is_deleted: true });
+				return;
+			default:
+				throw new Error(`Unsupported command ${command.type}`);
+		}
+	}
+
+	/** Subtasks follow their parent's project and section, as in Todoist. */
+	private moveSubtasks(parentId: string): void {
+		const parent = this.get('items', parentId);
+		for (const item of this.list('items')) {
+			if (item.parent_id === parentId && !item.is_deleted) {
+				this.editItem(item.id, { project_id: parent?.project_id, section_id: parent?.section_id ?? null });
+				this.moveSubtasks(item.id);
+			}
+		}
+	}
+
+	private handleActivities(query: URLSearchParams): Record<string, unknown> {
+		const eventTypes = new Set(JSON.parse(query.get('object_event_types') ?? '[]') as string[]);
+		const count = Number(query.get('count') ?? '50');
+		const results = this.activities
+			.filter((activity) => eventTypes.size === 0 || eventTypes.has(`${activity.object_type}:${activity.event_type}`))
+			.reverse()
+			.slice(0, count);
+		return { results };
+	}
+
+	private handleCompletedTasks(query: URLSearchParams): Record<string, unknown> {
+		const since = query.get('since') ?? '';
+		const until = query.get('until') ?? '';
+		const projectId = query.get('project_id');
+		const limit = Number(query.get('limit') ?? '50');
+		const offset = Number(query.get('cursor') ?? '0');
+		const completed = Array.from(this.table('items').values()).filter((item) =>
+			item.checked
+			&& !item.is_deleted
+			&& typeof item.completed_at === 'string'
+			&& (!since || item.completed_at >= since)
+			&& (!until || item.completed_at <= until)
+			&& (!projectId || item.project_id === projectId),
+		);
+		const page = completed.slice(offset, offset + limit).map((item) => ({ ...item }));
+		return { items: page, next_cursor: offset + limit < completed.length ? String(offset + limit) : null };
+	}
+
+	private table(type: FakeResourceType): Map<string, FakeRecord> {
+		return this.resources.get(type)!;
+	}
+
+	private insert(type: FakeResourceType, fields: Record<string, unknown>): FakeRecord {
+		const record: FakeRecord = { ...fields, id: String(this.nextId++) };
+		this.table(type).set(record.id, record);
+		this.touch(type, record.id);
+		return { ...record };
+	}
+
+	private patch(type: FakeResourceType, id: string, changes: Record<string, unknown>): void {
+		const record = this.table(type).get(id);
+		if (!record) throw new Error(`Unknown ${type} ID ${id}`);
+		Object.assign(record, changes, { id });
+		this.touch(type, id);
+	}
+
+	private touch(type: FakeResourceType, id: string): void {
+		this.version += 1;
+		this.versions.set(`${type}:${id}`, this.version);
+	}
+
+	private logActivity(objectType: string, objectId: string, eventType: string): void {
+		this.activities.push({ object_type: objectType, object_id: objectId, event_type: eventType, event_date: new Date().toISOString() });
+	}
+
+	private mapTempId(command: FakeCommand, id: string): void {
+		if (command.temp_id) this.tempIds.set(command.temp_id, id);
+	}
+
+	/** Resolves a real ID or a temp_id issued earlier; null when absent. */
+	private resolveId(value: unknown): string | null {
+		if (typeof value !== 'string' && typeof value !== 'number') return null;
+		const id = String(value);
+		return this.tempIds.get(id) ?? id;
+	}
+
+	private requireId(type: FakeResourceType, value: unknown): string {
+		const id = this.resolveId(value);
+		if (!id) throw new Error(`Missing ${type} ID`);
+		this.require(type, id);
+		return id;
+	}
+
+	private require(type: FakeResourceType, id: string): void {
+		const record = this.table(type).get(id);
+		if (!record || record.is_deleted) throw new Error(`Unknown ${type} ID ${id}`);
+	}
+}
+
+function respond(status: number, json: unknown, headers?: Record<string, string>): TodoistResponse {
+	return { status, json, headers };
+}
+
+function isResourceType(type: string): type is FakeResourceType {
+	return (RESOURCE_TYPES as readonly string[]).includes(type);
+}
+
+/** Fills in the due fields Todoist derives; only ISO dates are understood. */
+function toFakeDue(value: unknown): Record<string, unknown> | null {
+	if (!value || typeof value !== 'object') return null;
+	const due = value as { date?: unknown; string?: unknown };
+	const dueString = typeof due.string === 'string' ? due.string : '';
+	const isRecurring = /\bevery\b/i.test(dueString);
+	const date = typeof due.date === 'string'
+		? due.date
+		: (/^\d{4}-\d{2}-\d{2}/.test(dueString) ? dueString.slice(0, 10) : null)
+			?? (isRecurring ? nextRecurrenceDate(dueString, todayIso(), true) : null);
+	return {
+		date,
+		string: dueString || date,
+		is_recurring: isRecurring,
+		lang: 'en',
+	};
+}
+
+/**
+ * The first date after `after` (YYYY-MM-DD), or on it with `inclusive`, on
+ * which a recurring due string repeats; never before its "starting" date.
+ * Null when the string is not understood.
+ */
+function nextRecurrenceDate(dueString: string, after: string, inclusive = false): string | null {
+	const rule = parseTodoistRecurrence(dueString, after);
+	if (!rule) return null;
+	const anchor = parseIsoDay(rule.start ?? after);
+	let day = parseIsoDay(after);
+	if (!inclusive) day = new Date(day.getTime() + DAY_MS);
+	if (day < anchor) day = anchor;
+	// Ten years covers every rule the parser produces
+	for (let i = 0; i < 3660; i += 1, day = new Date(day.getTime() + DAY_MS)) {
+		if (matchesRecurrence(rule, anchor, day)) return day.toISOString().slice(0, 10);
+	}
+	return null;
+}
+
+function matchesRecurrence(rule: RecurrenceRule, anchor: Date, day: Date): boolean {
+	const dayOfMonth = day.getUTCDate();
+	const lastDay = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+	const monthDayMatches = (): boolean => rule.byMonthDay.some((value) => value === dayOfMonth || (value < 0 && lastDay + value + 1 === dayOfMonth));
+	const weekdayMatches = (): boolean => rule.byDay.some((code) => {
+		const match = code.match(/^(-?\d+)?([A-Z]{2})$/);
+		if (!match || match[2] !== WEEKDAY_CODES[day.getUTCDay()]) return false;
+		const ordinal = Number(match[1] ?? 0);
+		if (ordinal > 0) return Math.ceil(dayOfMonth / 7) === ordinal;
+		return ordinal === 0 || Math.ceil((lastDay - dayOfMonth + 1) / 7) === -ordinal;
+	});
+	const dayMatches = (): boolean => rule.byMonthDay.length > 0 ? monthDayMatches()
+		: rule.byDay.length > 0 ? weekdayMatches()
+		: dayOfMonth === anchor.getUTCDate();
+	const months = (day.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + day.getUTCMonth() - anchor.getUTCMonth();
+	switch (rule.freq) {
+		case 'HOURLY':
+		case 'DAILY':
+			return Math.round((day.getTime() - anchor.getTime()) / DAY_MS) % rule.interval === 0
+				&& (rule.byDay.length === 0 || weekdayMatches());
+		case 'WEEKLY': {
+			const weekStart = (date: Date) => date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+			const weeks = Math.round((weekStart(day) - weekStart(anchor)) / (7 * DAY_MS));
+			return weeks % rule.interval === 0
+				&& (rule.byDay.length > 0 ? weekdayMatches() : day.getUTCDay() === anchor.getUTCDay());
+		}
+		case 'MONTHLY':
+			return months % rule.interval === 0 && dayMatches();
+		case 'YEARLY':
+			return (day.getUTCFullYear() - anchor.getUTCFullYear()) % rule.interval === 0
+				&& (rule.byMonth.length > 0 ? rule.byMonth.includes(day.getUTCMonth() + 1) : day.getUTCMonth() === anchor.getUTCMonth())
+				&& dayMatches();
+	}
+}
+
+function parseIsoDay(value: string): Date {
+	const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+	return new Date(Date.UTC(year ?? 1970, (month ?? 1) - 1, day ?? 1));
+}
+
+/** Today's local date, YYYY-MM-DD, as Todoist dates are. */
+function todayIso(): string {
+	const now = new Date();
+	const pad = (value: number) => (value < 10 ? `0${value}` : String(value));
+	return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+function toText(value: unknown): string {
+	return typeof value === 'string' ? value : '';
+}
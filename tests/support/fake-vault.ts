@@ -0,0 +1,224 @@
+import { TFile, TFolder, type App, type TAbstractFile } from 'obsidian';
+import { parse, stringify } from 'yaml';
+
+const FRONTMATTER_REGEX = /^---\n([\s\S]*?)\n?---(?:\n|$)/;
+
+interface FakeHeading {
+	heading: string;
+	level: number;
+	position: { start: { line: number; col: number; offset: number }; end: { line: number; col: number; offset: number } };
+}
+
+/**
+ * In-memory vault exposing the slice of {@link App} the sync code calls:
+ * vault reads and writes, frontmatter edits, renames and the metadata cache.
+ * The cache is derived from file content on every call, so it is never stale.
+ */
+export class FakeVault {
+	readonly app: App;
+	private readonly files = new Map<string, TAbstractFile>();
+	private readonly contents = new Map<string, string>();
+	private clock = Date.UTC(2026, 0, 1);
+
+	constructor() {
+		const root = new TFolder();
+		root.path = '/';
+		this.files.set('/', root);
+		const vault = {
+			getName: () => 'Test vault',
+			getAbstractFileByPath: (path: string) => this.files.get(path) ?? null,
+			getMarkdownFiles: () => this.markdownFiles(),
+			create: (path: string, content: string) => Promise.resolve(this.create(path, content)),
+			createFolder: (path: string) => Promise.resolve(this.createFolder(path)),
+			delete: (file: TAbstractFile) => Promise.resolve(this.remove(file)),
+			read: (file: TFile) => Promise.resolve(this.read(file.path)),
+			cachedRead: (file: TFile) => Promise.resolve(this.read(file.path)),
+			modify: (file: TFile, content: string) => Promise.resolve(this.write(file, content)),
+			process: (file: TFile, fn: (content: string) => string) => {
+				const content = fn(this.read(file.path));
+				this.write(file, content);
+				return Promise.resolve(content);
+			},
+			on: () => ({}),
+		};
+		const metadataCache = {
+			getFileCache: (file: TFile) => this.fileCache(file),
+			getFirstLinkpathDest: (linkpath: string) => this.resolveLink(linkpath),
+			on: () => ({}),
+		};
+		const fileManager = {
+			processFrontMatter: (file: TFile, fn: (frontmatter: Record<string, unknown>) => void) => {
+				this.processFrontMatter(file, fn);
+				return Promise.resolve();
+			},
+			renameFile: (file: TAbstractFile, newPath: string) => Promise.resolve(this.rename(file, newPath)),
+		};
+		this.app = { vault, metadataCache, fileManager } as unknown as App;
+	}
+
+	/** Adds a note as if the user had written it. */
+	addNote(path: string, frontmatter: Record<string, unknown>, body = ''): TFile {
+		return this.create(path, `---\n${stringify(frontmatter)}---\n${body}`);
+	}
+
+	getFile(path: string): TFile | null {
+		const file = this.files.get(path);
+		return file instanceof TFile ? file : null;
+	}
+
+	read(path: string): string {
+		const content = this.contents.get(path);
+		if (content === undefined) throw new Error(`File not found: ${path}`);
+		return content;
+	}
+
+	frontmatter(path: string): Record<string, unknown> {
+		return parseFrontmatter(this.read(path)) ?? {};
+	}
+
+	/** Markdown files whose frontmatter has the given property set to the given value. */
+	findNotes(property: string, value: unknown): TFile[] {
+		return this.markdownFiles().filter((file) => this.frontmatter(file.path)[property] === value);
+	}
+
+	/** Sets frontmatter properties as if the user had edited them. */
+	editFrontmatter(path: string, changes: Record<string, unknown>): void {
+		const file = this.getFile(path);
+		if (!file) throw new Error(`File not found: ${path}`);
+		this.processFrontMatter(file, (frontmatter) => Object.assign(frontmatter, changes));
+	}
+
+	markdownFiles(): TFile[] {
+		return Array.from(this.files.values()).filter((file): file is TFile => file instanceof TFile && file.extension === 'md');
+	}
+
+	private create(path: string, content: string): TFile {
+		if (this.files.has(path)) throw new Error('File already exists.');
+		const parent = this.ensureFolder(parentPath(path));
+		const file = new TFile();
+		setPath(file, path);
+		file.parent = parent;
+		parent.children.push(file);
+		this.files.set(path, file);
+		this.write(file, content);
+		file.stat.ctime = file.stat.mtime;
+		return file;
+	}
+
+	private createFolder(path: string): TFolder {
+		if (this.files.has(path)) throw new Error('Folder already exists.');
+		return this.ensureFolder(path);
+	}
+
+	private ensureFolder(path: string): TFolder {
+		const existing = this.files.get(path);
+		if (existing instanceof TFolder) return existing;
+		if (existing) throw new Error(`Not a folder: ${path}`);
+		const parent = this.ensureFolder(parentPath(path));
+		const folder = new TFolder();
+		setPath(folder, path);
+		folder.parent = parent;
+		parent.children.push(folder);
+		this.files.set(path, folder);
+		return folder;
+	}
+
+	private write(file: TFile, content: string): void {
+		this.contents.set(file.path, content);
+		this.clock += 1000;
+		file.stat.mtime = this.clock;
+		file.stat.size = content.length;
+	}
+
+	private remove(file: TAbstractFile): void {
+		if (file instanceof TFolder) {
+			for (const child of [...file.children]) this.remove(child);
+		}
+		this.files.delete(file.path);
+		this.contents.delete(file.path);
+		if (file.parent) file.parent.children = file.parent.children.filter((child) => child !== file);
+	}
+
+	private rename(file: TAbstractFile, newPath: string): void {
+		if (this.files.has(newPath)) throw new Error('Destination file already exists!');
+		const oldPath = file.path;
+		const parent = this.ensureFolder(parentPath(newPath));
+		if (file.parent) file.parent.children = file.parent.children.filter((child) => child !== file);
+		this.files.delete(oldPath);
+		setPath(file, newPath);
+		file.parent = parent;
+		parent.children.push(file);
+		this.files.set(newPath, file);
+		const content = this.contents.get(oldPath);
+		if (content !== undefined) {
+			this.contents.delete(oldPath);
+			this.contents.set(newPath, content);
+		}
+		if (file instanceof TFolder) {
+			for (const child of [...file.children]) {
+				this.files.delete(child.path);
+				const childContent = this.contents.get(child.path);
+				this.contents.delete(child.path);
+				setPath(child, `${newPath}/${child.name}`);
+				this.files.set(child.path, child);
+				if (childContent !== undefined) this.contents.set(child.path, childContent);
+			}
+		}
+	}
+
+	private processFrontMatter(file: TFile, fn: (frontmatter: Record<string, unknown>) => void): void {
+		const content = this.read(file.path);
+		const match = content.match(FRONTMATTER_REGEX);
+		const frontmatter = parseFrontmatter(content) ?? {};
+		fn(frontmatter);
+		const body = match ? content.slice(match[0].length) : content;
+		this.write(file, `---\n${stringify(frontmatter)}---\n${body}`);
+	}
+
+	private fileCache(file: TFile): Record<string, unknown> | null {
+		const content = this.contents.get(file.path);
+		if (content === undefined) return null;
+		const lines = content.split('\n');
+		const headings: FakeHeading[] = [];
+		const listItems: Array<{ task?: string; position: FakeHeading['position'] }> = [];
+		lines.forEach((line, index) => {
+			const position = { start: { line: index, col: 0, offset: 0 }, end: { line: index, col: line.length, offset: 0 } };
+			const heading = line.match(/^(#{1,6})\s+(.*)$/);
+			if (heading) headings.push({ heading: heading[2]!.trim(), level: heading[1]!.length, position });
+			const listItem = line.match(/^\s*[-*+]\s+(?:\[(.)\])?/);
+			if (listItem) listItems.push({ ...(listItem[1] !== undefined ? { task: listItem[1] } : {}), position });
+		});
+		const frontmatter = parseFrontmatter(content);
+		return { ...(frontmatter ? { frontmatter } : {}), headings, listItems };
+	}
+
+	private resolveLink(linkpath: string): TFile | null {
+		const target = linkpath.split('#')[0]!.trim();
+		const byPath = this.getFile(target.endsWith('.md') ? target : `${target}.md`);
+		if (byPath) return byPath;
+		const basename = target.split('/').pop();
+		return this.markdownFiles().find((file) => file.basename === basename) ?? null;
+	}
+}
+
+function parseFrontmatter(content: string): Record<string, unknown> | null {
+	const match = content.match(FRONTMATTER_REGEX);
+	if (!match) return null;
+	const parsed = parse(match[1] ?? '') as unknown;
+	return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : {};
+}
+
+function parentPath(path: string): string {
+	const index = path.lastIndexOf('/');
+	return index <= 0 ? '/' : path.slice(0, index);
+}
+
+function setPath(file: TAbstractFile, path: string): void {
+	file.path = path;
+	file.name = path.split('/').pop() ?? path;
+	if (file instanceof TFile) {
+		const dot = file.name.lastIndexOf('.');
+		file.basename = dot > 0 ? file.name.slice(0, dot) : file.name;
+		file.extension = dot > 0 ? file.name.slice(dot + 1) : '';
+	}
+}
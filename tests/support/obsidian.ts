@@ -0,0 +1,46 @@
+import { parse } from 'yaml';
+
+// Runtime stand-ins for the parts of the obsidian module the sync code uses.
+// Tests are bundled with "obsidian" aliased to this file; types still come from the real package.
+
+export abstract class TAbstractFile {
+	vault: unknown;
+	path = '';
+	name = '';
+	parent: TFolder | null = null;
+}
+
+export class TFile extends TAbstractFile {
+	stat = { ctime: 0, mtime: 0, size: 0 };
+	basename = '';
+	extension = '';
+}
+
+export class TFolder extends TAbstractFile {
+	children: TAbstractFile[] = [];
+
+	isRoot(): boolean {
+		return this.path === '/';
+	}
+}
+
+export class Notice {
+	constructor(readonly message: string) {}
+}
+
+export function normalizePath(path: string): string {
+	const normalized = path
+		.replace(/[\\/]+/g, '/')
+		.replace(/\u00a0|\u202f/g, ' ')
+		.replace(/^\/+|\/+$/g, '')
+		.normalize('NFC');
+	return normalized === '' ? '/' : normalized;
+}
+
+export function parseYaml(text: string): unknown {
+	return parse(text) as unknown;
+}
+
+export function requestUrl(): never {
+	throw new Error('requestUrl is not available in tests; pass a transport such as FakeTodoist.');
+}
@@ -0,0 +1,471 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_PROP_NAMES, DEFAULT_SETTINGS, type TaskTodoistSettings } from '../src/settings';
+import { SyncService, type SyncRunResult } from '../src/sync-service';
+import { addCommentsBlock } from '../src/task-comments';
+import type { TodoistSyncSnapshot } from '../src/todoist-client';
+import type { TodoistRequest, TodoistResponse, TodoistTransport } from '../src/todoist-transport';
+import { FakeTodoist } from './support/fake-todoist';
+import { FakeVault } from './support/fake-vault';
+
+/** One vault and one Todoist account, synced the way the plugin does between runs. */
+class SyncHarness {
+	readonly todoist = new FakeTodoist();
+	readonly vault = new FakeVault();
+	readonly settings: TaskTodoistSettings;
+	/** Sits between the sync and the fake; replace it to tamper with responses. */
+	transport: TodoistTransport = this.todoist;
+	private syncToken: string | null = null;
+	private snapshot: TodoistSyncSnapshot | null = null;
+
+	constructor(settings: Partial<TaskTodoistSettings> = {}) {
+		this.settings = { ...DEFAULT_SETTINGS, propNames: { ...DEFAULT_PROP_NAMES }, disableNotifications: true, ...settings };
+	}
+
+	/** Runs a sync and fails the test when it reports any problem. */
+	async syncCleanly(): Promise<SyncRunResult> {
+		const result = await this.sync();
+		assert.ok(result.ok, result.message);
+		return result;
+	}
+
+	async sync(): Promise<SyncRunResult> {
+		const service = new SyncService(
+			this.vault.app,
+			this.settings,
+			this.todoist.token,
+			this.syncToken,
+			null,
+			this.snapshot,
+			null,
+			this.transport,
+		);
+		const result = await service.runImportSync();
+		if (result.syncToken) {
+			this.syncToken = result.syncToken;
+			this.snapshot = result.snapshot ?? null;
+		}
+		return result;
+	}
+
+	/** Edits a task note the way the plugin records a user edit: the note is marked dirty_local. */
+	editNote(path: string, changes: Record<string, unknown>): void {
+		this.vault.editFrontmatter(path, { ...changes, todoist_sync_status: 'dirty_local', local_updated_at: new Date().toISOString() });
+	}
+
+	/** The note synced with a Todoist task. */
+	noteFor(todoistId: string): { path: string; frontmatter: Record<string, unknown> } {
+		const [file, ...others] = this.vault.findNotes('todoist_id', todoistId);
+		assert.ok(file, `No note for Todoist task ${todoistId}`);
+		assert.equal(others.length, 0, `More than one note for Todoist task ${todoistId}`);
+		return { path: file.path, frontmatter: this.vault.frontmatter(file.path) };
+	}
+}
+
+/** Applies the first request that carries commands, then answers it with an error, like a response lost on the way back. */
+class LostResponseTransport implements TodoistTransport {
+	private lost = false;
+
+	constructor(private readonly backend: TodoistTransport) {}
+
+	async send(request: TodoistRequest): Promise<TodoistResponse> {
+		const response = await this.backend.send(request);
+		if (!this.lost && request.form?.commands) {
+			this.lost = true;
+			return { status: 400, json: { error: 'Response lost' } };
+		}
+		return response;
+	}
+}
+
+describe('sync against the fake Todoist backend', () => {
+	it('creates a Todoist task for a new local task note', async () => {
+		const harness = new SyncHarness();
+		harness.vault.addNote('Tasks/Buy milk.md', {
+			task_title: 'Buy milk',
+			task_status: 'open',
+			todoist_sync: true,
+			todoist_priority: 3,
+		});
+
+		await harness.syncCleanly();
+
+		const [item, ...others] = harness.todoist.list('items');
+		assert.ok(item);
+		assert.equal(others.length, 0);
+		assert.equal(item.content, 'Buy milk');
+		assert.equal(item.priority, 3);
+		const note = harness.noteFor(item.id);
+		assert.equal(note.path, 'Tasks/Buy milk.md');
+		assert.equal(note.frontmatter.todoist_sync_status, 'synced');
+		assert.equal(note.frontmatter.todoist_pending_id, undefined);
+
+		// A second run neither creates the task again nor changes it
+		await harness.syncCleanly();
+		assert.equal(harness.todoist.list('items').length, 1);
+	});
+
+	it('creates a task linked to a new parent note as its subtask', async () => {
+		const harness = new SyncHarness();
+		// The child is listed first, so the parent's create has to be moved ahead of it
+		harness.vault.addNote('Tasks/Pack bags.md', { task_title: 'Pack bags', task_status: 'open', todoist_sync: true, parent_task: '[[Trip]]' });
+		harness.vault.addNote('Tasks/Trip.md', { task_title: 'Trip', task_status: 'open', todoist_sync: true });
+
+		await harness.syncCleanly();
+
+		const parent = harness.todoist.list('items').find((item) => item.content === 'Trip');
+		const child = harness.todoist.list('items').find((item) => item.content === 'Pack bags');
+		assert.ok(parent && child);
+		assert.equal(child.parent_id, parent.id);
+		assert.equal(harness.noteFor(child.id).frontmatter.todoist_parent_id, parent.id);
+
+		await harness.syncCleanly();
+
+		const note = harness.noteFor(child.id).frontmatter;
+		assert.equal(note.todoist_parent_id, parent.id);
+		assert.equal(note.parent_task, '[[Tasks/Trip|Trip]]');
+	});
+
+	it('creates a task linked to a synced parent note as its subtask', async () => {
+		const harness = new SyncHarness();
+		harness.vault.addNote('Tasks/Trip.md', { task_title: 'Trip', task_status: 'open', todoist_sync: true });
+		await harness.syncCleanly();
+		harness.vault.addNote('Tasks/Book hotel.md', { task_title: 'Book hotel', task_status: 'open', todoist_sync: true, parent_task: '[[Trip]]' });
+
+		await harness.syncCleanly();
+
+		const parent = harness.todoist.list('items').find((item) => item.content === 'Trip');
+		const child = harness.todoist.list('items').find((item) => item.content === 'Book hotel');
+		assert.ok(parent && child);
+		assert.equal(child.parent_id, parent.id);
+	});
+
+	it('keeps both sides of non-overlapping edits', async () => {
+		const harness = new SyncHarness();
+		const item = harness.todoist.addItem('Write report', { labels: ['obsidian'], priority: 1 });
+		await harness.syncCleanly();
+		const { path } = harness.noteFor(item.id);
+
+		harness.editNote(path, { todoist_priority: 4 });
+		harness.todoist.editItem(item.id, { content: 'Write quarterly report' });
+		await harness.syncCleanly();
+
+		const remote = harness.todoist.get('items', item.id);
+		assert.equal(remote?.content, 'Write quarterly report');
+		assert.equal(remote?.priority, 4);
+		const note = harness.noteFor(item.id);
+		assert.equal(note.frontmatter.task_title, 'Write quarterly report');
+		assert.equal(note.frontmatter.todoist_priority, 4);
+	});
+
+	it('resolves a conflicting edit in favour of the note by default', async () => {
+		const harness = new SyncHarness();
+		const item = harness.todoist.addItem('Write report', { labels: ['obsidian'] });
+		await harness.syncCleanly();
+		const { path } = harness.noteFor(item.id);
+
+		harness.editNote(path, { task_title: 'Write the report (local)' });
+		harness.todoist.editItem(item.id, { content: 'Write the report (remote)' });
+		const result = await harness.sync();
+
+		assert.match(result.phaseErrors?.join('\n') ?? '', /title changed in both places; kept the note value/);
+		assert.equal(harness.todoist.get('items', item.id)?.content, 'Write the report (local)');
+		assert.equal(harness.noteFor(item.id).frontmatter.task_title, 'Write the report (local)');
+	});
+
+	it('holds a conflicting edit for review in manual mode', async () => {
+		const harness = new SyncHarness({ conflictResolution: 'manual' });
+		const item = harness.todoist.addItem('Write report', { labels: ['obsidian'] });
+		await harness.syncCleanly();
+		const { path } = harness.noteFor(item.id);
+
+		harness.editNote(path, { task_title: 'Write the report (local)' });
+		harness.todoist.editItem(item.id, { content: 'Write the report (remote)' });
+		const result = await harness.sync();
+
+		assert.match(result.phaseErrors?.join('\n') ?? '', /title changed in both places; resolve it/);
+		assert.equal(harness.todoist.get('items', item.id)?.content, 'Write the report (remote)');
+		const note = harness.noteFor(item.id);
+		assert.equal(note.frontmatter.task_title, 'Write the report (local)');
+		assert.ok(note.frontmatter.todoist_sync_conflict, 'Expected the note to record the conflict');
+	});
+
+	it('marks the note when its task is deleted in Todoist', async () => {
+		const harness = new SyncHarness();
+		const item = harness.todoist.addItem('Old errand', { labels: ['obsidian'] });
+		await harness.syncCleanly();
+
+		harness.todoist.deleteItem(item.id);
+		await harness.syncCleanly();
+
+		const note = harness.noteFor(item.id);
+		assert.equal(note.frontmatter.todoist_is_deleted, true);
+	});
+
+	it('removes the note when its task is deleted and the delete mode is set', async () => {
+		const harness = new SyncHarness({ deletedTaskMode: 'delete' });
+		const item = harness.todoist.addItem('Old errand', { labels: ['obsidian'] });
+		await harness.syncCleanly();
+		const { path } = harness.noteFor(item.id);
+
+		harness.todoist.deleteItem(item.id);
+		await harness.syncCleanly();
+
+		assert.equal(harness.vault.getFile(path), null);
+	});
+
+	it('moves the project note to the archive folder when the project is archived', async () => {
+		const harness = new SyncHarness({ createProjectNotes: true, projectNotesFolderPath: 'Projects' });
+		const project = harness.todoist.addProject('Garden');
+		harness.todoist.addItem('Plant tulips', { labels: ['obsidian'], project_id: project.id });
+		await harness.syncCleanly();
+		assert.ok(harness.vault.getFile('Projects/Garden.md'));
+
+		harness.todoist.archiveProject(project.id);
+		await harness.syncCleanly();
+
+		assert.equal(harness.vault.getFile('Projects/Garden.md'), null);
+		const archived = harness.vault.frontmatter('Projects/_archive/Garden.md');
+		assert.equal(archived.todoist_project_archived, true);
+	});
+
+	it('updates the note title when the task is renamed in Todoist', async () => {
+		const harness = new SyncHarness({ autoRenameTaskFiles: true });
+		const item = harness.todoist.addItem('Call the plumber', { labels: ['obsidian'] });
+		await harness.syncCleanly();
+
+		harness.todoist.editItem(item.id, { content: 'Call the electrician' });
+		await harness.syncCleanly();
+
+		const note = harness.noteFor(item.id);
+		assert.equal(note.frontmatter.task_title, 'Call the electrician');
+		assert.equal(note.path, 'Tasks/Call the electrician.md');
+	});
+
+	it('renames the project note when the project is renamed in Todoist', async () => {
+		const harness = new SyncHarness({ createProjectNotes: true, projectNotesFolderPath: 'Projects' });
+		const project = harness.todoist.addProject('Garden');
+		harness.todoist.addItem('Plant tulips', { labels: ['obsidian'], project_id: project.id });
+		await harness.syncCleanly();
+
+		harness.todoist.editProject(project.id, { name: 'Backyard' });
+		await harness.syncCleanly();
+
+		assert.equal(harness.vault.getFile('Projects/Garden.md'), null);
+		assert.ok(harness.vault.getFile('Projects/Backyard.md'));
+	});
+
+	it('pushes a title edited in the note', async () => {
+		const harness = new SyncHarness();
+		const item = harness.todoist.addItem('Call the plumber', { labels: ['obsidian'] });
+		await harness.syncCleanly();
+		const { path } = harness.noteFor(item.id);
+
+		harness.editNote(path, { task_title: 'Call the plumber back' });
+		await harness.syncCleanly();
+
+		assert.equal(harness.todoist.get('items', item.id)?.content, 'Call the plumber back');
+	});
+
+	it('leaves a hand-written comments section alone', async () => {
+		const harness = new SyncHarness({ syncComments: true });
+		const item = harness.todoist.addItem('Plan trip', { labels: ['obsidian'] });
+		await harness.syncCleanly();
+		const { path } = harness.noteFor(item.id);
+		const file = harness.vault.getFile(path);
+		assert.ok(file);
+		await harness.vault.app.vault.modify(file, `${harness.vault.read(path)}\n## Comments\n\n- my own notes\n`);
+
+		await harness.syncCleanly();
+
+		assert.equal(harness.todoist.list('notes').length, 0);
+		const content = harness.vault.read(path);
+		assert.ok(content.endsWith('\n## Comments\n\n- my own notes\n'), content);
+		assert.ok(!content.includes('todoist-comments'), content);
+	});
+
+	it('posts comments written in the managed block', async () => {
+		const harness = new SyncHarness({ syncComments: true });
+		const item = harness.todoist.addItem('Plan trip', { labels: ['obsidian'] });
+		await harness.syncCleanly();
+		const { path } = harness.noteFor(item.id);
+		const file = harness.vault.getFile(path);
+		assert.ok(file);
+		assert.ok(await addCommentsBlock(harness.vault.app, file));
+		const content = harness.vault.read(path).replace('<!-- /todoist-comments -->', '- Booked the hotel\n<!-- /todoist-comments -->');
+		await harness.vault.app.vault.modify(file, content);
+
+		await harness.syncCleanly();
+
+		const [comment, ...others] = harness.todoist.list('notes');
+		assert.equal(comment?.content, 'Booked the hotel');
+		assert.equal(others.length, 0);
+		assert.match(harness.vault.read(path), new RegExp(`Booked the hotel <!-- id:${comment?.id ?? ''} -->`));
+	});
+
+	it('replays a create whose response was lost without duplicating it', async () => {
+		const harness = new SyncHarness();
+		harness.vault.addNote('Tasks/Renew passport.md', { task_title: 'Renew passport', task_status: 'open', todoist_sync: true });
+		harness.transport = new LostResponseTransport(harness.todoist);
+
+		const first = await harness.sync();
+		assert.equal(first.ok, false);
+		assert.equal(harness.todoist.list('items').length, 1);
+		const pendingId = harness.vault.frontmatter('Tasks/Renew passport.md').todoist_pending_id;
+		assert.equal(typeof pendingId, 'string');
+
+		await harness.syncCleanly();
+
+		const [item, ...others] = harness.todoist.list('items');
+		assert.ok(item);
+		assert.equal(others.length, 0);
+		const note = harness.noteFor(item.id);
+		assert.equal(note.path, 'Tasks/Renew passport.md');
+		assert.equal(note.frontmatter.todoist_pending_id, undefined);
+	});
+
+	it('sends a rejected create afresh once the note is fixed', async () => {
+		const harness = new SyncHarness();
+		const path = 'Tasks/Water plants.md';
+		harness.vault.addNote(path, { task_title: 'Water plants', task_status: 'open', todoist_sync: true, todoist_project_id: '999' });
+
+		const first = await harness.sync();
+		assert.equal(first.ok, false);
+		assert.equal(harness.todoist.list('items').length, 0);
+		assert.equal(harness.vault.frontmatter(path).todoist_pending_id, undefined);
+
+		harness.vault.editFrontmatter(path, { todoist_project_id: harness.todoist.inboxProjectId });
+		await harness.syncCleanly();
+
+		const [item] = harness.todoist.list('items');
+		assert.ok(item);
+		assert.equal(harness.noteFor(item.id).path, path);
+	});
+
+	it('replays a checklist subtask create whose response was lost without duplicating it', async () => {
+		const harness = new SyncHarness({ syncChecklistSubtasks: true });
+		const item = harness.todoist.addItem('Plan trip', { labels: ['obsidian'] });
+		await harness.syncCleanly();
+		const { path } = harness.noteFor(item.id);
+		const file = harness.vault.getFile(path);
+		assert.ok(file);
+		await harness.vault.app.vault.modify(file, `${harness.vault.read(path)}\n- [ ] Sub one\n`);
+		harness.transport = new LostResponseTransport(harness.todoist);
+
+		const first = await harness.sync();
+		assert.equal(first.ok, false);
+		assert.match(harness.vault.read(path), /- \[ \] Sub one <!-- subtask:pending:[^\s>]+ -->/);
+
+		await harness.syncCleanly();
+
+		const subtasks = harness.todoist.list('items').filter((candidate) => candidate.content === 'Sub one');
+		assert.equal(subtasks.length, 1);
+		assert.equal(subtasks[0]?.parent_id, item.id);
+		assert.match(harness.vault.read(path), new RegExp(`- \\[ \\] Sub one <!-- subtask:${subtasks[0]?.id ?? ''} -->`));
+	});
+
+	it('replays a section create whose response was lost without duplicating it', async () => {
+		const harness = new SyncHarness();
+		const project = harness.todoist.addProject('Work');
+		await harness.syncCleanly();
+		const path = 'Tasks/Work/Review.md';
+		harness.vault.addNote(path, { todoist_section_id: '', todoist_section_name: 'Review', todoist_project_id: project.id });
+		harness.transport = new LostResponseTransport(harness.todoist);
+
+		const first = await harness.sync();
+		assert.equal(first.ok, false);
+		assert.equal(typeof harness.vault.frontmatter(path).todoist_pending_id, 'string');
+
+		await harness.syncCleanly();
+
+		const [section, ...others] = harness.todoist.list('sections').filter((candidate) => candidate.name === 'Review');
+		assert.ok(section);
+		assert.equal(others.length, 0);
+		assert.deepEqual(harness.vault.findNotes('todoist_section_id', section.id).map((file) => file.path), [path]);
+		assert.equal(harness.vault.frontmatter(path).todoist_pending_id, undefined);
+	});
+
+	it('replays a comment whose response was lost without posting it twice', async () => {
+		const harness = new SyncHarness({ syncComments: true });
+		const item = harness.todoist.addItem('Plan trip', { labels: ['obsidian'] });
+		await harness.syncCleanly();
+		const { path } = harness.noteFor(item.id);
+		const file = harness.vault.getFile(path);
+		assert.ok(file);
+		assert.ok(await addCommentsBlock(harness.vault.app, file));
+		const content = harness.vault.read(path).replace('<!-- /todoist-comments -->', '- Booked the hotel\n<!-- /todoist-comments -->');
+		await harness.vault.app.vault.modify(file, content);
+		harness.transport = new LostResponseTransport(harness.todoist);
+
+		const first = await harness.sync();
+		assert.equal(first.ok, false);
+		assert.match(harness.vault.read(path), /Booked the hotel <!-- id:pending:[^\s>]+ -->/);
+
+		await harness.syncCleanly();
+
+		const [comment, ...others] = harness.todoist.list('notes');
+		assert.equal(comment?.content, 'Booked the hotel');
+		assert.equal(others.length, 0);
+		assert.equal(harness.vault.read(path).match(/Booked the hotel/g)?.length, 1);
+		assert.match(harness.vault.read(path), new RegExp(`Booked the hotel <!-- id:${comment?.id ?? ''} -->`));
+	});
+
+	it('closes the current instance of a recurring task listed in complete_instances', async () => {
+		const harness = new SyncHarness();
+		const item = harness.todoist.addItem('Water plants', {
+			labels: ['obsidian'],
+			due: { date: '2026-10-23', string: 'every friday', is_recurring: true, lang: 'en' },
+		});
+		await harness.syncCleanly();
+		const { path } = harness.noteFor(item.id);
+		assert.equal(harness.vault.frontmatter(path).recurrence, 'DTSTART:20261023;FREQ=WEEKLY;BYDAY=FR');
+
+		harness.editNote(path, { complete_instances: ['2026-10-23'] });
+		await harness.syncCleanly();
+
+		const remote = harness.todoist.get('items', item.id);
+		assert.equal(remote?.checked, false);
+		assert.equal((remote?.due as { date: string }).date, '2026-10-30');
+		const frontmatter = harness.vault.frontmatter(path);
+		assert.equal(frontmatter.todoist_due, '2026-10-30');
+		assert.deepEqual(frontmatter.complete_instances, ['2026-10-23']);
+		assert.equal(frontmatter.recurrence, 'DTSTART:20261023;FREQ=WEEKLY;BYDAY=FR');
+	});
+
+	it('pushes an edited recurrence as a due string and keeps its DTSTART', async () => {
+		const harness = new SyncHarness();
+		const item = harness.todoist.addItem('Water plants', {
+			labels: ['obsidian'],
+			due: { date: '2026-10-23', string: 'every friday', is_recurring: true, lang: 'en' },
+		});
+		await harness.syncCleanly();
+		const { path } = harness.noteFor(item.id);
+
+		harness.editNote(path, { recurrence: 'DTSTART:20261023;FREQ=WEEKLY;INTERVAL=2;BYDAY=FR' });
+		await harness.syncCleanly();
+
+		const due = harness.todoist.get('items', item.id)?.due as { date: string | null; string: string };
+		assert.equal(due.string, 'every other friday starting 2026-10-23');
+		assert.ok(due.date);
+		assert.equal(new Date(`${due.date}T00:00:00Z`).getUTCDay(), 5);
+
+		await harness.syncCleanly();
+
+		const frontmatter = harness.vault.frontmatter(path);
+		assert.equal(frontmatter.recurrence, 'DTSTART:20261023;FREQ=WEEKLY;INTERVAL=2;BYDAY=FR');
+		assert.equal(frontmatter.todoist_due, due.date);
+	});
+
+	it('creates a section for a new section note in a project task folder', async () => {
+		const harness = new SyncHarness({ useProjectSubfolders: true });
+		const project = harness.todoist.addProject('Work');
+		await harness.syncCleanly();
+		harness.vault.addNote('Tasks/Work/Review.md', { todoist_section_id: '', todoist_section_name: 'Review' });
+
+		await harness.syncCleanly();
+
+		const [section] = harness.todoist.list('sections').filter((candidate) => candidate.name === 'Review');
+		assert.equal(section?.project_id, project.id);
+		assert.equal(harness.vault.frontmatter('Tasks/Work/Review.md').todoist_section_id, section?.id);
+	});
+});
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+	buildRecurrenceString,
+	parseTodoistRecurrence,
+	recurrenceRuleKey,
+	recurrenceToDueString,
+} from '../src/todoist-rrule';
+
+const DUE_DATE = '2026-10-23';
+
+describe('buildRecurrenceString', () => {
+	const cases: Array<[string, string]> = [
+		['every day', 'DTSTART:20261023;FREQ=DAILY;INTERVAL=1'],
+		['every 3 days', 'DTSTART:20261023;FREQ=DAILY;INTERVAL=3'],
+		['every friday', 'DTSTART:20261023;FREQ=WEEKLY;BYDAY=FR'],
+		['every other friday', 'DTSTART:20261023;FREQ=WEEKLY;INTERVAL=2;BYDAY=FR'],
+		['every week on friday', 'DTSTART:20261023;FREQ=WEEKLY;BYDAY=FR'],
+		['every other week on friday', 'DTSTART:20261023;FREQ=WEEKLY;INTERVAL=2;BYDAY=FR'],
+		['every 2 weeks on mon and thu', 'DTSTART:20261023;FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH'],
+		['every weekday at 9am', 'DTSTART:20261023T090000;FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'],
+		['every afternoon', 'DTSTART:20261023T120000;FREQ=DAILY;INTERVAL=1'],
+		['every last day', 'DTSTART:20261023;FREQ=MONTHLY;BYMONTHDAY=-1'],
+		['every month on the last day', 'DTSTART:20261023;FREQ=MONTHLY;BYMONTHDAY=-1'],
+		['every other month on the 15th', 'DTSTART:20261023;FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=15'],
+		['every 3 months on the last friday', 'DTSTART:20261023;FREQ=MONTHLY;INTERVAL=3;BYDAY=-1FR'],
+		['every 2nd tuesday', 'DTSTART:20261023;FREQ=MONTHLY;BYDAY=2TU'],
+		['every jan 1', 'DTSTART:20261023;FREQ=YEARLY;BYMONTH=1;BYMONTHDAY=1'],
+	];
+	for (const [dueString, expected] of cases) {
+		it(`converts "${dueString}"`, () => {
+			assert.equal(buildRecurrenceString(dueString, DUE_DATE), expected);
+		});
+	}
+
+	it('returns null for patterns it does not understand', () => {
+		assert.equal(buildRecurrenceString('every other week on someday', DUE_DATE), null);
+		assert.equal(buildRecurrenceString('every month on the blue moon', DUE_DATE), null);
+		assert.equal(buildRecurrenceString('tomorrow', DUE_DATE), null);
+	});
+});
+
+describe('recurrenceToDueString', () => {
+	it('describes interval weekday and last-day rules', () => {
+		assert.equal(recurrenceToDueString('DTSTART:20261023;FREQ=WEEKLY;INTERVAL=2;BYDAY=FR'), 'every other friday starting 2026-10-23');
+		assert.equal(recurrenceToDueString('DTSTART:20261023;FREQ=WEEKLY;INTERVAL=3;BYDAY=FR'), 'every 3 weeks on friday starting 2026-10-23');
+		assert.equal(recurrenceToDueString('DTSTART:20261031;FREQ=MONTHLY;BYMONTHDAY=-1'), 'every last day');
+		assert.equal(
+			recurrenceToDueString('DTSTART:20261031;FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=-1'),
+			'every 2 months on the last day starting 2026-10-31',
+		);
+	});
+
+	it('returns null for rules Todoist cannot express', () => {
+		assert.equal(recurrenceToDueString('DTSTART:20261023;FREQ=MONTHLY;BYDAY=1MO,3MO'), null);
+		assert.equal(recurrenceToDueString('DTSTART:20261023;FREQ=YEARLY;BYMONTH=1,6;BYMONTHDAY=1'), null);
+	});
+
+	// Todoist → TaskNotes → Todoist keeps the rule
+	const roundTrips = [
+		'every friday',
+		'every other week on friday',
+		'every 2 weeks on mon and thu',
+		'every month on the last day',
+		'every other month on the last day',
+		'every 3 months on the 1st monday',
+		'every 15th',
+		'every weekday',
+		'every! 2 days at 18:30',
+		'every jan 1',
+	];
+	for (const dueString of roundTrips) {
+		it(`round-trips "${dueString}"`, () => {
+			const recurrence = buildRecurrenceString(dueString, DUE_DATE);
+			assert.ok(recurrence, `"${dueString}" was not converted`);
+			const fromCompletion = dueString.startsWith('every!');
+			const back = recurrenceToDueString(recurrence, { fromCompletion });
+			assert.ok(back, `${recurrence} was not converted back`);
+			assert.equal(buildRecurrenceString(back, DUE_DATE), recurrence);
+			assert.equal(parseTodoistRecurrence(back, DUE_DATE)?.fromCompletion, fromCompletion);
+			assert.equal(recurrenceRuleKey(recurrence), recurrenceRuleKey(buildRecurrenceString(back, DUE_DATE) ?? ''));
+		});
+	}
+});